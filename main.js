@@ -27,6 +27,8 @@ __export(main_exports, {
 });
 module.exports = __toCommonJS(main_exports);
 var import_obsidian = require("obsidian");
+var import_state = require("@codemirror/state");
+var import_view = require("@codemirror/view");
 var DEFAULT_SETTINGS = {
   apiKey: "",
   model: "claude-sonnet-4-5-20250929",
@@ -40,206 +42,1787 @@ var DEFAULT_SETTINGS = {
   // Keep last 20 messages max
   enableSmartPruning: true,
   // Enable smart pruning by default
-  savedConversations: [],
-  // No saved conversations initially
+  summaryModel: "claude-haiku-4-5-20251001",
+  // Fast and cheap; summaries don't need a bigger model
+  thinkingByDefault: false,
+  // Thinking adds latency and output tokens, so it is opt-in
+  thinkingBudgetTokens: 8e3,
+  translateLanguage: "English",
+  promptFolder: "Claude Prompts",
+  instructionFileName: "_claude.md",
+  profiles: [
+    // Examples; edit or remove them in settings
+    {
+      id: "editor",
+      name: "Editor",
+      systemPrompt: "You are a careful copy editor. Make the smallest edits that do the job, with replace_in_file. Reply tersely: say what you changed in a sentence or two.",
+      model: "claude-haiku-4-5-20251001",
+      maxTokens: 4096,
+      tools: ["read_file", "search_in_file", "get_file_info", "read_lines", "read_section", "read_block", "get_headings", "replace_in_file"],
+      temperature: 0.3
+    },
+    {
+      id: "researcher",
+      name: "Researcher",
+      systemPrompt: "You are a research assistant. Read widely across the vault before answering, cite the notes you draw on as [[wikilinks]], and point out gaps or contradictions. Never change files.",
+      model: "claude-opus-4-1-20250805",
+      maxTokens: 8e3,
+      tools: ["read_file", "search_in_file", "get_file_info", "read_lines", "read_section", "read_block", "get_headings", "list_files", "list_folder_tree", "search_vault", "retrieve_context", "get_frontmatter", "find_by_tag", "get_backlinks", "get_outgoing_links"]
+    }
+  ],
+  defaultProfileId: "",
+  conversationFolder: "",
+  // Stored alongside the plugin by default
   currentConversationId: "",
   // No active conversation initially
-  autoSaveConversations: true
+  autoSaveConversations: true,
   // Auto-save enabled by default
+  enableStreaming: true,
+  // Stream responses by default
+  toolPermissions: {
+    // Ask before anything that changes or removes existing content
+    write_file: "ask",
+    replace_in_file: "ask",
+    delete_file: "ask",
+    rename_file: "ask",
+    copy_file: "allow"
+  },
+  enableRetrievalIndex: true,
+  // Index note sections locally for retrieve_context
+  autoRetrieve: false,
+  // Attach whole notes unless auto-retrieve is turned on
+  retrievalTopK: 5,
+  // Excerpts per message in auto-retrieve mode
+  modelPrices: {
+    // Anthropic list prices at the time of writing
+    "claude-opus-4": { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+    "claude-sonnet-4": { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+    "claude-haiku-4-5": { input: 1, output: 5, cacheWrite: 1.25, cacheRead: 0.1 },
+    "claude-3-7-sonnet": { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+    "claude-3-5-haiku": { input: 0.8, output: 4, cacheWrite: 1, cacheRead: 0.08 },
+    "claude-3-haiku": { input: 0.25, output: 1.25, cacheWrite: 0.3, cacheRead: 0.03 }
+  },
+  retryPolicy: {
+    // Rate limits, server errors and overload are usually transient
+    retryStatuses: [429, 500, 502, 503, 504, 529],
+    retryNetworkErrors: true,
+    maxAttempts: 4,
+    baseDelayMs: 1e3,
+    maxDelayMs: 3e4,
+    deadlineMs: 12e4
+  }
+};
+function computeLineDiff(oldText, newText) {
+  const oldLines = oldText.length > 0 ? oldText.split("\n") : [];
+  const newLines = newText.length > 0 ? newText.split("\n") : [];
+  let prefix = 0;
+  while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (suffix < oldLines.length - prefix && suffix < newLines.length - prefix && oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]) {
+    suffix++;
+  }
+  const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix);
+  const newMiddle = newLines.slice(prefix, newLines.length - suffix);
+  const middle = [];
+  if (oldMiddle.length * newMiddle.length > 4e6) {
+    oldMiddle.forEach((text) => middle.push({ type: "remove", text }));
+    newMiddle.forEach((text) => middle.push({ type: "add", text }));
+  } else {
+    const lcs = [];
+    for (let i2 = oldMiddle.length; i2 >= 0; i2--) {
+      lcs[i2] = [];
+      for (let j2 = newMiddle.length; j2 >= 0; j2--) {
+        if (i2 === oldMiddle.length || j2 === newMiddle.length) {
+          lcs[i2][j2] = 0;
+        } else if (oldMiddle[i2] === newMiddle[j2]) {
+          lcs[i2][j2] = lcs[i2 + 1][j2 + 1] + 1;
+        } else {
+          lcs[i2][j2] = Math.max(lcs[i2 + 1][j2], lcs[i2][j2 + 1]);
+        }
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < oldMiddle.length && j < newMiddle.length) {
+      if (oldMiddle[i] === newMiddle[j]) {
+        middle.push({ type: "context", text: oldMiddle[i] });
+        i++;
+        j++;
+      } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+        middle.push({ type: "remove", text: oldMiddle[i++] });
+      } else {
+        middle.push({ type: "add", text: newMiddle[j++] });
+      }
+    }
+    while (i < oldMiddle.length)
+      middle.push({ type: "remove", text: oldMiddle[i++] });
+    while (j < newMiddle.length)
+      middle.push({ type: "add", text: newMiddle[j++] });
+  }
+  return [
+    ...oldLines.slice(0, prefix).map((text) => ({ type: "context", text })),
+    ...middle,
+    ...oldLines.slice(oldLines.length - suffix).map((text) => ({ type: "context", text }))
+  ];
+}
+function formatUnifiedDiff(path, oldText, newText, contextLines = 3) {
+  const lines = computeLineDiff(oldText, newText);
+  const changed = lines.map((line, index) => line.type !== "context" ? index : -1).filter((index) => index >= 0);
+  let output = `--- a/${path}
++++ b/${path}
+`;
+  if (changed.length === 0) {
+    return output + "(no changes)";
+  }
+  const hunks = [];
+  for (const index of changed) {
+    const start = Math.max(0, index - contextLines);
+    const end = Math.min(lines.length - 1, index + contextLines);
+    const last = hunks[hunks.length - 1];
+    if (last && start <= last.end + 1) {
+      last.end = end;
+    } else {
+      hunks.push({ start, end });
+    }
+  }
+  for (const hunk of hunks) {
+    let oldStart = 1;
+    let newStart = 1;
+    for (let k = 0; k < hunk.start; k++) {
+      if (lines[k].type !== "add")
+        oldStart++;
+      if (lines[k].type !== "remove")
+        newStart++;
+    }
+    const hunkLines = lines.slice(hunk.start, hunk.end + 1);
+    const oldCount = hunkLines.filter((line) => line.type !== "add").length;
+    const newCount = hunkLines.filter((line) => line.type !== "remove").length;
+    output += `@@ -${oldCount === 0 ? oldStart - 1 : oldStart},${oldCount} +${newCount === 0 ? newStart - 1 : newStart},${newCount} @@
+`;
+    for (const line of hunkLines) {
+      const marker = line.type === "add" ? "+" : line.type === "remove" ? "-" : " ";
+      output += `${marker}${line.text}
+`;
+    }
+  }
+  return output.trimEnd();
+}
+var ToolInputError = class extends Error {
+  constructor(message) {
+    super(message);
+    this.name = "ToolInputError";
+  }
+};
+var ClaudeApiError = class extends Error {
+  // How many attempts were made before giving up
+  constructor(status, errorType, detail, retryAfter = null) {
+    super(`Claude API Error (${status}) [${errorType}]${retryAfter !== null ? ` (Retry after: ${retryAfter}s)` : ""}: ${detail}`);
+    // The API's own error message
+    this.attempts = 1;
+    this.name = "ClaudeApiError";
+    this.status = status;
+    this.errorType = errorType;
+    this.retryAfter = retryAfter;
+    this.detail = detail;
+  }
+  // Short label for status lines, e.g. "Rate limited (429)"
+  get label() {
+    if (this.status === 0)
+      return "Connection failed";
+    if (this.status === 429)
+      return "Rate limited (429)";
+    if (this.status === 529)
+      return "API overloaded (529)";
+    if (this.status >= 500)
+      return `Server error (${this.status})`;
+    return `Request failed (${this.status})`;
+  }
+  // Stream error events carry only a type; map it to the status the API would have returned
+  static fromStreamError(errorType, detail) {
+    const statuses = {
+      invalid_request_error: 400,
+      authentication_error: 401,
+      permission_error: 403,
+      rate_limit_error: 429,
+      api_error: 500,
+      overloaded_error: 529
+    };
+    return new ClaudeApiError(statuses[errorType] || 500, errorType, detail);
+  }
+};
+function computeRetryDelay(attempt, policy, retryAfter) {
+  if (retryAfter !== null) {
+    return retryAfter * 1e3;
+  }
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(2, attempt - 1));
+  return Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+}
+function parseMarkdownSections(lines) {
+  const sections = [];
+  const trail = [];
+  let inFence = false;
+  let start = 0;
+  if (lines[0] === "---") {
+    const end = lines.indexOf("---", 1);
+    if (end > 0)
+      start = end + 1;
+  }
+  for (let i = start; i < lines.length; i++) {
+    if (/^\s*(```|~~~)/.test(lines[i])) {
+      inFence = !inFence;
+      continue;
+    }
+    if (inFence)
+      continue;
+    const match = lines[i].match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+    if (!match)
+      continue;
+    const level = match[1].length;
+    trail.length = level - 1;
+    trail[level - 1] = match[2];
+    sections.push({ heading: match[2], level, trail: trail.filter((h) => h !== void 0), startLine: i, endLine: lines.length });
+  }
+  sections.forEach((section, index) => {
+    const next = sections.slice(index + 1).find((other) => other.level <= section.level);
+    if (next)
+      section.endLine = next.startLine;
+  });
+  return sections;
+}
+function findSection(lines, heading) {
+  const normalize = (text) => text.replace(/^#+\s*/, "").trim().toLowerCase();
+  const wanted = heading.split(">").map(normalize).filter((part) => part);
+  if (wanted.length === 0) {
+    throw new ToolInputError("Heading must not be empty");
+  }
+  const sections = parseMarkdownSections(lines);
+  const matches = sections.filter((section) => {
+    const trail = section.trail.map(normalize);
+    return wanted.every((part, index) => trail[trail.length - wanted.length + index] === part);
+  });
+  if (matches.length === 0) {
+    const available = sections.map((section) => `${"#".repeat(section.level)} ${section.heading}`).join(", ");
+    throw new ToolInputError(`Heading not found: "${heading}". Available headings: ${available || "(none)"}`);
+  }
+  if (matches.length > 1) {
+    const options = matches.map((section) => `"${section.trail.join(" > ")}" (line ${section.startLine + 1})`).join(", ");
+    throw new ToolInputError(`Heading "${heading}" is ambiguous - it matches ${matches.length} sections: ${options}. Use a "Parent > Child" path to pick one.`);
+  }
+  return matches[0];
+}
+function findBlock(lines, blockId) {
+  const id = blockId.replace(/^\^/, "");
+  if (!/^[A-Za-z0-9-]+$/.test(id)) {
+    throw new ToolInputError(`Invalid block ID: "${blockId}" (block IDs contain only letters, numbers and dashes)`);
+  }
+  const idPattern = new RegExp(`(^|\\s)\\^${id}\\s*$`);
+  const found = lines.map((line2, index) => idPattern.test(line2) ? index : -1).filter((index) => index >= 0);
+  if (found.length === 0) {
+    throw new ToolInputError(`Block not found: ^${id}`);
+  }
+  if (found.length > 1) {
+    throw new ToolInputError(`Block ID ^${id} is ambiguous - it appears on lines ${found.map((index) => index + 1).join(", ")}`);
+  }
+  const line = found[0];
+  const standalone = lines[line].trim() === `^${id}`;
+  if (!standalone && /^\s*([-*+]|\d+\.)\s/.test(lines[line])) {
+    return { startLine: line, endLine: line + 1 };
+  }
+  let first = standalone ? line - 1 : line;
+  while (standalone && first > 0 && lines[first].trim() === "") {
+    first--;
+  }
+  while (first > 0 && lines[first - 1].trim() !== "") {
+    first--;
+  }
+  return { startLine: Math.max(first, 0), endLine: line + 1 };
+}
+function insertIntoSection(content, heading, text, position) {
+  const lines = content.split("\n");
+  const section = findSection(lines, heading);
+  let insertAt = section.startLine + 1;
+  if (position === "end") {
+    insertAt = section.endLine;
+    while (insertAt > section.startLine + 1 && lines[insertAt - 1].trim() === "") {
+      insertAt--;
+    }
+  }
+  lines.splice(insertAt, 0, ...text.replace(/\n+$/, "").split("\n"));
+  return { content: lines.join("\n"), line: insertAt + 1 };
+}
+function replaceOccurrences(content, oldText, newText, occurrence, replaceAll) {
+  if (!oldText) {
+    throw new ToolInputError("old_text must not be empty");
+  }
+  const positions = [];
+  for (let index = content.indexOf(oldText); index >= 0; index = content.indexOf(oldText, index + oldText.length)) {
+    positions.push(index);
+  }
+  if (positions.length === 0) {
+    throw new ToolInputError(`Text not found in file. Could not find: "${oldText}"`);
+  }
+  let targets = positions;
+  if (!replaceAll) {
+    const n = occurrence != null ? occurrence : 1;
+    if (!Number.isInteger(n) || n < 1 || n > positions.length) {
+      throw new ToolInputError(`Occurrence ${n} does not exist - the text appears ${positions.length} time(s)`);
+    }
+    targets = [positions[n - 1]];
+  }
+  let result = content;
+  for (const index of [...targets].reverse()) {
+    result = result.substring(0, index) + newText + result.substring(index + oldText.length);
+  }
+  return { content: result, count: targets.length };
+}
+var TEXT_FILE_EXTENSIONS = /* @__PURE__ */ new Set(["md", "txt", "csv", "tsv", "json", "canvas", "css", "js", "ts", "html", "xml", "yaml", "yml", "svg", "log"]);
+var MAX_JOURNALED_BINARY_BYTES = 1024 * 1024;
+function fingerprintBinary(data) {
+  const bytes = new Uint8Array(data);
+  let hash = 2166136261;
+  for (let i = 0; i < bytes.length; i++) {
+    hash = Math.imul(hash ^ bytes[i], 16777619);
+  }
+  return `${bytes.length}:${(hash >>> 0).toString(16)}`;
+}
+function formatFileSize(bytes) {
+  if (bytes < 1024)
+    return `${bytes} B`;
+  if (bytes < 1024 * 1024)
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+function formatCanvas(raw) {
+  let canvas;
+  try {
+    canvas = JSON.parse(raw || "{}");
+  } catch (error) {
+    throw new ToolInputError(`Canvas file is not valid JSON: ${error.message}`);
+  }
+  const nodes = (canvas.nodes || []).map((node) => ({
+    id: node.id,
+    type: node.type,
+    ...node.text !== void 0 ? { text: node.text } : {},
+    ...node.file !== void 0 ? { file: node.file } : {},
+    ...node.url !== void 0 ? { url: node.url } : {},
+    ...node.label !== void 0 ? { label: node.label } : {},
+    ...node.color !== void 0 ? { color: node.color } : {},
+    position: { x: node.x, y: node.y, width: node.width, height: node.height }
+  }));
+  const edges = (canvas.edges || []).map((edge) => ({
+    id: edge.id,
+    from: edge.fromNode,
+    to: edge.toNode,
+    ...edge.label !== void 0 ? { label: edge.label } : {}
+  }));
+  return JSON.stringify({ nodes, edges }, null, 2);
+}
+function summarizeUsage(records, costOf) {
+  const totals = {
+    requests: records.length,
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheCreationTokens: 0,
+    cacheReadTokens: 0,
+    thinkingTokens: 0,
+    totalInput: 0,
+    cacheHitRate: 0,
+    cost: 0
+  };
+  for (const record of records) {
+    totals.inputTokens += record.inputTokens;
+    totals.outputTokens += record.outputTokens;
+    totals.cacheCreationTokens += record.cacheCreationTokens;
+    totals.cacheReadTokens += record.cacheReadTokens;
+    totals.thinkingTokens += record.thinkingTokens || 0;
+    const cost = costOf(record);
+    totals.cost = cost === null || totals.cost === null ? null : totals.cost + cost;
+  }
+  totals.totalInput = totals.inputTokens + totals.cacheCreationTokens + totals.cacheReadTokens;
+  totals.cacheHitRate = totals.totalInput > 0 ? totals.cacheReadTokens / totals.totalInput : 0;
+  return totals;
+}
+function formatTokenCount(tokens) {
+  if (tokens >= 1e6)
+    return `${(tokens / 1e6).toFixed(1)}M`;
+  if (tokens >= 1e3)
+    return `${(tokens / 1e3).toFixed(1)}k`;
+  return String(tokens);
+}
+function formatCost(cost) {
+  return `$${cost.toFixed(cost < 1 ? 3 : 2)}`;
+}
+var SUMMARY_FORMAT_INSTRUCTIONS = `Reply with only the summary, using exactly these headings:
+
+## Decisions
+## Files touched
+## Open tasks
+## Context
+
+Under "Files touched", list each vault path with what was done to it. Put preferences, constraints and other facts worth remembering under "Context". Write "- None" under a heading with nothing to list. Keep the whole summary under 500 words, dropping detail that no longer matters.`;
+function formatTranscript(messages) {
+  const clip = (text, max) => text.length > max ? text.substring(0, max) + " [...]" : text;
+  const lines = [];
+  for (const message of messages) {
+    const role = message.role === "user" ? "User" : "Assistant";
+    if (typeof message.content === "string") {
+      lines.push(`${role}: ${clip(message.content, 4e3)}`);
+      continue;
+    }
+    for (const block of message.content) {
+      if (block.type === "text" && block.text) {
+        lines.push(`${role}: ${clip(block.text, 4e3)}`);
+      } else if (block.type === "tool_use") {
+        lines.push(`[Tool call: ${block.name} ${clip(JSON.stringify(block.input || {}), 300)}]`);
+      } else if (block.type === "tool_result") {
+        lines.push(`[Tool result: ${clip(String(block.content || ""), 500)}]`);
+      }
+    }
+  }
+  return lines.join("\n\n");
+}
+function findSummaryCut(history, keepRecent) {
+  for (let index = history.length - keepRecent; index > 0; index--) {
+    const message = history[index];
+    if (message.role === "user" && typeof message.content === "string") {
+      return index;
+    }
+  }
+  return 0;
+}
+var ToolRegistry = class {
+  constructor() {
+    this.tools = /* @__PURE__ */ new Map();
+  }
+  register(definition) {
+    if (this.tools.has(definition.name)) {
+      throw new Error(`Tool "${definition.name}" is already registered`);
+    }
+    this.tools.set(definition.name, definition);
+    return () => {
+      if (this.tools.get(definition.name) === definition) {
+        this.tools.delete(definition.name);
+      }
+    };
+  }
+  unregister(name) {
+    this.tools.delete(name);
+  }
+  get(name) {
+    return this.tools.get(name);
+  }
+  getAll() {
+    return Array.from(this.tools.values());
+  }
+  // Schemas in the shape the Messages API expects
+  getSchemas() {
+    return this.getAll().map((tool) => ({
+      name: tool.name,
+      description: tool.description,
+      input_schema: tool.input_schema
+    }));
+  }
 };
+var MODEL_OPTIONS = [
+  { id: "claude-sonnet-4-5-20250929", name: "Claude Sonnet 4.5", icon: "\u{1F3B5}" },
+  { id: "claude-haiku-4-5-20251001", name: "Claude Haiku 4.5", icon: "\u26A1" },
+  { id: "claude-opus-4-1-20250805", name: "Claude Opus 4.1", icon: "\u{1F451}" },
+  { id: "claude-sonnet-4-20250514", name: "Claude Sonnet 4", icon: "\u{1F3B5}" },
+  { id: "claude-opus-4-20250514", name: "Claude Opus 4", icon: "\u{1F451}" },
+  { id: "claude-3-7-sonnet-20250219", name: "Claude Sonnet 3.7", icon: "\u{1F3B5}" },
+  { id: "claude-3-5-haiku-20241022", name: "Claude Haiku 3.5", icon: "\u26A1" },
+  { id: "claude-3-haiku-20240307", name: "Claude Haiku 3", icon: "\u26A1" }
+];
+function getModelOption(model) {
+  return MODEL_OPTIONS.find((option) => option.id === model) || { name: model, icon: "\u{1F916}" };
+}
+function addHistoryCacheBreakpoints(messages) {
+  const marked = [...messages];
+  const userIndexes = messages.map((message, index) => message.role === "user" ? index : -1).filter((index) => index >= 0);
+  for (const index of [messages.length - 1, userIndexes[userIndexes.length - 2]]) {
+    if (index === void 0 || index < 0)
+      continue;
+    const message = marked[index];
+    const blocks = typeof message.content === "string" ? [{ type: "text", text: message.content }] : [...message.content];
+    if (blocks.length === 0)
+      continue;
+    blocks[blocks.length - 1] = { ...blocks[blocks.length - 1], cache_control: { type: "ephemeral" } };
+    marked[index] = { ...message, content: blocks };
+  }
+  return marked;
+}
+function appendDynamicContext(messages, dynamic) {
+  const last = messages[messages.length - 1];
+  if (!last || last.role !== "user")
+    return null;
+  const blocks = typeof last.content === "string" ? [{ type: "text", text: last.content }] : [...last.content];
+  blocks.push({ type: "text", text: dynamic });
+  return [...messages.slice(0, -1), { ...last, content: blocks }];
+}
 var ClaudePlugin = class extends import_obsidian.Plugin {
+  constructor() {
+    super(...arguments);
+    this.streamingUnavailable = false;
+    // Set when streaming fails at the transport level
+    this.toolRegistry = new ToolRegistry();
+    this.selectionEditor = new SelectionEditor(this);
+    this.rateLimiter = new RateLimitGovernor((model) => this.getModelRateLimits(model), (ms, signal) => this.sleep(ms, signal));
+  }
+  // Tool schemas sent to the API, in registration order
   getTools() {
-    return [
-      {
-        name: "read_file",
-        description: "Read the contents of a file in the vault. Use this when you need to see what is in a file. For large files, consider using search_in_file or get_file_info first.",
-        input_schema: {
-          type: "object",
-          properties: {
-            path: {
-              type: "string",
-              description: 'The path to the file relative to the vault root (e.g., "workspace-guide.md" or "folder/note.md")'
-            }
-          },
-          required: ["path"]
+    return this.toolRegistry.getSchemas();
+  }
+  // Public API: lets other plugins give Claude extra tools, e.g.
+  //   app.plugins.plugins['obsidian-claude-integration'].registerTool({ name, description, ... })
+  // Returns a function that removes the tool again (call it from the other plugin's onunload).
+  registerTool(definition) {
+    return this.toolRegistry.register(definition);
+  }
+  unregisterTool(name) {
+    this.toolRegistry.unregister(name);
+  }
+  registerBuiltinTools() {
+    const vault = this.app.vault;
+    const getFile = (path, label = "File") => {
+      const file = vault.getAbstractFileByPath(path);
+      if (!file || !(file instanceof import_obsidian.TFile)) {
+        throw new ToolInputError(`${label} not found: ${path}`);
+      }
+      return file;
+    };
+    const getFolder = (path) => {
+      const folder = vault.getAbstractFileByPath(path.replace(/\/$/, ""));
+      if (!folder || !(folder instanceof import_obsidian.TFolder)) {
+        throw new ToolInputError(`Folder not found: ${path}`);
+      }
+      return folder;
+    };
+    this.registerTool({
+      name: "read_file",
+      description: "Read the contents of a file in the vault. Use this when you need to see what is in a file. For large files, consider using search_in_file or get_file_info first. Text formats such as .csv, .json and .txt are returned as-is; .canvas files are returned as JSON listing their nodes and edges.",
+      promptSummary: "Read the contents of any file (use this for each file individually)",
+      input_schema: {
+        type: "object",
+        properties: {
+          path: {
+            type: "string",
+            description: 'The path to the file relative to the vault root (e.g., "workspace-guide.md" or "folder/note.md")'
+          }
+        },
+        required: ["path"]
+      },
+      permissionClass: "read",
+      resultBudget: 15e3,
+      handler: async (input) => {
+        const file = getFile(input.path);
+        if (!TEXT_FILE_EXTENSIONS.has(file.extension)) {
+          throw new ToolInputError(`${file.path} is a binary file (.${file.extension}, ${formatFileSize(file.stat.size)}) and cannot be read as text`);
+        }
+        const content = await vault.read(file);
+        if (file.extension === "canvas") {
+          return `Canvas ${file.path} (nodes and edges):
+
+${formatCanvas(content)}`;
         }
+        return content;
       },
-      {
-        name: "search_in_file",
-        description: "Search for a specific text pattern in a file without reading the entire file. Returns matching lines with context. Very efficient for large files.",
-        input_schema: {
-          type: "object",
-          properties: {
-            path: {
-              type: "string",
-              description: "The path to the file to search in"
-            },
-            pattern: {
-              type: "string",
-              description: "The text pattern to search for (case-insensitive)"
-            }
+      formatSummary: (input) => `\u{1F4C4} Read: ${input.path}`
+    });
+    this.registerTool({
+      name: "search_in_file",
+      description: "Search for a specific text pattern in a file without reading the entire file. Returns matching lines with context. Very efficient for large files.",
+      promptSummary: "Search for patterns without reading entire files",
+      input_schema: {
+        type: "object",
+        properties: {
+          path: {
+            type: "string",
+            description: "The path to the file to search in"
           },
-          required: ["path", "pattern"]
+          pattern: {
+            type: "string",
+            description: "The text pattern to search for (case-insensitive)"
+          }
+        },
+        required: ["path", "pattern"]
+      },
+      permissionClass: "read",
+      resultBudget: 5e3,
+      handler: async (input) => {
+        const searchContent = await vault.read(getFile(input.path));
+        const lines = searchContent.split("\n");
+        const pattern = input.pattern.toLowerCase();
+        const matches = [];
+        let matchCount = 0;
+        lines.forEach((line, index) => {
+          if (line.toLowerCase().includes(pattern) && matchCount < 50) {
+            matches.push(`Line ${index + 1}: ${line}`);
+            matchCount++;
+          }
+        });
+        if (matches.length === 0) {
+          return `No matches found for "${input.pattern}" in ${input.path}`;
         }
+        return `Found ${matchCount} matches in ${input.path}:
+
+${matches.join("\n")}`;
       },
-      {
-        name: "get_file_info",
-        description: "Get metadata about a file (size, line count, first/last lines) without reading the full content. Use this to check if a file is large before reading it.",
-        input_schema: {
-          type: "object",
-          properties: {
-            path: {
-              type: "string",
-              description: "The path to the file"
-            }
-          },
-          required: ["path"]
+      formatSummary: (input, result) => {
+        var _a;
+        const matchCount = ((_a = result.match(/Found (\d+)/)) == null ? void 0 : _a[1]) || "0";
+        return `\u{1F50D} Search in ${input.path}: ${matchCount} matches`;
+      }
+    });
+    this.registerTool({
+      name: "get_file_info",
+      description: "Get metadata about a file (size, line count, first/last lines) without reading the full content. Use this to check if a file is large before reading it.",
+      promptSummary: "Check file size and preview before reading large files",
+      input_schema: {
+        type: "object",
+        properties: {
+          path: {
+            type: "string",
+            description: "The path to the file"
+          }
+        },
+        required: ["path"]
+      },
+      permissionClass: "read",
+      resultBudget: 1e4,
+      handler: async (input) => {
+        const infoFile = getFile(input.path);
+        if (!TEXT_FILE_EXTENSIONS.has(infoFile.extension)) {
+          return `File: ${input.path}
+Type: .${infoFile.extension} (binary)
+Size: ${formatFileSize(infoFile.stat.size)}
+Modified: ${new Date(infoFile.stat.mtime).toISOString()}`;
         }
+        const infoContent = await vault.read(infoFile);
+        const infoLines = infoContent.split("\n");
+        const firstLines = infoLines.slice(0, 5).join("\n");
+        const lastLines = infoLines.slice(-5).join("\n");
+        return `File: ${input.path}
+Size: ${infoContent.length} characters
+Lines: ${infoLines.length}
+
+First 5 lines:
+${firstLines}
+
+Last 5 lines:
+${lastLines}`;
       },
-      {
-        name: "replace_in_file",
-        description: "Make a targeted replacement in a file without rewriting the entire file. More efficient than read+write for small edits.",
-        input_schema: {
-          type: "object",
-          properties: {
-            path: {
-              type: "string",
-              description: "The path to the file"
-            },
-            old_text: {
-              type: "string",
-              description: "The exact text to find and replace"
-            },
-            new_text: {
-              type: "string",
-              description: "The text to replace it with"
-            }
+      formatSummary: (input) => `\u2139\uFE0F File info: ${input.path}`
+    });
+    this.registerTool({
+      name: "read_lines",
+      description: "Read a range of lines from a file. Use this for parts of long files that read_file truncates; get_file_info and search_in_file give you line numbers.",
+      promptSummary: "Read a specific range of lines from a long file",
+      input_schema: {
+        type: "object",
+        properties: {
+          path: {
+            type: "string",
+            description: "The path to the file"
           },
-          required: ["path", "old_text", "new_text"]
+          start_line: {
+            type: "number",
+            description: "First line to read (1-based, inclusive)"
+          },
+          end_line: {
+            type: "number",
+            description: "Last line to read (inclusive, default: start_line + 199)"
+          }
+        },
+        required: ["path", "start_line"]
+      },
+      permissionClass: "read",
+      resultBudget: 15e3,
+      handler: async (input) => {
+        var _a;
+        const lines = (await vault.read(getFile(input.path))).split("\n");
+        const start = input.start_line;
+        const end = Math.min((_a = input.end_line) != null ? _a : start + 199, lines.length);
+        if (!Number.isInteger(start) || start < 1 || start > lines.length) {
+          throw new ToolInputError(`start_line ${start} is out of range - ${input.path} has ${lines.length} lines`);
+        }
+        if (!Number.isInteger(end) || end < start) {
+          throw new ToolInputError(`end_line must be a line number at or after start_line (${start})`);
         }
+        return `Lines ${start}-${end} of ${lines.length} in ${input.path}:
+
+${lines.slice(start - 1, end).join("\n")}`;
       },
-      {
-        name: "write_file",
-        description: "Write content to a file, creating it if it does not exist or replacing its contents if it does. Use replace_in_file for small edits to large files.",
-        input_schema: {
-          type: "object",
-          properties: {
-            path: {
-              type: "string",
-              description: "The path where the file should be written"
-            },
-            content: {
-              type: "string",
-              description: "The complete content to write to the file"
-            }
+      formatSummary: (input) => {
+        var _a;
+        return `\u{1F4C4} Read lines ${input.start_line}-${(_a = input.end_line) != null ? _a : "\u2026"}: ${input.path}`;
+      }
+    });
+    this.registerTool({
+      name: "read_section",
+      description: 'Read one heading section of a note, including its subsections. Match the heading by name (case-insensitive); if the name appears more than once, use a path like "Project > Goals".',
+      promptSummary: "Read one heading section of a note by name",
+      input_schema: {
+        type: "object",
+        properties: {
+          path: {
+            type: "string",
+            description: "The path to the note"
           },
-          required: ["path", "content"]
-        }
+          heading: {
+            type: "string",
+            description: 'Heading text without the # marks, or a "Parent > Child" path'
+          }
+        },
+        required: ["path", "heading"]
       },
-      {
-        name: "list_files",
-        description: "List markdown files in the vault or in a specific folder. Returns up to 100 files. Use the search parameter to filter results.",
-        input_schema: {
-          type: "object",
-          properties: {
-            folder: {
-              type: "string",
-              description: "Optional folder path to list files from. If not provided, lists all files in the vault."
-            },
-            search: {
-              type: "string",
-              description: 'Optional search term to filter file names (case-insensitive). Example: "suffer" will match "Suffering.md"'
-            },
-            limit: {
-              type: "number",
-              description: "Maximum number of files to return (default: 100, max: 200)"
-            }
+      permissionClass: "read",
+      resultBudget: 15e3,
+      handler: async (input) => {
+        const lines = (await vault.read(getFile(input.path))).split("\n");
+        const section = findSection(lines, input.heading);
+        return `Section "${section.trail.join(" > ")}" (lines ${section.startLine + 1}-${section.endLine}) in ${input.path}:
+
+${lines.slice(section.startLine, section.endLine).join("\n")}`;
+      },
+      formatSummary: (input) => `\u{1F4C4} Read section "${input.heading}": ${input.path}`
+    });
+    this.registerTool({
+      name: "read_block",
+      description: "Read the block labelled with a ^block-id in a note (the paragraph, list item or table the ID belongs to).",
+      promptSummary: "Read the block with a given ^block-id",
+      input_schema: {
+        type: "object",
+        properties: {
+          path: {
+            type: "string",
+            description: "The path to the note"
           },
-          required: []
-        }
+          block_id: {
+            type: "string",
+            description: "The block ID, with or without the leading ^"
+          }
+        },
+        required: ["path", "block_id"]
+      },
+      permissionClass: "read",
+      resultBudget: 1e4,
+      handler: async (input) => {
+        const lines = (await vault.read(getFile(input.path))).split("\n");
+        const block = findBlock(lines, input.block_id);
+        return `Block ^${input.block_id.replace(/^\^/, "")} (lines ${block.startLine + 1}-${block.endLine}) in ${input.path}:
+
+${lines.slice(block.startLine, block.endLine).join("\n")}`;
+      },
+      formatSummary: (input) => `\u{1F4C4} Read block ^${input.block_id.replace(/^\^/, "")}: ${input.path}`
+    });
+    this.registerTool({
+      name: "replace_in_file",
+      description: "Make a targeted replacement in a file without rewriting the entire file. More efficient than read+write for small edits. Replaces the first occurrence unless occurrence or replace_all is given.",
+      promptSummary: "Make targeted edits without rewriting entire files (first, nth or all occurrences)",
+      input_schema: {
+        type: "object",
+        properties: {
+          path: {
+            type: "string",
+            description: "The path to the file"
+          },
+          old_text: {
+            type: "string",
+            description: "The exact text to find and replace"
+          },
+          new_text: {
+            type: "string",
+            description: "The text to replace it with"
+          },
+          occurrence: {
+            type: "number",
+            description: "Which occurrence to replace, starting at 1 (default: 1)"
+          },
+          replace_all: {
+            type: "boolean",
+            description: "Replace every occurrence (default: false)"
+          }
+        },
+        required: ["path", "old_text", "new_text"]
       },
-      {
-        name: "rename_file",
-        description: "Rename or move a file to a new path. Use this to rename files or move them to different folders.",
+      permissionClass: "write",
+      resultBudget: 1e4,
+      handler: async (input, context) => {
+        const replaceFile = getFile(input.path);
+        const replaceContent = await vault.read(replaceFile);
+        const { content: newContent, count } = replaceOccurrences(replaceContent, input.old_text, input.new_text, input.occurrence, input.replace_all);
+        await vault.modify(replaceFile, newContent);
+        context.recordChange({ action: "modify", path: input.path, before: replaceContent, after: newContent });
+        return `Successfully replaced ${count} occurrence(s) in ${input.path}`;
+      },
+      formatSummary: (input) => `\u{1F504} Edited: ${input.path}`,
+      preview: async (input) => {
+        const file = vault.getAbstractFileByPath(input.path);
+        const oldContent = file instanceof import_obsidian.TFile ? await vault.read(file) : "";
+        let newContent = oldContent;
+        try {
+          newContent = replaceOccurrences(oldContent, input.old_text, input.new_text, input.occurrence, input.replace_all).content;
+        } catch (error) {
+        }
+        return {
+          title: `Edit ${input.path}`,
+          description: input.replace_all ? "Claude wants to replace every occurrence of text in this file." : "Claude wants to replace text in this file.",
+          diff: formatUnifiedDiff(input.path, oldContent, newContent)
+        };
+      }
+    });
+    const registerSectionEdit = (name, position, description, promptSummary, verb) => {
+      this.registerTool({
+        name,
+        description,
+        promptSummary,
         input_schema: {
           type: "object",
           properties: {
-            old_path: {
+            path: {
+              type: "string",
+              description: "The path to the note"
+            },
+            heading: {
               type: "string",
-              description: "The current path of the file"
+              description: 'Heading text without the # marks, or a "Parent > Child" path if the name is not unique'
             },
-            new_path: {
+            content: {
               type: "string",
-              description: "The new path for the file (can be in a different folder)"
+              description: "The text to insert"
             }
           },
-          required: ["old_path", "new_path"]
+          required: ["path", "heading", "content"]
+        },
+        permissionClass: "write",
+        resultBudget: 1e4,
+        handler: async (input, context) => {
+          const file = getFile(input.path);
+          const oldContent = await vault.read(file);
+          const { content: newContent, line } = insertIntoSection(oldContent, input.heading, input.content, position);
+          await vault.modify(file, newContent);
+          context.recordChange({ action: "modify", path: input.path, before: oldContent, after: newContent });
+          return `Successfully ${verb} "${input.heading}" in ${input.path} (at line ${line})`;
+        },
+        formatSummary: (input) => `\u{1F504} Edited section "${input.heading}": ${input.path}`,
+        preview: async (input) => {
+          const file = vault.getAbstractFileByPath(input.path);
+          const oldContent = file instanceof import_obsidian.TFile ? await vault.read(file) : "";
+          let newContent = oldContent;
+          try {
+            newContent = insertIntoSection(oldContent, input.heading, input.content, position).content;
+          } catch (error) {
+          }
+          return {
+            title: `Edit ${input.path}`,
+            description: `Claude wants to add text to the "${input.heading}" section of this file.`,
+            diff: formatUnifiedDiff(input.path, oldContent, newContent)
+          };
         }
-      },
-      {
-        name: "delete_file",
-        description: "Delete a file from the vault. Use with caution - this cannot be easily undone unless the vault is backed up or version controlled.",
-        input_schema: {
-          type: "object",
-          properties: {
-            path: {
-              type: "string",
-              description: "The path to the file to delete"
-            }
+      });
+    };
+    registerSectionEdit(
+      "insert_under_heading",
+      "start",
+      'Insert text directly below a heading, before the existing section content. Match the heading by name (case-insensitive) or by a "Parent > Child" path.',
+      "Insert text directly below a heading",
+      "inserted text under"
+    );
+    registerSectionEdit(
+      "append_to_section",
+      "end",
+      "Append text to the end of a heading section, after its existing content and subsections but before the next heading of the same or higher level.",
+      "Append text to the end of a heading section",
+      "appended text to"
+    );
+    this.registerTool({
+      name: "write_file",
+      description: "Write content to a file, creating it if it does not exist or replacing its contents if it does. Use replace_in_file for small edits to large files.",
+      promptSummary: "Create new files or update existing ones",
+      input_schema: {
+        type: "object",
+        properties: {
+          path: {
+            type: "string",
+            description: "The path where the file should be written"
           },
-          required: ["path"]
+          content: {
+            type: "string",
+            description: "The complete content to write to the file"
+          }
+        },
+        required: ["path", "content"]
+      },
+      permissionClass: "write",
+      resultBudget: 1e4,
+      handler: async (input, context) => {
+        const existingFile = vault.getAbstractFileByPath(input.path);
+        if (existingFile && existingFile instanceof import_obsidian.TFile) {
+          const previousContent = await vault.read(existingFile);
+          await vault.modify(existingFile, input.content);
+          context.recordChange({ action: "modify", path: input.path, before: previousContent, after: input.content });
+          return `Successfully updated file: ${input.path}`;
+        } else {
+          await vault.create(input.path, input.content);
+          context.recordChange({ action: "create", path: input.path, before: null, after: input.content });
+          return `Successfully created file: ${input.path}`;
         }
       },
-      {
-        name: "copy_file",
-        description: "Copy/duplicate a file to a new location. Much more efficient than reading and writing for duplication. The destination file will be created with the same content as the source.",
-        input_schema: {
-          type: "object",
-          properties: {
-            source_path: {
-              type: "string",
-              description: "The path to the file to copy from"
-            },
-            destination_path: {
-              type: "string",
-              description: "The path where the copy should be created"
-            }
+      formatSummary: (input) => `\u270F\uFE0F Wrote: ${input.path}`,
+      preview: async (input) => {
+        const existing = vault.getAbstractFileByPath(input.path);
+        const oldContent = existing instanceof import_obsidian.TFile ? await vault.read(existing) : "";
+        return {
+          title: existing instanceof import_obsidian.TFile ? `Overwrite ${input.path}` : `Create ${input.path}`,
+          description: existing instanceof import_obsidian.TFile ? "Claude wants to replace the entire contents of this file." : "Claude wants to create a new file.",
+          diff: formatUnifiedDiff(input.path, oldContent, input.content || "")
+        };
+      }
+    });
+    this.registerTool({
+      name: "list_files",
+      description: "List markdown files in the vault or in a specific folder. Returns up to 100 files. Use the search parameter to filter results. Set all_types to include every file type (canvases, PDFs, images, CSVs...) with sizes.",
+      promptSummary: "List all files in the vault or in a specific folder",
+      input_schema: {
+        type: "object",
+        properties: {
+          folder: {
+            type: "string",
+            description: "Optional folder path to list files from. If not provided, lists all files in the vault."
+          },
+          search: {
+            type: "string",
+            description: 'Optional search term to filter file names (case-insensitive). Example: "suffer" will match "Suffering.md"'
           },
-          required: ["source_path", "destination_path"]
+          limit: {
+            type: "number",
+            description: "Maximum number of files to return (default: 100, max: 200)"
+          },
+          all_types: {
+            type: "boolean",
+            description: "Include all file types, not just markdown, and show file sizes (default: false)"
+          }
+        },
+        required: []
+      },
+      permissionClass: "read",
+      resultBudget: 5e3,
+      handler: async (input) => {
+        const files = input.all_types ? vault.getFiles() : vault.getMarkdownFiles();
+        let filteredFiles = files;
+        if (input.folder) {
+          filteredFiles = files.filter((f) => f.path.startsWith(input.folder));
         }
+        if (input.search) {
+          const searchLower = input.search.toLowerCase();
+          filteredFiles = filteredFiles.filter(
+            (f) => f.path.toLowerCase().includes(searchLower) || f.basename.toLowerCase().includes(searchLower)
+          );
+        }
+        const limit = Math.min(input.limit || 100, 200);
+        const limitedFiles = filteredFiles.slice(0, limit);
+        const fileList = limitedFiles.map((f) => input.all_types ? `${f.path} (${formatFileSize(f.stat.size)})` : f.path).join("\n");
+        if (filteredFiles.length > limit) {
+          return `Showing ${limit} of ${filteredFiles.length} files (use search parameter to narrow results):
+
+${fileList}`;
+        }
+        return `Found ${limitedFiles.length} file(s):
+
+${fileList}`;
+      },
+      formatSummary: (input, result) => {
+        var _a;
+        const fileCount = ((_a = result.match(/Found (\d+)/)) == null ? void 0 : _a[1]) || "?";
+        return `\u{1F4C1} Listed ${fileCount} files`;
       }
-    ];
-  }
-  async onload() {
-    await this.loadSettings();
-    const iconSvg = `<svg viewBox="0 0 1200 1200" xmlns="http://www.w3.org/2000/svg">
-            <path fill="currentColor" stroke="none" d="M 233.959793 800.214905 L 468.644287 668.536987 L 472.590637 657.100647 L 468.644287 650.738403 L 457.208069 650.738403 L 417.986633 648.322144 L 283.892639 644.69812 L 167.597321 639.865845 L 54.926208 633.825623 L 26.577238 627.785339 L 3.3e-05 592.751709 L 2.73832 575.27533 L 26.577238 559.248352 L 60.724873 562.228149 L 136.187973 567.382629 L 249.422867 575.194763 L 331.570496 580.026978 L 453.261841 592.671082 L 472.590637 592.671082 L 475.328857 584.859009 L 468.724915 580.026978 L 463.570557 575.194763 L 346.389313 495.785217 L 219.543671 411.865906 L 153.100723 363.543762 L 117.181267 339.060425 L 99.060455 316.107361 L 91.248367 266.01355 L 123.865784 230.093994 L 167.677887 233.073853 L 178.872513 236.053772 L 223.248367 270.201477 L 318.040283 343.570496 L 441.825592 434.738342 L 459.946411 449.798706 L 467.194672 444.64447 L 468.080597 441.020203 L 459.946411 427.409485 L 392.617493 305.718323 L 320.778564 181.932983 L 288.80542 130.630859 L 280.348999 99.865845 C 277.369171 87.221436 275.194641 76.590698 275.194641 63.624268 L 312.322174 13.20813 L 332.8591 6.604126 L 382.389313 13.20813 L 403.248352 31.328979 L 434.013519 101.71814 L 483.865753 212.537048 L 561.181274 363.221497 L 583.812134 407.919434 L 595.892639 449.315491 L 600.40271 461.959839 L 608.214783 461.959839 L 608.214783 454.711609 L 614.577271 369.825623 L 626.335632 265.61084 L 637.771851 131.516846 L 641.718201 93.745117 L 660.402832 48.483276 L 697.530334 24.000122 L 726.52356 37.852417 L 750.362549 72 L 747.060486 94.067139 L 732.886047 186.201416 L 705.100708 330.52356 L 686.979919 427.167847 L 697.530334 427.167847 L 709.61084 415.087341 L 758.496704 350.174561 L 840.644348 247.490051 L 876.885925 206.738342 L 919.167847 161.71814 L 946.308838 140.29541 L 997.61084 140.29541 L 1035.38269 196.429626 L 1018.469849 254.416199 L 965.637634 321.422852 L 921.825562 378.201538 L 859.006714 462.765259 L 819.785278 530.41626 L 823.409424 535.812073 L 832.75177 534.92627 L 974.657776 504.724915 L 1051.328979 490.872559 L 1142.818848 475.167786 L 1184.214844 494.496582 L 1188.724854 514.147644 L 1172.456421 554.335693 L 1074.604126 578.496765 L 959.838989 601.449829 L 788.939636 641.879272 L 786.845764 643.409485 L 789.261841 646.389343 L 866.255127 653.637634 L 899.194702 655.409424 L 979.812134 655.409424 L 1129.932861 666.604187 L 1169.154419 692.537109 L 1192.671265 724.268677 L 1188.724854 748.429688 L 1128.322144 779.194641 L 1046.818848 759.865845 L 856.590759 714.604126 L 791.355774 698.335754 L 782.335693 698.335754 L 782.335693 703.731567 L 836.69812 756.885986 L 936.322205 846.845581 L 1061.073975 962.81897 L 1067.436279 991.490112 L 1051.409424 1014.120911 L 1034.496704 1011.704712 L 924.885986 929.234924 L 882.604126 892.107544 L 786.845764 811.48999 L 780.483276 811.48999 L 780.483276 819.946289 L 802.550415 852.241699 L 919.087341 1027.409424 L 925.127625 1081.127686 L 916.671204 1098.604126 L 886.469849 1109.154419 L 853.288696 1103.114136 L 785.073914 1007.355835 L 714.684631 899.516785 L 657.906067 802.872498 L 650.979858 806.81897 L 617.476624 1167.704834 L 601.771851 1186.147705 L 565.530212 1200 L 535.328857 1177.046997 L 519.302124 1139.919556 L 535.328857 1066.550537 L 554.657776 970.792053 L 570.362488 894.68457 L 584.536926 800.134277 L 592.993347 768.724976 L 592.429626 766.630859 L 585.503479 767.516968 L 514.22821 865.369263 L 405.825531 1011.865906 L 320.053711 1103.677979 L 299.516815 1111.812256 L 263.919525 1093.369263 L 267.221497 1060.429688 L 287.114136 1031.114136 L 405.825531 880.107361 L 477.422913 786.52356 L 523.651062 732.483276 L 523.328918 724.671265 L 520.590698 724.671265 L 205.288605 929.395935 L 149.154434 936.644409 L 124.993355 914.01355 L 127.973183 876.885986 L 139.409409 864.80542 L 234.201385 799.570435 L 233.879227 799.8927 Z"/>
-        </svg>`;
-    (0, import_obsidian.addIcon)("claude-logo", iconSvg);
-    this.addRibbonIcon("claude-logo", "Open Claude Chat", () => {
-      this.activateView();
     });
-    this.addCommand({
-      id: "open-claude-chat",
-      name: "Open Claude Chat",
+    this.registerTool({
+      name: "search_vault",
+      description: "Full-text search across all markdown files in the vault. Returns files ranked by relevance with matching line numbers and snippets. Use this instead of reading many files to find which notes mention something.",
+      promptSummary: "Search the text of every note at once (ranked files, line numbers, snippets)",
+      input_schema: {
+        type: "object",
+        properties: {
+          query: {
+            type: "string",
+            description: "Text to search for (case-insensitive). Treated as a regular expression if regex is true."
+          },
+          folder: {
+            type: "string",
+            description: "Optional folder path to restrict the search to"
+          },
+          tag: {
+            type: "string",
+            description: 'Optional tag the file must have (e.g. "project" or "#project")'
+          },
+          regex: {
+            type: "boolean",
+            description: "Treat the query as a regular expression (default: false)"
+          },
+          limit: {
+            type: "number",
+            description: "Maximum number of files to return (default: 20, max: 50)"
+          }
+        },
+        required: ["query"]
+      },
+      permissionClass: "read",
+      resultBudget: 8e3,
+      handler: async (input) => {
+        if (!input.query || !String(input.query).trim()) {
+          throw new ToolInputError("query must not be empty");
+        }
+        let isMatch;
+        if (input.regex) {
+          let pattern;
+          try {
+            pattern = new RegExp(input.query, "i");
+          } catch (error) {
+            throw new ToolInputError(`Invalid regular expression: ${error.message}`);
+          }
+          isMatch = (line) => pattern.test(line);
+        } else {
+          const queryLower = String(input.query).toLowerCase();
+          isMatch = (line) => line.toLowerCase().includes(queryLower);
+        }
+        let files = vault.getMarkdownFiles();
+        if (input.folder) {
+          const folder = input.folder.replace(/\/$/, "") + "/";
+          files = files.filter((f) => f.path.startsWith(folder));
+        }
+        if (input.tag) {
+          const tag = "#" + String(input.tag).replace(/^#/, "").toLowerCase();
+          files = files.filter((f) => {
+            const cache = this.app.metadataCache.getFileCache(f);
+            const tags = cache ? (0, import_obsidian.getAllTags)(cache) || [] : [];
+            return tags.some((t) => t.toLowerCase() === tag || t.toLowerCase().startsWith(tag + "/"));
+          });
+        }
+        const ranked = [];
+        for (const file of files) {
+          const content = await vault.cachedRead(file);
+          const matches = this.findLineMatches(file, content, isMatch, 1);
+          const nameMatches = isMatch(file.basename);
+          if (matches.length === 0 && !nameMatches)
+            continue;
+          ranked.push({ file, score: matches.length + (nameMatches ? 5 : 0), matches });
+        }
+        ranked.sort((a, b) => b.score - a.score || a.file.path.localeCompare(b.file.path));
+        if (ranked.length === 0) {
+          return `No matches found for "${input.query}" in ${files.length} file(s)`;
+        }
+        const limit = Math.min(input.limit || 20, 50);
+        let output = `Found matches in ${ranked.length} file(s)${ranked.length > limit ? ` (showing top ${limit})` : ""}:
+`;
+        for (const { file, matches } of ranked.slice(0, limit)) {
+          output += `
+${file.path} (${matches.length} match${matches.length === 1 ? "" : "es"})
+`;
+          for (const match of matches.slice(0, 3)) {
+            const snippet = [...match.contextBefore, match.lineText, ...match.contextAfter].map((line) => line.trim()).filter((line) => line.length > 0).join(" \u2026 ");
+            output += `  Line ${match.line}: ${snippet.substring(0, 300)}
+`;
+          }
+          if (matches.length > 3) {
+            output += `  ... and ${matches.length - 3} more
+`;
+          }
+        }
+        return output;
+      },
+      formatSummary: (input, result) => {
+        var _a;
+        const fileCount = ((_a = result.match(/Found matches in (\d+)/)) == null ? void 0 : _a[1]) || "0";
+        return `\u{1F50E} Searched vault for "${input.query}": ${fileCount} files`;
+      }
+    });
+    this.registerTool({
+      name: "rename_file",
+      description: "Rename or move a file to a new path. Use this to rename files or move them to different folders.",
+      promptSummary: "Rename or move files",
+      input_schema: {
+        type: "object",
+        properties: {
+          old_path: {
+            type: "string",
+            description: "The current path of the file"
+          },
+          new_path: {
+            type: "string",
+            description: "The new path for the file (can be in a different folder)"
+          }
+        },
+        required: ["old_path", "new_path"]
+      },
+      permissionClass: "write",
+      resultBudget: 1e4,
+      handler: async (input, context) => {
+        const fileToRename = getFile(input.old_path);
+        const existingAtNewPath = vault.getAbstractFileByPath(input.new_path);
+        if (existingAtNewPath) {
+          return `Error: A file already exists at: ${input.new_path}`;
+        }
+        await this.app.fileManager.renameFile(fileToRename, input.new_path);
+        context.recordChange({ action: "rename", path: input.new_path, oldPath: input.old_path, before: null, after: null });
+        return `Successfully renamed "${input.old_path}" to "${input.new_path}"`;
+      },
+      formatSummary: (input) => `\u{1F4DD} Renamed: ${input.old_path} \u2192 ${input.new_path}`,
+      preview: async (input) => ({
+        title: `Rename ${input.old_path}`,
+        description: `Claude wants to rename or move this file to: ${input.new_path}`,
+        diff: null
+      })
+    });
+    this.registerTool({
+      name: "delete_file",
+      description: "Delete a file from the vault. Use with caution - this cannot be easily undone unless the vault is backed up or version controlled.",
+      promptSummary: "Delete files (use with caution)",
+      input_schema: {
+        type: "object",
+        properties: {
+          path: {
+            type: "string",
+            description: "The path to the file to delete"
+          }
+        },
+        required: ["path"]
+      },
+      permissionClass: "write",
+      resultBudget: 1e4,
+      handler: async (input, context) => {
+        const fileToDelete = getFile(input.path);
+        const binary = !TEXT_FILE_EXTENSIONS.has(fileToDelete.extension);
+        if (binary && fileToDelete.stat.size > MAX_JOURNALED_BINARY_BYTES) {
+          await vault.trash(fileToDelete, true);
+          return `Successfully moved to system trash: ${input.path}. It is too large (${formatFileSize(fileToDelete.stat.size)}) to undo here and can only be restored from the system trash.`;
+        }
+        const deletedContent = binary ? (0, import_obsidian.arrayBufferToBase64)(await vault.readBinary(fileToDelete)) : await vault.read(fileToDelete);
+        await vault.trash(fileToDelete, true);
+        context.recordChange({ action: "delete", path: input.path, before: deletedContent, after: null, binary });
+        return `Successfully moved to system trash: ${input.path}`;
+      },
+      formatSummary: (input) => `\u{1F5D1}\uFE0F Deleted: ${input.path}`,
+      preview: async (input) => {
+        const file = vault.getAbstractFileByPath(input.path);
+        if (file instanceof import_obsidian.TFile && !TEXT_FILE_EXTENSIONS.has(file.extension)) {
+          return {
+            title: `Delete ${input.path}`,
+            description: `Claude wants to move this ${file.extension.toUpperCase()} file (${formatFileSize(file.stat.size)}) to the system trash.`,
+            diff: null
+          };
+        }
+        const oldContent = file instanceof import_obsidian.TFile ? await vault.read(file) : "";
+        return {
+          title: `Delete ${input.path}`,
+          description: "Claude wants to move this file to the system trash.",
+          diff: formatUnifiedDiff(input.path, oldContent, "")
+        };
+      }
+    });
+    this.registerTool({
+      name: "copy_file",
+      description: "Copy/duplicate a file to a new location. Much more efficient than reading and writing for duplication. The destination file will be created with the same content as the source.",
+      promptSummary: "Duplicate files without reading and rewriting them",
+      input_schema: {
+        type: "object",
+        properties: {
+          source_path: {
+            type: "string",
+            description: "The path to the file to copy from"
+          },
+          destination_path: {
+            type: "string",
+            description: "The path where the copy should be created"
+          }
+        },
+        required: ["source_path", "destination_path"]
+      },
+      permissionClass: "write",
+      resultBudget: 1e4,
+      handler: async (input, context) => {
+        const sourceFile = getFile(input.source_path, "Source file");
+        const destExists = vault.getAbstractFileByPath(input.destination_path);
+        if (destExists) {
+          return `Error: Destination file already exists: ${input.destination_path}`;
+        }
+        if (!TEXT_FILE_EXTENSIONS.has(sourceFile.extension)) {
+          const data = await vault.readBinary(sourceFile);
+          await vault.createBinary(input.destination_path, data);
+          context.recordChange({ action: "create", path: input.destination_path, before: null, after: fingerprintBinary(data), binary: true });
+          return `Successfully copied "${input.source_path}" to "${input.destination_path}"`;
+        }
+        const sourceContent = await vault.read(sourceFile);
+        await vault.create(input.destination_path, sourceContent);
+        context.recordChange({ action: "create", path: input.destination_path, before: null, after: sourceContent });
+        return `Successfully copied "${input.source_path}" to "${input.destination_path}"`;
+      },
+      formatSummary: (input) => `\u{1F4CB} Copied: ${input.source_path} \u2192 ${input.destination_path}`
+    });
+    this.registerTool({
+      name: "list_folder_tree",
+      description: "Show the folder structure of the vault (or of one folder) as a tree, with the number of files in each folder. Set include_files to list files with their sizes too.",
+      promptSummary: "Show the vault's folder structure as a tree",
+      input_schema: {
+        type: "object",
+        properties: {
+          folder: {
+            type: "string",
+            description: "Optional folder to start from (default: vault root)"
+          },
+          depth: {
+            type: "number",
+            description: "How many levels deep to show (default: 3, max: 10)"
+          },
+          include_files: {
+            type: "boolean",
+            description: "List files under each folder as well (default: false)"
+          }
+        },
+        required: []
+      },
+      permissionClass: "read",
+      resultBudget: 8e3,
+      handler: async (input) => {
+        const root = input.folder ? getFolder(input.folder) : vault.getRoot();
+        const maxDepth = Math.min(input.depth || 3, 10);
+        const lines = [];
+        let folderCount = 0;
+        const walk = (folder, depth) => {
+          const subfolders = folder.children.filter((child) => child instanceof import_obsidian.TFolder).sort((a, b) => a.name.localeCompare(b.name));
+          const files = folder.children.filter((child) => child instanceof import_obsidian.TFile).sort((a, b) => a.name.localeCompare(b.name));
+          for (const subfolder of subfolders) {
+            folderCount++;
+            const fileCount = subfolder.children.filter((child) => child instanceof import_obsidian.TFile).length;
+            lines.push(`${"  ".repeat(depth)}${subfolder.name}/ (${fileCount} file${fileCount === 1 ? "" : "s"})`);
+            if (depth + 1 < maxDepth) {
+              walk(subfolder, depth + 1);
+            } else if (subfolder.children.some((child) => child instanceof import_obsidian.TFolder)) {
+              lines.push(`${"  ".repeat(depth + 1)}...`);
+            }
+          }
+          if (input.include_files) {
+            files.forEach((file) => lines.push(`${"  ".repeat(depth)}${file.name} (${formatFileSize(file.stat.size)})`));
+          }
+        };
+        walk(root, 0);
+        const rootName = root.isRoot() ? "/" : `${root.path}/`;
+        if (lines.length === 0) {
+          return `${rootName} is empty`;
+        }
+        return `Folder tree of ${rootName} (${folderCount} folder(s)):
+
+${lines.join("\n")}`;
+      },
+      formatSummary: (input) => `\u{1F5C2}\uFE0F Folder tree: ${input.folder || "/"}`
+    });
+    this.registerTool({
+      name: "create_folder",
+      description: "Create a folder (and any missing parent folders) in the vault.",
+      promptSummary: "Create folders",
+      input_schema: {
+        type: "object",
+        properties: {
+          path: {
+            type: "string",
+            description: 'The folder path to create (e.g., "Projects/2024")'
+          }
+        },
+        required: ["path"]
+      },
+      permissionClass: "write",
+      resultBudget: 1e4,
+      handler: async (input, context) => {
+        const path = input.path.replace(/\/$/, "");
+        if (vault.getAbstractFileByPath(path)) {
+          throw new ToolInputError(`Something already exists at: ${path}`);
+        }
+        const created = [];
+        const parts = path.split("/");
+        for (let i = 1; i <= parts.length; i++) {
+          const partial = parts.slice(0, i).join("/");
+          if (!vault.getAbstractFileByPath(partial)) {
+            created.push(partial);
+          }
+        }
+        await vault.createFolder(path);
+        created.forEach((folder) => context.recordChange({ action: "create_folder", path: folder, before: null, after: null }));
+        return `Successfully created folder: ${path}`;
+      },
+      formatSummary: (input) => `\u{1F4C1} Created folder: ${input.path}`
+    });
+    this.registerTool({
+      name: "move_folder",
+      description: "Rename or move a folder and everything in it. Links to the moved notes are updated according to the user's Obsidian settings.",
+      promptSummary: "Rename or move folders",
+      input_schema: {
+        type: "object",
+        properties: {
+          old_path: {
+            type: "string",
+            description: "The current path of the folder"
+          },
+          new_path: {
+            type: "string",
+            description: "The new path for the folder"
+          }
+        },
+        required: ["old_path", "new_path"]
+      },
+      permissionClass: "write",
+      resultBudget: 1e4,
+      handler: async (input, context) => {
+        const folder = getFolder(input.old_path);
+        const newPath = input.new_path.replace(/\/$/, "");
+        if (folder.isRoot()) {
+          throw new ToolInputError("The vault root cannot be moved");
+        }
+        if (vault.getAbstractFileByPath(newPath)) {
+          throw new ToolInputError(`Something already exists at: ${newPath}`);
+        }
+        if (newPath.startsWith(folder.path + "/")) {
+          throw new ToolInputError("A folder cannot be moved inside itself");
+        }
+        const oldPath = folder.path;
+        await this.app.fileManager.renameFile(folder, newPath);
+        context.recordChange({ action: "rename", path: newPath, oldPath, before: null, after: null });
+        return `Successfully moved folder "${oldPath}" to "${newPath}"`;
+      },
+      formatSummary: (input) => `\u{1F4C1} Moved folder: ${input.old_path} \u2192 ${input.new_path}`,
+      preview: async (input) => {
+        const folder = vault.getAbstractFileByPath(input.old_path.replace(/\/$/, ""));
+        const fileCount = folder instanceof import_obsidian.TFolder ? vault.getFiles().filter((f) => f.path.startsWith(folder.path + "/")).length : 0;
+        return {
+          title: `Move folder ${input.old_path}`,
+          description: `Claude wants to move this folder (${fileCount} file(s)) to: ${input.new_path}`,
+          diff: null
+        };
+      }
+    });
+    this.registerTool({
+      name: "delete_folder",
+      description: "Delete a folder by moving it to the trash. Fails on non-empty folders unless recursive is true. Never use this to clean up without the user asking.",
+      promptSummary: "Delete folders (use with caution; non-empty folders need recursive: true)",
+      input_schema: {
+        type: "object",
+        properties: {
+          path: {
+            type: "string",
+            description: "The path of the folder to delete"
+          },
+          recursive: {
+            type: "boolean",
+            description: "Also delete everything inside the folder (default: false)"
+          }
+        },
+        required: ["path"]
+      },
+      permissionClass: "write",
+      resultBudget: 1e4,
+      handler: async (input, context) => {
+        const folder = getFolder(input.path);
+        if (folder.isRoot()) {
+          throw new ToolInputError("The vault root cannot be deleted");
+        }
+        const prefix = folder.path + "/";
+        const files = vault.getFiles().filter((f) => f.path.startsWith(prefix));
+        const subfolders = vault.getAllLoadedFiles().filter((f) => f instanceof import_obsidian.TFolder && f.path.startsWith(prefix));
+        if ((files.length > 0 || subfolders.length > 0) && !input.recursive) {
+          throw new ToolInputError(`Folder ${folder.path} is not empty (${files.length} file(s), ${subfolders.length} subfolder(s)). Set recursive to true to delete it with its contents.`);
+        }
+        const contents = /* @__PURE__ */ new Map();
+        for (const file of files) {
+          if (TEXT_FILE_EXTENSIONS.has(file.extension)) {
+            contents.set(file.path, { content: await vault.read(file), binary: false });
+          } else if (file.stat.size <= MAX_JOURNALED_BINARY_BYTES) {
+            contents.set(file.path, { content: (0, import_obsidian.arrayBufferToBase64)(await vault.readBinary(file)), binary: true });
+          }
+        }
+        await vault.trash(folder, true);
+        [folder, ...subfolders].forEach((f) => context.recordChange({ action: "delete_folder", path: f.path, before: null, after: null }));
+        contents.forEach(({ content, binary }, path) => context.recordChange({ action: "delete", path, before: content, after: null, binary }));
+        const largeCount = files.length - contents.size;
+        const binaryNote = largeCount > 0 ? ` ${largeCount} large non-text file(s) can only be restored from the system trash.` : "";
+        return `Successfully moved folder ${folder.path} (${files.length} file(s)) to system trash.${binaryNote}`;
+      },
+      formatSummary: (input) => `\u{1F5D1}\uFE0F Deleted folder: ${input.path}`,
+      preview: async (input) => {
+        const folder = vault.getAbstractFileByPath(input.path.replace(/\/$/, ""));
+        const files = folder instanceof import_obsidian.TFolder ? vault.getFiles().filter((f) => f.path.startsWith(folder.path + "/")) : [];
+        const listed = files.slice(0, 20).map((f) => `- ${f.path}`).join("\n");
+        const more = files.length > 20 ? `
+...and ${files.length - 20} more` : "";
+        return {
+          title: `Delete folder ${input.path}`,
+          description: files.length > 0 ? `Claude wants to move this folder and its ${files.length} file(s) to the system trash:
+${listed}${more}` : "Claude wants to move this empty folder to the system trash.",
+          diff: null
+        };
+      }
+    });
+    this.registerTool({
+      name: "retrieve_context",
+      description: "Find the note sections most relevant to a query using the local search index (BM25 over heading-level chunks). Returns excerpts with paths, headings and line ranges - much cheaper than reading whole notes.",
+      promptSummary: "Get the most relevant note sections for a question (cheaper than reading whole notes)",
+      input_schema: {
+        type: "object",
+        properties: {
+          query: {
+            type: "string",
+            description: "What you are looking for, in natural language or keywords"
+          },
+          k: {
+            type: "number",
+            description: "Number of excerpts to return (default: 5, max: 15)"
+          },
+          folder: {
+            type: "string",
+            description: "Optional folder path to restrict the search to"
+          }
+        },
+        required: ["query"]
+      },
+      permissionClass: "read",
+      resultBudget: 15e3,
+      handler: async (input) => {
+        if (!this.settings.enableRetrievalIndex) {
+          return "Error: The local retrieval index is disabled in settings. Use search_vault instead.";
+        }
+        await this.retrievalIndex.ensureReady();
+        const k = Math.min(input.k || 5, 15);
+        const results = this.retrievalIndex.search(input.query, k, { folder: input.folder });
+        if (results.length === 0) {
+          return `No relevant sections found for "${input.query}"`;
+        }
+        return `Found ${results.length} relevant section(s):
+
+${this.retrievalIndex.formatResults(results)}`;
+      },
+      formatSummary: (input, result) => {
+        var _a;
+        const count = ((_a = result.match(/Found (\d+)/)) == null ? void 0 : _a[1]) || "0";
+        return `\u{1F3AF} Retrieved ${count} sections for "${input.query}"`;
+      }
+    });
+    const metadataCache = this.app.metadataCache;
+    const normalizeTag = (tag) => "#" + String(tag).replace(/^#/, "").toLowerCase();
+    this.registerTool({
+      name: "get_frontmatter",
+      description: "Get the YAML frontmatter properties of a note as JSON, without reading the note body.",
+      promptSummary: "Get a note's frontmatter properties as JSON",
+      input_schema: {
+        type: "object",
+        properties: {
+          path: {
+            type: "string",
+            description: "The path to the note"
+          }
+        },
+        required: ["path"]
+      },
+      permissionClass: "read",
+      resultBudget: 5e3,
+      handler: async (input) => {
+        var _a;
+        const file = getFile(input.path);
+        const frontmatter = (_a = metadataCache.getFileCache(file)) == null ? void 0 : _a.frontmatter;
+        if (!frontmatter) {
+          return `${input.path} has no frontmatter`;
+        }
+        const { position, ...properties } = frontmatter;
+        return JSON.stringify(properties, null, 2);
+      },
+      formatSummary: (input) => `\u{1F3F7}\uFE0F Frontmatter: ${input.path}`
+    });
+    this.registerTool({
+      name: "set_frontmatter_field",
+      description: "Set or remove a single frontmatter property on a note. Obsidian rewrites the YAML for you, preserving the rest of the note. Creates the frontmatter block if the note has none.",
+      promptSummary: "Set or remove one frontmatter property safely",
+      input_schema: {
+        type: "object",
+        properties: {
+          path: {
+            type: "string",
+            description: "The path to the note"
+          },
+          key: {
+            type: "string",
+            description: "The property name"
+          },
+          value: {
+            description: "The value to set: string, number, boolean, list or object. Ignored when remove is true."
+          },
+          remove: {
+            type: "boolean",
+            description: "Remove the property instead of setting it (default: false)"
+          }
+        },
+        required: ["path", "key"]
+      },
+      permissionClass: "write",
+      resultBudget: 2e3,
+      handler: async (input, context) => {
+        const file = getFile(input.path);
+        if (!input.key || !String(input.key).trim()) {
+          throw new ToolInputError("key must not be empty");
+        }
+        if (!input.remove && input.value === void 0) {
+          throw new ToolInputError("value is required unless remove is true");
+        }
+        const before = await vault.read(file);
+        let existed = false;
+        await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+          existed = Object.prototype.hasOwnProperty.call(frontmatter, input.key);
+          if (input.remove) {
+            delete frontmatter[input.key];
+          } else {
+            frontmatter[input.key] = input.value;
+          }
+        });
+        const after = await vault.read(file);
+        if (before !== after) {
+          context.recordChange({ action: "modify", path: input.path, before, after });
+        }
+        if (input.remove) {
+          return existed ? `Removed frontmatter property "${input.key}" from ${input.path}` : `Property "${input.key}" was not set on ${input.path}`;
+        }
+        return `Set frontmatter property "${input.key}" to ${JSON.stringify(input.value)} on ${input.path}`;
+      },
+      formatSummary: (input) => input.remove ? `\u{1F3F7}\uFE0F Removed property ${input.key}: ${input.path}` : `\u{1F3F7}\uFE0F Set ${input.key}: ${input.path}`,
+      preview: async (input) => ({
+        title: `Update frontmatter of ${input.path}`,
+        description: input.remove ? `Claude wants to remove the property "${input.key}".` : `Claude wants to set "${input.key}" to:
+${JSON.stringify(input.value, null, 2)}`,
+        diff: null
+      })
+    });
+    this.registerTool({
+      name: "find_by_tag",
+      description: 'Find notes that have a tag, in the body or the frontmatter. Nested tags match too (e.g. "project" matches "#project/alpha").',
+      promptSummary: "Find notes with a tag (including nested tags)",
+      input_schema: {
+        type: "object",
+        properties: {
+          tag: {
+            type: "string",
+            description: 'The tag to find, with or without the leading # (e.g. "project" or "#project")'
+          },
+          limit: {
+            type: "number",
+            description: "Maximum number of notes to return (default: 100, max: 200)"
+          }
+        },
+        required: ["tag"]
+      },
+      permissionClass: "read",
+      resultBudget: 5e3,
+      handler: async (input) => {
+        const tag = normalizeTag(input.tag);
+        const matches = [];
+        for (const file of vault.getMarkdownFiles()) {
+          const cache = metadataCache.getFileCache(file);
+          const tags = cache ? (0, import_obsidian.getAllTags)(cache) || [] : [];
+          const matching = tags.filter((t) => t.toLowerCase() === tag || t.toLowerCase().startsWith(tag + "/"));
+          if (matching.length > 0) {
+            matches.push(`${file.path} (${[...new Set(matching)].join(", ")})`);
+          }
+        }
+        if (matches.length === 0) {
+          return `No notes found with tag ${tag}`;
+        }
+        const limit = Math.min(input.limit || 100, 200);
+        const header = matches.length > limit ? `Showing ${limit} of ${matches.length} notes with tag ${tag}:` : `Found ${matches.length} note(s) with tag ${tag}:`;
+        return `${header}
+
+${matches.slice(0, limit).join("\n")}`;
+      },
+      formatSummary: (input, result) => {
+        var _a;
+        const count = ((_a = result.match(/(?:Found|of) (\d+)/)) == null ? void 0 : _a[1]) || "0";
+        return `\u{1F3F7}\uFE0F Tag ${normalizeTag(input.tag)}: ${count} notes`;
+      }
+    });
+    this.registerTool({
+      name: "get_backlinks",
+      description: "List the notes that link to a given note, with the number of links from each.",
+      promptSummary: "List notes that link to a note",
+      input_schema: {
+        type: "object",
+        properties: {
+          path: {
+            type: "string",
+            description: "The path to the note"
+          }
+        },
+        required: ["path"]
+      },
+      permissionClass: "read",
+      resultBudget: 5e3,
+      handler: async (input) => {
+        const file = getFile(input.path);
+        const backlinks = [];
+        for (const [sourcePath, links] of Object.entries(metadataCache.resolvedLinks)) {
+          const count = links[file.path];
+          if (count && sourcePath !== file.path) {
+            backlinks.push(`${sourcePath} (${count} link${count === 1 ? "" : "s"})`);
+          }
+        }
+        if (backlinks.length === 0) {
+          return `No notes link to ${file.path}`;
+        }
+        return `Found ${backlinks.length} note(s) linking to ${file.path}:
+
+${backlinks.sort().join("\n")}`;
+      },
+      formatSummary: (input, result) => {
+        var _a;
+        const count = ((_a = result.match(/Found (\d+)/)) == null ? void 0 : _a[1]) || "0";
+        return `\u{1F517} Backlinks to ${input.path}: ${count}`;
+      }
+    });
+    this.registerTool({
+      name: "get_outgoing_links",
+      description: "List the links and embeds in a note, resolved to vault paths. Unresolved links (notes that do not exist yet) are marked.",
+      promptSummary: "List links and embeds in a note, resolved to paths",
+      input_schema: {
+        type: "object",
+        properties: {
+          path: {
+            type: "string",
+            description: "The path to the note"
+          }
+        },
+        required: ["path"]
+      },
+      permissionClass: "read",
+      resultBudget: 5e3,
+      handler: async (input) => {
+        const file = getFile(input.path);
+        const cache = metadataCache.getFileCache(file);
+        const references = [
+          ...((cache == null ? void 0 : cache.links) || []).map((link) => ({ link, kind: "link" })),
+          ...((cache == null ? void 0 : cache.embeds) || []).map((link) => ({ link, kind: "embed" }))
+        ];
+        if (references.length === 0) {
+          return `${file.path} has no outgoing links`;
+        }
+        const lines = references.sort((a, b) => a.link.position.start.line - b.link.position.start.line).map(({ link, kind }) => {
+          const target = metadataCache.getFirstLinkpathDest((0, import_obsidian.getLinkpath)(link.link), file.path);
+          const resolved = target ? target.path : "(unresolved)";
+          return `Line ${link.position.start.line + 1}: [${kind}] ${link.original} \u2192 ${resolved}`;
+        });
+        return `Found ${references.length} outgoing link(s) in ${file.path}:
+
+${lines.join("\n")}`;
+      },
+      formatSummary: (input, result) => {
+        var _a;
+        const count = ((_a = result.match(/Found (\d+)/)) == null ? void 0 : _a[1]) || "0";
+        return `\u{1F517} Links in ${input.path}: ${count}`;
+      }
+    });
+    this.registerTool({
+      name: "get_headings",
+      description: "Get the heading outline of a note with line numbers. Useful for navigating long notes before reading parts of them.",
+      promptSummary: "Get a note's heading outline with line numbers",
+      input_schema: {
+        type: "object",
+        properties: {
+          path: {
+            type: "string",
+            description: "The path to the note"
+          }
+        },
+        required: ["path"]
+      },
+      permissionClass: "read",
+      resultBudget: 5e3,
+      handler: async (input) => {
+        var _a;
+        const file = getFile(input.path);
+        const headings = ((_a = metadataCache.getFileCache(file)) == null ? void 0 : _a.headings) || [];
+        if (headings.length === 0) {
+          return `${file.path} has no headings`;
+        }
+        const outline = headings.map(
+          (h) => `${"  ".repeat(h.level - 1)}${"#".repeat(h.level)} ${h.heading} (line ${h.position.start.line + 1})`
+        );
+        return `Found ${headings.length} heading(s) in ${file.path}:
+
+${outline.join("\n")}`;
+      },
+      formatSummary: (input) => `\u{1F4D1} Headings: ${input.path}`
+    });
+  }
+  async onload() {
+    await this.loadSettings();
+    this.registerBuiltinTools();
+    this.conversationStore = new ConversationStore(this.app, this.getConversationFolder());
+    this.promptLibrary = new PromptLibrary(this.app, this.settings.promptFolder);
+    try {
+      await this.migrateLegacyConversations();
+    } catch (error) {
+      console.error("Failed to migrate saved conversations:", error);
+      new import_obsidian.Notice("Claude: could not migrate saved conversations. They remain in data.json and will be retried next time.");
+    }
+    const iconSvg = `<svg viewBox="0 0 1200 1200" xmlns="http://www.w3.org/2000/svg">
+            <path fill="currentColor" stroke="none" d="M 233.959793 800.214905 L 468.644287 668.536987 L 472.590637 657.100647 L 468.644287 650.738403 L 457.208069 650.738403 L 417.986633 648.322144 L 283.892639 644.69812 L 167.597321 639.865845 L 54.926208 633.825623 L 26.577238 627.785339 L 3.3e-05 592.751709 L 2.73832 575.27533 L 26.577238 559.248352 L 60.724873 562.228149 L 136.187973 567.382629 L 249.422867 575.194763 L 331.570496 580.026978 L 453.261841 592.671082 L 472.590637 592.671082 L 475.328857 584.859009 L 468.724915 580.026978 L 463.570557 575.194763 L 346.389313 495.785217 L 219.543671 411.865906 L 153.100723 363.543762 L 117.181267 339.060425 L 99.060455 316.107361 L 91.248367 266.01355 L 123.865784 230.093994 L 167.677887 233.073853 L 178.872513 236.053772 L 223.248367 270.201477 L 318.040283 343.570496 L 441.825592 434.738342 L 459.946411 449.798706 L 467.194672 444.64447 L 468.080597 441.020203 L 459.946411 427.409485 L 392.617493 305.718323 L 320.778564 181.932983 L 288.80542 130.630859 L 280.348999 99.865845 C 277.369171 87.221436 275.194641 76.590698 275.194641 63.624268 L 312.322174 13.20813 L 332.8591 6.604126 L 382.389313 13.20813 L 403.248352 31.328979 L 434.013519 101.71814 L 483.865753 212.537048 L 561.181274 363.221497 L 583.812134 407.919434 L 595.892639 449.315491 L 600.40271 461.959839 L 608.214783 461.959839 L 608.214783 454.711609 L 614.577271 369.825623 L 626.335632 265.61084 L 637.771851 131.516846 L 641.718201 93.745117 L 660.402832 48.483276 L 697.530334 24.000122 L 726.52356 37.852417 L 750.362549 72 L 747.060486 94.067139 L 732.886047 186.201416 L 705.100708 330.52356 L 686.979919 427.167847 L 697.530334 427.167847 L 709.61084 415.087341 L 758.496704 350.174561 L 840.644348 247.490051 L 876.885925 206.738342 L 919.167847 161.71814 L 946.308838 140.29541 L 997.61084 140.29541 L 1035.38269 196.429626 L 1018.469849 254.416199 L 965.637634 321.422852 L 921.825562 378.201538 L 859.006714 462.765259 L 819.785278 530.41626 L 823.409424 535.812073 L 832.75177 534.92627 L 974.657776 504.724915 L 1051.328979 490.872559 L 1142.818848 475.167786 L 1184.214844 494.496582 L 1188.724854 514.147644 L 1172.456421 554.335693 L 1074.604126 578.496765 L 959.838989 601.449829 L 788.939636 641.879272 L 786.845764 643.409485 L 789.261841 646.389343 L 866.255127 653.637634 L 899.194702 655.409424 L 979.812134 655.409424 L 1129.932861 666.604187 L 1169.154419 692.537109 L 1192.671265 724.268677 L 1188.724854 748.429688 L 1128.322144 779.194641 L 1046.818848 759.865845 L 856.590759 714.604126 L 791.355774 698.335754 L 782.335693 698.335754 L 782.335693 703.731567 L 836.69812 756.885986 L 936.322205 846.845581 L 1061.073975 962.81897 L 1067.436279 991.490112 L 1051.409424 1014.120911 L 1034.496704 1011.704712 L 924.885986 929.234924 L 882.604126 892.107544 L 786.845764 811.48999 L 780.483276 811.48999 L 780.483276 819.946289 L 802.550415 852.241699 L 919.087341 1027.409424 L 925.127625 1081.127686 L 916.671204 1098.604126 L 886.469849 1109.154419 L 853.288696 1103.114136 L 785.073914 1007.355835 L 714.684631 899.516785 L 657.906067 802.872498 L 650.979858 806.81897 L 617.476624 1167.704834 L 601.771851 1186.147705 L 565.530212 1200 L 535.328857 1177.046997 L 519.302124 1139.919556 L 535.328857 1066.550537 L 554.657776 970.792053 L 570.362488 894.68457 L 584.536926 800.134277 L 592.993347 768.724976 L 592.429626 766.630859 L 585.503479 767.516968 L 514.22821 865.369263 L 405.825531 1011.865906 L 320.053711 1103.677979 L 299.516815 1111.812256 L 263.919525 1093.369263 L 267.221497 1060.429688 L 287.114136 1031.114136 L 405.825531 880.107361 L 477.422913 786.52356 L 523.651062 732.483276 L 523.328918 724.671265 L 520.590698 724.671265 L 205.288605 929.395935 L 149.154434 936.644409 L 124.993355 914.01355 L 127.973183 876.885986 L 139.409409 864.80542 L 234.201385 799.570435 L 233.879227 799.8927 Z"/>
+        </svg>`;
+    (0, import_obsidian.addIcon)("claude-logo", iconSvg);
+    this.addRibbonIcon("claude-logo", "Open Claude Chat", () => {
+      this.activateView();
+    });
+    this.addCommand({
+      id: "open-claude-chat",
+      name: "Open Claude Chat",
       callback: () => {
         this.activateView();
       }
     });
+    this.addCommand({
+      id: "new-claude-chat-tab",
+      name: "New Claude chat in new tab",
+      callback: () => this.openNewChat("tab")
+    });
+    this.addCommand({
+      id: "new-claude-chat-split",
+      name: "New Claude chat in split",
+      callback: () => this.openNewChat("split")
+    });
+    this.registerEditorExtension(selectionEditField);
+    for (const action of SELECTION_ACTIONS) {
+      this.addCommand({
+        id: `selection-${action.id}`,
+        name: `${action.name} selection`,
+        editorCallback: (editor, view) => this.selectionEditor.run(editor, view, action)
+      });
+    }
     this.addCommand({
       id: "ask-claude-about-file",
       name: "Ask Claude about current file",
-      editorCallback: async (editor, view) => {
-        var _a;
-        const content = editor.getValue();
-        const fileName = ((_a = view.file) == null ? void 0 : _a.name) || "current file";
-        const modal = new ClaudeQuickModal(
-          this.app,
-          this,
-          `Asking about ${fileName}`,
-          content
-        );
-        modal.open();
+      editorCallback: (editor, view) => {
+        new ClaudeQuickModal(this.app, this, editor, view.file).open();
+      }
+    });
+    this.addCommand({
+      id: "show-usage-dashboard",
+      name: "Show token usage and costs",
+      callback: () => {
+        new UsageDashboardModal(this.app, this).open();
+      }
+    });
+    this.addCommand({
+      id: "revert-conversation-changes",
+      name: "Revert all changes Claude made in this conversation",
+      callback: async () => {
+        const view = this.getActiveChatView();
+        if (!view) {
+          new import_obsidian.Notice("Claude chat is not open");
+          return;
+        }
+        await view.revertChanges(view.changeJournal.getActiveEntries());
       }
     });
     this.registerView(
@@ -247,8 +1830,78 @@ var ClaudePlugin = class extends import_obsidian.Plugin {
       (leaf) => new ClaudeChatView(leaf, this)
     );
     this.addSettingTab(new ClaudeSettingTab(this.app, this));
+    this.cacheStatusEl = this.addStatusBarItem();
+    this.cacheStatusEl.addClass("claude-cache-status");
+    this.cacheStatusEl.addEventListener("click", () => new UsageDashboardModal(this.app, this).open());
+    this.retrievalIndex = new RetrievalIndex(this.app);
+    this.app.workspace.onLayoutReady(() => {
+      if (this.settings.enableRetrievalIndex) {
+        this.retrievalIndex.build();
+      }
+    });
+    this.registerRetrievalIndexEvents();
     this.activateView();
   }
+  registerRetrievalIndexEvents() {
+    const pending = /* @__PURE__ */ new Map();
+    const scheduleIndex = (file) => {
+      const existing = pending.get(file.path);
+      if (existing)
+        window.clearTimeout(existing);
+      pending.set(file.path, window.setTimeout(() => {
+        pending.delete(file.path);
+        this.retrievalIndex.whenBuilt(() => {
+          this.retrievalIndex.indexFile(file).catch((error) => console.error(`Failed to index ${file.path}:`, error));
+        });
+      }, 2e3));
+    };
+    this.register(() => {
+      pending.forEach((timer) => window.clearTimeout(timer));
+      pending.clear();
+    });
+    const update = (apply) => {
+      if (this.settings.enableRetrievalIndex)
+        this.retrievalIndex.whenBuilt(apply);
+    };
+    this.registerEvent(this.app.vault.on("modify", (file) => {
+      if (file instanceof import_obsidian.TFile)
+        update(() => scheduleIndex(file));
+    }));
+    this.registerEvent(this.app.vault.on("create", (file) => {
+      if (file instanceof import_obsidian.TFile)
+        update(() => scheduleIndex(file));
+    }));
+    this.registerEvent(this.app.vault.on("delete", (file) => {
+      update(() => {
+        if (file instanceof import_obsidian.TFolder) {
+          this.retrievalIndex.removeFolder(file.path);
+        } else {
+          this.retrievalIndex.removeFile(file.path);
+        }
+      });
+    }));
+    this.registerEvent(this.app.vault.on("rename", (file, oldPath) => {
+      update(() => {
+        this.retrievalIndex.renameFile(oldPath, file.path);
+        if (file instanceof import_obsidian.TFile)
+          scheduleIndex(file);
+      });
+    }));
+  }
+  getChatViews() {
+    return this.app.workspace.getLeavesOfType("claude-chat-view").map((leaf) => leaf.view).filter((view) => view instanceof ClaudeChatView);
+  }
+  // The focused chat view, or the first open one
+  getActiveChatView() {
+    return this.app.workspace.getActiveViewOfType(ClaudeChatView) || this.getChatViews()[0] || null;
+  }
+  // Open another chat session with an empty conversation
+  async openNewChat(where) {
+    const leaf = this.app.workspace.getLeaf(where);
+    await leaf.setViewState({ type: "claude-chat-view", active: true, state: { conversationId: "" } });
+    this.app.workspace.revealLeaf(leaf);
+    return leaf.view instanceof ClaudeChatView ? leaf.view : null;
+  }
   async activateView() {
     const { workspace } = this.app;
     let leaf = null;
@@ -267,63 +1920,155 @@ var ClaudePlugin = class extends import_obsidian.Plugin {
   }
   async loadSettings() {
     this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+    this.settings.toolPermissions = Object.assign({}, DEFAULT_SETTINGS.toolPermissions, this.settings.toolPermissions);
+    this.settings.modelPrices = Object.assign({}, DEFAULT_SETTINGS.modelPrices, this.settings.modelPrices);
+    this.settings.retryPolicy = Object.assign({}, DEFAULT_SETTINGS.retryPolicy, this.settings.retryPolicy);
+    this.settings.profiles = this.settings.profiles.map((profile) => ({ ...profile }));
   }
   async saveSettings() {
     await this.saveData(this.settings);
   }
-  // Save current conversation to settings
-  async saveCurrentConversation(messages, summary) {
-    if (!this.settings.autoSaveConversations || messages.length === 0) {
+  // A named profile, or the default one made from the main settings
+  getProfile(id) {
+    return this.settings.profiles.find((profile) => profile.id === id) || {
+      id: "",
+      name: "Default",
+      systemPrompt: this.settings.customPrompt,
+      model: this.settings.model,
+      maxTokens: this.settings.maxTokens
+    };
+  }
+  // Instruction notes in the vault root and in every folder above the given files, from the
+  // root down, so the most specific come last
+  async getInstructionFiles(paths) {
+    const name = this.settings.instructionFileName.trim();
+    if (!name)
+      return [];
+    const folders = [""];
+    for (const path of paths) {
+      const parts = path.split("/").slice(0, -1);
+      for (let depth = 1; depth <= parts.length; depth++) {
+        const folder = parts.slice(0, depth).join("/");
+        if (!folders.includes(folder))
+          folders.push(folder);
+      }
+    }
+    folders.sort((a, b) => (a ? a.split("/").length : 0) - (b ? b.split("/").length : 0));
+    const instructions = [];
+    for (const folder of folders) {
+      const file = this.app.vault.getAbstractFileByPath(folder ? `${folder}/${name}` : name);
+      if (!(file instanceof import_obsidian.TFile))
+        continue;
+      const content = (await this.app.vault.cachedRead(file)).trim();
+      if (content)
+        instructions.push({ path: file.path, content });
+    }
+    return instructions;
+  }
+  // Save a chat view's conversation to the conversation store. Each view passes its own ID.
+  async saveConversation(conversationId, messages, summary, changes = [], usage = [], tree, options = {}) {
+    if (!this.settings.autoSaveConversations || messages.length === 0 || !conversationId) {
       return;
     }
-    const conversationId = this.settings.currentConversationId || this.generateConversationId();
-    const existingIndex = this.settings.savedConversations.findIndex((c) => c.id === conversationId);
-    const conversationName = await this.generateConversationName(messages);
-    const conversation = {
+    const existing = (await this.conversationStore.getIndex()).find((entry) => entry.id === conversationId);
+    const conversationName = existing && existing.renamed ? existing.name : await this.generateConversationName(messages, conversationId);
+    await this.conversationStore.save({
       id: conversationId,
       name: conversationName,
       timestamp: Date.now(),
       messages,
-      summary
-    };
-    if (existingIndex >= 0) {
-      this.settings.savedConversations[existingIndex] = conversation;
-    } else {
-      this.settings.savedConversations.push(conversation);
-    }
-    if (this.settings.savedConversations.length > 10) {
-      this.settings.savedConversations = this.settings.savedConversations.sort((a, b) => b.timestamp - a.timestamp).slice(0, 10);
+      summary,
+      changes,
+      usage,
+      tree,
+      options
+    });
+    if (this.settings.currentConversationId !== conversationId) {
+      this.settings.currentConversationId = conversationId;
+      await this.saveSettings();
     }
-    this.settings.currentConversationId = conversationId;
-    await this.saveSettings();
   }
   // Load a conversation by ID
-  loadConversation(conversationId) {
-    const conversation = this.settings.savedConversations.find((c) => c.id === conversationId);
+  async loadConversation(conversationId) {
+    let conversation = null;
+    try {
+      conversation = await this.conversationStore.load(conversationId);
+    } catch (error) {
+      console.error(`Failed to load conversation ${conversationId}:`, error);
+    }
     if (conversation) {
       return {
         messages: conversation.messages,
-        summary: conversation.summary
+        summary: conversation.summary,
+        changes: conversation.changes || [],
+        usage: conversation.usage || [],
+        tree: conversation.tree,
+        options: conversation.options || {}
       };
     }
     return null;
   }
   // Delete a conversation
   async deleteConversation(conversationId) {
-    this.settings.savedConversations = this.settings.savedConversations.filter((c) => c.id !== conversationId);
+    await this.conversationStore.delete(conversationId);
+    for (const view of this.getChatViews()) {
+      if (view.conversationId === conversationId) {
+        view.setConversationId("");
+      }
+    }
     if (this.settings.currentConversationId === conversationId) {
       this.settings.currentConversationId = "";
+      await this.saveSettings();
     }
-    await this.saveSettings();
   }
-  // Generate unique conversation ID
-  generateConversationId() {
-    return `conv_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+  getConversationFolder(folder = this.settings.conversationFolder) {
+    return folder.trim() || `${this.manifest.dir}/conversations`;
   }
-  // Generate AI conversation name based on conversation content
-  async generateConversationName(messages) {
-    if (messages.length === 0) {
-      return "Untitled Conversation";
+  // Switch to another conversation folder, optionally taking the saved conversations along
+  async setConversationFolder(folder, moveExisting) {
+    const previous = this.conversationStore;
+    this.settings.conversationFolder = folder.trim();
+    const next = new ConversationStore(this.app, this.getConversationFolder());
+    if (next.folder === previous.folder) {
+      await this.saveSettings();
+      return;
+    }
+    if (moveExisting) {
+      const { moved, skipped } = await previous.moveTo(next.folder);
+      if (skipped.length > 0) {
+        const listed = skipped.slice(0, 5).join(", ") + (skipped.length > 5 ? `, and ${skipped.length - 5} more` : "");
+        new import_obsidian.Notice(`Moved ${moved} conversation(s) to ${next.folder}. ${skipped.length} file(s) already existed there and were left in ${previous.folder}: ${listed}`, 15e3);
+      } else {
+        new import_obsidian.Notice(`Moved ${moved} conversation(s) to ${next.folder}`);
+      }
+    }
+    this.conversationStore = next;
+    await this.saveSettings();
+  }
+  // One-time move of conversations and usage kept in data.json by earlier versions
+  async migrateLegacyConversations() {
+    if (this.settings.savedConversations === void 0 && this.settings.usageLog === void 0) {
+      return;
+    }
+    const legacyConversations = this.settings.savedConversations || [];
+    const legacyUsage = this.settings.usageLog || [];
+    for (const conversation of legacyConversations) {
+      await this.conversationStore.save(conversation);
+    }
+    await this.conversationStore.appendUsage(legacyUsage);
+    delete this.settings.savedConversations;
+    delete this.settings.usageLog;
+    await this.saveSettings();
+    console.log(`Migrated ${legacyConversations.length} conversation(s) and ${legacyUsage.length} usage record(s) to ${this.conversationStore.folder}`);
+  }
+  // Generate unique conversation ID
+  generateConversationId() {
+    return `conv_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+  }
+  // Generate AI conversation name based on conversation content
+  async generateConversationName(messages, conversationId = "") {
+    if (messages.length === 0) {
+      return "Untitled Conversation";
     }
     try {
       const contextMessages = messages.slice(0, 6);
@@ -340,6 +2085,8 @@ var ClaudePlugin = class extends import_obsidian.Plugin {
           }
         }
       }
+      const titleModel = "claude-haiku-4-5-20251001";
+      const reservation = await this.rateLimiter.acquire(titleModel, this.estimateTokens(conversationContext) + 50);
       const response = await (0, import_obsidian.requestUrl)({
         url: "https://api.anthropic.com/v1/messages",
         method: "POST",
@@ -349,8 +2096,7 @@ var ClaudePlugin = class extends import_obsidian.Plugin {
           "anthropic-version": "2023-06-01"
         },
         body: JSON.stringify({
-          model: "claude-haiku-4-5-20251001",
-          // Use fastest model for this
+          model: titleModel,
           max_tokens: 50,
           messages: [
             {
@@ -361,8 +2107,14 @@ ${conversationContext}`
             }
           ]
         })
+      }).catch((error) => {
+        this.rateLimiter.release(titleModel, reservation);
+        throw error;
       });
       const data = response.json;
+      this.rateLimiter.updateFromHeaders(titleModel, this.headerLookup(response.headers));
+      this.rateLimiter.settle(reservation, data.usage);
+      this.recordUsage(data, conversationId, "title");
       if (data.content && data.content[0] && data.content[0].text) {
         const title = data.content[0].text.trim().replace(/^["']|["']$/g, "");
         return title.length > 0 ? title : "Untitled Conversation";
@@ -377,6 +2129,24 @@ ${conversationContext}`
     }
     return "Untitled Conversation";
   }
+  // Find matching lines in file content, with surrounding lines for context.
+  // Shared by the vault search modal and the search_vault tool.
+  findLineMatches(file, content, isMatch, contextLines = 3) {
+    const lines = content.split("\n");
+    const results = [];
+    lines.forEach((line, index) => {
+      if (isMatch(line)) {
+        results.push({
+          file,
+          line: index + 1,
+          lineText: line,
+          contextBefore: lines.slice(Math.max(0, index - contextLines), index),
+          contextAfter: lines.slice(index + 1, index + 1 + contextLines)
+        });
+      }
+    });
+    return results;
+  }
   truncateToolResult(result, maxSize = 1e4) {
     if (result.length <= maxSize) {
       return result;
@@ -386,7 +2156,58 @@ ${conversationContext}`
 
 [... Result truncated to ${maxSize} characters to save tokens. Original length: ${result.length} characters ...]`;
   }
-  // Estimate tokens (rough approximation: 1 token ≈ 4 characters)
+  // Record the usage block of an API response. Returns null if the response has none.
+  recordUsage(response, conversationId, purpose) {
+    const usage = response && response.usage;
+    if (!usage || typeof usage.input_tokens !== "number")
+      return null;
+    const record = {
+      timestamp: Date.now(),
+      model: response.model || this.settings.model,
+      conversationId,
+      purpose,
+      inputTokens: usage.input_tokens || 0,
+      outputTokens: usage.output_tokens || 0,
+      cacheCreationTokens: usage.cache_creation_input_tokens || 0,
+      cacheReadTokens: usage.cache_read_input_tokens || 0
+    };
+    const thinkingText = (response.content || []).filter((block) => block.type === "thinking").map((block) => block.thinking || "").join("");
+    if (thinkingText) {
+      record.thinkingTokens = Math.min(record.outputTokens, this.estimateTokens(thinkingText));
+    }
+    this.conversationStore.appendUsage([record]).catch((error) => console.error("Failed to record usage:", error));
+    return record;
+  }
+  // Show how much of the input the last request and the whole conversation read from the cache
+  updateCacheStatus(records) {
+    if (!this.cacheStatusEl)
+      return;
+    const chatRecords = records.filter((record) => record.purpose === "chat");
+    if (!this.settings.enablePromptCaching || chatRecords.length === 0) {
+      this.cacheStatusEl.empty();
+      return;
+    }
+    const last = summarizeUsage(chatRecords.slice(-1), () => null);
+    const conversation = summarizeUsage(chatRecords, () => null);
+    this.cacheStatusEl.setText(`Cache ${Math.round(last.cacheHitRate * 100)}% \xB7 chat ${Math.round(conversation.cacheHitRate * 100)}%`);
+    this.cacheStatusEl.setAttribute("aria-label", [
+      `Last request: ${formatTokenCount(last.cacheReadTokens)} of ${formatTokenCount(last.totalInput)} input tokens read from cache, ${formatTokenCount(last.cacheCreationTokens)} written`,
+      `This conversation: ${formatTokenCount(conversation.cacheReadTokens)} of ${formatTokenCount(conversation.totalInput)} read from cache over ${conversation.requests} request(s)`,
+      "Click for the cost view"
+    ].join("\n"));
+  }
+  getModelPrice(model) {
+    const key = Object.keys(this.settings.modelPrices).filter((prefix) => model.startsWith(prefix)).sort((a, b) => b.length - a.length)[0];
+    return key ? this.settings.modelPrices[key] : null;
+  }
+  // Cost in USD, or null when no price is configured for the model
+  calculateCost(record) {
+    const price = this.getModelPrice(record.model);
+    if (!price)
+      return null;
+    return (record.inputTokens * price.input + record.outputTokens * price.output + record.cacheCreationTokens * price.cacheWrite + record.cacheReadTokens * price.cacheRead) / 1e6;
+  }
+  // Rough estimate (4 characters per token), used where no API usage is available yet
   estimateTokens(text) {
     if (typeof text === "string") {
       return Math.ceil(text.length / 4);
@@ -411,8 +2232,7 @@ ${conversationContext}`
     return total;
   }
   // Get model's context window size
-  getModelContextWindow() {
-    const model = this.settings.model;
+  getModelContextWindow(model = this.settings.model) {
     if (model.includes("opus"))
       return 2e5;
     if (model.includes("sonnet"))
@@ -421,9 +2241,21 @@ ${conversationContext}`
       return 2e5;
     return 2e5;
   }
+  // Most output tokens (answer plus reasoning) a model can produce per request
+  getModelMaxOutput(model = this.settings.model) {
+    if (model.includes("opus-4"))
+      return 32e3;
+    if (model.includes("sonnet-4") || model.includes("haiku-4") || model.includes("3-7-sonnet"))
+      return 64e3;
+    if (model.includes("3-5"))
+      return 8192;
+    return 4096;
+  }
   // Get model-specific rate limits (per minute)
-  getModelRateLimits() {
-    const model = this.settings.model;
+  getModelRateLimits(model = this.settings.model) {
+    const learned = this.rateLimiter && this.rateLimiter.learnedLimits.get(model);
+    if (learned)
+      return learned;
     if (model.includes("haiku-4")) {
       return { rpm: 50, itpm: 5e4, otpm: 1e4 };
     }
@@ -442,209 +2274,268 @@ ${conversationContext}`
     const isSimpleCommand = simplePatterns.some((pattern) => pattern.test(message));
     return isShort && isSimpleCommand;
   }
-  // Summarize old conversation history
-  async summarizeConversation(messages) {
+  // Fold messages into the running summary with the summary model. Callers await this,
+  // so the request that needs the summary is never sent before it is ready.
+  async summarizeConversation(messages, previousSummary = "", conversationId = "", signal) {
     if (messages.length === 0)
-      return "";
-    let summary = "=== Previous Conversation Summary ===\n\n";
-    for (const msg of messages) {
-      const role = msg.role === "user" ? "User" : "Assistant";
-      if (typeof msg.content === "string") {
-        const truncated = msg.content.length > 200 ? msg.content.substring(0, 200) + "..." : msg.content;
-        summary += `${role}: ${truncated}
-
-`;
-      } else {
-        const textBlocks = msg.content.filter((b) => b.type === "text").map((b) => b.text).join(" ");
-        const toolUses = msg.content.filter((b) => b.type === "tool_use").map((b) => b.name);
-        if (textBlocks) {
-          const truncated = textBlocks.length > 200 ? textBlocks.substring(0, 200) + "..." : textBlocks;
-          summary += `${role}: ${truncated}
-`;
-        }
-        if (toolUses.length > 0) {
-          summary += `Tools used: ${toolUses.join(", ")}
-`;
-        }
-        summary += "\n";
-      }
+      return previousSummary;
+    const prompt = [
+      previousSummary ? `<previous_summary>
+${previousSummary}
+</previous_summary>
+` : "",
+      `<new_messages>
+${formatTranscript(messages)}
+</new_messages>
+`,
+      previousSummary ? "Update the previous summary so it also covers the new messages." : "Summarize these messages.",
+      SUMMARY_FORMAT_INSTRUCTIONS
+    ].join("\n");
+    const response = await this.callClaude(
+      [{ role: "user", content: prompt }],
+      "You maintain a running summary of a conversation between a user and an assistant that works in their Obsidian vault. The summary replaces the messages it covers, so keep everything needed to continue the work: what was decided, which files were read or changed and how, and what is still open.",
+      void 0,
+      void 0,
+      signal,
+      void 0,
+      { model: this.settings.summaryModel, maxTokens: 1500, cache: false }
+    );
+    this.recordUsage(response, conversationId, "summary");
+    const summary = getMessageText({ role: "assistant", content: response.content || [] }).trim();
+    if (!summary) {
+      throw new Error("The summary model returned an empty summary");
     }
-    summary += "=== End Summary ===\n";
     return summary;
   }
-  async executeTool(toolName, input) {
-    try {
-      switch (toolName) {
-        case "read_file":
-          const file = this.app.vault.getAbstractFileByPath(input.path);
-          if (!file || !(file instanceof import_obsidian.TFile)) {
-            return `Error: File not found: ${input.path}`;
-          }
-          const content = await this.app.vault.read(file);
-          return this.truncateToolResult(content, 15e3);
-        case "search_in_file":
-          const searchFile = this.app.vault.getAbstractFileByPath(input.path);
-          if (!searchFile || !(searchFile instanceof import_obsidian.TFile)) {
-            return `Error: File not found: ${input.path}`;
-          }
-          const searchContent = await this.app.vault.read(searchFile);
-          const lines = searchContent.split("\n");
-          const pattern = input.pattern.toLowerCase();
-          const matches = [];
-          let matchCount = 0;
-          lines.forEach((line, index) => {
-            if (line.toLowerCase().includes(pattern) && matchCount < 50) {
-              matches.push(`Line ${index + 1}: ${line}`);
-              matchCount++;
-            }
-          });
-          if (matches.length === 0) {
-            return `No matches found for "${input.pattern}" in ${input.path}`;
-          }
-          const searchResult = `Found ${matchCount} matches in ${input.path}:
-
-${matches.join("\n")}`;
-          return this.truncateToolResult(searchResult, 5e3);
-        case "get_file_info":
-          const infoFile = this.app.vault.getAbstractFileByPath(input.path);
-          if (!infoFile || !(infoFile instanceof import_obsidian.TFile)) {
-            return `Error: File not found: ${input.path}`;
-          }
-          const infoContent = await this.app.vault.read(infoFile);
-          const infoLines = infoContent.split("\n");
-          const firstLines = infoLines.slice(0, 5).join("\n");
-          const lastLines = infoLines.slice(-5).join("\n");
-          return `File: ${input.path}
-Size: ${infoContent.length} characters
-Lines: ${infoLines.length}
-
-First 5 lines:
-${firstLines}
-
-Last 5 lines:
-${lastLines}`;
-        case "replace_in_file":
-          const replaceFile = this.app.vault.getAbstractFileByPath(input.path);
-          if (!replaceFile || !(replaceFile instanceof import_obsidian.TFile)) {
-            return `Error: File not found: ${input.path}`;
-          }
-          const replaceContent = await this.app.vault.read(replaceFile);
-          if (!replaceContent.includes(input.old_text)) {
-            return `Error: Text not found in file. Could not find: "${input.old_text}"`;
-          }
-          const newContent = replaceContent.replace(input.old_text, input.new_text);
-          await this.app.vault.modify(replaceFile, newContent);
-          return `Successfully replaced text in ${input.path}`;
-        case "write_file":
-          const existingFile = this.app.vault.getAbstractFileByPath(input.path);
-          if (existingFile && existingFile instanceof import_obsidian.TFile) {
-            await this.app.vault.modify(existingFile, input.content);
-            return `Successfully updated file: ${input.path}`;
-          } else {
-            await this.app.vault.create(input.path, input.content);
-            return `Successfully created file: ${input.path}`;
-          }
-        case "list_files":
-          const files = this.app.vault.getMarkdownFiles();
-          let filteredFiles = files;
-          if (input.folder) {
-            filteredFiles = files.filter((f) => f.path.startsWith(input.folder));
-          }
-          if (input.search) {
-            const searchLower = input.search.toLowerCase();
-            filteredFiles = filteredFiles.filter(
-              (f) => f.path.toLowerCase().includes(searchLower) || f.basename.toLowerCase().includes(searchLower)
-            );
-          }
-          const limit = Math.min(input.limit || 100, 200);
-          const limitedFiles = filteredFiles.slice(0, limit);
-          const fileList = limitedFiles.map((f) => f.path).join("\n");
-          if (filteredFiles.length > limit) {
-            return this.truncateToolResult(`Showing ${limit} of ${filteredFiles.length} files (use search parameter to narrow results):
-
-${fileList}`, 5e3);
-          }
-          return this.truncateToolResult(`Found ${limitedFiles.length} file(s):
-
-${fileList}`, 5e3);
-        case "rename_file":
-          const fileToRename = this.app.vault.getAbstractFileByPath(input.old_path);
-          if (!fileToRename || !(fileToRename instanceof import_obsidian.TFile)) {
-            return `Error: File not found: ${input.old_path}`;
-          }
-          const existingAtNewPath = this.app.vault.getAbstractFileByPath(input.new_path);
-          if (existingAtNewPath) {
-            return `Error: A file already exists at: ${input.new_path}`;
-          }
-          await this.app.fileManager.renameFile(fileToRename, input.new_path);
-          return `Successfully renamed "${input.old_path}" to "${input.new_path}"`;
-        case "delete_file":
-          const fileToDelete = this.app.vault.getAbstractFileByPath(input.path);
-          if (!fileToDelete || !(fileToDelete instanceof import_obsidian.TFile)) {
-            return `Error: File not found: ${input.path}`;
-          }
-          await this.app.vault.trash(fileToDelete, true);
-          return `Successfully moved to system trash: ${input.path}`;
-        case "copy_file":
-          const sourceFile = this.app.vault.getAbstractFileByPath(input.source_path);
-          if (!sourceFile || !(sourceFile instanceof import_obsidian.TFile)) {
-            return `Error: Source file not found: ${input.source_path}`;
-          }
-          const destExists = this.app.vault.getAbstractFileByPath(input.destination_path);
-          if (destExists) {
-            return `Error: Destination file already exists: ${input.destination_path}`;
-          }
-          const sourceContent = await this.app.vault.read(sourceFile);
-          await this.app.vault.create(input.destination_path, sourceContent);
-          return `Successfully copied "${input.source_path}" to "${input.destination_path}"`;
-        default:
-          return `Error: Unknown tool: ${toolName}`;
+  getToolPermission(toolName) {
+    const configured = this.settings.toolPermissions[toolName];
+    if (configured)
+      return configured;
+    const tool = this.toolRegistry.get(toolName);
+    return tool && tool.permissionClass === "write" ? "ask" : "allow";
+  }
+  // Describe what a tool call is about to change so the user can approve it
+  async buildToolChangePreview(toolName, input) {
+    const tool = this.toolRegistry.get(toolName);
+    if (tool && tool.preview) {
+      return tool.preview(input);
+    }
+    return {
+      title: `Run ${toolName}`,
+      description: `Input:
+${JSON.stringify(input, null, 2)}`,
+      diff: null
+    };
+  }
+  // Compact one-line label shown in the chat for a tool execution
+  formatToolSummary(toolName, input, result) {
+    const tool = this.toolRegistry.get(toolName);
+    if (tool && tool.formatSummary) {
+      try {
+        return tool.formatSummary(input, result);
+      } catch (error) {
+        console.error(`Failed to format summary for ${toolName}:`, error);
+      }
+    }
+    return `\u{1F527} ${toolName}`;
+  }
+  // Apply the tool's permission policy. Returns null when the call may run,
+  // otherwise a structured tool_result payload explaining why it did not.
+  // Aborting the signal closes an open approval dialog as a rejection.
+  async checkToolPermission(toolName, input, signal) {
+    const permission = this.getToolPermission(toolName);
+    if (permission === "allow") {
+      return null;
+    }
+    if (permission === "deny") {
+      return JSON.stringify({
+        status: "denied_by_policy",
+        tool: toolName,
+        message: `The user has disabled the ${toolName} tool. Do not call it again; tell the user what you would have done instead.`
+      });
+    }
+    const preview = await this.buildToolChangePreview(toolName, input);
+    const approved = (signal == null ? void 0 : signal.aborted) ? false : await new Promise((resolve) => {
+      const onAbort = () => modal.close();
+      const modal = new ToolApprovalModal(this.app, preview, (approved2) => {
+        signal == null ? void 0 : signal.removeEventListener("abort", onAbort);
+        resolve(approved2);
+      });
+      signal == null ? void 0 : signal.addEventListener("abort", onAbort, { once: true });
+      modal.open();
+    });
+    if (approved) {
+      return null;
+    }
+    return JSON.stringify({
+      status: "rejected_by_user",
+      tool: toolName,
+      input: toolName === "write_file" ? { path: input.path } : input,
+      message: "The user rejected this change. Nothing was modified. Do not retry the same change; ask the user how they would like to proceed."
+    });
+  }
+  // onChange receives every vault mutation so callers can journal it for undo
+  async executeTool(toolName, input, onChange) {
+    const tool = this.toolRegistry.get(toolName);
+    if (!tool) {
+      return `Error: Unknown tool: ${toolName}`;
+    }
+    const context = {
+      app: this.app,
+      recordChange: (change) => {
+        if (onChange)
+          onChange(change);
       }
+    };
+    try {
+      const result = await tool.handler(input, context);
+      return this.truncateToolResult(result, tool.resultBudget);
     } catch (error) {
+      if (error instanceof ToolInputError) {
+        return `Error: ${error.message}`;
+      }
       return `Error executing ${toolName}: ${error.message}`;
     }
   }
-  async callClaude(messages, systemPrompt, tools, onRetry) {
-    if (!this.settings.apiKey) {
-      throw new Error("Claude API key not configured");
-    }
+  // Build the /v1/messages request body shared by streaming and non-streaming calls
+  buildRequestBody(messages, systemPrompt, tools, options = {}) {
+    const caching = this.settings.enablePromptCaching && options.cache !== false;
+    const cacheControl = { type: "ephemeral" };
     const requestBody = {
-      model: this.settings.model,
-      max_tokens: this.settings.maxTokens,
-      messages
+      model: options.model || this.settings.model,
+      max_tokens: options.maxTokens || this.settings.maxTokens,
+      messages: caching ? addHistoryCacheBreakpoints(messages) : messages
     };
-    if (systemPrompt && systemPrompt.trim()) {
-      if (this.settings.enablePromptCaching) {
-        requestBody.system = [
-          {
-            type: "text",
-            text: systemPrompt,
-            cache_control: { type: "ephemeral" }
+    if (options.thinkingBudget) {
+      const total = Math.min(requestBody.max_tokens + options.thinkingBudget, this.getModelMaxOutput(requestBody.model));
+      const budget = Math.max(1024, Math.min(options.thinkingBudget, total - requestBody.max_tokens));
+      requestBody.thinking = { type: "enabled", budget_tokens: budget };
+      requestBody.max_tokens = total;
+    } else if (options.temperature !== void 0) {
+      requestBody.temperature = options.temperature;
+    }
+    if (systemPrompt) {
+      const parts = typeof systemPrompt === "string" ? { stable: systemPrompt, dynamic: "" } : systemPrompt;
+      if (caching) {
+        const blocks = [];
+        if (parts.stable.trim())
+          blocks.push({ type: "text", text: parts.stable, cache_control: cacheControl });
+        if (parts.dynamic.trim()) {
+          const withContext = appendDynamicContext(requestBody.messages, parts.dynamic);
+          if (withContext) {
+            requestBody.messages = withContext;
+          } else {
+            blocks.push({ type: "text", text: parts.dynamic });
           }
-        ];
+        }
+        if (blocks.length > 0)
+          requestBody.system = blocks;
       } else {
-        requestBody.system = systemPrompt;
+        const text = [parts.stable, parts.dynamic].filter((part) => part.trim()).join("\n\n");
+        if (text)
+          requestBody.system = text;
       }
     }
     if (tools && tools.length > 0) {
-      requestBody.tools = tools;
+      requestBody.tools = caching ? tools.map((tool, index) => index === tools.length - 1 ? { ...tool, cache_control: cacheControl } : tool) : tools;
+    }
+    return requestBody;
+  }
+  // Errors raised when the user cancels an in-flight request
+  createAbortError() {
+    const error = new Error("Request cancelled by user");
+    error.name = "AbortError";
+    return error;
+  }
+  isAbortError(error) {
+    return !!error && error.name === "AbortError";
+  }
+  // Reject as soon as the signal aborts, even if the underlying promise cannot be cancelled
+  abortable(promise, signal) {
+    if (!signal)
+      return promise;
+    if (signal.aborted)
+      return Promise.reject(this.createAbortError());
+    return new Promise((resolve, reject) => {
+      const onAbort = () => reject(this.createAbortError());
+      signal.addEventListener("abort", onAbort, { once: true });
+      promise.then(
+        (value) => {
+          signal.removeEventListener("abort", onAbort);
+          resolve(value);
+        },
+        (error) => {
+          signal.removeEventListener("abort", onAbort);
+          reject(error);
+        }
+      );
+    });
+  }
+  // Wait for the given delay, cut short if the signal aborts
+  sleep(ms, signal) {
+    return this.abortable(new Promise((resolve) => setTimeout(resolve, ms)), signal);
+  }
+  // Rough input size of a request for rate limiting, before the API reports the real count
+  estimateRequestTokens(requestBody) {
+    return Math.ceil(JSON.stringify({ system: requestBody.system, tools: requestBody.tools, messages: requestBody.messages }).length / 4);
+  }
+  // Case-insensitive header access for requestUrl responses
+  headerLookup(headers) {
+    const lower = {};
+    Object.keys(headers || {}).forEach((key) => lower[key.toLowerCase()] = headers[key]);
+    return (name) => lower[name.toLowerCase()];
+  }
+  isRetryable(error, policy) {
+    return error.status === 0 ? policy.retryNetworkErrors : policy.retryStatuses.includes(error.status);
+  }
+  // Run a request, retrying ClaudeApiErrors the retry policy allows until attempts or the deadline run out
+  async withRetries(attemptRequest, onRetry, signal) {
+    const policy = this.settings.retryPolicy;
+    const startTime = Date.now();
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await attemptRequest(attempt);
+      } catch (error) {
+        if (!(error instanceof ClaudeApiError)) {
+          throw error;
+        }
+        error.attempts = attempt;
+        if (!this.isRetryable(error, policy) || attempt >= policy.maxAttempts) {
+          throw error;
+        }
+        const delay = computeRetryDelay(attempt, policy, error.retryAfter);
+        if (Date.now() - startTime + delay > policy.deadlineMs) {
+          console.log(`Not retrying: next attempt would pass the ${policy.deadlineMs / 1e3}s deadline`);
+          throw error;
+        }
+        console.log(`${error.message} - retrying in ${delay}ms (attempt ${attempt}/${policy.maxAttempts})`);
+        if (onRetry) {
+          onRetry({ attempt, maxAttempts: policy.maxAttempts, delay, error });
+        }
+        await this.sleep(delay, signal);
+      }
+    }
+  }
+  async callClaude(messages, systemPrompt, tools, onRetry, signal, onRateLimitWait, options = {}) {
+    if (!this.settings.apiKey) {
+      throw new Error("Claude API key not configured");
     }
-    const maxRetries = 3;
-    const retryDelays = [1e3, 2e3, 4e3];
+    const requestBody = this.buildRequestBody(messages, systemPrompt, tools, options);
     const makeRequest = async (attemptNumber) => {
-      console.log(`=== Claude API Request (Attempt ${attemptNumber}/${maxRetries + 1}) ===`);
+      console.log(`=== Claude API Request (Attempt ${attemptNumber}/${this.settings.retryPolicy.maxAttempts}) ===`);
       console.log("URL:", "https://api.anthropic.com/v1/messages");
       console.log("Model:", requestBody.model);
       console.log("Max Tokens:", requestBody.max_tokens);
       console.log("Messages:", JSON.stringify(messages, null, 2));
-      console.log("System Prompt:", systemPrompt ? systemPrompt.substring(0, 100) + "..." : "none");
+      console.log("System Prompt:", requestBody.system ? JSON.stringify(requestBody.system).substring(0, 100) + "..." : "none");
       console.log("API Key (first 20 chars):", this.settings.apiKey.substring(0, 20) + "...");
       if (attemptNumber === 1) {
         console.log("Full Request Body:", JSON.stringify(requestBody, null, 2));
       }
+      const reservation = await this.rateLimiter.acquire(requestBody.model, this.estimateRequestTokens(requestBody), signal, onRateLimitWait);
       let response;
       try {
-        response = await (0, import_obsidian.requestUrl)({
+        response = await this.abortable((0, import_obsidian.requestUrl)({
           url: "https://api.anthropic.com/v1/messages",
           method: "POST",
           headers: {
@@ -655,12 +2546,13 @@ ${fileList}`, 5e3);
           body: JSON.stringify(requestBody),
           throw: false
           // Don't throw on non-200 status
-        });
+        }), signal);
         console.log("=== Claude API Response ===");
         console.log("Status:", response.status);
         console.log("Headers:", response.headers);
         console.log("Response text:", response.text);
         console.log("Response JSON:", response.json);
+        this.rateLimiter.updateFromHeaders(requestBody.model, this.headerLookup(response.headers));
         if (response.status !== 200) {
           let errorMessage = "Unknown error";
           let errorType = "unknown";
@@ -675,29 +2567,14 @@ ${fileList}`, 5e3);
           } else if (response.text) {
             errorMessage = response.text;
           }
-          const retryAfter = response.headers["retry-after"] || response.headers["Retry-After"];
-          if (response.status === 529 && attemptNumber <= maxRetries) {
-            const delay = retryDelays[attemptNumber - 1];
-            console.log(`API overloaded (529), retrying in ${delay}ms (attempt ${attemptNumber}/${maxRetries})...`);
-            if (onRetry) {
-              onRetry(attemptNumber, delay);
-            }
-            await new Promise((resolve) => setTimeout(resolve, delay));
-            return makeRequest(attemptNumber + 1);
-          }
-          let detailedError = `Claude API Error (${response.status})`;
-          if (errorType) {
-            detailedError += ` [${errorType}]`;
-          }
-          if (retryAfter) {
-            detailedError += ` (Retry after: ${retryAfter}s)`;
-          }
-          detailedError += `: ${errorMessage}`;
-          throw new Error(detailedError);
+          const retryAfter = parseFloat(this.headerLookup(response.headers)("retry-after") || "");
+          throw new ClaudeApiError(response.status, errorType, errorMessage, isNaN(retryAfter) ? null : retryAfter);
         }
         const data = response.json;
+        this.rateLimiter.settle(reservation, data.usage);
         return data;
       } catch (error) {
+        this.rateLimiter.release(requestBody.model, reservation);
         console.error("=== Claude API Error (catch block) ===");
         console.error("Error object:", error);
         console.error("Error type:", typeof error);
@@ -705,86 +2582,1583 @@ ${fileList}`, 5e3);
         for (const key in error) {
           console.error(`Error.${key}:`, error[key]);
         }
-        if (error.message && error.message.startsWith("Claude API Error")) {
+        if (this.isAbortError(error) || error instanceof ClaudeApiError) {
           throw error;
         }
+        if (!response) {
+          throw new ClaudeApiError(0, "network_error", error.message || String(error));
+        }
         throw new Error(`Unexpected error: ${error.message || String(error)}`);
       }
     };
-    return makeRequest(1);
+    return this.withRetries(makeRequest, onRetry, signal);
+  }
+  // Stream a response over SSE, assembling the same message shape callClaude returns.
+  // Falls back to the non-streaming path when streaming is disabled or unavailable.
+  async callClaudeStreaming(messages, systemPrompt, tools, callbacks, onRetry, signal, options = {}) {
+    if (!this.settings.apiKey) {
+      throw new Error("Claude API key not configured");
+    }
+    if (!this.settings.enableStreaming || this.streamingUnavailable || typeof fetch !== "function") {
+      return this.callClaude(messages, systemPrompt, tools, onRetry, signal, callbacks.onRateLimitWait, options);
+    }
+    const requestBody = this.buildRequestBody(messages, systemPrompt, tools, options);
+    requestBody.stream = true;
+    const message = await this.withRetries(() => this.streamRequest(requestBody, callbacks, signal), onRetry, signal);
+    return message || this.callClaude(messages, systemPrompt, tools, onRetry, signal, callbacks.onRateLimitWait, options);
+  }
+  // One streaming attempt. Returns null when streaming turns out to be unusable here,
+  // so the caller can fall back to the non-streaming request.
+  async streamRequest(requestBody, callbacks, signal) {
+    console.log("=== Claude API Streaming Request ===");
+    console.log("Model:", requestBody.model);
+    console.log("Max Tokens:", requestBody.max_tokens);
+    if (typeof fetch !== "function" || typeof ReadableStream === "undefined") {
+      console.warn("Streaming is not supported here, falling back to non-streaming");
+      this.streamingUnavailable = true;
+      return null;
+    }
+    const reservation = await this.rateLimiter.acquire(requestBody.model, this.estimateRequestTokens(requestBody), signal, callbacks.onRateLimitWait);
+    let response;
+    try {
+      response = await fetch("https://api.anthropic.com/v1/messages", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "x-api-key": this.settings.apiKey,
+          "anthropic-version": "2023-06-01",
+          "anthropic-dangerous-direct-browser-access": "true"
+        },
+        body: JSON.stringify(requestBody),
+        signal
+      });
+    } catch (error) {
+      this.rateLimiter.release(requestBody.model, reservation);
+      if (this.isAbortError(error)) {
+        throw this.createAbortError();
+      }
+      if (!navigator.onLine || !(error instanceof TypeError)) {
+        throw new ClaudeApiError(0, "network_error", error.message || String(error));
+      }
+      console.warn("Streaming request failed, falling back to non-streaming:", error);
+      this.streamingUnavailable = true;
+      return null;
+    }
+    this.rateLimiter.updateFromHeaders(requestBody.model, (name) => response.headers.get(name));
+    if (!response.body) {
+      console.warn("Streaming response has no body, falling back to non-streaming");
+      this.streamingUnavailable = true;
+      this.rateLimiter.release(requestBody.model, reservation);
+      return null;
+    }
+    if (response.status !== 200) {
+      const errorText = await response.text();
+      let errorMessage = errorText || "Unknown error";
+      let errorType = "unknown";
+      try {
+        const errorData = JSON.parse(errorText);
+        if (errorData && errorData.error) {
+          errorMessage = errorData.error.message || JSON.stringify(errorData.error);
+          errorType = errorData.error.type || "unknown";
+        }
+      } catch (e) {
+      }
+      this.rateLimiter.release(requestBody.model, reservation);
+      const retryAfter = parseFloat(response.headers.get("retry-after") || "");
+      throw new ClaudeApiError(response.status, errorType, errorMessage, isNaN(retryAfter) ? null : retryAfter);
+    }
+    const message = { content: [], stop_reason: null, usage: {} };
+    const toolInputBuffers = {};
+    let fullText = "";
+    const handleEvent = (data) => {
+      var _a, _b;
+      switch (data.type) {
+        case "message_start":
+          Object.assign(message, data.message, { content: [] });
+          break;
+        case "content_block_start": {
+          const block = { ...data.content_block };
+          if (block.type === "thinking") {
+            block.thinking = block.thinking || "";
+            block.signature = block.signature || "";
+          } else if (block.type === "tool_use") {
+            block.input = {};
+            toolInputBuffers[data.index] = "";
+            if (callbacks.onToolUseStart) {
+              callbacks.onToolUseStart(block.name);
+            }
+          }
+          message.content[data.index] = block;
+          break;
+        }
+        case "content_block_delta": {
+          const block = message.content[data.index];
+          if (!block)
+            break;
+          if (data.delta.type === "text_delta") {
+            block.text = (block.text || "") + data.delta.text;
+            fullText += data.delta.text;
+            if (callbacks.onText) {
+              callbacks.onText(data.delta.text, fullText);
+            }
+          } else if (data.delta.type === "input_json_delta") {
+            toolInputBuffers[data.index] += data.delta.partial_json;
+          } else if (data.delta.type === "thinking_delta") {
+            block.thinking += data.delta.thinking;
+            if (callbacks.onThinking) {
+              callbacks.onThinking(block.thinking);
+            }
+          } else if (data.delta.type === "signature_delta") {
+            block.signature += data.delta.signature;
+          }
+          break;
+        }
+        case "content_block_stop": {
+          const block = message.content[data.index];
+          if (block && block.type === "tool_use") {
+            const json = toolInputBuffers[data.index];
+            block.input = json ? JSON.parse(json) : {};
+          }
+          break;
+        }
+        case "message_delta":
+          if (data.delta && data.delta.stop_reason) {
+            message.stop_reason = data.delta.stop_reason;
+          }
+          if (data.usage) {
+            message.usage = { ...message.usage, ...data.usage };
+          }
+          break;
+        case "error": {
+          const errorType = ((_a = data.error) == null ? void 0 : _a.type) || "unknown";
+          throw ClaudeApiError.fromStreamError(errorType, ((_b = data.error) == null ? void 0 : _b.message) || "Stream error");
+        }
+      }
+    };
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    const processEventBlock = (rawEvent) => {
+      const dataLines = rawEvent.split("\n").filter((line) => line.startsWith("data:")).map((line) => line.substring(5).trim());
+      if (dataLines.length === 0)
+        return;
+      handleEvent(JSON.parse(dataLines.join("\n")));
+    };
+    try {
+      while (true) {
+        let chunk;
+        try {
+          chunk = await reader.read();
+        } catch (error) {
+          if (signal == null ? void 0 : signal.aborted) {
+            throw this.createAbortError();
+          }
+          throw new ClaudeApiError(0, "network_error", error.message || String(error));
+        }
+        const { done, value } = chunk;
+        if (done)
+          break;
+        buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, "\n");
+        let separatorIndex;
+        while ((separatorIndex = buffer.indexOf("\n\n")) >= 0) {
+          const rawEvent = buffer.substring(0, separatorIndex);
+          buffer = buffer.substring(separatorIndex + 2);
+          processEventBlock(rawEvent);
+        }
+      }
+      if (buffer.trim()) {
+        processEventBlock(buffer);
+      }
+    } catch (error) {
+      reader.cancel().catch(() => {
+      });
+      throw error;
+    }
+    message.content = message.content.filter((block) => block);
+    console.log("=== Claude API Streaming Response Complete ===");
+    console.log("Stop reason:", message.stop_reason);
+    console.log("Usage:", message.usage);
+    this.rateLimiter.settle(reservation, message.usage);
+    return message;
   }
 };
-var ClaudeChatView = class extends import_obsidian.ItemView {
-  constructor(leaf, plugin) {
-    super(leaf);
-    this.conversationHistory = [];
-    this.conversationSummary = "";
-    // Stores summary of old messages
-    this.loadingMessageInterval = null;
-    this.suggestionContainer = null;
-    this.selectedSuggestionIndex = -1;
-    this.attachedFiles = [];
-    this.attachmentChipsContainer = null;
-    this.autocompleteTimeout = null;
-    this.isGenerating = false;
-    this.shouldStop = false;
-    this.tokenIndicator = null;
-    this.modelIndicator = null;
-    this.plugin = plugin;
+var ChangeJournal = class {
+  constructor(app, entries = []) {
+    this.app = app;
+    this.entries = entries;
   }
-  getViewType() {
-    return "claude-chat-view";
+  record(turnId, toolName, change) {
+    const entry = {
+      ...change,
+      id: `chg_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`,
+      turnId,
+      toolName,
+      timestamp: Date.now(),
+      reverted: false
+    };
+    this.entries.push(entry);
+    return entry;
   }
-  getDisplayText() {
-    return "Claude Chat";
+  // Changes that have not been reverted yet, optionally limited to one turn
+  getActiveEntries(turnId) {
+    return this.entries.filter((e) => !e.reverted && (!turnId || e.turnId === turnId));
   }
-  getIcon() {
-    return "claude-logo";
+  // Entries in the order they were recorded; timestamps tie for changes made in the same millisecond
+  inOrder(entries) {
+    return [...entries].sort((a, b) => this.entries.indexOf(a) - this.entries.indexOf(b));
   }
-  async onOpen() {
-    const container = this.containerEl.children[1];
-    container.empty();
-    container.addClass("claude-chat-container");
-    this.chatContainer = container.createDiv({ cls: "claude-chat-messages" });
-    await this.loadPreviousConversation();
-    if (this.conversationHistory.length === 0) {
-      this.addWelcomeMessage();
+  // Paths whose current state no longer matches what Claude left behind,
+  // i.e. the user (or a later turn) changed them afterwards
+  async findConflicts(entries) {
+    const vault = this.app.vault;
+    const conflicts = /* @__PURE__ */ new Set();
+    const latestByPath = /* @__PURE__ */ new Map();
+    const writtenByPath = /* @__PURE__ */ new Map();
+    const earlierPaths = /* @__PURE__ */ new Map();
+    for (const entry of this.inOrder(entries)) {
+      if (entry.action === "rename" && entry.oldPath) {
+        const written = writtenByPath.get(entry.oldPath);
+        if (written)
+          writtenByPath.set(entry.path, written);
+        earlierPaths.set(entry.path, [...earlierPaths.get(entry.oldPath) || [], entry.oldPath]);
+        latestByPath.delete(entry.oldPath);
+        writtenByPath.delete(entry.oldPath);
+        earlierPaths.delete(entry.oldPath);
+      } else if (entry.action === "modify" || entry.action === "create") {
+        writtenByPath.set(entry.path, entry);
+      } else {
+        writtenByPath.delete(entry.path);
+      }
+      latestByPath.set(entry.path, entry);
     }
-    this.inputContainer = container.createDiv({ cls: "claude-chat-input-container" });
-    const statusBar = this.inputContainer.createDiv({ cls: "claude-status-bar" });
-    this.tokenIndicator = statusBar.createDiv({ cls: "claude-token-indicator" });
-    this.updateTokenIndicator();
-    this.modelIndicator = statusBar.createDiv({ cls: "claude-model-indicator" });
-    this.updateModelIndicator();
-    const inputRow = this.inputContainer.createDiv({ cls: "claude-input-row" });
-    const textareaWrapper = inputRow.createDiv({ cls: "claude-textarea-wrapper" });
-    this.inputArea = textareaWrapper.createEl("textarea", {
-      cls: "claude-chat-input",
-      attr: { placeholder: "Ask Claude..." }
-    });
-    this.sendButton = inputRow.createEl("button", {
-      cls: "claude-send-button",
-      attr: { "aria-label": "Send message" }
-    });
-    this.sendButton.innerHTML = `<svg xmlns="http://www.w3.org/2000/svg" width="15" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="3" stroke-linecap="round" stroke-linejoin="round"><line x1="12" y1="28" x2="12" y2="0"></line><polyline points="0 13 12 0 24 13"></polyline></svg>`;
-    this.attachmentChipsContainer = this.inputContainer.createDiv({ cls: "claude-attachment-chips" });
-    const iconButtonsRow = this.inputContainer.createDiv({ cls: "claude-icon-buttons" });
-    const attachButton = iconButtonsRow.createEl("button", {
-      cls: "claude-icon-button",
-      attr: { "aria-label": "Attach active file" }
-    });
-    attachButton.innerHTML = `<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M21.44 11.05l-9.19 9.19a6 6 0 0 1-8.49-8.49l9.19-9.19a4 4 0 0 1 5.66 5.66l-9.2 9.19a2 2 0 0 1-2.83-2.83l8.49-8.48"></path></svg>`;
-    const searchButton = iconButtonsRow.createEl("button", {
-      cls: "claude-icon-button",
-      attr: { "aria-label": "Search vault" }
-    });
-    searchButton.innerHTML = `<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><circle cx="11" cy="11" r="8"></circle><path d="m21 21-4.35-4.35"></path></svg>`;
-    const clearButton = iconButtonsRow.createEl("button", {
-      cls: "claude-icon-button claude-clear-button",
-      attr: { "aria-label": "Start new conversation" }
-    });
-    clearButton.innerHTML = `<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><polyline points="3 6 5 6 21 6"></polyline><path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"></path></svg>`;
-    const loadButton = iconButtonsRow.createEl("button", {
+    for (const entry of latestByPath.values()) {
+      const file = vault.getAbstractFileByPath(entry.path);
+      let conflict = false;
+      switch (entry.action) {
+        case "modify":
+        case "create":
+          conflict = !(file instanceof import_obsidian.TFile) || await this.readContent(file, entry.binary) !== entry.after;
+          break;
+        case "rename": {
+          const written = writtenByPath.get(entry.path);
+          conflict = !file || !!vault.getAbstractFileByPath(entry.oldPath) || !!written && (!(file instanceof import_obsidian.TFile) || await this.readContent(file, written.binary) !== written.after);
+          break;
+        }
+        case "delete":
+          conflict = !!file;
+          break;
+        case "create_folder":
+          conflict = !(file instanceof import_obsidian.TFolder) || file.children.length > 0;
+          break;
+        case "delete_folder":
+          break;
+      }
+      if (conflict) {
+        conflicts.add(entry.path);
+        (earlierPaths.get(entry.path) || []).forEach((path) => conflicts.add(path));
+      }
+    }
+    return conflicts;
+  }
+  // Revert changes newest first. Entries touching a path in skipPaths are left alone.
+  async revert(entries, skipPaths = /* @__PURE__ */ new Set()) {
+    const ordered = this.inOrder(entries).reverse();
+    const skipped = /* @__PURE__ */ new Set();
+    const failed = [];
+    let reverted = 0;
+    for (const entry of ordered) {
+      if (skipPaths.has(entry.path) || entry.oldPath && skipPaths.has(entry.oldPath)) {
+        skipped.add(entry.path);
+        continue;
+      }
+      try {
+        await this.revertEntry(entry);
+        entry.reverted = true;
+        reverted++;
+      } catch (error) {
+        failed.push(`${entry.path}: ${error.message}`);
+      }
+    }
+    return { reverted, skipped: [...skipped], failed };
+  }
+  async revertEntry(entry) {
+    const vault = this.app.vault;
+    const file = vault.getAbstractFileByPath(entry.path);
+    switch (entry.action) {
+      case "modify":
+      case "delete":
+        if (entry.binary) {
+          const data = (0, import_obsidian.base64ToArrayBuffer)(entry.before || "");
+          if (file instanceof import_obsidian.TFile) {
+            await vault.modifyBinary(file, data);
+          } else {
+            await this.ensureParentFolder(entry.path);
+            await vault.createBinary(entry.path, data);
+          }
+        } else if (file instanceof import_obsidian.TFile) {
+          await vault.modify(file, entry.before || "");
+        } else {
+          await this.ensureParentFolder(entry.path);
+          await vault.create(entry.path, entry.before || "");
+        }
+        break;
+      case "create":
+        if (file instanceof import_obsidian.TFile) {
+          await vault.trash(file, true);
+        }
+        break;
+      case "rename":
+        if (!file) {
+          throw new Error("File no longer exists");
+        }
+        await this.ensureParentFolder(entry.oldPath);
+        await this.app.fileManager.renameFile(file, entry.oldPath);
+        break;
+      case "create_folder":
+        if (file instanceof import_obsidian.TFolder) {
+          if (file.children.length > 0) {
+            throw new Error("Folder is no longer empty");
+          }
+          await vault.trash(file, true);
+        }
+        break;
+      case "delete_folder":
+        if (!file) {
+          await vault.createFolder(entry.path);
+        }
+        break;
+    }
+  }
+  // File content in the form the journal stores as after: text, or a binary file's fingerprint
+  async readContent(file, binary) {
+    return binary ? fingerprintBinary(await this.app.vault.readBinary(file)) : this.app.vault.read(file);
+  }
+  async ensureParentFolder(path) {
+    const folder = path.substring(0, path.lastIndexOf("/"));
+    if (folder && !this.app.vault.getAbstractFileByPath(folder)) {
+      await this.app.vault.createFolder(folder);
+    }
+  }
+};
+function getMessageText(message) {
+  if (typeof message.content === "string") {
+    return message.content;
+  }
+  return message.content.filter((block) => block.type === "text" && block.text).map((block) => block.text).join("\n");
+}
+function getReasoningBlocks(content) {
+  if (typeof content === "string") {
+    return [];
+  }
+  return content.filter((block) => block.type === "thinking" || block.type === "redacted_thinking");
+}
+function withoutReasoningBlocks(messages) {
+  return messages.map((message) => {
+    if (typeof message.content === "string" || getReasoningBlocks(message.content).length === 0) {
+      return message;
+    }
+    const content = message.content.filter((block) => block.type !== "thinking" && block.type !== "redacted_thinking");
+    return content.length > 0 ? { ...message, content } : message;
+  });
+}
+function withoutToolBlocks(messages) {
+  return messages.map((message) => {
+    if (typeof message.content === "string" || !message.content.some((block) => block.type === "tool_use" || block.type === "tool_result")) {
+      return message;
+    }
+    const content = message.content.map((block) => {
+      if (block.type === "tool_use") {
+        return { type: "text", text: `[Called ${block.name} with ${JSON.stringify(block.input)}]` };
+      }
+      if (block.type === "tool_result") {
+        return { type: "text", text: `[Tool result${block.is_error ? " (error)" : ""}: ${block.content || ""}]` };
+      }
+      return block;
+    });
+    return { ...message, content };
+  });
+}
+function supportsThinking(model) {
+  return /claude-(3-7-sonnet|sonnet-4|opus-4|haiku-4)/.test(model);
+}
+function getAttachedFilePaths(content) {
+  return [...new Set([...content.matchAll(/^\[End File: (.+)\]$/gm)].map((match) => match[1]))];
+}
+function getConversationFiles(conversation) {
+  const files = /* @__PURE__ */ new Set();
+  for (const message of conversation.messages) {
+    if (!Array.isArray(message.content))
+      continue;
+    for (const block of message.content) {
+      if (block.type !== "tool_use" || !block.input)
+        continue;
+      for (const key of ["path", "old_path", "new_path", "source_path", "destination_path"]) {
+        if (typeof block.input[key] === "string" && block.input[key])
+          files.add(block.input[key]);
+      }
+    }
+  }
+  for (const change of conversation.changes || []) {
+    files.add(change.path);
+    if (change.oldPath)
+      files.add(change.oldPath);
+  }
+  return [...files].sort();
+}
+function buildIndexEntry(conversation) {
+  const shorten = (text) => text.length > 160 ? text.substring(0, 160).trim() + "..." : text;
+  const firstUser = conversation.messages.find((message) => message.role === "user" && getMessageText(message));
+  const firstAssistant = conversation.messages.find((message) => message.role === "assistant" && getMessageText(message));
+  return {
+    id: conversation.id,
+    name: conversation.name,
+    timestamp: conversation.timestamp,
+    messageCount: conversation.messages.length,
+    pinned: conversation.pinned || false,
+    renamed: conversation.renamed || false,
+    models: [...new Set((conversation.usage || []).map((record) => record.model))],
+    files: getConversationFiles(conversation),
+    preview: {
+      user: firstUser ? shorten(getMessageText(firstUser)) : "",
+      assistant: firstAssistant ? shorten(getMessageText(firstAssistant)) : ""
+    }
+  };
+}
+var ConversationStore = class {
+  // Writes run one at a time, in call order
+  constructor(app, folder) {
+    this.index = null;
+    this.writtenLines = /* @__PURE__ */ new Map();
+    // Message lines known to be on disk, per conversation
+    this.writtenChanges = /* @__PURE__ */ new Map();
+    // Change journal known to be on disk, per conversation
+    this.messageTexts = /* @__PURE__ */ new Map();
+    // Per conversation, for search
+    this.usage = null;
+    this.queue = Promise.resolve();
+    this.app = app;
+    this.folder = folder.replace(/\/$/, "");
+  }
+  get adapter() {
+    return this.app.vault.adapter;
+  }
+  messagesPath(id) {
+    return `${this.folder}/${id}.jsonl`;
+  }
+  metaPath(id) {
+    return `${this.folder}/${id}.meta.json`;
+  }
+  treePath(id) {
+    return `${this.folder}/${id}.tree.json`;
+  }
+  changesPath(id) {
+    return `${this.folder}/${id}.changes.json`;
+  }
+  get indexPath() {
+    return `${this.folder}/index.json`;
+  }
+  get usagePath() {
+    return `${this.folder}/usage.jsonl`;
+  }
+  // Run a write after the ones already queued, so overlapping saves can't append the
+  // same lines twice or drop each other's index entries
+  enqueue(task) {
+    const result = this.queue.then(task);
+    this.queue = result.then(() => void 0, () => void 0);
+    return result;
+  }
+  async ensureFolder() {
+    if (!await this.adapter.exists(this.folder)) {
+      await this.adapter.mkdir(this.folder);
+    }
+  }
+  // Parse JSON lines, skipping a partial line left by an interrupted append
+  parseLines(raw) {
+    const items = [];
+    for (const line of raw.split("\n")) {
+      if (!line.trim())
+        continue;
+      try {
+        items.push(JSON.parse(line));
+      } catch (error) {
+        console.warn("Skipping unreadable line in conversation store:", line.substring(0, 100));
+      }
+    }
+    return items;
+  }
+  async getIndex() {
+    if (this.index)
+      return this.index;
+    try {
+      if (await this.adapter.exists(this.indexPath)) {
+        this.index = JSON.parse(await this.adapter.read(this.indexPath));
+        return this.index;
+      }
+    } catch (error) {
+      console.error("Conversation index unreadable, rebuilding:", error);
+    }
+    this.index = await this.rebuildIndex();
+    return this.index;
+  }
+  // Recreate the index from the meta files, e.g. after index.json was lost
+  async rebuildIndex() {
+    if (!await this.adapter.exists(this.folder))
+      return [];
+    const entries = [];
+    const listing = await this.adapter.list(this.folder);
+    for (const path of listing.files.filter((file) => file.endsWith(".meta.json"))) {
+      try {
+        const { id, name, timestamp, messageCount, pinned, renamed, models, files, preview } = JSON.parse(await this.adapter.read(path));
+        entries.push({ id, name, timestamp, messageCount: messageCount || 0, pinned, renamed, models, files, preview });
+      } catch (error) {
+        console.error(`Skipping unreadable conversation ${path}:`, error);
+      }
+    }
+    return entries;
+  }
+  async writeIndex() {
+    await this.ensureFolder();
+    await this.adapter.write(this.indexPath, JSON.stringify(await this.getIndex()));
+  }
+  save(conversation) {
+    return this.enqueue(() => this.write(conversation));
+  }
+  async write(conversation) {
+    await this.ensureFolder();
+    const index = await this.getIndex();
+    const previous = index.find((entry2) => entry2.id === conversation.id);
+    if (previous) {
+      conversation = {
+        ...conversation,
+        pinned: previous.pinned,
+        renamed: previous.renamed,
+        name: previous.renamed ? previous.name : conversation.name
+      };
+    }
+    const lines = conversation.messages.map((message) => JSON.stringify(message));
+    const written = this.writtenLines.get(conversation.id);
+    const path = this.messagesPath(conversation.id);
+    const canAppend = written !== void 0 && written.length <= lines.length && written.every((line, index2) => line === lines[index2]) && await this.adapter.exists(path);
+    if (canAppend) {
+      if (lines.length > written.length) {
+        await this.adapter.append(path, lines.slice(written.length).map((line) => line + "\n").join(""));
+      }
+    } else {
+      await this.adapter.write(path, lines.map((line) => line + "\n").join(""));
+    }
+    this.writtenLines.set(conversation.id, lines);
+    this.messageTexts.set(conversation.id, conversation.messages.map(getMessageText));
+    const { messages, tree, changes, ...meta } = conversation;
+    const entry = buildIndexEntry(conversation);
+    await this.adapter.write(this.metaPath(conversation.id), JSON.stringify({ ...meta, ...entry }));
+    const changesText = JSON.stringify(changes || []);
+    if (changesText !== this.writtenChanges.get(conversation.id)) {
+      await this.adapter.write(this.changesPath(conversation.id), changesText);
+      this.writtenChanges.set(conversation.id, changesText);
+    }
+    const treePath = this.treePath(conversation.id);
+    if (tree) {
+      await this.adapter.write(treePath, JSON.stringify(tree));
+    } else if (await this.adapter.exists(treePath)) {
+      await this.adapter.remove(treePath);
+    }
+    const existing = index.findIndex((e) => e.id === conversation.id);
+    if (existing >= 0) {
+      index[existing] = entry;
+    } else {
+      index.push(entry);
+    }
+    await this.writeIndex();
+  }
+  // Change listing details without touching the messages
+  update(id, changes) {
+    return this.enqueue(async () => {
+      const entry = (await this.getIndex()).find((e) => e.id === id);
+      if (!entry)
+        return;
+      if (changes.name !== void 0) {
+        entry.name = changes.name;
+        entry.renamed = true;
+      }
+      if (changes.pinned !== void 0) {
+        entry.pinned = changes.pinned;
+      }
+      const meta = JSON.parse(await this.adapter.read(this.metaPath(id)));
+      await this.adapter.write(this.metaPath(id), JSON.stringify({ ...meta, name: entry.name, renamed: entry.renamed, pinned: entry.pinned }));
+      await this.writeIndex();
+    });
+  }
+  // Case-insensitive search of names and message text. Conversations that match
+  // only by name map to an empty hit list.
+  async search(query, maxHitsPerConversation = 5) {
+    const needle = query.toLowerCase();
+    const results = /* @__PURE__ */ new Map();
+    for (const entry of await this.getIndex()) {
+      let texts = this.messageTexts.get(entry.id);
+      if (!texts) {
+        const path = this.messagesPath(entry.id);
+        const raw = await this.adapter.exists(path) ? await this.adapter.read(path) : "";
+        texts = this.parseLines(raw).map(getMessageText);
+        this.messageTexts.set(entry.id, texts);
+      }
+      const hits = [];
+      texts.forEach((text, messageIndex) => {
+        if (hits.length >= maxHitsPerConversation)
+          return;
+        const position = text.toLowerCase().indexOf(needle);
+        if (position < 0)
+          return;
+        const start = Math.max(0, position - 60);
+        const end = Math.min(text.length, position + needle.length + 60);
+        const snippet = (start > 0 ? "..." : "") + text.substring(start, end).replace(/\s+/g, " ") + (end < text.length ? "..." : "");
+        hits.push({ messageIndex, snippet });
+      });
+      if (hits.length > 0 || entry.name.toLowerCase().includes(needle)) {
+        results.set(entry.id, hits);
+      }
+    }
+    return results;
+  }
+  async load(id) {
+    if (!await this.adapter.exists(this.metaPath(id))) {
+      return null;
+    }
+    const meta = JSON.parse(await this.adapter.read(this.metaPath(id)));
+    const path = this.messagesPath(id);
+    const raw = await this.adapter.exists(path) ? await this.adapter.read(path) : "";
+    const messages = this.parseLines(raw);
+    this.writtenLines.set(id, messages.map((message) => JSON.stringify(message)));
+    this.messageTexts.set(id, messages.map(getMessageText));
+    const changesPath = this.changesPath(id);
+    let changes = meta.changes;
+    if (await this.adapter.exists(changesPath)) {
+      changes = JSON.parse(await this.adapter.read(changesPath));
+      this.writtenChanges.set(id, JSON.stringify(changes));
+    }
+    const treePath = this.treePath(id);
+    const tree = await this.adapter.exists(treePath) ? JSON.parse(await this.adapter.read(treePath)) : void 0;
+    return { ...meta, changes, messages, tree };
+  }
+  delete(id) {
+    return this.enqueue(async () => {
+      for (const path of [this.messagesPath(id), this.metaPath(id), this.treePath(id), this.changesPath(id)]) {
+        if (await this.adapter.exists(path)) {
+          await this.adapter.remove(path);
+        }
+      }
+      this.writtenLines.delete(id);
+      this.writtenChanges.delete(id);
+      this.messageTexts.delete(id);
+      this.index = (await this.getIndex()).filter((entry) => entry.id !== id);
+      await this.writeIndex();
+    });
+  }
+  async getUsage() {
+    if (this.usage)
+      return this.usage;
+    const raw = await this.adapter.exists(this.usagePath) ? await this.adapter.read(this.usagePath) : "";
+    this.usage = this.parseLines(raw);
+    return this.usage;
+  }
+  async appendUsage(records) {
+    if (records.length === 0)
+      return;
+    await this.ensureFolder();
+    const usage = await this.getUsage();
+    usage.push(...records);
+    await this.adapter.append(this.usagePath, records.map((record) => JSON.stringify(record) + "\n").join(""));
+  }
+  async clearUsage() {
+    this.usage = [];
+    if (await this.adapter.exists(this.usagePath)) {
+      await this.adapter.remove(this.usagePath);
+    }
+  }
+  // Conversations saved in this store's folder
+  async countConversations() {
+    if (!await this.adapter.exists(this.folder))
+      return 0;
+    const listing = await this.adapter.list(this.folder);
+    return listing.files.filter((file) => file.endsWith(".meta.json")).length;
+  }
+  // Move every conversation file and the usage log to another folder, after any pending
+  // writes. Files already in the target are kept, and the ones not moved because of them
+  // are returned; the target's index is rebuilt to include both.
+  moveTo(folder) {
+    return this.enqueue(async () => {
+      const skipped = [];
+      let moved = 0;
+      if (!await this.adapter.exists(this.folder))
+        return { moved, skipped };
+      const target = new ConversationStore(this.app, folder);
+      await target.ensureFolder();
+      const listing = await this.adapter.list(this.folder);
+      const storeFiles = listing.files.filter((file) => /\.(jsonl|meta\.json|tree\.json|changes\.json)$/.test(file) || file === this.indexPath);
+      for (const path of storeFiles) {
+        const name = path.substring(this.folder.length + 1);
+        const destination = `${target.folder}/${name}`;
+        if (path === this.usagePath && await this.adapter.exists(destination)) {
+          await this.adapter.append(destination, await this.adapter.read(path));
+          await this.adapter.remove(path);
+        } else if (path === this.indexPath) {
+          continue;
+        } else if (await this.adapter.exists(destination)) {
+          skipped.push(name);
+        } else {
+          await this.adapter.rename(path, destination);
+          if (path.endsWith(".meta.json"))
+            moved++;
+        }
+      }
+      target.index = await target.rebuildIndex();
+      await target.writeIndex();
+      if (await this.adapter.exists(this.indexPath)) {
+        await this.adapter.remove(this.indexPath);
+      }
+      const rest = await this.adapter.list(this.folder);
+      if (rest.files.length === 0 && rest.folders.length === 0) {
+        await this.adapter.rmdir(this.folder, false);
+      }
+      return { moved, skipped };
+    });
+  }
+};
+var ConversationBranches = class {
+  constructor(tree) {
+    this.turns = tree ? tree.turns : [];
+    this.selected = tree ? tree.selected : {};
+    this.summarizedCount = tree ? tree.summarizedCount : 0;
+    this.leafId = this.descend(null);
+  }
+  getTurn(id) {
+    return this.turns.find((turn) => turn.id === id);
+  }
+  getChildren(parentId) {
+    return this.turns.filter((turn) => turn.parentId === parentId);
+  }
+  getSiblings(turn) {
+    return this.getChildren(turn.parentId);
+  }
+  // Follow the chosen (or newest) child from a turn down to a leaf
+  descend(fromId) {
+    let current = fromId;
+    for (; ; ) {
+      const children = this.getChildren(current);
+      if (children.length === 0)
+        return current;
+      const chosen = children.find((child) => child.id === this.selected[current || ""]);
+      current = (chosen || children[children.length - 1]).id;
+    }
+  }
+  getActivePath() {
+    const path = [];
+    let turn = this.leafId ? this.getTurn(this.leafId) : void 0;
+    while (turn) {
+      path.unshift(turn);
+      turn = turn.parentId ? this.getTurn(turn.parentId) : void 0;
+    }
+    return path;
+  }
+  getHistory() {
+    return this.getActivePath().flatMap((turn) => turn.messages).slice(this.summarizedCount);
+  }
+  // Branching at or before the summarized prefix would leave the summary describing another branch
+  isSummarized(turn) {
+    let offset = 0;
+    for (const pathTurn of this.getActivePath()) {
+      if (pathTurn.parentId === turn.parentId)
+        break;
+      offset += pathTurn.messages.length;
+    }
+    return offset < this.summarizedCount;
+  }
+  // Record messages added to the history since the last sync. A user message with text
+  // content starts a new turn; everything else continues the current one.
+  sync(history) {
+    const known = this.getActivePath().reduce((count, turn) => count + turn.messages.length, 0) - this.summarizedCount;
+    for (const message of history.slice(Math.max(0, known))) {
+      const leaf = this.leafId ? this.getTurn(this.leafId) : void 0;
+      if (!leaf || message.role === "user" && typeof message.content === "string") {
+        this.addTurn([message]);
+      } else {
+        leaf.messages.push(message);
+      }
+    }
+  }
+  // Start a turn for the newest message in the history, after the current position
+  startTurn(history, display) {
+    this.sync(history.slice(0, -1));
+    const turn = this.addTurn([history[history.length - 1]]);
+    turn.display = display;
+    return turn;
+  }
+  addTurn(messages) {
+    const turn = {
+      id: `turn_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`,
+      parentId: this.leafId,
+      messages
+    };
+    this.turns.push(turn);
+    this.selected[turn.parentId || ""] = turn.id;
+    this.leafId = turn.id;
+    return turn;
+  }
+  // Move back to just before a turn, so the next turn started becomes its sibling
+  rewindBefore(turn) {
+    this.leafId = turn.parentId;
+  }
+  // Make a turn active, continuing down whichever branch below it was last chosen
+  switchTo(turn) {
+    this.selected[turn.parentId || ""] = turn.id;
+    this.leafId = this.descend(turn.id);
+  }
+  // Unbranched, unsummarized conversations are rebuilt from their messages, so only others need
+  // saving, along with those that record which instruction files applied
+  serialize() {
+    if (this.turns.length === this.getActivePath().length && this.summarizedCount === 0 && !this.turns.some((turn) => turn.instructions)) {
+      return void 0;
+    }
+    return { turns: this.turns, selected: this.selected, summarizedCount: this.summarizedCount };
+  }
+};
+var _RateLimitGovernor = class {
+  // Our window is not aligned with the server's, so stay a little under
+  constructor(getDefaultLimits, sleep) {
+    this.windows = /* @__PURE__ */ new Map();
+    this.blockedUntil = /* @__PURE__ */ new Map();
+    // Set by retry-after or exhausted limits
+    this.learnedLimits = /* @__PURE__ */ new Map();
+    this.getDefaultLimits = getDefaultLimits;
+    this.sleep = sleep;
+  }
+  getLimits(model) {
+    return this.learnedLimits.get(model) || this.getDefaultLimits(model);
+  }
+  getWindow(model, now = Date.now()) {
+    const window2 = (this.windows.get(model) || []).filter((r) => r.time > now - _RateLimitGovernor.WINDOW_MS);
+    this.windows.set(model, window2);
+    return window2;
+  }
+  // The prompt prefix the last request read from the cache will most likely be cached again
+  estimateUncachedInput(model, estimatedInput) {
+    const window2 = this.getWindow(model);
+    const last = window2[window2.length - 1];
+    const cached = last ? last.cachedTokens : 0;
+    return Math.max(Math.round(estimatedInput * 0.1), estimatedInput - cached);
+  }
+  // Milliseconds until a request with this much input fits under every limit (0 = now)
+  getWaitTime(model, estimatedInput, now = Date.now()) {
+    const limits = this.getLimits(model);
+    const window2 = this.getWindow(model, now);
+    let wait = Math.max(0, (this.blockedUntil.get(model) || 0) - now);
+    if (window2.length === 0)
+      return wait;
+    const expiresIn = (reservation) => reservation.time + _RateLimitGovernor.WINDOW_MS - now;
+    const maxRequests = Math.max(1, Math.floor(limits.rpm * _RateLimitGovernor.HEADROOM));
+    if (window2.length >= maxRequests) {
+      wait = Math.max(wait, expiresIn(window2[window2.length - maxRequests]));
+    }
+    const timeUntilFits = (amountOf, incoming, budget) => {
+      let used = window2.reduce((sum, r) => sum + amountOf(r), 0);
+      if (used + incoming <= budget)
+        return 0;
+      for (const reservation of window2) {
+        used -= amountOf(reservation);
+        if (used + incoming <= budget || used <= 0)
+          return expiresIn(reservation);
+      }
+      return 0;
+    };
+    wait = Math.max(wait, timeUntilFits((r) => r.inputTokens, estimatedInput, limits.itpm * _RateLimitGovernor.HEADROOM));
+    wait = Math.max(wait, timeUntilFits((r) => r.outputTokens, 0, limits.otpm * _RateLimitGovernor.HEADROOM));
+    return wait;
+  }
+  // Wait until the request fits, reporting the remaining seconds once per second, then reserve its share
+  async acquire(model, estimatedInput, signal, onWait) {
+    const input = this.estimateUncachedInput(model, estimatedInput);
+    let waited = false;
+    while (true) {
+      const wait = this.getWaitTime(model, input);
+      if (wait <= 0)
+        break;
+      waited = true;
+      if (onWait)
+        onWait(Math.ceil(wait / 1e3));
+      await this.sleep(Math.min(wait, 1e3), signal);
+    }
+    if (waited && onWait)
+      onWait(0);
+    const reservation = { time: Date.now(), inputTokens: input, outputTokens: 0, cachedTokens: 0 };
+    this.getWindow(model).push(reservation);
+    return reservation;
+  }
+  // Replace the estimate with the usage the API reported
+  settle(reservation, usage) {
+    if (!usage || typeof usage.input_tokens !== "number")
+      return;
+    reservation.inputTokens = usage.input_tokens + (usage.cache_creation_input_tokens || 0);
+    reservation.outputTokens = usage.output_tokens || 0;
+    reservation.cachedTokens = usage.cache_read_input_tokens || 0;
+  }
+  // Give back a reservation for a request that was never sent, rejected or cancelled
+  release(model, reservation) {
+    this.windows.set(model, this.getWindow(model).filter((r) => r !== reservation));
+  }
+  // Learn the real limits from anthropic-ratelimit-* headers and pause on retry-after or exhausted limits
+  updateFromHeaders(model, getHeader) {
+    const now = Date.now();
+    let blockUntil = this.blockedUntil.get(model) || 0;
+    const retryAfter = parseFloat(getHeader("retry-after") || "");
+    if (!isNaN(retryAfter)) {
+      blockUntil = Math.max(blockUntil, now + retryAfter * 1e3);
+    }
+    const learned = { ...this.getLimits(model) };
+    let changed = false;
+    const kinds = [["requests", "rpm"], ["input-tokens", "itpm"], ["output-tokens", "otpm"]];
+    for (const [kind, field] of kinds) {
+      const limit = parseInt(getHeader(`anthropic-ratelimit-${kind}-limit`) || "");
+      if (!isNaN(limit) && limit > 0 && learned[field] !== limit) {
+        learned[field] = limit;
+        changed = true;
+      }
+      const remaining = parseInt(getHeader(`anthropic-ratelimit-${kind}-remaining`) || "");
+      const reset = Date.parse(getHeader(`anthropic-ratelimit-${kind}-reset`) || "");
+      if (remaining === 0 && !isNaN(reset)) {
+        blockUntil = Math.max(blockUntil, reset);
+      }
+    }
+    if (changed) {
+      this.learnedLimits.set(model, learned);
+    }
+    if (blockUntil > now) {
+      this.blockedUntil.set(model, blockUntil);
+    }
+  }
+};
+var RateLimitGovernor = _RateLimitGovernor;
+RateLimitGovernor.WINDOW_MS = 6e4;
+RateLimitGovernor.HEADROOM = 0.9;
+var _RetrievalIndex = class {
+  constructor(app) {
+    this.chunksByPath = /* @__PURE__ */ new Map();
+    this.docFreq = /* @__PURE__ */ new Map();
+    this.chunkCount = 0;
+    this.totalLength = 0;
+    this.ready = false;
+    this.building = null;
+    this.queuedUpdates = [];
+    // Vault changes that arrived during a build
+    this.generation = 0;
+    this.app = app;
+  }
+  tokenize(text) {
+    return text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter((term) => term.length > 1 && !_RetrievalIndex.STOPWORDS.has(term));
+  }
+  // Split a note into chunks at headings; long sections are split again at paragraph breaks
+  chunkMarkdown(path, content) {
+    const lines = content.split("\n");
+    const chunks = [];
+    const headingStack = [];
+    let sectionStart = 0;
+    let sectionLines = [];
+    let startIndex = 0;
+    if (lines[0] === "---") {
+      const end = lines.indexOf("---", 1);
+      if (end > 0)
+        startIndex = end + 1;
+    }
+    sectionStart = startIndex;
+    const flush = (endIndex) => {
+      const heading = headingStack.filter((h) => h).join(" > ");
+      let pieceStart = sectionStart;
+      let piece = [];
+      const pushPiece = (pieceEnd) => {
+        const text = piece.join("\n").trim();
+        if (text) {
+          const terms = this.tokenize(`${heading} ${text}`);
+          const termFreqs = /* @__PURE__ */ new Map();
+          terms.forEach((term) => termFreqs.set(term, (termFreqs.get(term) || 0) + 1));
+          chunks.push({ path, heading, startLine: pieceStart + 1, endLine: pieceEnd, text, termFreqs, length: terms.length });
+        }
+      };
+      sectionLines.forEach((line, offset) => {
+        const size = piece.reduce((sum, l) => sum + l.length + 1, 0);
+        if (size + line.length > _RetrievalIndex.MAX_CHUNK_CHARS && line.trim() === "" && piece.length > 0) {
+          pushPiece(sectionStart + offset);
+          piece = [];
+          pieceStart = sectionStart + offset + 1;
+          return;
+        }
+        piece.push(line);
+      });
+      pushPiece(endIndex);
+    };
+    for (let i = startIndex; i < lines.length; i++) {
+      const match = lines[i].match(/^(#{1,6})\s+(.*)$/);
+      if (match) {
+        flush(i);
+        const level = match[1].length;
+        headingStack.length = level - 1;
+        headingStack[level - 1] = match[2].trim();
+        sectionStart = i;
+        sectionLines = [lines[i]];
+      } else {
+        sectionLines.push(lines[i]);
+      }
+    }
+    flush(lines.length);
+    return chunks;
+  }
+  addChunks(path, chunks) {
+    this.chunksByPath.set(path, chunks);
+    for (const chunk of chunks) {
+      this.chunkCount++;
+      this.totalLength += chunk.length;
+      chunk.termFreqs.forEach((_, term) => this.docFreq.set(term, (this.docFreq.get(term) || 0) + 1));
+    }
+  }
+  removeFile(path) {
+    const chunks = this.chunksByPath.get(path);
+    if (!chunks)
+      return;
+    for (const chunk of chunks) {
+      this.chunkCount--;
+      this.totalLength -= chunk.length;
+      chunk.termFreqs.forEach((_, term) => {
+        const count = (this.docFreq.get(term) || 1) - 1;
+        if (count <= 0) {
+          this.docFreq.delete(term);
+        } else {
+          this.docFreq.set(term, count);
+        }
+      });
+    }
+    this.chunksByPath.delete(path);
+  }
+  removeFolder(folderPath) {
+    const prefix = folderPath.replace(/\/$/, "") + "/";
+    Array.from(this.chunksByPath.keys()).filter((path) => path.startsWith(prefix)).forEach((path) => this.removeFile(path));
+  }
+  async indexFile(file) {
+    if (file.extension !== "md")
+      return;
+    const generation = this.generation;
+    const content = await this.app.vault.cachedRead(file);
+    if (generation !== this.generation)
+      return;
+    this.removeFile(file.path);
+    this.addChunks(file.path, this.chunkMarkdown(file.path, content));
+  }
+  renameFile(oldPath, newPath) {
+    const chunks = this.chunksByPath.get(oldPath);
+    if (!chunks)
+      return;
+    chunks.forEach((chunk) => chunk.path = newPath);
+    this.chunksByPath.delete(oldPath);
+    this.chunksByPath.set(newPath, chunks);
+  }
+  // Index the whole vault, yielding between batches so the UI stays responsive
+  build() {
+    if (this.building)
+      return this.building;
+    const generation = this.generation;
+    this.building = (async () => {
+      const startTime = Date.now();
+      const files = this.app.vault.getMarkdownFiles();
+      for (let i = 0; i < files.length; i++) {
+        if (generation !== this.generation)
+          return;
+        try {
+          await this.indexFile(files[i]);
+        } catch (error) {
+          console.error(`Failed to index ${files[i].path}:`, error);
+        }
+        if (i % 50 === 49) {
+          await new Promise((resolve) => setTimeout(resolve, 0));
+        }
+      }
+      if (generation !== this.generation)
+        return;
+      this.ready = true;
+      console.log(`Retrieval index built: ${this.chunkCount} chunks from ${files.length} notes in ${Date.now() - startTime}ms`);
+      const queued = this.queuedUpdates;
+      this.queuedUpdates = [];
+      queued.forEach((apply) => apply());
+    })();
+    return this.building;
+  }
+  // Apply a vault change now if the index is built, after the build if one is running,
+  // and not at all otherwise (the next build picks it up)
+  whenBuilt(apply) {
+    if (this.ready) {
+      apply();
+    } else if (this.building) {
+      this.queuedUpdates.push(apply);
+    }
+  }
+  // Drop everything, e.g. when the index is turned off, so turning it on again rebuilds it
+  clear() {
+    this.generation++;
+    this.chunksByPath.clear();
+    this.docFreq.clear();
+    this.chunkCount = 0;
+    this.totalLength = 0;
+    this.ready = false;
+    this.building = null;
+    this.queuedUpdates = [];
+  }
+  async ensureReady() {
+    let building = this.ready ? null : this.build();
+    while (building) {
+      await building;
+      building = this.ready ? null : this.building;
+    }
+  }
+  // Rank chunks against the query with BM25. paths restricts the search to those notes.
+  search(query, limit, options = {}) {
+    const queryTerms = [...new Set(this.tokenize(query))];
+    if (queryTerms.length === 0 || this.chunkCount === 0)
+      return [];
+    const k1 = 1.2;
+    const b = 0.75;
+    const avgLength = this.totalLength / this.chunkCount || 1;
+    const candidatePaths = options.paths ? options.paths.filter((path) => this.chunksByPath.has(path)) : Array.from(this.chunksByPath.keys());
+    const folder = options.folder ? options.folder.replace(/\/$/, "") + "/" : null;
+    const results = [];
+    for (const path of candidatePaths) {
+      if (folder && !path.startsWith(folder))
+        continue;
+      for (const chunk of this.chunksByPath.get(path) || []) {
+        let score = 0;
+        for (const term of queryTerms) {
+          const tf = chunk.termFreqs.get(term);
+          if (!tf)
+            continue;
+          const df = this.docFreq.get(term) || 0;
+          const idf = Math.log(1 + (this.chunkCount - df + 0.5) / (df + 0.5));
+          score += idf * (tf * (k1 + 1)) / (tf + k1 * (1 - b + b * chunk.length / avgLength));
+        }
+        if (score > 0) {
+          results.push({ chunk, score });
+        }
+      }
+    }
+    return results.sort((x, y) => y.score - x.score).slice(0, limit);
+  }
+  // Render results as excerpts for a prompt or tool result
+  formatResults(results, maxCharsPerChunk = 1500) {
+    return results.map(({ chunk }) => {
+      const location = chunk.heading ? `${chunk.path} > ${chunk.heading}` : chunk.path;
+      const text = chunk.text.length > maxCharsPerChunk ? chunk.text.substring(0, maxCharsPerChunk) + "\n[... excerpt truncated ...]" : chunk.text;
+      return `[Excerpt: ${location} (lines ${chunk.startLine}-${chunk.endLine})]
+${text}
+[End Excerpt]`;
+    }).join("\n\n");
+  }
+};
+var RetrievalIndex = _RetrievalIndex;
+// Bumped by clear() so a build in progress stops
+RetrievalIndex.MAX_CHUNK_CHARS = 2e3;
+RetrievalIndex.STOPWORDS = /* @__PURE__ */ new Set([
+  "a",
+  "an",
+  "and",
+  "are",
+  "as",
+  "at",
+  "be",
+  "but",
+  "by",
+  "for",
+  "from",
+  "has",
+  "have",
+  "how",
+  "i",
+  "in",
+  "is",
+  "it",
+  "its",
+  "me",
+  "my",
+  "not",
+  "of",
+  "on",
+  "or",
+  "so",
+  "that",
+  "the",
+  "their",
+  "them",
+  "then",
+  "there",
+  "these",
+  "they",
+  "this",
+  "to",
+  "was",
+  "we",
+  "were",
+  "what",
+  "when",
+  "where",
+  "which",
+  "who",
+  "why",
+  "will",
+  "with",
+  "you",
+  "your"
+]);
+var BUILTIN_PROMPT_VARIABLES = ["selection", "active_file", "date", "input"];
+function fillPromptTemplate(body, values) {
+  return body.replace(/\{\{\s*([\w-]+)\s*\}\}/g, (placeholder, name) => values[name] !== void 0 ? values[name] : placeholder);
+}
+var PromptLibrary = class {
+  constructor(app, folder) {
+    this.app = app;
+    this.folder = folder.replace(/\/$/, "");
+  }
+  async getPrompts() {
+    if (!this.folder)
+      return [];
+    const prompts = [];
+    for (const file of this.app.vault.getMarkdownFiles()) {
+      if (!file.path.startsWith(this.folder + "/"))
+        continue;
+      const cache = this.app.metadataCache.getFileCache(file);
+      const frontmatter = (cache == null ? void 0 : cache.frontmatter) || {};
+      const content = await this.app.vault.cachedRead(file);
+      const body = (cache == null ? void 0 : cache.frontmatterPosition) ? content.substring(cache.frontmatterPosition.end.offset) : content.replace(/^---\n[\s\S]*?\n---\n?/, "");
+      const variables = new Set(Array.isArray(frontmatter.variables) ? frontmatter.variables.map(String) : []);
+      for (const match of body.matchAll(/\{\{\s*([\w-]+)\s*\}\}/g)) {
+        variables.add(match[1]);
+      }
+      prompts.push({
+        name: String(frontmatter.name || file.basename).trim().replace(/\s+/g, "-").toLowerCase(),
+        description: frontmatter.description ? String(frontmatter.description) : "",
+        path: file.path,
+        body: body.trim(),
+        model: frontmatter.model ? String(frontmatter.model) : void 0,
+        tools: Array.isArray(frontmatter.tools) ? frontmatter.tools.map(String) : void 0,
+        variables: [...variables].filter((name) => !BUILTIN_PROMPT_VARIABLES.includes(name))
+      });
+    }
+    return prompts.sort((a, b) => a.name.localeCompare(b.name));
+  }
+  // The prompt a message starts with (/name), and the text typed after it
+  async match(message) {
+    const command = message.match(/^\/([\w-]+)(?:\s+([\s\S]*))?$/);
+    if (!command)
+      return null;
+    const template = (await this.getPrompts()).find((prompt) => prompt.name === command[1].toLowerCase());
+    return template ? { template, input: (command[2] || "").trim() } : null;
+  }
+};
+var SELECTION_ACTIONS = [
+  { id: "rewrite", name: "Rewrite", instruction: "Rewrite this passage so it reads more clearly. Keep its meaning, tone and roughly its length." },
+  { id: "shorten", name: "Shorten", instruction: "Make this passage shorter and more concise. Keep every key point." },
+  { id: "expand", name: "Expand", instruction: "Expand this passage with more detail, explanation or examples, in the same style." },
+  { id: "fix-grammar", name: "Fix grammar", instruction: "Fix spelling, grammar and punctuation in this passage. Change nothing else." },
+  { id: "translate", name: "Translate", instruction: "Translate this passage into {input}.", inputPrompt: "Translate into which language?" },
+  { id: "custom", name: "Custom instruction", instruction: "{input}", inputPrompt: "What should Claude do with this passage?" }
+];
+var SELECTION_EDIT_SYSTEM_PROMPT = `You edit a passage of a Markdown note in Obsidian.
+Reply with only the new passage: no preamble, no explanation, no quotes or code fences around it.
+Keep Markdown formatting, [[wikilinks]], tags and the language of the original unless the instruction says otherwise.`;
+function getEditorView(editor) {
+  const cm = editor.cm;
+  return cm instanceof import_view.EditorView ? cm : null;
+}
+var setSelectionEditPreview = import_state.StateEffect.define();
+var SelectionEditWidget = class extends import_view.WidgetType {
+  constructor(preview) {
+    super();
+    this.preview = preview;
+  }
+  eq(other) {
+    return other.preview.replacement === this.preview.replacement && other.preview.done === this.preview.done;
+  }
+  toDOM() {
+    const container = createDiv({ cls: "claude-edit-preview" });
+    container.createDiv({ cls: "claude-edit-preview-label", text: `\u2728 ${this.preview.label}${this.preview.done ? "" : " - Claude is writing..."}` });
+    container.createDiv({ cls: "claude-edit-preview-text", text: this.preview.replacement });
+    const buttons = container.createDiv({ cls: "claude-edit-preview-buttons" });
+    if (this.preview.done) {
+      const acceptBtn = buttons.createEl("button", { text: "Accept", cls: "mod-cta" });
+      acceptBtn.addEventListener("click", () => this.preview.onAccept());
+    }
+    const rejectBtn = buttons.createEl("button", { text: this.preview.done ? "Reject" : "Cancel" });
+    rejectBtn.addEventListener("click", () => this.preview.onReject());
+    return container;
+  }
+};
+var selectionEditField = import_state.StateField.define({
+  create: () => null,
+  update(preview, transaction) {
+    for (const effect of transaction.effects) {
+      if (effect.is(setSelectionEditPreview)) {
+        return effect.value;
+      }
+    }
+    if (preview && transaction.docChanged) {
+      return {
+        ...preview,
+        from: transaction.changes.mapPos(preview.from, 1),
+        to: transaction.changes.mapPos(preview.to, -1)
+      };
+    }
+    return preview;
+  },
+  provide: (field) => import_view.EditorView.decorations.from(field, (preview) => {
+    if (!preview) {
+      return import_view.Decoration.none;
+    }
+    const decorations = [];
+    if (preview.to > preview.from) {
+      decorations.push(import_view.Decoration.mark({ class: "claude-edit-original" }).range(preview.from, preview.to));
+    }
+    decorations.push(import_view.Decoration.widget({ widget: new SelectionEditWidget(preview), block: true, side: 1 }).range(preview.to));
+    return import_view.Decoration.set(decorations);
+  })
+});
+var SelectionEditor = class {
+  // Request in flight, per editor
+  constructor(plugin) {
+    this.abortControllers = /* @__PURE__ */ new Map();
+    this.plugin = plugin;
+  }
+  // The selection, or the paragraph around the cursor when nothing is selected
+  getTargetRange(editor) {
+    if (editor.somethingSelected()) {
+      return { from: editor.getCursor("from"), to: editor.getCursor("to") };
+    }
+    const line = editor.getCursor().line;
+    if (!editor.getLine(line).trim()) {
+      return null;
+    }
+    let startLine = line;
+    let endLine = line;
+    while (startLine > 0 && editor.getLine(startLine - 1).trim())
+      startLine--;
+    while (endLine < editor.lastLine() && editor.getLine(endLine + 1).trim())
+      endLine++;
+    return { from: { line: startLine, ch: 0 }, to: { line: endLine, ch: editor.getLine(endLine).length } };
+  }
+  async run(editor, view, action) {
+    const range = this.getTargetRange(editor);
+    if (!range) {
+      new import_obsidian.Notice("Select some text or put the cursor in a paragraph first");
+      return;
+    }
+    if (action.inputPrompt) {
+      const initial = action.id === "translate" ? this.plugin.settings.translateLanguage : "";
+      new SelectionInstructionModal(this.plugin.app, action.inputPrompt, initial, async (input) => {
+        if (action.id === "translate") {
+          this.plugin.settings.translateLanguage = input;
+          await this.plugin.saveSettings();
+        }
+        await this.propose(editor, view, range, action.name, action.instruction.replace("{input}", input));
+      }).open();
+      return;
+    }
+    await this.propose(editor, view, range, action.name, action.instruction);
+  }
+  async propose(editor, view, range, label, instruction) {
+    var _a;
+    const cm = getEditorView(editor);
+    if (!cm) {
+      new import_obsidian.Notice("Inline edits are not available in this editor");
+      return;
+    }
+    this.clear(cm);
+    const from = editor.posToOffset(range.from);
+    const to = editor.posToOffset(range.to);
+    const original = editor.getRange(range.from, range.to);
+    const content = editor.getValue();
+    const before = content.substring(Math.max(0, from - 1e3), from);
+    const after = content.substring(to, to + 1e3);
+    const abortController = new AbortController();
+    this.abortControllers.set(cm, abortController);
+    let preview = {
+      from,
+      to,
+      label,
+      replacement: "",
+      done: false,
+      onAccept: () => this.accept(editor, cm),
+      onReject: () => this.clear(cm)
+    };
+    const show = (changes) => {
+      const current = cm.state.field(selectionEditField, false) || preview;
+      preview = { ...preview, ...changes, from: current.from, to: current.to };
+      cm.dispatch({ effects: setSelectionEditPreview.of(preview) });
+    };
+    show({});
+    const prompt = `Note: ${((_a = view.file) == null ? void 0 : _a.path) || "untitled"}
+
+Text before the passage (context only, do not repeat it):
+${before}
+
+Text after the passage (context only, do not repeat it):
+${after}
+
+Passage:
+${original}
+
+Instruction: ${instruction}`;
+    try {
+      const response = await this.plugin.callClaudeStreaming(
+        [{ role: "user", content: prompt }],
+        SELECTION_EDIT_SYSTEM_PROMPT,
+        void 0,
+        { onText: (delta, fullText) => show({ replacement: fullText }) },
+        void 0,
+        abortController.signal,
+        { cache: false }
+      );
+      this.plugin.recordUsage(response, "", "edit");
+      const replacement = (response.content || []).filter((block) => block.type === "text").map((block) => block.text).join("");
+      if (!replacement.trim()) {
+        throw new Error("Claude returned no text");
+      }
+      show({ replacement, done: true });
+    } catch (error) {
+      if (this.plugin.isAbortError(error))
+        return;
+      this.clear(cm);
+      new import_obsidian.Notice(`Claude could not edit the selection: ${error.message}`);
+    } finally {
+      if (this.abortControllers.get(cm) === abortController) {
+        this.abortControllers.delete(cm);
+      }
+    }
+  }
+  // Replace the passage with the proposal as one change, so a single undo restores the original
+  accept(editor, cm) {
+    const preview = cm.state.field(selectionEditField, false);
+    if (!preview || !preview.done)
+      return;
+    cm.dispatch({ effects: setSelectionEditPreview.of(null) });
+    editor.transaction({
+      changes: [{ from: editor.offsetToPos(preview.from), to: editor.offsetToPos(preview.to), text: preview.replacement }]
+    });
+    editor.setCursor(editor.offsetToPos(preview.from + preview.replacement.length));
+    editor.focus();
+  }
+  clear(cm) {
+    const abortController = this.abortControllers.get(cm);
+    if (abortController) {
+      abortController.abort();
+      this.abortControllers.delete(cm);
+    }
+    if (cm.state.field(selectionEditField, false)) {
+      cm.dispatch({ effects: setSelectionEditPreview.of(null) });
+    }
+  }
+};
+var ClaudeChatView = class extends import_obsidian.ItemView {
+  constructor(leaf, plugin) {
+    super(leaf);
+    this.conversationHistory = [];
+    this.conversationSummary = "";
+    // Stores summary of old messages
+    this.branches = new ConversationBranches();
+    // Every edit and regeneration, as a tree of turns
+    this.loadingMessageInterval = null;
+    this.suggestionContainer = null;
+    this.selectedSuggestionIndex = -1;
+    this.attachedFiles = [];
+    this.attachmentChipsContainer = null;
+    this.autocompleteTimeout = null;
+    this.isGenerating = false;
+    this.shouldStop = false;
+    this.abortController = null;
+    // Cancels the in-flight API request
+    this.conversationId = "";
+    // Vault changes made in this conversation
+    this.currentTurnId = "";
+    // Groups journal entries per sent message
+    this.usageRecords = [];
+    // Assistant profile for this conversation
+    this.thinkingButton = null;
+    this.tokenIndicator = null;
+    this.modelIndicator = null;
+    this.plugin = plugin;
+    this.changeJournal = new ChangeJournal(plugin.app);
+    this.thinkingEnabled = plugin.settings.thinkingByDefault;
+    this.profileId = plugin.settings.defaultProfileId;
+  }
+  getViewType() {
+    return "claude-chat-view";
+  }
+  getDisplayText() {
+    return "Claude Chat";
+  }
+  getIcon() {
+    return "claude-logo";
+  }
+  getState() {
+    return { ...super.getState(), conversationId: this.conversationId };
+  }
+  async setState(state, result) {
+    await super.setState(state, result);
+    const requested = state && typeof state.conversationId === "string" ? state.conversationId : this.plugin.settings.currentConversationId;
+    if (!requested || requested === this.conversationId || !this.plugin.settings.autoSaveConversations) {
+      return;
+    }
+    if (this.plugin.getChatViews().some((view) => view !== this && view.conversationId === requested)) {
+      return;
+    }
+    if (await this.loadConversationIntoView(requested)) {
+      console.log(`Loaded conversation: ${requested} with ${this.conversationHistory.length} messages`);
+    }
+  }
+  setConversationId(conversationId) {
+    this.conversationId = conversationId;
+    this.app.workspace.requestSaveLayout();
+  }
+  async onOpen() {
+    const container = this.containerEl.children[1];
+    container.empty();
+    container.addClass("claude-chat-container");
+    this.chatContainer = container.createDiv({ cls: "claude-chat-messages" });
+    this.addWelcomeMessage();
+    this.inputContainer = container.createDiv({ cls: "claude-chat-input-container" });
+    const statusBar = this.inputContainer.createDiv({ cls: "claude-status-bar" });
+    this.tokenIndicator = statusBar.createDiv({ cls: "claude-token-indicator" });
+    this.updateTokenIndicator();
+    this.modelIndicator = statusBar.createDiv({ cls: "claude-model-indicator" });
+    this.updateProfileIndicator();
+    const inputRow = this.inputContainer.createDiv({ cls: "claude-input-row" });
+    const textareaWrapper = inputRow.createDiv({ cls: "claude-textarea-wrapper" });
+    this.inputArea = textareaWrapper.createEl("textarea", {
+      cls: "claude-chat-input",
+      attr: { placeholder: "Ask Claude..." }
+    });
+    this.sendButton = inputRow.createEl("button", {
+      cls: "claude-send-button",
+      attr: { "aria-label": "Send message" }
+    });
+    this.sendButton.innerHTML = `<svg xmlns="http://www.w3.org/2000/svg" width="15" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="3" stroke-linecap="round" stroke-linejoin="round"><line x1="12" y1="28" x2="12" y2="0"></line><polyline points="0 13 12 0 24 13"></polyline></svg>`;
+    this.attachmentChipsContainer = this.inputContainer.createDiv({ cls: "claude-attachment-chips" });
+    const iconButtonsRow = this.inputContainer.createDiv({ cls: "claude-icon-buttons" });
+    const attachButton = iconButtonsRow.createEl("button", {
+      cls: "claude-icon-button",
+      attr: { "aria-label": "Attach active file" }
+    });
+    attachButton.innerHTML = `<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M21.44 11.05l-9.19 9.19a6 6 0 0 1-8.49-8.49l9.19-9.19a4 4 0 0 1 5.66 5.66l-9.2 9.19a2 2 0 0 1-2.83-2.83l8.49-8.48"></path></svg>`;
+    const searchButton = iconButtonsRow.createEl("button", {
+      cls: "claude-icon-button",
+      attr: { "aria-label": "Search vault" }
+    });
+    searchButton.innerHTML = `<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><circle cx="11" cy="11" r="8"></circle><path d="m21 21-4.35-4.35"></path></svg>`;
+    const clearButton = iconButtonsRow.createEl("button", {
+      cls: "claude-icon-button claude-clear-button",
+      attr: { "aria-label": "Start new conversation" }
+    });
+    clearButton.innerHTML = `<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><polyline points="3 6 5 6 21 6"></polyline><path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"></path></svg>`;
+    const loadButton = iconButtonsRow.createEl("button", {
       cls: "claude-icon-button",
       attr: { "aria-label": "Past conversations" }
     });
@@ -794,13 +4168,17 @@ var ClaudeChatView = class extends import_obsidian.ItemView {
       attr: { "aria-label": "Export conversation to markdown" }
     });
     exportButton.innerHTML = `<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z"></path><polyline points="14 2 14 8 20 8"></polyline><line x1="12" y1="18" x2="12" y2="12"></line><polyline points="9 15 12 18 15 15"></polyline></svg>`;
+    this.thinkingButton = iconButtonsRow.createEl("button", { cls: "claude-icon-button claude-thinking-button" });
+    this.thinkingButton.innerHTML = `<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M9 18h6"></path><path d="M10 22h4"></path><path d="M12 2a7 7 0 0 0-4 12.74V16h8v-1.26A7 7 0 0 0 12 2z"></path></svg>`;
+    this.updateThinkingButton();
     attachButton.addEventListener("click", () => this.attachActiveFile());
     searchButton.addEventListener("click", () => this.openVaultSearch());
     loadButton.addEventListener("click", () => this.showConversationPicker());
     exportButton.addEventListener("click", () => this.exportConversation());
+    this.thinkingButton.addEventListener("click", () => this.toggleThinking());
     this.sendButton.addEventListener("click", () => {
       if (this.isGenerating) {
-        this.shouldStop = true;
+        this.stopGeneration();
       } else {
         this.sendMessage(this.inputArea);
       }
@@ -904,6 +4282,11 @@ var ClaudeChatView = class extends import_obsidian.ItemView {
   handleAutocomplete() {
     const cursorPos = this.inputArea.selectionStart;
     const text = this.inputArea.value;
+    const command = text.substring(0, cursorPos).match(/^\/([\w-]*)$/);
+    if (command) {
+      this.showPromptSuggestions(command[1].toLowerCase());
+      return;
+    }
     let wikilinkStart = -1;
     for (let i = cursorPos - 1; i >= 0; i--) {
       if (text.substring(i, i + 2) === "[[") {
@@ -978,6 +4361,40 @@ var ClaudeChatView = class extends import_obsidian.ItemView {
     });
     this.suggestionContainer.style.display = "block";
   }
+  async showPromptSuggestions(query) {
+    const matches = (await this.plugin.promptLibrary.getPrompts()).filter((prompt) => prompt.name.includes(query)).sort((a, b) => Number(b.name.startsWith(query)) - Number(a.name.startsWith(query))).slice(0, 10);
+    if (matches.length === 0) {
+      this.hideSuggestions();
+      return;
+    }
+    if (!this.suggestionContainer) {
+      this.suggestionContainer = this.inputContainer.createDiv({
+        cls: "claude-wikilink-suggestions"
+      });
+    }
+    this.suggestionContainer.empty();
+    this.selectedSuggestionIndex = -1;
+    matches.forEach((prompt, index) => {
+      const suggestionItem = this.suggestionContainer.createDiv({
+        cls: "claude-suggestion-item"
+      });
+      suggestionItem.createDiv({ cls: "claude-suggestion-title", text: `/${prompt.name}` });
+      if (prompt.description) {
+        suggestionItem.createDiv({ cls: "claude-suggestion-path", text: prompt.description });
+      }
+      suggestionItem.addEventListener("click", () => {
+        const rest = this.inputArea.value.substring(this.inputArea.selectionStart).replace(/^[\w-]*/, "");
+        this.inputArea.value = `/${prompt.name} ${rest.trimStart()}`;
+        this.inputArea.selectionStart = this.inputArea.selectionEnd = prompt.name.length + 2;
+        this.hideSuggestions();
+        this.inputArea.focus();
+      });
+      suggestionItem.addEventListener("mouseenter", () => {
+        this.setSelectedSuggestion(index);
+      });
+    });
+    this.suggestionContainer.style.display = "block";
+  }
   hideSuggestions() {
     if (this.suggestionContainer) {
       this.suggestionContainer.style.display = "none";
@@ -1103,6 +4520,59 @@ ${content}
     }
     return { enhancedMessage: enhanced, warnings };
   }
+  // Auto-retrieve mode: rank sections of the wikilinked/attached notes (or the whole vault
+  // when nothing is linked) against the message and append only the top excerpts
+  async buildRetrievedContext(message) {
+    const index = this.plugin.retrievalIndex;
+    const warnings = [];
+    const scopePaths = [];
+    let fullFiles = "";
+    const wikilinkRegex = /\[\[([^\]|]+)(\|[^\]]+)?\]\]/g;
+    const filenames = [...new Set([...message.matchAll(wikilinkRegex)].map((match) => match[1]))];
+    for (const filename of filenames) {
+      const resolvedPath = this.resolveWikilinkToPath(filename);
+      if (resolvedPath) {
+        scopePaths.push(resolvedPath);
+      } else {
+        warnings.push(`\u26A0\uFE0F File not found: [[${filename}]]`);
+      }
+    }
+    await index.ensureReady();
+    for (const attachedFile of this.attachedFiles) {
+      if (attachedFile.file.extension === "md") {
+        scopePaths.push(attachedFile.file.path);
+      } else {
+        const truncated = this.plugin.truncateToolResult(attachedFile.content, 15e3);
+        fullFiles += `[File: ${attachedFile.file.path}]
+${truncated}
+[End File: ${attachedFile.file.path}]
+
+`;
+      }
+    }
+    const query = message.replace(wikilinkRegex, (_, name) => name.split("/").pop());
+    const results = index.search(
+      query,
+      this.plugin.settings.retrievalTopK,
+      scopePaths.length > 0 ? { paths: [...new Set(scopePaths)] } : {}
+    );
+    if (results.length === 0 && !fullFiles) {
+      if (scopePaths.length > 0) {
+        warnings.push("\u26A0\uFE0F No sections of the linked notes matched your message");
+      }
+      return { enhancedMessage: message, warnings, sources: [] };
+    }
+    let enhanced = message + "\n\n";
+    if (results.length > 0) {
+      enhanced += `[Retrieved Context: ${results.length} relevant excerpt(s)${scopePaths.length > 0 ? " from the linked notes" : " from the vault"}. Use read_file if you need a whole note.]
+
+`;
+      enhanced += index.formatResults(results) + "\n\n";
+    }
+    enhanced += fullFiles;
+    const sources = [...new Set(results.map((result) => result.chunk.path))];
+    return { enhancedMessage: enhanced, warnings, sources };
+  }
   resolveWikilinkToPath(filename) {
     const withExtension = filename.endsWith(".md") ? filename : filename + ".md";
     const files = this.plugin.app.vault.getMarkdownFiles();
@@ -1150,29 +4620,21 @@ ${content}
     return pruned;
   }
   truncateToolResults(history) {
+    const CACHED_HISTORY_LIMIT = 0.8;
+    if (this.plugin.settings.enablePromptCaching) {
+      const limit = this.plugin.getModelContextWindow(this.getProfile().model) * CACHED_HISTORY_LIMIT;
+      if (this.plugin.estimateHistoryTokens(history) <= limit) {
+        return history;
+      }
+      console.log("History too large to send unchanged, truncating despite prompt caching");
+    }
     let trimmedHistory = this.smartPruneHistory(history);
     const MAX_TOOL_RESULT_LENGTH = 500;
     const MAX_TEXT_LENGTH = 2e3;
     const MAX_HISTORY_LENGTH = this.plugin.settings.maxHistoryMessages;
     if (trimmedHistory.length > MAX_HISTORY_LENGTH) {
-      const tokensUsed = this.plugin.estimateHistoryTokens(trimmedHistory);
-      const contextWindow = this.plugin.getModelContextWindow();
-      const percentageUsed = tokensUsed / contextWindow * 100;
-      if (percentageUsed > this.plugin.settings.autoSummarizeThreshold) {
-        const keepRecent = 10;
-        const toSummarize = trimmedHistory.slice(0, -keepRecent);
-        const recentMessages = trimmedHistory.slice(-keepRecent);
-        this.plugin.summarizeConversation(toSummarize).then((summary) => {
-          this.conversationSummary = summary;
-          console.log(`Summarized ${toSummarize.length} old messages into summary`);
-        }).catch((err) => {
-          console.error("Failed to summarize conversation:", err);
-        });
-        trimmedHistory = recentMessages;
-      } else {
-        trimmedHistory = trimmedHistory.slice(-MAX_HISTORY_LENGTH);
-        console.log(`Trimmed conversation history from ${history.length} to ${MAX_HISTORY_LENGTH} messages`);
-      }
+      trimmedHistory = trimmedHistory.slice(-MAX_HISTORY_LENGTH);
+      console.log(`Trimmed conversation history from ${history.length} to ${MAX_HISTORY_LENGTH} messages`);
     }
     return trimmedHistory.map((msg, index) => {
       if (index >= trimmedHistory.length - 3) {
@@ -1203,10 +4665,13 @@ ${content}
   updateTokenIndicator() {
     if (!this.tokenIndicator)
       return;
-    const tokensUsed = this.plugin.estimateHistoryTokens(this.conversationHistory);
-    const contextWindow = this.plugin.getModelContextWindow();
+    this.plugin.updateCacheStatus(this.usageRecords);
+    const lastChat = [...this.usageRecords].reverse().find((record) => record.purpose === "chat");
+    const isEstimate = !lastChat;
+    const tokensUsed = lastChat ? lastChat.inputTokens + lastChat.cacheCreationTokens + lastChat.cacheReadTokens + lastChat.outputTokens : this.plugin.estimateHistoryTokens(this.conversationHistory);
+    const contextWindow = this.plugin.getModelContextWindow(this.getProfile().model);
     const percentageUsed = Math.round(tokensUsed / contextWindow * 100);
-    const limits = this.plugin.getModelRateLimits();
+    const limits = this.plugin.getModelRateLimits(this.getProfile().model);
     this.tokenIndicator.empty();
     const indicator = this.tokenIndicator.createDiv({ cls: "claude-token-usage" });
     let statusClass = "token-low";
@@ -1226,13 +4691,30 @@ ${content}
       statusIcon = "\u{1F7E0}";
     }
     indicator.addClass(statusClass);
-    indicator.setText(`${statusIcon} Context: ${percentageUsed}% (${tokensUsed.toLocaleString()} / ${contextWindow.toLocaleString()} tokens) - ${statusText}`);
-    indicator.setAttribute("title", `Per-minute limits:
+    const approx = isEstimate ? "~" : "";
+    indicator.setText(`${statusIcon} Context: ${approx}${percentageUsed}% (${approx}${tokensUsed.toLocaleString()} / ${contextWindow.toLocaleString()} tokens) - ${statusText}`);
+    indicator.setAttribute("title", `${isEstimate ? "Estimated from message length until the first response arrives.\n\n" : ""}Per-minute limits:
 ${limits.rpm} requests/min
 ${limits.itpm.toLocaleString()} input tokens/min
 ${limits.otpm.toLocaleString()} output tokens/min
 
 Note: Only uncached tokens count toward input limit`);
+    if (this.usageRecords.length > 0) {
+      const totals = summarizeUsage(this.usageRecords, (record) => this.plugin.calculateCost(record));
+      const stats = this.tokenIndicator.createDiv({ cls: "claude-token-stats" });
+      const cost = totals.cost !== null ? ` \xB7 ${formatCost(totals.cost)}` : "";
+      const thinking = totals.thinkingTokens > 0 ? ` (~${formatTokenCount(totals.thinkingTokens)} thinking)` : "";
+      stats.setText(`${formatTokenCount(totals.totalInput)} in \xB7 ${formatTokenCount(totals.outputTokens)} out${thinking} \xB7 Cache hit ${Math.round(totals.cacheHitRate * 100)}%${cost}`);
+      stats.setAttribute("title", `${totals.requests} request(s)
+Uncached input: ${totals.inputTokens.toLocaleString()}
+Cache writes: ${totals.cacheCreationTokens.toLocaleString()}
+Cache reads: ${totals.cacheReadTokens.toLocaleString()}
+Output: ${totals.outputTokens.toLocaleString()}${totals.thinkingTokens > 0 ? `
+  of which thinking (estimated): ${totals.thinkingTokens.toLocaleString()}` : ""}
+
+Click for the cost view`);
+      stats.addEventListener("click", () => new UsageDashboardModal(this.plugin.app, this.plugin).open());
+    }
     if (percentageUsed >= 60 && this.conversationHistory.length > 10) {
       const summarizeBtn = this.tokenIndicator.createEl("button", {
         text: "\u{1F4DD} Summarize History",
@@ -1242,89 +4724,147 @@ Note: Only uncached tokens count toward input limit`);
         await this.summarizeOldHistory();
       });
     }
+    if (this.conversationSummary) {
+      const summaryBtn = this.tokenIndicator.createEl("button", {
+        text: "\u{1F4CB} Summary",
+        cls: "claude-summarize-button",
+        attr: { title: "View or edit the summary of the earlier conversation" }
+      });
+      summaryBtn.addEventListener("click", () => this.showSummaryEditor());
+    }
+  }
+  // Reasoning tokens to request, or undefined when thinking is off or the model lacks it
+  getThinkingBudget(model = this.getProfile().model) {
+    if (!this.thinkingEnabled || !supportsThinking(model)) {
+      return void 0;
+    }
+    return this.plugin.settings.thinkingBudgetTokens;
+  }
+  toggleThinking() {
+    this.thinkingEnabled = !this.thinkingEnabled;
+    this.updateThinkingButton();
+    if (this.thinkingEnabled && !supportsThinking(this.getProfile().model)) {
+      new import_obsidian.Notice("Extended thinking is on, but the current model does not support it. It applies once you switch to Claude 3.7 Sonnet or a Claude 4 model.");
+    } else {
+      new import_obsidian.Notice(`Extended thinking ${this.thinkingEnabled ? "on" : "off"} for this conversation`);
+    }
+    if (this.conversationHistory.length > 0) {
+      this.saveConversation();
+    }
+  }
+  updateThinkingButton() {
+    if (!this.thinkingButton)
+      return;
+    this.thinkingButton.toggleClass("is-active", this.thinkingEnabled);
+    this.thinkingButton.setAttribute("aria-label", this.thinkingEnabled ? `Extended thinking on (${this.plugin.settings.thinkingBudgetTokens.toLocaleString()} token budget) - click to turn off` : "Extended thinking off - click to turn on");
+  }
+  getProfile() {
+    return this.plugin.getProfile(this.profileId);
   }
-  // Update model indicator display
-  updateModelIndicator() {
+  // Update the profile switcher in the status bar
+  updateProfileIndicator() {
     if (!this.modelIndicator)
       return;
     this.modelIndicator.empty();
-    const modelName = this.plugin.settings.model;
-    let displayName = "Claude";
-    let modelIcon = "\u{1F916}";
-    if (modelName.includes("haiku")) {
-      displayName = "Haiku 4.5";
-      modelIcon = "\u26A1";
-    } else if (modelName.includes("sonnet")) {
-      displayName = "Sonnet 4.5";
-      modelIcon = "\u{1F3B5}";
-    } else if (modelName.includes("opus")) {
-      displayName = "Opus 4.1";
-      modelIcon = "\u{1F451}";
-    }
-    const modelButton = this.modelIndicator.createEl("button", {
+    const profile = this.getProfile();
+    const model = getModelOption(profile.model);
+    const label = profile.id ? `${profile.name} \xB7 ${model.name.replace(/^Claude /, "")}` : model.name.replace(/^Claude /, "");
+    const profileButton = this.modelIndicator.createEl("button", {
       cls: "claude-model-selector-button",
-      attr: { "aria-label": "Change model" }
+      attr: { "aria-label": "Change assistant profile" }
     });
-    modelButton.setText(`${modelIcon} ${displayName} \u25BC`);
-    modelButton.addEventListener("click", () => {
-      this.showModelPicker();
+    profileButton.setText(`${model.icon} ${label} \u25BC`);
+    profileButton.addEventListener("click", () => {
+      this.showProfilePicker();
     });
   }
-  // Show model picker modal
-  showModelPicker() {
+  // Show profile picker modal; the choice applies to this conversation
+  showProfilePicker() {
     const modal = new import_obsidian.Modal(this.plugin.app);
-    modal.contentEl.createEl("h3", { text: "Select Model" });
-    const models = [
-      { id: "claude-sonnet-4-5-20250929", name: "Claude Sonnet 4.5", icon: "\u{1F3B5}", desc: "Best balance \u2013 recommended for most tasks" },
-      { id: "claude-haiku-4-5-20251001", name: "Claude Haiku 4.5", icon: "\u26A1", desc: "Fastest & cheapest \u2013 great for simple tasks" },
-      { id: "claude-opus-4-1-20250805", name: "Claude Opus 4.1", icon: "\u{1F451}", desc: "Most capable \u2013 for complex analysis" },
-      { id: "claude-sonnet-4-20250514", name: "Claude Sonnet 4", icon: "\u{1F3B5}", desc: "Previous Sonnet version" },
-      { id: "claude-opus-4-20250514", name: "Claude Opus 4", icon: "\u{1F451}", desc: "Previous Opus version" },
-      { id: "claude-3-7-sonnet-20250219", name: "Claude Sonnet 3.7", icon: "\u{1F3B5}", desc: "Legacy Sonnet 3.7" },
-      { id: "claude-3-5-haiku-20241022", name: "Claude Haiku 3.5", icon: "\u26A1", desc: "Legacy Haiku 3.5" },
-      { id: "claude-3-haiku-20240307", name: "Claude Haiku 3", icon: "\u26A1", desc: "Legacy Haiku 3" }
-    ];
+    modal.contentEl.createEl("h3", { text: "Select Profile" });
     const listEl = modal.contentEl.createDiv({ cls: "claude-model-list" });
-    for (const model of models) {
+    for (const profile of [this.plugin.getProfile(""), ...this.plugin.settings.profiles]) {
       const itemEl = listEl.createDiv({ cls: "claude-model-item" });
-      if (model.id === this.plugin.settings.model) {
+      if (profile.id === this.getProfile().id) {
         itemEl.addClass("claude-model-item-active");
       }
-      const nameEl = itemEl.createEl("div", { cls: "claude-model-name" });
-      nameEl.setText(`${model.icon} ${model.name}`);
-      const descEl = itemEl.createEl("div", { cls: "claude-model-desc", text: model.desc });
+      const model = getModelOption(profile.model);
+      itemEl.createEl("div", { cls: "claude-model-name", text: `${model.icon} ${profile.name}` });
+      const details = [model.name, profile.tools ? `${profile.tools.length} tool(s)` : "all tools"];
+      if (profile.temperature !== void 0)
+        details.push(`temperature ${profile.temperature}`);
+      itemEl.createEl("div", { cls: "claude-model-desc", text: details.join(" \xB7 ") });
       itemEl.addEventListener("click", async () => {
-        this.plugin.settings.model = model.id;
-        await this.plugin.saveSettings();
-        this.updateModelIndicator();
-        new import_obsidian.Notice(`Switched to ${model.name}`);
+        this.profileId = profile.id;
+        this.updateProfileIndicator();
+        this.updateTokenIndicator();
+        new import_obsidian.Notice(`Switched to ${profile.name}`);
         modal.close();
+        if (this.conversationHistory.length > 0) {
+          await this.saveConversation();
+        }
       });
     }
+    modal.contentEl.createEl("p", {
+      text: "Add and edit profiles in the plugin settings. The default profile uses the main model and prompt settings.",
+      cls: "setting-item-description"
+    });
     modal.open();
   }
   // Manually trigger conversation summarization
   async summarizeOldHistory() {
-    if (this.conversationHistory.length <= 10) {
-      new import_obsidian.Notice("Not enough history to summarize");
-      return;
-    }
-    const keepRecent = 10;
-    const toSummarize = this.conversationHistory.slice(0, -keepRecent);
-    const recentMessages = this.conversationHistory.slice(-keepRecent);
     try {
-      this.conversationSummary = await this.plugin.summarizeConversation(toSummarize);
-      this.conversationHistory = recentMessages;
-      new import_obsidian.Notice(`Summarized ${toSummarize.length} messages. Context usage reduced!`);
-      this.updateTokenIndicator();
-      const summaryInfo = this.chatContainer.createDiv({
-        cls: "claude-message claude-message-system"
-      });
-      summaryInfo.setText(`\u{1F4DD} Conversation history summarized (${toSummarize.length} messages condensed)`);
+      const folded = await this.foldHistoryIntoSummary();
+      if (folded === 0) {
+        new import_obsidian.Notice("Not enough history to summarize");
+        return;
+      }
+      new import_obsidian.Notice(`Summarized ${folded} messages. Context usage reduced!`);
+      await this.saveConversation();
     } catch (error) {
       new import_obsidian.Notice("Failed to summarize: " + error.message);
     }
   }
+  // Summarizing is due once the history is both longer than the message limit and
+  // past the context threshold
+  needsSummary() {
+    if (this.conversationHistory.length <= this.plugin.settings.maxHistoryMessages) {
+      return false;
+    }
+    const tokensUsed = this.plugin.estimateHistoryTokens(this.conversationHistory);
+    const percentageUsed = tokensUsed / this.plugin.getModelContextWindow(this.getProfile().model) * 100;
+    return percentageUsed > this.plugin.settings.autoSummarizeThreshold;
+  }
+  // Fold everything before the most recent turns into the summary and drop it from the
+  // history. Returns how many messages were folded (0 when there was nothing to fold).
+  async foldHistoryIntoSummary(signal) {
+    const keepRecent = 10;
+    const cut = findSummaryCut(this.conversationHistory, keepRecent);
+    if (cut === 0) {
+      return 0;
+    }
+    const toSummarize = this.conversationHistory.slice(0, cut);
+    this.conversationSummary = await this.plugin.summarizeConversation(toSummarize, this.conversationSummary, this.conversationId, signal);
+    this.branches.sync(this.conversationHistory);
+    this.branches.summarizedCount += cut;
+    this.conversationHistory = this.conversationHistory.slice(cut);
+    console.log(`Summarized ${cut} old messages into summary`);
+    this.updateTokenIndicator();
+    const summaryInfo = this.chatContainer.createDiv({
+      cls: "claude-message claude-message-system claude-summary-note"
+    });
+    summaryInfo.setText(`\u{1F4DD} Conversation history summarized (${cut} messages condensed) - click to view or edit`);
+    summaryInfo.addEventListener("click", () => this.showSummaryEditor());
+    return cut;
+  }
+  showSummaryEditor() {
+    new ConversationSummaryModal(this.plugin.app, this.conversationSummary, async (summary) => {
+      this.conversationSummary = summary;
+      this.updateTokenIndicator();
+      await this.saveConversation();
+      new import_obsidian.Notice(summary ? "Summary updated" : "Summary cleared");
+    }).open();
+  }
   async sendMessage(inputArea) {
     const message = inputArea.value.trim();
     if (!message)
@@ -1334,17 +4874,76 @@ Note: Only uncached tokens count toward input limit`);
       return;
     }
     inputArea.value = "";
-    const { enhancedMessage, warnings } = await this.parseWikilinks(message);
-    let finalMessage = enhancedMessage;
-    if (this.attachedFiles.length > 0) {
-      finalMessage += "\n\n[Manually Attached Files]\n\n";
-      for (const attachedFile of this.attachedFiles) {
-        const truncated = this.plugin.truncateToolResult(attachedFile.content, 15e3);
-        finalMessage += `[File: ${attachedFile.file.path}]
+    await this.submitMessage(message);
+  }
+  // Fill in a library prompt. Built-in placeholders come from the workspace; the prompt's
+  // own variables are asked for. Returns null if the user cancels.
+  async expandPrompt(template, input) {
+    const activeFile = this.plugin.app.workspace.getActiveFile();
+    const editorView = this.plugin.app.workspace.getLeavesOfType("markdown").map((leaf) => leaf.view).find((view) => view instanceof import_obsidian.MarkdownView && view.file === activeFile);
+    const values = {
+      selection: editorView ? editorView.editor.getSelection() : "",
+      active_file: activeFile ? activeFile.extension === "md" ? `[[${activeFile.path}]]` : activeFile.path : "",
+      date: (0, import_obsidian.moment)().format("YYYY-MM-DD"),
+      input
+    };
+    if (template.variables.length > 0) {
+      const answers = await new Promise((resolve) => {
+        new PromptVariablesModal(this.plugin.app, template, resolve).open();
+      });
+      if (!answers)
+        return null;
+      Object.assign(values, answers);
+    }
+    let expanded = fillPromptTemplate(template.body, values);
+    if (input && !/\{\{\s*input\s*\}\}/.test(template.body)) {
+      expanded += `
+
+${input}`;
+    }
+    return expanded;
+  }
+  // Send a message as the next turn and run the tool loop until Claude is done.
+  // Regenerating passes the turn's original content, which is sent again as it was.
+  async submitMessage(message, resendContent) {
+    const resending = resendContent !== void 0;
+    const command = await this.plugin.promptLibrary.match(message);
+    let prompt = message;
+    if (command && !resending) {
+      const expanded = await this.expandPrompt(command.template, command.input);
+      if (expanded === null) {
+        if (!this.inputArea.value)
+          this.inputArea.value = message;
+        return;
+      }
+      prompt = expanded;
+    }
+    const useRetrieval = !resending && this.plugin.settings.autoRetrieve && this.plugin.settings.enableRetrievalIndex;
+    let enhancedMessage = "";
+    let warnings = [];
+    let finalMessage;
+    let retrievedSources = [];
+    if (resending) {
+      finalMessage = resendContent;
+    } else if (useRetrieval) {
+      const retrieved = await this.buildRetrievedContext(prompt);
+      enhancedMessage = retrieved.enhancedMessage;
+      warnings = retrieved.warnings;
+      retrievedSources = retrieved.sources;
+      finalMessage = enhancedMessage;
+    } else {
+      ({ enhancedMessage, warnings } = await this.parseWikilinks(prompt));
+      finalMessage = enhancedMessage;
+      if (this.attachedFiles.length > 0) {
+        finalMessage += "\n\n[Manually Attached Files]\n\n";
+        for (const attachedFile of this.attachedFiles) {
+          const truncated = this.plugin.truncateToolResult(attachedFile.content, 15e3);
+          finalMessage += `[File: ${attachedFile.file.path}]
 ${truncated}
 [End File: ${attachedFile.file.path}]
 
 `;
+        }
       }
     }
     if (warnings.length > 0) {
@@ -1355,16 +4954,40 @@ ${truncated}
     if (this.plugin.shouldUseSimpleModel(message)) {
       console.log("Simple task detected - consider using Haiku model for cost savings");
     }
+    const activeFile = this.app.workspace.getActiveFile();
+    const instructions = await this.plugin.getInstructionFiles([
+      ...activeFile ? [activeFile.path] : [],
+      ...typeof finalMessage === "string" ? getAttachedFilePaths(finalMessage) : [],
+      ...retrievedSources
+    ]);
     this.conversationHistory.push({
       role: "user",
       content: finalMessage
     });
+    const turn = this.branches.startTurn(this.conversationHistory, message);
+    if (instructions.length > 0) {
+      turn.instructions = instructions.map((instruction) => instruction.path);
+    }
     this.updateTokenIndicator();
-    await this.addMessageToUI("user", message);
-    const totalWikilinks = (enhancedMessage.match(/\[File:/g) || []).length;
-    const totalManual = this.attachedFiles.length;
+    const userBubble = await this.addMessageToUI("user", message);
+    userBubble.dataset.messageIndex = String(this.conversationHistory.length - 1);
+    this.addBranchControls(userBubble, turn, "user");
+    this.addInstructionsInfo(turn);
+    let lastAssistantBubble = null;
+    const totalWikilinks = useRetrieval || resending ? 0 : (enhancedMessage.match(/\[File:/g) || []).length;
+    const totalManual = useRetrieval || resending ? 0 : this.attachedFiles.length;
     const totalAttachments = totalWikilinks + totalManual;
-    if (totalAttachments > 0) {
+    if (retrievedSources.length > 0) {
+      const excerptCount = (enhancedMessage.match(/\[Excerpt:/g) || []).length;
+      const retrieveInfo = this.chatContainer.createDiv({
+        cls: "claude-attachment-info"
+      });
+      const sourceNames = retrievedSources.map((path) => {
+        var _a;
+        return (_a = path.split("/").pop()) == null ? void 0 : _a.replace(/\.md$/, "");
+      }).join(", ");
+      retrieveInfo.setText(`\u{1F3AF} Retrieved ${excerptCount} excerpt(s) from: ${sourceNames}`);
+    } else if (totalAttachments > 0) {
       const attachInfo = this.chatContainer.createDiv({
         cls: "claude-attachment-info"
       });
@@ -1380,18 +5003,32 @@ ${truncated}
       }
       attachInfo.setText(infoText);
     }
-    this.attachedFiles = [];
-    this.renderAttachmentChips();
+    if (!resending) {
+      this.attachedFiles = [];
+      this.renderAttachmentChips();
+    }
     this.isGenerating = true;
     this.shouldStop = false;
+    this.currentTurnId = `turn_${Date.now()}`;
+    if (!this.conversationId) {
+      this.setConversationId(this.plugin.generateConversationId());
+    }
+    const conversationId = this.conversationId;
+    this.abortController = new AbortController();
+    const signal = this.abortController.signal;
     this.updateSendButton("stop");
     const loadingDiv = this.chatContainer.createDiv({ cls: "claude-message claude-message-assistant" });
     loadingDiv.setText("Claude is thinking...");
     this.startLoadingAnimation(loadingDiv);
     this.chatContainer.scrollTop = this.chatContainer.scrollHeight;
+    let streamingDiv = null;
     try {
-      const systemPrompt = this.buildSystemPrompt();
-      const tools = this.plugin.getTools();
+      const profile = this.getProfile();
+      const profileTools = this.plugin.getTools().filter((tool) => !profile.tools || profile.tools.includes(tool.name));
+      const tools = profileTools.filter((tool) => this.plugin.getToolPermission(tool.name) !== "deny" && (!command || !command.template.tools || command.template.tools.includes(tool.name)));
+      const model = (command == null ? void 0 : command.template.model) || profile.model;
+      const thinkingBudget = this.getThinkingBudget(model);
+      const systemPrompt = this.buildSystemPrompt(instructions, tools);
       let continueLoop = true;
       let maxIterations = 10;
       let iterations = 0;
@@ -1401,16 +5038,75 @@ ${truncated}
         console.log(`=== Loop Iteration ${iterations} ===`);
         console.log("Continue loop:", continueLoop);
         console.log("Conversation history length:", this.conversationHistory.length);
-        const historyToSend = this.truncateToolResults(this.conversationHistory);
+        if (this.needsSummary()) {
+          this.stopLoadingAnimation();
+          loadingDiv.setText("Summarizing earlier conversation...");
+          try {
+            await this.foldHistoryIntoSummary(signal);
+          } catch (error) {
+            if (this.plugin.isAbortError(error))
+              throw error;
+            console.error("Failed to summarize conversation:", error);
+          }
+          this.chatContainer.appendChild(loadingDiv);
+          this.startLoadingAnimation(loadingDiv);
+        }
+        const truncatedHistory = this.truncateToolResults(this.conversationHistory);
+        const withReasoning = thinkingBudget ? truncatedHistory : withoutReasoningBlocks(truncatedHistory);
+        const historyToSend = tools.length > 0 ? withReasoning : withoutToolBlocks(withReasoning);
         console.log("Calling Claude API...");
-        const response = await this.plugin.callClaude(
+        streamingDiv = null;
+        const response = await this.plugin.callClaudeStreaming(
           historyToSend,
           systemPrompt,
           tools,
-          (attempt, delay) => {
-            loadingDiv.setText(`API is busy, retrying in ${delay / 1e3}s... (Attempt ${attempt}/3)`);
-          }
+          {
+            onText: (delta, fullText) => {
+              if (!streamingDiv) {
+                this.stopLoadingAnimation();
+                loadingDiv.style.display = "none";
+                streamingDiv = this.createStreamingMessage(loadingDiv);
+              }
+              this.updateStreamingMessage(streamingDiv, fullText);
+            },
+            onToolUseStart: (toolName) => {
+              this.stopLoadingAnimation();
+              loadingDiv.style.display = "";
+              loadingDiv.setText(`Claude is preparing ${toolName}...`);
+            },
+            onThinking: () => {
+              if (!streamingDiv) {
+                this.stopLoadingAnimation();
+                loadingDiv.setText("Claude is reasoning...");
+              }
+            },
+            onRateLimitWait: (seconds) => {
+              this.stopLoadingAnimation();
+              loadingDiv.style.display = "";
+              loadingDiv.setText(seconds > 0 ? `\u23F3 Pacing requests to stay under your rate limit - sending in ${seconds}s...` : "Claude is thinking...");
+            }
+          },
+          ({ attempt, maxAttempts, delay, error }) => {
+            this.stopLoadingAnimation();
+            loadingDiv.style.display = "";
+            loadingDiv.setText(`${error.label} - retrying in ${Math.ceil(delay / 1e3)}s... (attempt ${attempt + 1}/${maxAttempts})`);
+            const retryNote = this.chatContainer.createDiv({ cls: "claude-retry-note" });
+            retryNote.setText(`\u21BB ${error.label}, retried (attempt ${attempt + 1}/${maxAttempts})`);
+            this.chatContainer.insertBefore(retryNote, loadingDiv);
+          },
+          signal,
+          { model, maxTokens: profile.maxTokens, thinkingBudget, temperature: profile.temperature }
         );
+        if (streamingDiv) {
+          streamingDiv.remove();
+          streamingDiv = null;
+          loadingDiv.style.display = "";
+        }
+        const usage = this.plugin.recordUsage(response, conversationId, "chat");
+        if (usage) {
+          this.usageRecords.push(usage);
+          this.updateTokenIndicator();
+        }
         console.log("=== Tool Loop Response ===");
         console.log("Stop reason:", response.stop_reason);
         console.log("Content blocks:", response.content);
@@ -1418,7 +5114,7 @@ ${truncated}
           const textContent = response.content.filter((block) => block.type === "text").map((block) => block.text).join("\n");
           this.stopLoadingAnimation();
           loadingDiv.remove();
-          await this.addMessageToUI("assistant", textContent);
+          lastAssistantBubble = await this.addMessageToUI("assistant", textContent, getReasoningBlocks(response.content));
           this.conversationHistory.push({
             role: "assistant",
             content: response.content
@@ -1428,22 +5124,16 @@ ${truncated}
         } else if (response.stop_reason === "tool_use") {
           this.stopLoadingAnimation();
           loadingDiv.setText("Claude is using tools...");
+          const preambleText = response.content.filter((block) => block.type === "text").map((block) => block.text).join("\n");
+          const reasoning = getReasoningBlocks(response.content);
+          if (preambleText.trim() || reasoning.length > 0) {
+            await this.addMessageToUI("assistant", preambleText, reasoning);
+          }
           this.conversationHistory.push({
             role: "assistant",
             content: response.content
           });
-          const toolResults = [];
-          for (const block of response.content) {
-            if (block.type === "tool_use") {
-              const result = await this.plugin.executeTool(block.name, block.input);
-              toolResults.push({
-                type: "tool_result",
-                tool_use_id: block.id,
-                content: result
-              });
-              this.addToolExecutionToUI(block.name, block.input, result);
-            }
-          }
+          const toolResults = await this.runToolCalls(response.content, profileTools.map((tool) => tool.name), command == null ? void 0 : command.template);
           this.conversationHistory.push({
             role: "user",
             content: toolResults
@@ -1461,31 +5151,20 @@ ${truncated}
               role: "assistant",
               content: response.content
             });
-            const toolResults = [];
-            for (const block of response.content) {
-              if (block.type === "tool_use") {
-                const result = await this.plugin.executeTool(block.name, block.input);
-                toolResults.push({
-                  type: "tool_result",
-                  tool_use_id: block.id,
-                  content: result
-                });
-                this.addToolExecutionToUI(block.name, block.input, result);
-              }
-            }
+            const toolResults = await this.runToolCalls(response.content, profileTools.map((tool) => tool.name), command == null ? void 0 : command.template);
             this.conversationHistory.push({
               role: "user",
               content: toolResults
             });
           } else {
             const textContent = response.content.filter((block) => block.type === "text").map((block) => block.text).join("\n");
-            await this.addMessageToUI("assistant", textContent);
+            lastAssistantBubble = await this.addMessageToUI("assistant", textContent, getReasoningBlocks(response.content));
             this.conversationHistory.push({
               role: "assistant",
               content: response.content
             });
           }
-          await this.addMessageToUI("assistant", '\u26A0\uFE0F **Response truncated** - Hit max output token limit. Type "continue" to resume, or increase Max Output Tokens in settings (currently: ' + this.plugin.settings.maxTokens + ").");
+          await this.addMessageToUI("assistant", '\u26A0\uFE0F **Response truncated** - Hit max output token limit. Type "continue" to resume, or increase Max Output Tokens in settings (currently: ' + profile.maxTokens + ").");
           this.updateTokenIndicator();
           continueLoop = false;
         } else {
@@ -1502,25 +5181,38 @@ ${truncated}
         new import_obsidian.Notice("Reached maximum tool use iterations");
       }
       if (this.shouldStop) {
-        this.stopLoadingAnimation();
-        loadingDiv.remove();
-        await this.addMessageToUI("assistant", "\u26A0\uFE0F Generation stopped by user");
-        new import_obsidian.Notice("Generation stopped");
+        await this.handleGenerationStopped(loadingDiv);
       }
     } catch (error) {
+      if (this.plugin.isAbortError(error)) {
+        if (streamingDiv) {
+          streamingDiv.remove();
+        }
+        await this.handleGenerationStopped(loadingDiv);
+        return;
+      }
       this.stopLoadingAnimation();
       loadingDiv.remove();
       const errorMsg = error.message || String(error);
+      const apiError = error instanceof ClaudeApiError ? error : null;
+      const status = apiError ? apiError.status : -1;
+      const attemptsNote = apiError && apiError.attempts > 1 ? ` after ${apiError.attempts} attempts` : "";
       let friendlyMsg = "";
       let noticeMsg = "";
-      if (errorMsg.includes("529") || errorMsg.includes("overloaded_error")) {
-        friendlyMsg = "**API is overloaded** (Error 529). All retry attempts failed.\n\nThis means Anthropic's servers are experiencing high traffic.\n\n**Solutions:**\n- Wait 1-2 minutes and try again\n- The API will work once servers are less busy\n- This is temporary - not a problem with your account";
+      if (status === 529) {
+        friendlyMsg = `**API is overloaded** (Error 529). All retry attempts failed${attemptsNote}.
+
+This means Anthropic's servers are experiencing high traffic.
+
+**Solutions:**
+- Wait 1-2 minutes and try again
+- The API will work once servers are less busy
+- This is temporary - not a problem with your account`;
         noticeMsg = "API overloaded - please try again in a moment";
-      } else if (errorMsg.includes("429") || errorMsg.includes("rate_limit_error")) {
-        const retryMatch = errorMsg.match(/Retry after: (\d+)s/);
-        const retrySeconds = retryMatch ? retryMatch[1] : "60";
-        const limits = this.plugin.getModelRateLimits();
-        friendlyMsg = `**Rate Limit Exceeded** (Error 429)
+      } else if (apiError && status === 429) {
+        const retrySeconds = apiError.retryAfter !== null ? String(Math.ceil(apiError.retryAfter)) : "60";
+        const limits = this.plugin.getModelRateLimits(this.getProfile().model);
+        friendlyMsg = `**Rate Limit Exceeded** (Error 429)${attemptsNote}
 
 You've hit one of these per-minute limits:
 - **Requests**: ${limits.rpm} requests/min
@@ -1536,14 +5228,29 @@ You've hit one of these per-minute limits:
 
 **Note:** Only uncached tokens count toward input limits. Enable prompt caching to reduce usage!`;
         noticeMsg = `Rate limit hit - wait ${retrySeconds}s or reduce usage`;
-      } else if (errorMsg.includes("400")) {
+      } else if (status === 400) {
         friendlyMsg = "Invalid request sent to API.\n\nDetails: " + errorMsg + "\n\nThis is usually a bug in the plugin. Please report it.";
         noticeMsg = "Invalid API request - please report this bug";
-      } else if (errorMsg.includes("401") || errorMsg.includes("authentication")) {
+      } else if (status === 401 || status === 403) {
         friendlyMsg = "API key is invalid or expired.\n\nSuggestions:\n- Check your API key in settings\n- Generate a new key at https://console.anthropic.com\n- Make sure you have credits available";
         noticeMsg = "Invalid API key - check settings";
-      } else if (errorMsg.includes("500") || errorMsg.includes("502") || errorMsg.includes("503")) {
-        friendlyMsg = "Server error on Anthropic's side.\n\nSuggestions:\n- Wait a few minutes and try again\n- Check https://status.anthropic.com for outages\n- Your request was not processed";
+      } else if (status === 0) {
+        friendlyMsg = `Could not reach the Anthropic API${attemptsNote}.
+
+Details: ${errorMsg}
+
+Suggestions:
+- Check your internet connection
+- Check https://status.anthropic.com for outages
+- Try again in a moment`;
+        noticeMsg = "Could not reach the API - check your connection";
+      } else if (status >= 500) {
+        friendlyMsg = `Server error on Anthropic's side (Error ${status})${attemptsNote}.
+
+Suggestions:
+- Wait a few minutes and try again
+- Check https://status.anthropic.com for outages
+- Your request was not processed`;
         noticeMsg = "Server error - try again in a few minutes";
       } else {
         friendlyMsg = "Unexpected error occurred.\n\nDetails: " + errorMsg + "\n\nIf this persists, please report it as a bug.";
@@ -1554,9 +5261,284 @@ You've hit one of these per-minute limits:
     } finally {
       this.isGenerating = false;
       this.shouldStop = false;
+      this.abortController = null;
       this.updateSendButton("send");
-      await this.plugin.saveCurrentConversation(this.conversationHistory, this.conversationSummary);
+      this.addRevertAction(this.currentTurnId);
+      if (lastAssistantBubble) {
+        this.addBranchControls(lastAssistantBubble, turn, "assistant");
+      }
+      await this.saveConversation();
+    }
+  }
+  // Save with the branch tree brought up to date with the history
+  async saveConversation() {
+    this.branches.sync(this.conversationHistory);
+    if (!this.conversationId && this.conversationHistory.length > 0) {
+      this.setConversationId(this.plugin.generateConversationId());
+    }
+    await this.plugin.saveConversation(this.conversationId, this.conversationHistory, this.conversationSummary, this.changeJournal.entries, this.usageRecords, this.branches.serialize(), { thinking: this.thinkingEnabled, profile: this.profileId });
+  }
+  // Edit on user bubbles, regenerate on Claude's final reply, and sibling navigation on both
+  addBranchControls(bubble, turn, role) {
+    const header = bubble.querySelector(".claude-message-header");
+    if (!header)
+      return;
+    const controls = header.createDiv({ cls: "claude-branch-controls" });
+    const siblings = this.branches.getSiblings(turn);
+    if (siblings.length > 1) {
+      const position = siblings.indexOf(turn);
+      const previousBtn = controls.createEl("button", { text: "\u25C0", cls: "claude-branch-button", attr: { "aria-label": "Previous branch" } });
+      controls.createSpan({ text: `${position + 1}/${siblings.length}`, cls: "claude-branch-position" });
+      const nextBtn = controls.createEl("button", { text: "\u25B6", cls: "claude-branch-button", attr: { "aria-label": "Next branch" } });
+      previousBtn.disabled = position === 0;
+      nextBtn.disabled = position === siblings.length - 1;
+      previousBtn.addEventListener("click", () => this.switchBranch(siblings[position - 1]));
+      nextBtn.addEventListener("click", () => this.switchBranch(siblings[position + 1]));
+    }
+    const firstMessage = turn.messages[0];
+    if (!firstMessage || firstMessage.role !== "user" || typeof firstMessage.content !== "string") {
+      return;
+    }
+    if (role === "user") {
+      const editBtn = controls.createEl("button", { text: "\u270F\uFE0F", cls: "claude-branch-button", attr: { "aria-label": "Edit and resend" } });
+      editBtn.addEventListener("click", () => this.showEditor(bubble, turn));
+    } else {
+      const regenerateBtn = controls.createEl("button", { text: "\u21BB", cls: "claude-branch-button", attr: { "aria-label": "Regenerate response" } });
+      regenerateBtn.addEventListener("click", () => this.regenerateTurn(turn));
+    }
+  }
+  canBranchFrom(turn) {
+    if (this.isGenerating) {
+      new import_obsidian.Notice("Wait for the current response to finish");
+      return false;
+    }
+    this.branches.sync(this.conversationHistory);
+    if (this.branches.isSummarized(turn)) {
+      new import_obsidian.Notice("This part of the conversation has been summarized and can no longer be branched");
+      return false;
+    }
+    return true;
+  }
+  showEditor(bubble, turn) {
+    if (!this.canBranchFrom(turn) || bubble.querySelector(".claude-branch-editor"))
+      return;
+    const contentDiv = bubble.querySelector(".claude-message-content");
+    if (contentDiv)
+      contentDiv.style.display = "none";
+    const editor = bubble.createDiv({ cls: "claude-branch-editor" });
+    const textarea = editor.createEl("textarea", { cls: "claude-input" });
+    textarea.value = turn.display !== void 0 ? turn.display : getMessageText(turn.messages[0]);
+    const buttons = editor.createDiv({ cls: "claude-branch-editor-buttons" });
+    const sendBtn = buttons.createEl("button", { text: "Send", cls: "mod-cta" });
+    const cancelBtn = buttons.createEl("button", { text: "Cancel" });
+    const close = () => {
+      editor.remove();
+      if (contentDiv)
+        contentDiv.style.display = "";
+    };
+    cancelBtn.addEventListener("click", close);
+    sendBtn.addEventListener("click", async () => {
+      const text = textarea.value.trim();
+      if (!text)
+        return;
+      close();
+      await this.forkBefore(turn);
+      await this.submitMessage(text);
+    });
+    textarea.focus();
+  }
+  async regenerateTurn(turn) {
+    if (!this.canBranchFrom(turn))
+      return;
+    const userMessage = turn.messages[0];
+    await this.forkBefore(turn);
+    await this.submitMessage(turn.display !== void 0 ? turn.display : getMessageText(userMessage), userMessage.content);
+  }
+  // Rewind the history to just before a turn, so the next message starts a sibling branch
+  async forkBefore(turn) {
+    this.branches.rewindBefore(turn);
+    this.conversationHistory = this.branches.getHistory();
+    this.chatContainer.empty();
+    await this.renderHistory();
+  }
+  async switchBranch(turn) {
+    if (!this.canBranchFrom(turn))
+      return;
+    this.branches.switchTo(turn);
+    this.conversationHistory = this.branches.getHistory();
+    this.chatContainer.empty();
+    await this.renderHistory();
+    await this.saveConversation();
+  }
+  // Create a live assistant bubble for streamed text, placed above the loading indicator
+  createStreamingMessage(loadingDiv) {
+    const messageDiv = createDiv({ cls: "claude-message claude-message-assistant claude-message-streaming" });
+    const messageHeader = messageDiv.createDiv({ cls: "claude-message-header" });
+    messageHeader.createDiv({ cls: "claude-message-role", text: "Claude" });
+    messageDiv.createDiv({ cls: "claude-message-content" });
+    this.chatContainer.insertBefore(messageDiv, loadingDiv);
+    return messageDiv;
+  }
+  updateStreamingMessage(messageDiv, text) {
+    const contentDiv = messageDiv.querySelector(".claude-message-content");
+    if (contentDiv) {
+      contentDiv.setText(text);
+    }
+    this.chatContainer.scrollTop = this.chatContainer.scrollHeight;
+  }
+  // Execute the tool_use blocks of a response. Once the user stops generation, remaining
+  // calls are skipped but still answered so every tool_use keeps a matching tool_result.
+  // Calls to tools outside allowedTools (the profile's), or outside the tools of the prompt
+  // that started the turn, are refused like denied ones.
+  async runToolCalls(content, allowedTools, template) {
+    var _a;
+    const toolResults = [];
+    for (const block of content) {
+      if (block.type !== "tool_use")
+        continue;
+      if (this.shouldStop) {
+        toolResults.push({
+          type: "tool_result",
+          tool_use_id: block.id,
+          content: "Tool call cancelled: the user stopped generation before it ran.",
+          is_error: true
+        });
+        continue;
+      }
+      let unavailable = "";
+      if (!allowedTools.includes(block.name)) {
+        unavailable = `with the ${this.getProfile().name} profile`;
+      } else if (template && template.tools && !template.tools.includes(block.name)) {
+        unavailable = `for the /${template.name} prompt`;
+      }
+      const refusal = unavailable ? JSON.stringify({
+        status: "not_available",
+        tool: block.name,
+        message: `The ${block.name} tool is not available ${unavailable}. Do not call it again; use only the tools you were given.`
+      }) : await this.plugin.checkToolPermission(block.name, block.input, (_a = this.abortController) == null ? void 0 : _a.signal);
+      if (this.shouldStop) {
+        toolResults.push({
+          type: "tool_result",
+          tool_use_id: block.id,
+          content: "Tool call cancelled: the user stopped generation before it ran.",
+          is_error: true
+        });
+        continue;
+      }
+      if (refusal) {
+        toolResults.push({
+          type: "tool_result",
+          tool_use_id: block.id,
+          content: refusal,
+          is_error: true
+        });
+        this.addToolExecutionToUI(block.name, block.input, refusal, true);
+        continue;
+      }
+      const turnId = this.currentTurnId;
+      const result = await this.plugin.executeTool(block.name, block.input, (change) => {
+        this.changeJournal.record(turnId, block.name, change);
+      });
+      toolResults.push({
+        type: "tool_result",
+        tool_use_id: block.id,
+        content: result
+      });
+      this.addToolExecutionToUI(block.name, block.input, result);
+    }
+    return toolResults;
+  }
+  // Cancel the current generation: abort the in-flight request and skip queued tool calls
+  stopGeneration() {
+    this.shouldStop = true;
+    if (this.abortController) {
+      this.abortController.abort();
+    }
+  }
+  async handleGenerationStopped(loadingDiv) {
+    this.stopLoadingAnimation();
+    loadingDiv.remove();
+    const lastMessage = this.conversationHistory[this.conversationHistory.length - 1];
+    if (lastMessage && lastMessage.role === "user") {
+      this.conversationHistory.push({
+        role: "assistant",
+        content: [{ type: "text", text: "(Generation stopped by user)" }]
+      });
+    }
+    await this.addMessageToUI("assistant", "\u26A0\uFE0F Generation stopped by user");
+    new import_obsidian.Notice("Generation stopped");
+  }
+  // Add a "Revert these changes" action after a turn that modified the vault
+  addRevertAction(turnId) {
+    const entries = this.changeJournal.getActiveEntries(turnId);
+    if (entries.length === 0)
+      return;
+    const revertDiv = this.chatContainer.createDiv({ cls: "claude-revert-action" });
+    const revertBtn = revertDiv.createEl("button", {
+      text: `\u21A9\uFE0F Revert these changes (${entries.length})`,
+      cls: "claude-revert-button"
+    });
+    revertBtn.addEventListener("click", async () => {
+      const pending = this.changeJournal.getActiveEntries(turnId);
+      const done = await this.revertChanges(pending);
+      if (done && this.changeJournal.getActiveEntries(turnId).length === 0) {
+        revertBtn.disabled = true;
+        revertBtn.setText("\u21A9\uFE0F Changes reverted");
+      }
+    });
+    this.chatContainer.scrollTop = this.chatContainer.scrollHeight;
+  }
+  // Revert journal entries, warning first if files were edited after Claude changed them.
+  // Returns false if the user cancelled.
+  async revertChanges(entries) {
+    if (entries.length === 0) {
+      new import_obsidian.Notice("No changes to revert");
+      return false;
+    }
+    const conflicts = await this.changeJournal.findConflicts(entries);
+    let skipPaths = /* @__PURE__ */ new Set();
+    if (conflicts.size > 0) {
+      const choice = await new Promise((resolve) => {
+        const modal = new import_obsidian.Modal(this.plugin.app);
+        let chosen = false;
+        const choose = (value) => {
+          chosen = true;
+          resolve(value);
+          modal.close();
+        };
+        modal.contentEl.createEl("h3", { text: "Files changed since Claude edited them" });
+        modal.contentEl.createEl("p", { text: "These files were modified after Claude's changes. Reverting them would discard those later edits:" });
+        const list = modal.contentEl.createEl("ul");
+        conflicts.forEach((path) => list.createEl("li", { text: path }));
+        const buttonContainer = modal.contentEl.createDiv({ cls: "modal-button-container" });
+        buttonContainer.createEl("button", { text: "Cancel" }).addEventListener("click", () => choose("cancel"));
+        buttonContainer.createEl("button", { text: "Skip changed files", cls: "mod-cta" }).addEventListener("click", () => choose("skip"));
+        buttonContainer.createEl("button", { text: "Revert anyway", cls: "mod-warning" }).addEventListener("click", () => choose("overwrite"));
+        modal.onClose = () => {
+          if (!chosen)
+            resolve("cancel");
+        };
+        modal.open();
+      });
+      if (choice === "cancel")
+        return false;
+      if (choice === "skip")
+        skipPaths = conflicts;
+    }
+    const result = await this.changeJournal.revert(entries, skipPaths);
+    let message = `Reverted ${result.reverted} change(s)`;
+    if (result.skipped.length > 0) {
+      message += `, skipped ${result.skipped.length} edited file(s)`;
     }
+    if (result.failed.length > 0) {
+      message += `, ${result.failed.length} failed`;
+      console.error("Failed to revert changes:", result.failed);
+    }
+    new import_obsidian.Notice(message);
+    const summaryInfo = this.chatContainer.createDiv({ cls: "claude-message claude-message-system" });
+    summaryInfo.setText(`\u21A9\uFE0F ${message}`);
+    await this.saveConversation();
+    return true;
   }
   getPlayfulLoadingMessages() {
     return [
@@ -1595,7 +5577,7 @@ You've hit one of these per-minute limits:
       this.loadingMessageInterval = null;
     }
   }
-  buildSystemPrompt() {
+  buildSystemPrompt(instructions = [], tools = this.plugin.getTools()) {
     const adapter = this.app.vault.adapter;
     const vaultPath = adapter.basePath || "Vault";
     const activeFile = this.app.workspace.getActiveFile();
@@ -1603,24 +5585,14 @@ You've hit one of these per-minute limits:
     if (activeFile) {
       activeFileInfo = `Currently active file: ${activeFile.path}`;
     }
-    let systemPrompt = "";
-    if (this.conversationSummary) {
-      systemPrompt += this.conversationSummary + "\n\n";
-    }
-    systemPrompt += `You are Claude, integrated into Obsidian to help the user with their vault.
+    const offered = new Set(tools.map((tool) => tool.name));
+    const toolList = this.plugin.toolRegistry.getAll().filter((tool) => offered.has(tool.name)).map((tool) => `- ${tool.name}: ${tool.promptSummary || tool.description}`).join("\n");
+    let systemPrompt = `You are Claude, integrated into Obsidian to help the user with their vault.
 
 Vault location: ${vaultPath}
-${activeFileInfo}
 
 You have access to powerful tools to interact with the vault:
-- read_file: Read the contents of any file (use this for each file individually)
-- search_in_file: Search for patterns without reading entire files
-- get_file_info: Check file size and preview before reading large files
-- write_file: Create new files or update existing ones
-- replace_in_file: Make targeted edits without rewriting entire files
-- list_files: List all files in the vault or in a specific folder
-- rename_file: Rename or move files
-- delete_file: Delete files (use with caution)
+${toolList}
 
 CRITICAL PRIORITY RULES:
 1. **ALWAYS prioritize explicitly attached files over active file context**
@@ -1634,57 +5606,74 @@ IMPORTANT WORKFLOW TIPS:
 2. Don't ask the user to paste file contents - use read_file yourself
 3. For large files, use get_file_info first to check the size
 4. Use search_in_file to find specific content without reading entire files
-5. Your tool calls are cached - reading the same file again is nearly free
+   For long notes, use get_headings then read_section, read_block or read_lines instead of read_file
+5. Use search_vault to find which notes mention something instead of reading files one by one
+6. Use retrieve_context to answer questions from the relevant sections of notes without reading them whole
+7. Your tool calls are cached - reading the same file again is nearly free
 
 When the user references [[wikilinks]], you will be given a list of file paths to read.
 Be helpful and proactive. Use your tools to read, search, and modify files as needed.`;
-    if (this.plugin.settings.customPrompt && this.plugin.settings.customPrompt.trim()) {
+    const profilePrompt = this.getProfile().systemPrompt;
+    if (profilePrompt && profilePrompt.trim()) {
       systemPrompt += `
 
 --- CUSTOM USER INSTRUCTIONS ---
-${this.plugin.settings.customPrompt.trim()}`;
+${profilePrompt.trim()}`;
+    }
+    let dynamic = "";
+    if (instructions.length > 0) {
+      dynamic += `=== Instructions for this part of the vault ===
+Follow these as well as the instructions above. Where they disagree, the file from the deeper folder wins.
+
+`;
+      for (const instruction of instructions) {
+        dynamic += `--- From ${instruction.path} ---
+${instruction.content}
+
+`;
+      }
+      dynamic += `=== End of vault instructions ===
+
+`;
+    }
+    if (this.conversationSummary) {
+      dynamic += `=== Summary of the earlier conversation ===
+${this.conversationSummary}
+=== End of summary ===
+
+`;
     }
-    return systemPrompt;
+    dynamic += activeFileInfo;
+    return { stable: systemPrompt, dynamic };
   }
-  addToolExecutionToUI(toolName, input, result) {
-    var _a, _b;
+  // Which instruction files applied to a turn; click one to open it
+  addInstructionsInfo(turn) {
+    if (!turn.instructions || turn.instructions.length === 0)
+      return;
+    const infoDiv = this.chatContainer.createDiv({ cls: "claude-attachment-info claude-instructions-info" });
+    infoDiv.appendText("\u{1F4CF} Instructions: ");
+    turn.instructions.forEach((path, index) => {
+      if (index > 0)
+        infoDiv.appendText(", ");
+      const link = infoDiv.createEl("a", { text: path, href: "#" });
+      link.addEventListener("click", (e) => {
+        e.preventDefault();
+        this.app.workspace.openLinkText(path, "", false);
+      });
+    });
+  }
+  addToolExecutionToUI(toolName, input, result, refused = false) {
     const toolDiv = this.chatContainer.createDiv({
       cls: "claude-tool-execution"
     });
-    let summary = "";
-    switch (toolName) {
-      case "read_file":
-        summary = `\u{1F4C4} Read: ${input.path}`;
-        break;
-      case "write_file":
-        summary = `\u270F\uFE0F Wrote: ${input.path}`;
-        break;
-      case "replace_in_file":
-        summary = `\u{1F504} Edited: ${input.path}`;
-        break;
-      case "delete_file":
-        summary = `\u{1F5D1}\uFE0F Deleted: ${input.path}`;
-        break;
-      case "copy_file":
-        summary = `\u{1F4CB} Copied: ${input.source_path} \u2192 ${input.destination_path}`;
-        break;
-      case "rename_file":
-        summary = `\u{1F4DD} Renamed: ${input.old_path} \u2192 ${input.new_path}`;
-        break;
-      case "list_files":
-        const fileCount = ((_a = result.match(/Found (\d+)/)) == null ? void 0 : _a[1]) || "?";
-        summary = `\u{1F4C1} Listed ${fileCount} files`;
-        break;
-      case "search_in_file":
-        const matchCount = ((_b = result.match(/Found (\d+)/)) == null ? void 0 : _b[1]) || "0";
-        summary = `\u{1F50D} Search in ${input.path}: ${matchCount} matches`;
-        break;
-      case "get_file_info":
-        summary = `\u2139\uFE0F File info: ${input.path}`;
-        break;
-      default:
-        summary = `\u{1F527} ${toolName}`;
+    if (refused) {
+      toolDiv.addClass("claude-tool-execution-refused");
+      const reason = result.includes("denied_by_policy") ? "blocked by settings" : "rejected";
+      toolDiv.setText(`\u{1F6AB} ${toolName} ${reason}: ${input.path || input.old_path || input.source_path || ""}`);
+      this.chatContainer.scrollTop = this.chatContainer.scrollHeight;
+      return;
     }
+    const summary = this.plugin.formatToolSummary(toolName, input, result);
     toolDiv.setText(summary);
     this.chatContainer.scrollTop = this.chatContainer.scrollHeight;
   }
@@ -1727,17 +5716,21 @@ ${this.plugin.settings.customPrompt.trim()}`;
     footer.style.marginBottom = "0";
     footer.style.fontStyle = "italic";
   }
-  async addMessageToUI(role, content) {
+  async addMessageToUI(role, content, reasoning = []) {
     const messageDiv = this.chatContainer.createDiv({
       cls: `claude-message claude-message-${role}`
     });
     const messageHeader = messageDiv.createDiv({ cls: "claude-message-header" });
     const roleLabel = messageHeader.createDiv({ cls: "claude-message-role" });
     roleLabel.setText(role === "user" ? "You" : role === "assistant" ? "Claude" : "Error");
-    if (role === "assistant") {
+    const hasCopyButtons = role === "assistant" && content.trim() !== "";
+    if (hasCopyButtons) {
       const copyButtonTop = this.createCopyButton(content);
       messageHeader.appendChild(copyButtonTop);
     }
+    if (reasoning.length > 0) {
+      await this.renderReasoning(messageDiv, reasoning);
+    }
     const contentDiv = messageDiv.createDiv({ cls: "claude-message-content" });
     if (role === "assistant" || role === "user") {
       await import_obsidian.MarkdownRenderer.render(
@@ -1752,12 +5745,28 @@ ${this.plugin.settings.customPrompt.trim()}`;
     } else {
       contentDiv.setText(content);
     }
-    if (role === "assistant") {
+    if (hasCopyButtons) {
       const messageFooter = messageDiv.createDiv({ cls: "claude-message-footer" });
       const copyButtonBottom = this.createCopyButton(content);
       messageFooter.appendChild(copyButtonBottom);
     }
     this.chatContainer.scrollTop = this.chatContainer.scrollHeight;
+    return messageDiv;
+  }
+  async renderReasoning(messageDiv, reasoning) {
+    const details = messageDiv.createEl("details", { cls: "claude-reasoning" });
+    details.createEl("summary", { text: "Reasoning" });
+    const body = details.createDiv({ cls: "claude-reasoning-content" });
+    const thinking = reasoning.filter((block) => block.type === "thinking" && block.thinking).map((block) => block.thinking).join("\n\n");
+    if (thinking) {
+      await import_obsidian.MarkdownRenderer.render(this.plugin.app, thinking, body, "", this.plugin);
+    }
+    if (reasoning.some((block) => block.type === "redacted_thinking")) {
+      body.createDiv({
+        cls: "claude-reasoning-redacted",
+        text: "Part of the reasoning was encrypted by the API and is not shown. It is still sent back to Claude."
+      });
+    }
   }
   createCopyButton(content) {
     const copyButton = document.createElement("button");
@@ -1883,27 +5892,91 @@ ${this.plugin.settings.customPrompt.trim()}`;
       this.sendButton.innerHTML = `<svg xmlns="http://www.w3.org/2000/svg" width="28" height="28" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="3" stroke-linecap="round" stroke-linejoin="round"><line x1="12" y1="28" x2="12" y2="0"></line><polyline points="0 13 12 0 24 13"></polyline></svg>`;
     }
   }
-  async loadPreviousConversation() {
-    if (!this.plugin.settings.autoSaveConversations) {
-      return;
+  // Switch to a saved conversation, optionally scrolling to one of its messages
+  async openConversation(conversationId, messageIndex) {
+    const other = this.plugin.getChatViews().find((view) => view !== this && view.conversationId === conversationId);
+    if (other) {
+      this.app.workspace.revealLeaf(other.leaf);
+      if (messageIndex !== void 0) {
+        other.jumpToMessage(messageIndex);
+      }
+      return true;
     }
-    const currentId = this.plugin.settings.currentConversationId;
-    if (!currentId) {
-      return;
+    if (!await this.loadConversationIntoView(conversationId)) {
+      new import_obsidian.Notice("Conversation could not be loaded");
+      return false;
+    }
+    this.plugin.settings.currentConversationId = conversationId;
+    await this.plugin.saveSettings();
+    if (messageIndex !== void 0) {
+      this.jumpToMessage(messageIndex);
+    }
+    return true;
+  }
+  async loadConversationIntoView(conversationId) {
+    var _a, _b;
+    const loaded = await this.plugin.loadConversation(conversationId);
+    if (!loaded) {
+      return false;
+    }
+    this.setBranches(loaded.messages, loaded.tree);
+    this.conversationSummary = loaded.summary;
+    this.changeJournal = new ChangeJournal(this.plugin.app, loaded.changes);
+    this.usageRecords = loaded.usage;
+    this.thinkingEnabled = (_a = loaded.options.thinking) != null ? _a : this.plugin.settings.thinkingByDefault;
+    this.updateThinkingButton();
+    this.profileId = (_b = loaded.options.profile) != null ? _b : this.plugin.settings.defaultProfileId;
+    this.updateProfileIndicator();
+    this.setConversationId(conversationId);
+    this.chatContainer.empty();
+    await this.renderHistory();
+    return true;
+  }
+  // Continue an exchange started elsewhere (the quick-ask modal) as this view's conversation
+  async adoptConversation(conversationId, messages, usage, firstDisplay) {
+    this.setBranches([...messages]);
+    this.branches.getActivePath()[0].display = firstDisplay;
+    this.conversationSummary = "";
+    this.changeJournal = new ChangeJournal(this.plugin.app);
+    this.usageRecords = [...usage];
+    this.setConversationId(conversationId);
+    this.chatContainer.empty();
+    await this.renderHistory();
+    await this.saveConversation();
+  }
+  // Use a saved tree, or build an unbranched one from the messages
+  setBranches(messages, tree) {
+    this.branches = new ConversationBranches(tree);
+    if (tree) {
+      this.conversationHistory = this.branches.getHistory();
+    } else {
+      this.conversationHistory = messages;
+      this.branches.sync(messages);
     }
-    const loaded = this.plugin.loadConversation(currentId);
-    if (loaded) {
-      this.conversationHistory = loaded.messages;
-      this.conversationSummary = loaded.summary;
-      for (const msg of this.conversationHistory) {
+  }
+  // Restore the bubbles for the active branch. Each is tagged with its index in conversationHistory.
+  async renderHistory() {
+    let index = -this.branches.summarizedCount;
+    for (const turn of this.branches.getActivePath()) {
+      let lastAssistantBubble = null;
+      for (const msg of turn.messages) {
         if (msg.role === "user") {
           if (typeof msg.content === "string") {
-            await this.addMessageToUI("user", msg.content);
+            const bubble = await this.addMessageToUI("user", turn.display !== void 0 && msg === turn.messages[0] ? turn.display : msg.content);
+            if (index >= 0)
+              bubble.dataset.messageIndex = String(index);
+            if (msg === turn.messages[0]) {
+              this.addBranchControls(bubble, turn, "user");
+              this.addInstructionsInfo(turn);
+            }
           }
         } else if (msg.role === "assistant") {
-          const textContent = Array.isArray(msg.content) ? msg.content.filter((block) => block.type === "text").map((block) => block.text).join("\n") : msg.content;
-          if (textContent) {
-            await this.addMessageToUI("assistant", textContent);
+          const textContent = getMessageText(msg);
+          const reasoning = getReasoningBlocks(msg.content);
+          if (textContent || reasoning.length > 0) {
+            lastAssistantBubble = await this.addMessageToUI("assistant", textContent, reasoning);
+            if (index >= 0)
+              lastAssistantBubble.dataset.messageIndex = String(index);
           }
           if (Array.isArray(msg.content)) {
             for (const block of msg.content) {
@@ -1914,366 +5987,947 @@ ${this.plugin.settings.customPrompt.trim()}`;
             }
           }
         }
+        index++;
+      }
+      if (lastAssistantBubble) {
+        this.addBranchControls(lastAssistantBubble, turn, "assistant");
       }
-      this.updateTokenIndicator();
-      console.log(`Loaded conversation: ${currentId} with ${this.conversationHistory.length} messages`);
     }
+    this.updateTokenIndicator();
+  }
+  // Scroll to the bubble for a message, or the nearest one before it (tool results have none)
+  jumpToMessage(messageIndex) {
+    const bubbles = Array.from(this.chatContainer.querySelectorAll("[data-message-index]"));
+    const target = bubbles.filter((bubble) => Number(bubble.dataset.messageIndex) <= messageIndex).pop() || bubbles[0];
+    if (!target)
+      return;
+    target.scrollIntoView({ block: "center" });
+    target.addClass("claude-message-highlight");
+    window.setTimeout(() => target.removeClass("claude-message-highlight"), 2e3);
   }
   showConversationPicker() {
-    const conversations = this.plugin.settings.savedConversations;
-    if (conversations.length === 0) {
-      new import_obsidian.Notice("No saved conversations found");
+    new ConversationHistoryModal(this.plugin.app, this.plugin, this).open();
+  }
+  async exportConversation() {
+    if (this.conversationHistory.length === 0) {
+      new import_obsidian.Notice("No conversation to export");
       return;
     }
-    const modal = new import_obsidian.Modal(this.plugin.app);
-    modal.contentEl.createEl("h3", { text: "Past Conversations" });
-    const sorted = [...conversations].sort((a, b) => b.timestamp - a.timestamp);
-    const listEl = modal.contentEl.createDiv({ cls: "claude-conversation-list" });
-    for (const conv of sorted) {
-      const itemEl = listEl.createDiv({ cls: "claude-conversation-item" });
-      const nameEl = itemEl.createEl("strong", { text: conv.name });
-      const dateEl = itemEl.createEl("div", {
-        text: new Date(conv.timestamp).toLocaleString(),
-        cls: "claude-conversation-date"
+    let markdown = "# Claude Conversation Export\n\n";
+    markdown += `**Date**: ${new Date().toLocaleString()}
+
+`;
+    markdown += `**Messages**: ${this.conversationHistory.length}
+
+`;
+    markdown += "---\n\n";
+    for (const msg of this.conversationHistory) {
+      if (msg.role === "user") {
+        markdown += "## \u{1F464} User\n\n";
+        if (typeof msg.content === "string") {
+          markdown += msg.content + "\n\n";
+        }
+      } else if (msg.role === "assistant") {
+        markdown += "## \u{1F916} Claude\n\n";
+        const textContent = Array.isArray(msg.content) ? msg.content.filter((block) => block.type === "text").map((block) => block.text).join("\n") : msg.content;
+        if (textContent) {
+          markdown += textContent + "\n\n";
+        }
+        if (Array.isArray(msg.content)) {
+          const toolUses = msg.content.filter((block) => block.type === "tool_use");
+          if (toolUses.length > 0) {
+            markdown += "**Tools Used:**\n";
+            for (const tool of toolUses) {
+              markdown += `- \`${tool.name}\`
+`;
+            }
+            markdown += "\n";
+          }
+        }
+      }
+      markdown += "---\n\n";
+    }
+    const fileName = `claude-conversation-${Date.now()}.md`;
+    try {
+      await this.plugin.app.vault.create(fileName, markdown);
+      new import_obsidian.Notice(`Exported to ${fileName}`);
+    } catch (error) {
+      new import_obsidian.Notice("Failed to export: " + error.message);
+    }
+  }
+  newConversation() {
+    this.conversationHistory = [];
+    this.conversationSummary = "";
+    this.branches = new ConversationBranches();
+    this.changeJournal = new ChangeJournal(this.plugin.app);
+    this.usageRecords = [];
+    this.thinkingEnabled = this.plugin.settings.thinkingByDefault;
+    this.updateThinkingButton();
+    this.profileId = this.plugin.settings.defaultProfileId;
+    this.updateProfileIndicator();
+    this.setConversationId("");
+    this.plugin.settings.currentConversationId = "";
+    this.chatContainer.empty();
+    this.addWelcomeMessage();
+    this.updateTokenIndicator();
+    new import_obsidian.Notice("New conversation started");
+  }
+  async onClose() {
+    this.stopLoadingAnimation();
+    if (this.isGenerating) {
+      this.stopGeneration();
+    }
+    if (this.autocompleteTimeout) {
+      window.clearTimeout(this.autocompleteTimeout);
+      this.autocompleteTimeout = null;
+    }
+  }
+};
+var VaultSearchModal = class extends import_obsidian.Modal {
+  constructor(app, plugin, chatView) {
+    super(app);
+    this.searchResults = [];
+    this.selectedResults = /* @__PURE__ */ new Set();
+    this.plugin = plugin;
+    this.chatView = chatView;
+  }
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass("claude-search-modal");
+    contentEl.createEl("h2", { text: "Search Vault" });
+    const inputContainer = contentEl.createDiv({ cls: "claude-search-input-container" });
+    this.searchInput = inputContainer.createEl("input", {
+      cls: "claude-search-input",
+      attr: { placeholder: "Search for text in all files...", type: "text" }
+    });
+    const searchButton = inputContainer.createEl("button", {
+      text: "Search",
+      cls: "mod-cta"
+    });
+    this.resultsContainer = contentEl.createDiv({ cls: "claude-search-results" });
+    const actionContainer = contentEl.createDiv({ cls: "claude-search-actions" });
+    const selectAllBtn = actionContainer.createEl("button", { text: "Select All" });
+    const deselectAllBtn = actionContainer.createEl("button", { text: "Deselect All" });
+    const sendButton = actionContainer.createEl("button", { text: "Send to Claude", cls: "mod-cta" });
+    searchButton.addEventListener("click", () => this.performSearch());
+    this.searchInput.addEventListener("keydown", (e) => {
+      if (e.key === "Enter") {
+        e.preventDefault();
+        this.performSearch();
+      }
+    });
+    selectAllBtn.addEventListener("click", () => this.selectAll());
+    deselectAllBtn.addEventListener("click", () => this.deselectAll());
+    sendButton.addEventListener("click", () => this.sendToChat());
+    this.searchInput.focus();
+  }
+  performSearch() {
+    const query = this.searchInput.value.trim().toLowerCase();
+    if (!query) {
+      new import_obsidian.Notice("Please enter a search term");
+      return;
+    }
+    this.searchResults = [];
+    this.selectedResults.clear();
+    const files = this.plugin.app.vault.getMarkdownFiles();
+    for (const file of files) {
+      this.plugin.app.vault.read(file).then((content) => {
+        const matches = this.plugin.findLineMatches(file, content, (line) => line.toLowerCase().includes(query));
+        this.searchResults.push(...matches);
+        this.updateResults(query);
+      });
+    }
+    this.resultsContainer.empty();
+    this.resultsContainer.createDiv({ text: "Searching...", cls: "claude-search-loading" });
+  }
+  updateResults(query) {
+    this.resultsContainer.empty();
+    if (this.searchResults.length === 0) {
+      this.resultsContainer.createDiv({
+        text: "No results found",
+        cls: "claude-search-no-results"
       });
-      const countEl = itemEl.createEl("div", {
-        text: `${conv.messages.length} messages`,
-        cls: "claude-conversation-count"
+      return;
+    }
+    const byFile = /* @__PURE__ */ new Map();
+    this.searchResults.forEach((result) => {
+      const path = result.file.path;
+      if (!byFile.has(path)) {
+        byFile.set(path, []);
+      }
+      byFile.get(path).push(result);
+    });
+    const MAX_RESULTS = 50;
+    let displayedCount = 0;
+    byFile.forEach((results, filePath) => {
+      if (displayedCount >= MAX_RESULTS)
+        return;
+      const fileGroup = this.resultsContainer.createDiv({ cls: "claude-search-file-group" });
+      const fileHeader = fileGroup.createDiv({ cls: "claude-search-file-header" });
+      fileHeader.createSpan({ text: filePath, cls: "claude-search-file-name" });
+      fileHeader.createSpan({
+        text: ` (${results.length} match${results.length > 1 ? "es" : ""})`,
+        cls: "claude-search-match-count"
       });
-      const buttonContainer = itemEl.createDiv({ cls: "claude-conversation-buttons" });
-      const loadBtn = buttonContainer.createEl("button", { text: "Load", cls: "mod-cta" });
-      const deleteBtn = buttonContainer.createEl("button", { text: "Delete", cls: "mod-warning" });
-      loadBtn.addEventListener("click", async () => {
-        const loaded = this.plugin.loadConversation(conv.id);
-        if (loaded) {
-          this.conversationHistory = loaded.messages;
-          this.conversationSummary = loaded.summary;
-          this.plugin.settings.currentConversationId = conv.id;
-          this.chatContainer.empty();
-          await this.loadPreviousConversation();
-          this.updateTokenIndicator();
-          new import_obsidian.Notice(`Loaded: ${conv.name}`);
-          modal.close();
-        }
+      results.slice(0, 10).forEach((result, index) => {
+        if (displayedCount >= MAX_RESULTS)
+          return;
+        const resultIndex = this.searchResults.indexOf(result);
+        const resultItem = fileGroup.createDiv({ cls: "claude-search-result-item" });
+        const checkbox = resultItem.createEl("input", {
+          type: "checkbox",
+          cls: "claude-search-checkbox"
+        });
+        checkbox.checked = this.selectedResults.has(resultIndex);
+        checkbox.addEventListener("change", () => {
+          if (checkbox.checked) {
+            this.selectedResults.add(resultIndex);
+          } else {
+            this.selectedResults.delete(resultIndex);
+          }
+        });
+        const resultContent = resultItem.createDiv({ cls: "claude-search-result-content" });
+        resultContent.createDiv({
+          text: `Line ${result.line}:`,
+          cls: "claude-search-line-number"
+        });
+        const matchLine = resultContent.createDiv({ cls: "claude-search-match-line" });
+        matchLine.setText(result.lineText);
+        displayedCount++;
       });
-      deleteBtn.addEventListener("click", async () => {
-        await this.plugin.deleteConversation(conv.id);
-        new import_obsidian.Notice("Conversation deleted");
-        modal.close();
+      if (results.length > 10) {
+        fileGroup.createDiv({
+          text: `... and ${results.length - 10} more matches in this file`,
+          cls: "claude-search-more"
+        });
+      }
+    });
+    if (displayedCount >= MAX_RESULTS) {
+      this.resultsContainer.createDiv({
+        text: `Showing first ${MAX_RESULTS} results. Refine your search for more specific matches.`,
+        cls: "claude-search-limit-notice"
       });
     }
-    modal.open();
   }
-  async exportConversation() {
-    if (this.conversationHistory.length === 0) {
-      new import_obsidian.Notice("No conversation to export");
+  selectAll() {
+    this.selectedResults.clear();
+    for (let i = 0; i < this.searchResults.length; i++) {
+      this.selectedResults.add(i);
+    }
+    this.updateResults(this.searchInput.value.trim().toLowerCase());
+  }
+  deselectAll() {
+    this.selectedResults.clear();
+    this.updateResults(this.searchInput.value.trim().toLowerCase());
+  }
+  async sendToChat() {
+    if (this.selectedResults.size === 0) {
+      new import_obsidian.Notice("Please select at least one result");
       return;
     }
-    let markdown = "# Claude Conversation Export\n\n";
-    markdown += `**Date**: ${new Date().toLocaleString()}
+    const query = this.searchInput.value.trim();
+    let message = `[Search Results for "${query}" - ${this.selectedResults.size} match${this.selectedResults.size > 1 ? "es" : ""} selected]
 
 `;
-    markdown += `**Messages**: ${this.conversationHistory.length}
-
+    const byFile = /* @__PURE__ */ new Map();
+    this.selectedResults.forEach((index) => {
+      const result = this.searchResults[index];
+      const path = result.file.path;
+      if (!byFile.has(path)) {
+        byFile.set(path, []);
+      }
+      byFile.get(path).push(result);
+    });
+    byFile.forEach((results, filePath) => {
+      message += `[File: ${filePath}]
 `;
-    markdown += "---\n\n";
-    for (const msg of this.conversationHistory) {
-      if (msg.role === "user") {
-        markdown += "## \u{1F464} User\n\n";
-        if (typeof msg.content === "string") {
-          markdown += msg.content + "\n\n";
-        }
-      } else if (msg.role === "assistant") {
-        markdown += "## \u{1F916} Claude\n\n";
-        const textContent = Array.isArray(msg.content) ? msg.content.filter((block) => block.type === "text").map((block) => block.text).join("\n") : msg.content;
-        if (textContent) {
-          markdown += textContent + "\n\n";
+      results.forEach((result) => {
+        message += `
+Line ${result.line}:
+`;
+        if (result.contextBefore.length > 0) {
+          message += result.contextBefore.join("\n") + "\n";
         }
-        if (Array.isArray(msg.content)) {
-          const toolUses = msg.content.filter((block) => block.type === "tool_use");
-          if (toolUses.length > 0) {
-            markdown += "**Tools Used:**\n";
-            for (const tool of toolUses) {
-              markdown += `- \`${tool.name}\`
+        message += `>>> ${result.lineText}
 `;
-            }
-            markdown += "\n";
-          }
+        if (result.contextAfter.length > 0) {
+          message += result.contextAfter.join("\n") + "\n";
         }
+      });
+      message += `[End File: ${filePath}]
+
+`;
+    });
+    this.chatView.inputArea.value = message;
+    this.chatView.inputArea.focus();
+    this.close();
+    new import_obsidian.Notice(`Added ${this.selectedResults.size} search results to chat`);
+  }
+  onClose() {
+    const { contentEl } = this;
+    contentEl.empty();
+  }
+};
+var ClaudeQuickModal = class extends import_obsidian.Modal {
+  constructor(app, plugin, editor, file) {
+    super(app);
+    this.messages = [];
+    this.usageRecords = [];
+    this.firstQuestion = "";
+    this.abortController = null;
+    this.plugin = plugin;
+    this.editor = editor;
+    this.file = file;
+    this.fileContent = editor.getValue();
+  }
+  onOpen() {
+    var _a;
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass("claude-quick-modal");
+    contentEl.createEl("h2", { text: `Ask Claude about ${((_a = this.file) == null ? void 0 : _a.basename) || "this note"}` });
+    this.threadEl = contentEl.createDiv({ cls: "claude-quick-thread" });
+    this.inputArea = contentEl.createEl("textarea", {
+      cls: "claude-quick-input",
+      attr: { placeholder: "What do you want to know about this file?" }
+    });
+    const buttonDiv = contentEl.createDiv({ cls: "modal-button-container" });
+    this.promoteButton = buttonDiv.createEl("button", { text: "Continue in chat" });
+    this.promoteButton.disabled = true;
+    this.askButton = buttonDiv.createEl("button", { text: "Ask", cls: "mod-cta" });
+    this.promoteButton.addEventListener("click", () => this.promote());
+    this.askButton.addEventListener("click", () => this.ask());
+    this.inputArea.addEventListener("keydown", (e) => {
+      if (e.key === "Enter" && !e.shiftKey) {
+        e.preventDefault();
+        this.ask();
       }
-      markdown += "---\n\n";
+    });
+    this.inputArea.focus();
+  }
+  async ask() {
+    var _a;
+    const question = this.inputArea.value.trim();
+    if (!question || this.abortController)
+      return;
+    let content = question;
+    if (this.messages.length === 0) {
+      const path = ((_a = this.file) == null ? void 0 : _a.path) || "current file";
+      const truncated = this.plugin.truncateToolResult(this.fileContent, 15e3);
+      content += `
+
+[Manually Attached Files]
+
+[File: ${path}]
+${truncated}
+[End File: ${path}]
+
+`;
+      this.firstQuestion = question;
     }
-    const fileName = `claude-conversation-${Date.now()}.md`;
+    this.messages.push({ role: "user", content });
+    this.inputArea.value = "";
+    this.askButton.disabled = true;
+    this.askButton.setText("Asking...");
+    const questionEl = this.threadEl.createDiv({ cls: "claude-message claude-message-user", text: question });
+    const loadingEl = this.threadEl.createDiv({ cls: "claude-message claude-message-assistant", text: "Claude is thinking..." });
+    this.threadEl.scrollTop = this.threadEl.scrollHeight;
+    this.abortController = new AbortController();
     try {
-      await this.plugin.app.vault.create(fileName, markdown);
-      new import_obsidian.Notice(`Exported to ${fileName}`);
+      const response = await this.plugin.callClaude(this.messages, void 0, void 0, void 0, this.abortController.signal);
+      const usage = this.plugin.recordUsage(response, "", "quick");
+      if (usage)
+        this.usageRecords.push(usage);
+      this.messages.push({ role: "assistant", content: response.content });
+      loadingEl.remove();
+      await this.addAnswer(getMessageText(this.messages[this.messages.length - 1]));
+      this.promoteButton.disabled = false;
     } catch (error) {
-      new import_obsidian.Notice("Failed to export: " + error.message);
+      this.messages.pop();
+      if (this.messages.length === 0)
+        this.firstQuestion = "";
+      questionEl.remove();
+      loadingEl.remove();
+      this.inputArea.value = question;
+      if (!this.plugin.isAbortError(error)) {
+        new import_obsidian.Notice("Error: " + error.message);
+      }
+    } finally {
+      this.abortController = null;
+      this.askButton.disabled = false;
+      this.askButton.setText("Ask");
     }
   }
-  newConversation() {
-    this.conversationHistory = [];
-    this.conversationSummary = "";
-    this.plugin.settings.currentConversationId = "";
-    this.chatContainer.empty();
-    this.addWelcomeMessage();
-    this.updateTokenIndicator();
-    new import_obsidian.Notice("New conversation started");
+  async addAnswer(text) {
+    var _a;
+    const answerEl = this.threadEl.createDiv({ cls: "claude-message claude-message-assistant" });
+    const contentEl = answerEl.createDiv({ cls: "claude-message-content" });
+    await import_obsidian.MarkdownRenderer.render(this.app, text, contentEl, ((_a = this.file) == null ? void 0 : _a.path) || "", this.plugin);
+    const actions = answerEl.createDiv({ cls: "claude-quick-actions" });
+    const insertBtn = actions.createEl("button", { text: "Insert at cursor" });
+    const appendBtn = actions.createEl("button", { text: "Append to note" });
+    insertBtn.addEventListener("click", () => {
+      this.editor.replaceRange(text, this.editor.getCursor());
+      new import_obsidian.Notice("Inserted at cursor");
+    });
+    appendBtn.addEventListener("click", () => {
+      const lastLine = this.editor.lastLine();
+      this.editor.replaceRange(`
+
+${text}`, { line: lastLine, ch: this.editor.getLine(lastLine).length });
+      new import_obsidian.Notice("Appended to note");
+    });
+    this.threadEl.scrollTop = this.threadEl.scrollHeight;
   }
-  async onClose() {
-    this.stopLoadingAnimation();
-    if (this.autocompleteTimeout) {
-      window.clearTimeout(this.autocompleteTimeout);
-      this.autocompleteTimeout = null;
+  // Carry on in a chat view: an empty one if there is one, otherwise a new tab
+  async promote() {
+    if (this.messages.length === 0 || this.abortController)
+      return;
+    let view = this.plugin.getActiveChatView();
+    if (view && view.conversationHistory.length === 0 && !view.isGenerating) {
+      this.app.workspace.revealLeaf(view.leaf);
+    } else {
+      view = await this.plugin.openNewChat("tab");
+    }
+    if (!view)
+      return;
+    const conversationId = this.plugin.generateConversationId();
+    const usage = this.usageRecords.map((record) => ({ ...record, conversationId, purpose: "chat" }));
+    await view.adoptConversation(conversationId, this.messages, usage, this.firstQuestion);
+    this.close();
+  }
+  onClose() {
+    if (this.abortController) {
+      this.abortController.abort();
     }
+    this.contentEl.empty();
   }
 };
-var VaultSearchModal = class extends import_obsidian.Modal {
-  constructor(app, plugin, chatView) {
+var PromptVariablesModal = class extends import_obsidian.Modal {
+  constructor(app, template, onSubmit) {
     super(app);
-    this.searchResults = [];
-    this.selectedResults = /* @__PURE__ */ new Set();
-    this.plugin = plugin;
-    this.chatView = chatView;
+    this.submitted = false;
+    this.template = template;
+    this.onSubmit = onSubmit;
   }
   onOpen() {
     const { contentEl } = this;
     contentEl.empty();
-    contentEl.addClass("claude-search-modal");
-    contentEl.createEl("h2", { text: "Search Vault" });
-    const inputContainer = contentEl.createDiv({ cls: "claude-search-input-container" });
-    this.searchInput = inputContainer.createEl("input", {
-      cls: "claude-search-input",
-      attr: { placeholder: "Search for text in all files...", type: "text" }
-    });
-    const searchButton = inputContainer.createEl("button", {
-      text: "Search",
-      cls: "mod-cta"
-    });
-    this.resultsContainer = contentEl.createDiv({ cls: "claude-search-results" });
-    const actionContainer = contentEl.createDiv({ cls: "claude-search-actions" });
-    const selectAllBtn = actionContainer.createEl("button", { text: "Select All" });
-    const deselectAllBtn = actionContainer.createEl("button", { text: "Deselect All" });
-    const sendButton = actionContainer.createEl("button", { text: "Send to Claude", cls: "mod-cta" });
-    searchButton.addEventListener("click", () => this.performSearch());
-    this.searchInput.addEventListener("keydown", (e) => {
+    contentEl.createEl("h3", { text: `/${this.template.name}` });
+    if (this.template.description) {
+      contentEl.createEl("p", { text: this.template.description, cls: "claude-approval-description" });
+    }
+    const inputs = {};
+    for (const variable of this.template.variables) {
+      new import_obsidian.Setting(contentEl).setName(variable).addText((text) => {
+        inputs[variable] = text.inputEl;
+        text.inputEl.addEventListener("keydown", (e) => {
+          if (e.key === "Enter") {
+            e.preventDefault();
+            submit();
+          }
+        });
+      });
+    }
+    const buttonContainer = contentEl.createDiv({ cls: "modal-button-container" });
+    const cancelBtn = buttonContainer.createEl("button", { text: "Cancel" });
+    const sendBtn = buttonContainer.createEl("button", { text: "Send", cls: "mod-cta" });
+    const submit = () => {
+      const values = {};
+      for (const variable of this.template.variables) {
+        values[variable] = inputs[variable].value;
+      }
+      this.submit(values);
+      this.close();
+    };
+    cancelBtn.addEventListener("click", () => this.close());
+    sendBtn.addEventListener("click", submit);
+    const first = inputs[this.template.variables[0]];
+    if (first)
+      first.focus();
+  }
+  submit(values) {
+    if (!this.submitted) {
+      this.submitted = true;
+      this.onSubmit(values);
+    }
+  }
+  onClose() {
+    this.submit(null);
+    this.contentEl.empty();
+  }
+};
+var SelectionInstructionModal = class extends import_obsidian.Modal {
+  constructor(app, prompt, initial, onSubmit) {
+    super(app);
+    this.prompt = prompt;
+    this.initial = initial;
+    this.onSubmit = onSubmit;
+  }
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl("h3", { text: this.prompt });
+    const input = contentEl.createEl("input", { type: "text", cls: "claude-selection-instruction" });
+    input.value = this.initial;
+    const buttonContainer = contentEl.createDiv({ cls: "modal-button-container" });
+    const cancelBtn = buttonContainer.createEl("button", { text: "Cancel" });
+    const runBtn = buttonContainer.createEl("button", { text: "Run", cls: "mod-cta" });
+    const submit = () => {
+      const value = input.value.trim();
+      if (!value)
+        return;
+      this.close();
+      this.onSubmit(value);
+    };
+    cancelBtn.addEventListener("click", () => this.close());
+    runBtn.addEventListener("click", submit);
+    input.addEventListener("keydown", (e) => {
       if (e.key === "Enter") {
         e.preventDefault();
-        this.performSearch();
+        submit();
       }
     });
-    selectAllBtn.addEventListener("click", () => this.selectAll());
-    deselectAllBtn.addEventListener("click", () => this.deselectAll());
-    sendButton.addEventListener("click", () => this.sendToChat());
-    this.searchInput.focus();
+    input.focus();
+    input.select();
   }
-  performSearch() {
-    const query = this.searchInput.value.trim().toLowerCase();
-    if (!query) {
-      new import_obsidian.Notice("Please enter a search term");
+  onClose() {
+    this.contentEl.empty();
+  }
+};
+var ToolApprovalModal = class extends import_obsidian.Modal {
+  constructor(app, preview, onDecision) {
+    super(app);
+    this.decided = false;
+    this.preview = preview;
+    this.onDecision = onDecision;
+  }
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass("claude-approval-modal");
+    contentEl.createEl("h3", { text: this.preview.title });
+    contentEl.createEl("p", { text: this.preview.description, cls: "claude-approval-description" });
+    if (this.preview.diff) {
+      const diffEl = contentEl.createEl("pre", { cls: "claude-diff" });
+      for (const line of this.preview.diff.split("\n")) {
+        let cls = "claude-diff-line";
+        if (line.startsWith("@@"))
+          cls += " claude-diff-hunk";
+        else if (line.startsWith("+++") || line.startsWith("---"))
+          cls += " claude-diff-file";
+        else if (line.startsWith("+"))
+          cls += " claude-diff-add";
+        else if (line.startsWith("-"))
+          cls += " claude-diff-remove";
+        diffEl.createDiv({ cls, text: line || " " });
+      }
+    }
+    const buttonContainer = contentEl.createDiv({ cls: "modal-button-container" });
+    const rejectBtn = buttonContainer.createEl("button", { text: "Reject", cls: "mod-warning" });
+    const approveBtn = buttonContainer.createEl("button", { text: "Approve", cls: "mod-cta" });
+    rejectBtn.addEventListener("click", () => {
+      this.decide(false);
+      this.close();
+    });
+    approveBtn.addEventListener("click", () => {
+      this.decide(true);
+      this.close();
+    });
+  }
+  decide(approved) {
+    if (!this.decided) {
+      this.decided = true;
+      this.onDecision(approved);
+    }
+  }
+  onClose() {
+    this.decide(false);
+    this.contentEl.empty();
+  }
+};
+var ConversationFolderModal = class extends import_obsidian.Modal {
+  constructor(app, from, to, count, onChoice) {
+    super(app);
+    this.chosen = false;
+    this.from = from;
+    this.to = to;
+    this.count = count;
+    this.onChoice = onChoice;
+  }
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl("h3", { text: "Change conversation folder" });
+    contentEl.createEl("p", {
+      text: `${this.from} holds ${this.count} conversation(s) and the usage log. Move them to ${this.to}? Conversations left behind no longer show up in the history.`
+    });
+    const buttonContainer = contentEl.createDiv({ cls: "modal-button-container" });
+    const cancelBtn = buttonContainer.createEl("button", { text: "Cancel" });
+    const keepBtn = buttonContainer.createEl("button", { text: "Leave them" });
+    const moveBtn = buttonContainer.createEl("button", { text: "Move", cls: "mod-cta" });
+    cancelBtn.addEventListener("click", () => this.close());
+    keepBtn.addEventListener("click", () => {
+      this.choose("keep");
+      this.close();
+    });
+    moveBtn.addEventListener("click", () => {
+      this.choose("move");
+      this.close();
+    });
+  }
+  choose(choice) {
+    if (!this.chosen) {
+      this.chosen = true;
+      this.onChoice(choice);
+    }
+  }
+  onClose() {
+    this.choose("cancel");
+    this.contentEl.empty();
+  }
+};
+var ConversationSummaryModal = class extends import_obsidian.Modal {
+  constructor(app, summary, onSave) {
+    super(app);
+    this.summary = summary;
+    this.onSave = onSave;
+  }
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass("claude-summary-modal");
+    contentEl.createEl("h3", { text: "Conversation Summary" });
+    contentEl.createEl("p", {
+      text: "Claude sees this summary instead of the earlier messages it covers. Correct anything it got wrong, or clear it to start over.",
+      cls: "claude-approval-description"
+    });
+    const textarea = contentEl.createEl("textarea", { cls: "claude-summary-textarea" });
+    textarea.value = this.summary;
+    const buttonContainer = contentEl.createDiv({ cls: "modal-button-container" });
+    const cancelBtn = buttonContainer.createEl("button", { text: "Cancel" });
+    const saveBtn = buttonContainer.createEl("button", { text: "Save", cls: "mod-cta" });
+    cancelBtn.addEventListener("click", () => this.close());
+    saveBtn.addEventListener("click", () => {
+      this.onSave(textarea.value.trim());
+      this.close();
+    });
+  }
+  onClose() {
+    this.contentEl.empty();
+  }
+};
+var ConversationHistoryModal = class extends import_obsidian.Modal {
+  constructor(app, plugin, chatView) {
+    super(app);
+    this.entries = [];
+    this.selected = /* @__PURE__ */ new Set();
+    this.hits = null;
+    // null when not searching
+    this.filters = { query: "", from: "", to: "", model: "", file: "" };
+    this.searchTimer = null;
+    this.plugin = plugin;
+    this.chatView = chatView;
+  }
+  async onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass("claude-history-modal");
+    contentEl.createEl("h3", { text: "Conversation History" });
+    this.entries = await this.plugin.conversationStore.getIndex();
+    if (this.entries.length === 0) {
+      contentEl.createEl("p", { text: "No saved conversations found", cls: "claude-approval-description" });
       return;
     }
-    this.searchResults = [];
-    this.selectedResults.clear();
-    const files = this.plugin.app.vault.getMarkdownFiles();
-    for (const file of files) {
-      this.plugin.app.vault.read(file).then((content) => {
-        const lines = content.split("\n");
-        lines.forEach((line, index) => {
-          if (line.toLowerCase().includes(query)) {
-            const contextBefore = lines.slice(Math.max(0, index - 3), index);
-            const contextAfter = lines.slice(index + 1, index + 4);
-            this.searchResults.push({
-              file,
-              line: index + 1,
-              lineText: line,
-              contextBefore,
-              contextAfter
-            });
-          }
-        });
-        this.updateResults(query);
-      });
+    const searchInput = contentEl.createEl("input", {
+      cls: "claude-history-search",
+      attr: { placeholder: "Search all conversations...", type: "search" }
+    });
+    searchInput.addEventListener("input", () => {
+      this.filters.query = searchInput.value;
+      if (this.searchTimer)
+        window.clearTimeout(this.searchTimer);
+      this.searchTimer = window.setTimeout(() => this.runSearch(), 300);
+    });
+    const filterRow = contentEl.createDiv({ cls: "claude-history-filters" });
+    const fromInput = filterRow.createEl("input", { attr: { type: "date", title: "From" } });
+    const toInput = filterRow.createEl("input", { attr: { type: "date", title: "To" } });
+    fromInput.addEventListener("change", () => {
+      this.filters.from = fromInput.value;
+      this.renderList();
+    });
+    toInput.addEventListener("change", () => {
+      this.filters.to = toInput.value;
+      this.renderList();
+    });
+    const modelSelect = filterRow.createEl("select", { cls: "dropdown" });
+    modelSelect.createEl("option", { text: "All models", value: "" });
+    const models = [...new Set(this.entries.flatMap((entry) => entry.models || []))].sort();
+    for (const model of models) {
+      modelSelect.createEl("option", { text: model, value: model });
     }
-    this.resultsContainer.empty();
-    this.resultsContainer.createDiv({ text: "Searching...", cls: "claude-search-loading" });
+    modelSelect.addEventListener("change", () => {
+      this.filters.model = modelSelect.value;
+      this.renderList();
+    });
+    const fileInput = filterRow.createEl("input", { attr: { type: "text", placeholder: "File touched..." } });
+    fileInput.addEventListener("input", () => {
+      this.filters.file = fileInput.value;
+      this.renderList();
+    });
+    const actionRow = contentEl.createDiv({ cls: "claude-history-actions" });
+    const selectAllBtn = actionRow.createEl("button", { text: "Select All" });
+    const deselectAllBtn = actionRow.createEl("button", { text: "Deselect All" });
+    this.deleteSelectedBtn = actionRow.createEl("button", { text: "Delete selected", cls: "mod-warning" });
+    selectAllBtn.addEventListener("click", () => {
+      this.getVisibleEntries().forEach((entry) => this.selected.add(entry.id));
+      this.renderList();
+    });
+    deselectAllBtn.addEventListener("click", () => {
+      this.selected.clear();
+      this.renderList();
+    });
+    this.deleteSelectedBtn.addEventListener("click", () => this.deleteSelected());
+    this.listEl = contentEl.createDiv({ cls: "claude-conversation-list" });
+    this.renderList();
+    searchInput.focus();
   }
-  updateResults(query) {
-    this.resultsContainer.empty();
-    if (this.searchResults.length === 0) {
-      this.resultsContainer.createDiv({
-        text: "No results found",
-        cls: "claude-search-no-results"
-      });
+  onClose() {
+    if (this.searchTimer)
+      window.clearTimeout(this.searchTimer);
+    this.contentEl.empty();
+  }
+  async runSearch() {
+    const query = this.filters.query.trim();
+    this.hits = query ? await this.plugin.conversationStore.search(query) : null;
+    this.renderList();
+  }
+  getVisibleEntries() {
+    const from = this.filters.from ? new Date(`${this.filters.from}T00:00:00`).getTime() : -Infinity;
+    const to = this.filters.to ? new Date(`${this.filters.to}T23:59:59.999`).getTime() : Infinity;
+    const file = this.filters.file.trim().toLowerCase();
+    return this.entries.filter((entry) => entry.timestamp >= from && entry.timestamp <= to).filter((entry) => !this.filters.model || (entry.models || []).includes(this.filters.model)).filter((entry) => !file || (entry.files || []).some((path) => path.toLowerCase().includes(file))).filter((entry) => !this.hits || this.hits.has(entry.id)).sort((a, b) => Number(!!b.pinned) - Number(!!a.pinned) || b.timestamp - a.timestamp);
+  }
+  renderList() {
+    this.listEl.empty();
+    const visible = this.getVisibleEntries();
+    this.deleteSelectedBtn.setText(this.selected.size > 0 ? `Delete selected (${this.selected.size})` : "Delete selected");
+    this.deleteSelectedBtn.disabled = this.selected.size === 0;
+    if (visible.length === 0) {
+      this.listEl.createDiv({ text: "No conversations match", cls: "claude-search-no-results" });
       return;
     }
-    const byFile = /* @__PURE__ */ new Map();
-    this.searchResults.forEach((result) => {
-      const path = result.file.path;
-      if (!byFile.has(path)) {
-        byFile.set(path, []);
+    for (const entry of visible) {
+      const itemEl = this.listEl.createDiv({ cls: "claude-conversation-item" });
+      if (entry.pinned)
+        itemEl.addClass("is-pinned");
+      const headerEl = itemEl.createDiv({ cls: "claude-conversation-header" });
+      const checkbox = headerEl.createEl("input", { type: "checkbox" });
+      checkbox.checked = this.selected.has(entry.id);
+      checkbox.addEventListener("change", () => {
+        if (checkbox.checked) {
+          this.selected.add(entry.id);
+        } else {
+          this.selected.delete(entry.id);
+        }
+        this.deleteSelectedBtn.setText(this.selected.size > 0 ? `Delete selected (${this.selected.size})` : "Delete selected");
+        this.deleteSelectedBtn.disabled = this.selected.size === 0;
+      });
+      const nameEl = headerEl.createEl("strong", { text: `${entry.pinned ? "\u{1F4CC} " : ""}${entry.name}` });
+      const details = [
+        new Date(entry.timestamp).toLocaleString(),
+        `${entry.messageCount} messages`,
+        ...entry.models && entry.models.length > 0 ? [entry.models.join(", ")] : [],
+        ...entry.files && entry.files.length > 0 ? [`${entry.files.length} file(s)`] : []
+      ];
+      itemEl.createDiv({ text: details.join(" \xB7 "), cls: "claude-conversation-date" });
+      if (entry.preview && (entry.preview.user || entry.preview.assistant)) {
+        const previewEl = itemEl.createDiv({ cls: "claude-conversation-preview" });
+        if (entry.preview.user)
+          previewEl.createDiv({ text: `You: ${entry.preview.user}` });
+        if (entry.preview.assistant)
+          previewEl.createDiv({ text: `Claude: ${entry.preview.assistant}` });
       }
-      byFile.get(path).push(result);
-    });
-    const MAX_RESULTS = 50;
-    let displayedCount = 0;
-    byFile.forEach((results, filePath) => {
-      if (displayedCount >= MAX_RESULTS)
-        return;
-      const fileGroup = this.resultsContainer.createDiv({ cls: "claude-search-file-group" });
-      const fileHeader = fileGroup.createDiv({ cls: "claude-search-file-header" });
-      fileHeader.createSpan({ text: filePath, cls: "claude-search-file-name" });
-      fileHeader.createSpan({
-        text: ` (${results.length} match${results.length > 1 ? "es" : ""})`,
-        cls: "claude-search-match-count"
+      const hits = this.hits ? this.hits.get(entry.id) || [] : [];
+      for (const hit of hits) {
+        const hitEl = itemEl.createDiv({ text: hit.snippet, cls: "claude-conversation-hit" });
+        hitEl.addEventListener("click", () => this.openEntry(entry, hit.messageIndex));
+      }
+      const buttonContainer = itemEl.createDiv({ cls: "claude-conversation-buttons" });
+      const loadBtn = buttonContainer.createEl("button", { text: "Load", cls: "mod-cta" });
+      const pinBtn = buttonContainer.createEl("button", { text: entry.pinned ? "Unpin" : "Pin" });
+      const renameBtn = buttonContainer.createEl("button", { text: "Rename" });
+      const deleteBtn = buttonContainer.createEl("button", { text: "Delete", cls: "mod-warning" });
+      loadBtn.addEventListener("click", () => this.openEntry(entry));
+      pinBtn.addEventListener("click", async () => {
+        await this.plugin.conversationStore.update(entry.id, { pinned: !entry.pinned });
+        this.renderList();
       });
-      results.slice(0, 10).forEach((result, index) => {
-        if (displayedCount >= MAX_RESULTS)
-          return;
-        const resultIndex = this.searchResults.indexOf(result);
-        const resultItem = fileGroup.createDiv({ cls: "claude-search-result-item" });
-        const checkbox = resultItem.createEl("input", {
-          type: "checkbox",
-          cls: "claude-search-checkbox"
-        });
-        checkbox.checked = this.selectedResults.has(resultIndex);
-        checkbox.addEventListener("change", () => {
-          if (checkbox.checked) {
-            this.selectedResults.add(resultIndex);
-          } else {
-            this.selectedResults.delete(resultIndex);
+      renameBtn.addEventListener("click", () => {
+        nameEl.empty();
+        const input = nameEl.createEl("input", { type: "text", value: entry.name });
+        input.focus();
+        input.select();
+        let done = false;
+        const commit = async (save) => {
+          if (done)
+            return;
+          done = true;
+          const name = input.value.trim();
+          if (save && name && name !== entry.name) {
+            await this.plugin.conversationStore.update(entry.id, { name });
+          }
+          this.renderList();
+        };
+        input.addEventListener("keydown", (e) => {
+          if (e.key === "Enter") {
+            e.preventDefault();
+            commit(true);
+          } else if (e.key === "Escape") {
+            e.preventDefault();
+            e.stopPropagation();
+            commit(false);
           }
         });
-        const resultContent = resultItem.createDiv({ cls: "claude-search-result-content" });
-        resultContent.createDiv({
-          text: `Line ${result.line}:`,
-          cls: "claude-search-line-number"
-        });
-        const matchLine = resultContent.createDiv({ cls: "claude-search-match-line" });
-        matchLine.setText(result.lineText);
-        displayedCount++;
+        input.addEventListener("blur", () => commit(true));
       });
-      if (results.length > 10) {
-        fileGroup.createDiv({
-          text: `... and ${results.length - 10} more matches in this file`,
-          cls: "claude-search-more"
+      deleteBtn.addEventListener("click", () => {
+        this.confirmDelete(`Delete "${entry.name}"?`, async () => {
+          await this.plugin.deleteConversation(entry.id);
+          this.selected.delete(entry.id);
+          this.entries = await this.plugin.conversationStore.getIndex();
+          new import_obsidian.Notice("Conversation deleted");
+          this.renderList();
         });
-      }
-    });
-    if (displayedCount >= MAX_RESULTS) {
-      this.resultsContainer.createDiv({
-        text: `Showing first ${MAX_RESULTS} results. Refine your search for more specific matches.`,
-        cls: "claude-search-limit-notice"
       });
     }
   }
-  selectAll() {
-    this.selectedResults.clear();
-    for (let i = 0; i < this.searchResults.length; i++) {
-      this.selectedResults.add(i);
+  async openEntry(entry, messageIndex) {
+    if (await this.chatView.openConversation(entry.id, messageIndex)) {
+      new import_obsidian.Notice(`Loaded: ${entry.name}`);
+      this.close();
     }
-    this.updateResults(this.searchInput.value.trim().toLowerCase());
   }
-  deselectAll() {
-    this.selectedResults.clear();
-    this.updateResults(this.searchInput.value.trim().toLowerCase());
+  // Deleting removes the conversation files for good, so ask first
+  confirmDelete(title, onConfirm) {
+    const modal = new import_obsidian.Modal(this.app);
+    modal.contentEl.createEl("h3", { text: title });
+    modal.contentEl.createEl("p", { text: "The conversation files are deleted permanently. This cannot be undone." });
+    const buttonContainer = modal.contentEl.createDiv({ cls: "modal-button-container" });
+    const cancelBtn = buttonContainer.createEl("button", { text: "Cancel" });
+    const confirmBtn = buttonContainer.createEl("button", { text: "Delete", cls: "mod-warning" });
+    cancelBtn.addEventListener("click", () => modal.close());
+    confirmBtn.addEventListener("click", async () => {
+      modal.close();
+      await onConfirm();
+    });
+    modal.open();
   }
-  async sendToChat() {
-    if (this.selectedResults.size === 0) {
-      new import_obsidian.Notice("Please select at least one result");
+  deleteSelected() {
+    const ids = [...this.selected];
+    if (ids.length === 0)
       return;
-    }
-    const query = this.searchInput.value.trim();
-    let message = `[Search Results for "${query}" - ${this.selectedResults.size} match${this.selectedResults.size > 1 ? "es" : ""} selected]
-
-`;
-    const byFile = /* @__PURE__ */ new Map();
-    this.selectedResults.forEach((index) => {
-      const result = this.searchResults[index];
-      const path = result.file.path;
-      if (!byFile.has(path)) {
-        byFile.set(path, []);
-      }
-      byFile.get(path).push(result);
-    });
-    byFile.forEach((results, filePath) => {
-      message += `[File: ${filePath}]
-`;
-      results.forEach((result) => {
-        message += `
-Line ${result.line}:
-`;
-        if (result.contextBefore.length > 0) {
-          message += result.contextBefore.join("\n") + "\n";
-        }
-        message += `>>> ${result.lineText}
-`;
-        if (result.contextAfter.length > 0) {
-          message += result.contextAfter.join("\n") + "\n";
-        }
-      });
-      message += `[End File: ${filePath}]
-
-`;
-    });
-    this.chatView.inputArea.value = message;
-    this.chatView.inputArea.focus();
-    this.close();
-    new import_obsidian.Notice(`Added ${this.selectedResults.size} search results to chat`);
+    this.confirmDelete(`Delete ${ids.length} conversation(s)?`, () => this.deleteConversations(ids));
   }
-  onClose() {
-    const { contentEl } = this;
-    contentEl.empty();
+  async deleteConversations(ids) {
+    for (const id of ids) {
+      await this.plugin.deleteConversation(id);
+    }
+    this.selected.clear();
+    this.entries = await this.plugin.conversationStore.getIndex();
+    new import_obsidian.Notice(`Deleted ${ids.length} conversation(s)`);
+    if (this.entries.length === 0) {
+      this.close();
+      return;
+    }
+    this.renderList();
   }
 };
-var ClaudeQuickModal = class extends import_obsidian.Modal {
-  constructor(app, plugin, prompt, fileContent) {
+var UsageDashboardModal = class extends import_obsidian.Modal {
+  constructor(app, plugin) {
     super(app);
     this.plugin = plugin;
-    this.prompt = prompt;
-    this.fileContent = fileContent;
   }
-  onOpen() {
+  async onOpen() {
     const { contentEl } = this;
     contentEl.empty();
-    contentEl.createEl("h2", { text: "Ask Claude" });
-    const inputArea = contentEl.createEl("textarea", {
-      cls: "claude-quick-input",
-      attr: { placeholder: "What do you want to know about this file?" }
+    contentEl.addClass("claude-usage-modal");
+    contentEl.createEl("h3", { text: "Token Usage & Costs" });
+    const records = await this.plugin.conversationStore.getUsage();
+    if (records.length === 0) {
+      contentEl.createEl("p", { text: "No usage recorded yet. Usage is recorded from each API response.", cls: "claude-approval-description" });
+      return;
+    }
+    const costOf = (record) => this.plugin.calculateCost(record);
+    const totals = summarizeUsage(records, costOf);
+    const since = new Date(records[0].timestamp).toLocaleDateString();
+    const summary = contentEl.createDiv({ cls: "claude-usage-summary" });
+    summary.createDiv({ text: `Since ${since}: ${totals.requests.toLocaleString()} requests` });
+    summary.createDiv({ text: `Input: ${formatTokenCount(totals.totalInput)} (cache hit ${Math.round(totals.cacheHitRate * 100)}%) \xB7 Output: ${formatTokenCount(totals.outputTokens)}${totals.thinkingTokens > 0 ? ` (~${formatTokenCount(totals.thinkingTokens)} thinking)` : ""}` });
+    summary.createDiv({ text: `Total cost: ${this.formatTotalCost(records)}` });
+    const byDay = this.groupBy(records, (record) => (0, import_obsidian.moment)(record.timestamp).format("YYYY-MM-DD"));
+    this.renderTable(contentEl, "By day", "Day", [...byDay.entries()].sort((a, b) => b[0].localeCompare(a[0])).slice(0, 30));
+    const byModel = this.groupBy(records, (record) => record.model);
+    this.renderTable(contentEl, "By model", "Model", this.sortByCost(byModel));
+    const names = new Map((await this.plugin.conversationStore.getIndex()).map((conv) => [conv.id, conv.name]));
+    const unlinkedLabel = (record) => record.purpose === "quick" ? "(quick ask)" : record.purpose === "edit" ? "(selection edits)" : "(no conversation)";
+    const byConversation = this.groupBy(records, (record) => record.conversationId || unlinkedLabel(record));
+    const conversationRows = this.sortByCost(byConversation).slice(0, 25).map(([id, group]) => [group[0].conversationId ? names.get(id) || "(deleted conversation)" : id, group]);
+    this.renderTable(contentEl, "By conversation", "Conversation", conversationRows);
+    contentEl.createEl("p", {
+      text: 'Costs use the per-model prices in settings. Models without a price show "\u2014".',
+      cls: "setting-item-description"
     });
-    const buttonDiv = contentEl.createDiv({ cls: "modal-button-container" });
-    const submitButton = buttonDiv.createEl("button", { text: "Ask", cls: "mod-cta" });
-    submitButton.addEventListener("click", async () => {
-      const question = inputArea.value.trim();
-      if (!question)
-        return;
-      submitButton.disabled = true;
-      submitButton.setText("Asking...");
-      try {
-        const response = await this.plugin.callClaude([{
-          role: "user",
-          content: `File content:
-
-${this.fileContent}
-
-Question: ${question}`
-        }]);
-        contentEl.empty();
-        contentEl.createEl("h2", { text: "Claude's Response" });
-        const responseDiv = contentEl.createDiv({ cls: "claude-response" });
-        responseDiv.setText(response);
-        const closeButton = contentEl.createEl("button", { text: "Close" });
-        closeButton.addEventListener("click", () => this.close());
-      } catch (error) {
-        new import_obsidian.Notice("Error: " + error.message);
-        submitButton.disabled = false;
-        submitButton.setText("Ask");
+  }
+  groupBy(records, keyOf) {
+    const groups = /* @__PURE__ */ new Map();
+    for (const record of records) {
+      const key = keyOf(record);
+      if (!groups.has(key))
+        groups.set(key, []);
+      groups.get(key).push(record);
+    }
+    return groups;
+  }
+  sortByCost(groups) {
+    const costOf = (group) => group.reduce((sum, record) => sum + (this.plugin.calculateCost(record) || 0), 0);
+    return [...groups.entries()].sort((a, b) => costOf(b[1]) - costOf(a[1]));
+  }
+  // Priced records only; unpriced models are called out rather than counted as free
+  formatTotalCost(records) {
+    let cost = 0;
+    let unpriced = 0;
+    for (const record of records) {
+      const recordCost = this.plugin.calculateCost(record);
+      if (recordCost === null) {
+        unpriced++;
+      } else {
+        cost += recordCost;
       }
-    });
+    }
+    if (unpriced === records.length)
+      return "\u2014";
+    return unpriced > 0 ? `${formatCost(cost)} (+${unpriced} unpriced request(s))` : formatCost(cost);
+  }
+  renderTable(containerEl, title, keyLabel, rows) {
+    containerEl.createEl("h4", { text: title });
+    const table = containerEl.createEl("table", { cls: "claude-usage-table" });
+    const header = table.createEl("tr");
+    [keyLabel, "Requests", "Input", "Output", "Cache hit", "Cost"].forEach((label) => header.createEl("th", { text: label }));
+    for (const [key, group] of rows) {
+      const totals = summarizeUsage(group, (record) => this.plugin.calculateCost(record));
+      const row = table.createEl("tr");
+      row.createEl("td", { text: key });
+      row.createEl("td", { text: totals.requests.toLocaleString() });
+      row.createEl("td", { text: formatTokenCount(totals.totalInput) });
+      row.createEl("td", { text: formatTokenCount(totals.outputTokens) });
+      row.createEl("td", { text: `${Math.round(totals.cacheHitRate * 100)}%` });
+      row.createEl("td", { text: this.formatTotalCost(group) });
+    }
   }
   onClose() {
-    const { contentEl } = this;
-    contentEl.empty();
+    this.contentEl.empty();
   }
 };
 var ClaudeSettingTab = class extends import_obsidian.PluginSettingTab {
@@ -2281,6 +6935,65 @@ var ClaudeSettingTab = class extends import_obsidian.PluginSettingTab {
     super(app, plugin);
     this.plugin = plugin;
   }
+  // Settings for one assistant profile. Changes show in the chat status bar right away.
+  displayProfile(containerEl, profile) {
+    const profileEl = containerEl.createDiv({ cls: "claude-profile-settings" });
+    const saveProfile = async () => {
+      await this.plugin.saveSettings();
+      this.plugin.getChatViews().forEach((view) => view.updateProfileIndicator());
+    };
+    new import_obsidian.Setting(profileEl).setName("Name").setHeading().addText((text) => text.setValue(profile.name).onChange(async (value) => {
+      profile.name = value.trim() || "Untitled profile";
+      await saveProfile();
+    })).addExtraButton((button) => button.setIcon("trash").setTooltip("Delete profile").onClick(async () => {
+      this.plugin.settings.profiles = this.plugin.settings.profiles.filter((p) => p !== profile);
+      if (this.plugin.settings.defaultProfileId === profile.id) {
+        this.plugin.settings.defaultProfileId = "";
+      }
+      await saveProfile();
+      this.display();
+    }));
+    new import_obsidian.Setting(profileEl).setName("Model").addDropdown((dropdown) => {
+      for (const model of MODEL_OPTIONS) {
+        dropdown.addOption(model.id, model.name);
+      }
+      dropdown.setValue(profile.model).onChange(async (value) => {
+        profile.model = value;
+        await saveProfile();
+      });
+    });
+    new import_obsidian.Setting(profileEl).setName("Max Output Tokens").addText((text) => text.setPlaceholder("4096").setValue(String(profile.maxTokens)).onChange(async (value) => {
+      const num = parseInt(value);
+      if (!isNaN(num) && num >= 1024 && num <= 1e4) {
+        profile.maxTokens = num;
+        await saveProfile();
+      }
+    }));
+    new import_obsidian.Setting(profileEl).setName("Temperature").setDesc("0 to 1; lower is more focused. Leave empty for the API default. Not used while extended thinking is on.").addText((text) => text.setPlaceholder("Default").setValue(profile.temperature !== void 0 ? String(profile.temperature) : "").onChange(async (value) => {
+      const num = parseFloat(value);
+      if (!value.trim()) {
+        delete profile.temperature;
+      } else if (!isNaN(num) && num >= 0 && num <= 1) {
+        profile.temperature = num;
+      } else {
+        return;
+      }
+      await saveProfile();
+    }));
+    new import_obsidian.Setting(profileEl).setName("Tools").setDesc(`Tool names separated by commas. Leave empty for every tool that is not denied. Available: ${this.plugin.getTools().map((tool) => tool.name).join(", ")}`).addTextArea((text) => text.setPlaceholder("All tools").setValue(profile.tools ? profile.tools.join(", ") : "").onChange(async (value) => {
+      const tools = value.split(",").map((name) => name.trim()).filter((name) => name);
+      if (tools.length > 0) {
+        profile.tools = tools;
+      } else {
+        delete profile.tools;
+      }
+      await saveProfile();
+    }));
+    new import_obsidian.Setting(profileEl).setName("System Prompt").setDesc("Instructions added to the built-in prompt, in place of the Custom System Prompt.").addTextArea((text) => text.setValue(profile.systemPrompt).onChange(async (value) => {
+      profile.systemPrompt = value;
+      await saveProfile();
+    }));
+  }
   display() {
     const { containerEl } = this;
     containerEl.empty();
@@ -2299,12 +7012,7 @@ var ClaudeSettingTab = class extends import_obsidian.PluginSettingTab {
     ).addDropdown((dropdown) => dropdown.addOption("claude-sonnet-4-5-20250929", "Claude Sonnet 4.5 (Best)").addOption("claude-haiku-4-5-20251001", "Claude Haiku 4.5 (Fast)").addOption("claude-opus-4-1-20250805", "Claude Opus 4.1 (Most Capable)").addOption("claude-sonnet-4-20250514", "Claude Sonnet 4").addOption("claude-opus-4-20250514", "Claude Opus 4").addOption("claude-3-7-sonnet-20250219", "Claude Sonnet 3.7").addOption("claude-3-5-haiku-20241022", "Claude Haiku 3.5").addOption("claude-3-haiku-20240307", "Claude Haiku 3").setValue(this.plugin.settings.model).onChange(async (value) => {
       this.plugin.settings.model = value;
       await this.plugin.saveSettings();
-      this.app.workspace.getLeavesOfType("claude-chat-view").forEach((leaf) => {
-        const view = leaf.view;
-        if (view && view.updateModelIndicator) {
-          view.updateModelIndicator();
-        }
-      });
+      this.plugin.getChatViews().forEach((view) => view.updateProfileIndicator());
     }));
     new import_obsidian.Setting(containerEl).setName("Max Output Tokens").setDesc("Maximum length of Claude's response. Increase for multi-file operations (atomic notes, batch edits). Recommended: 8000. Max safe: 10000 (Haiku), 8000 (Sonnet/Opus).").addText((text) => text.setPlaceholder("4096").setValue(String(this.plugin.settings.maxTokens)).onChange(async (value) => {
       const num = parseInt(value);
@@ -2313,14 +7021,98 @@ var ClaudeSettingTab = class extends import_obsidian.PluginSettingTab {
         await this.plugin.saveSettings();
       }
     }));
+    new import_obsidian.Setting(containerEl).setName("Extended Thinking by Default").setDesc("Start new conversations with extended thinking on. Each conversation can switch it with the lightbulb button below the input. Needs Claude 3.7 Sonnet or a Claude 4 model.").addToggle((toggle) => toggle.setValue(this.plugin.settings.thinkingByDefault).onChange(async (value) => {
+      this.plugin.settings.thinkingByDefault = value;
+      await this.plugin.saveSettings();
+    }));
+    new import_obsidian.Setting(containerEl).setName("Thinking Budget Tokens").setDesc("Tokens Claude may spend reasoning before it answers (minimum 1024). They are billed as output and added on top of the profile's Max Output Tokens; if both together exceed the model's output limit, the budget is lowered to fit.").addText((text) => text.setPlaceholder("8000").setValue(String(this.plugin.settings.thinkingBudgetTokens)).onChange(async (value) => {
+      const num = parseInt(value);
+      if (!isNaN(num) && num >= 1024 && num <= 32e3) {
+        this.plugin.settings.thinkingBudgetTokens = num;
+        await this.plugin.saveSettings();
+      }
+    }));
     new import_obsidian.Setting(containerEl).setName("Enable Prompt Caching").setDesc("Cache system prompts and tools to reduce token costs by up to 90%. Requires a paid Anthropic API plan with prompt caching enabled.").addToggle((toggle) => toggle.setValue(this.plugin.settings.enablePromptCaching).onChange(async (value) => {
       this.plugin.settings.enablePromptCaching = value;
       await this.plugin.saveSettings();
     }));
+    new import_obsidian.Setting(containerEl).setName("Stream Responses").setDesc("Show Claude's response as it is being written. Falls back to waiting for the full response if streaming is unavailable.").addToggle((toggle) => toggle.setValue(this.plugin.settings.enableStreaming).onChange(async (value) => {
+      this.plugin.settings.enableStreaming = value;
+      this.plugin.streamingUnavailable = false;
+      await this.plugin.saveSettings();
+    }));
+    let conversationFolder = this.plugin.settings.conversationFolder;
+    new import_obsidian.Setting(containerEl).setName("Conversation Folder").setDesc("Folder where conversations and the usage log are saved, relative to the vault root. Leave empty to keep them in the plugin folder. Apply to switch; you can move the existing conversations along.").addText((text) => text.setPlaceholder(`${this.plugin.manifest.dir}/conversations`).setValue(conversationFolder).onChange((value) => {
+      conversationFolder = value;
+    })).addButton((button) => button.setButtonText("Apply").onClick(async () => {
+      const store = this.plugin.conversationStore;
+      const target = new ConversationStore(this.app, this.plugin.getConversationFolder(conversationFolder));
+      if (target.folder === store.folder) {
+        await this.plugin.setConversationFolder(conversationFolder, false);
+        return;
+      }
+      const count = await store.countConversations();
+      const usageExists = await this.app.vault.adapter.exists(store.usagePath);
+      if (count === 0 && !usageExists) {
+        await this.plugin.setConversationFolder(conversationFolder, false);
+        new import_obsidian.Notice(`Conversations are now saved in ${target.folder}`);
+        return;
+      }
+      new ConversationFolderModal(this.app, store.folder, target.folder, count, async (choice) => {
+        if (choice === "cancel")
+          return;
+        try {
+          await this.plugin.setConversationFolder(conversationFolder, choice === "move");
+          if (choice === "keep")
+            new import_obsidian.Notice(`Conversations are now saved in ${target.folder}`);
+        } catch (error) {
+          console.error("Error changing conversation folder:", error);
+          new import_obsidian.Notice(`Could not change the conversation folder: ${error.message}`);
+        }
+      }).open();
+    }));
+    new import_obsidian.Setting(containerEl).setName("Prompt Library Folder").setDesc("Vault folder of reusable prompts, one markdown file each. Type / at the start of the chat input to run one.").addText((text) => text.setPlaceholder("Claude Prompts").setValue(this.plugin.settings.promptFolder).onChange(async (value) => {
+      this.plugin.settings.promptFolder = value.trim();
+      this.plugin.promptLibrary = new PromptLibrary(this.app, this.plugin.settings.promptFolder);
+      await this.plugin.saveSettings();
+    }));
+    new import_obsidian.Setting(containerEl).setName("Instruction File Name").setDesc("Notes with this name in the vault root and in folders add instructions for the notes below them. The ones above the active note and the attached notes are used on each message. Leave empty to turn this off.").addText((text) => text.setPlaceholder("_claude.md").setValue(this.plugin.settings.instructionFileName).onChange(async (value) => {
+      this.plugin.settings.instructionFileName = value.trim();
+      await this.plugin.saveSettings();
+    }));
     new import_obsidian.Setting(containerEl).setName("Custom System Prompt").setDesc("Add your own custom instructions to the system prompt. These will be appended to the default prompt and can include specific guidelines, preferences, or behaviors you want Claude to follow.").addTextArea((text) => text.setPlaceholder("Example: Always use Oxford commas. Prefer concise explanations. When writing code, add detailed comments.").setValue(this.plugin.settings.customPrompt).onChange(async (value) => {
       this.plugin.settings.customPrompt = value;
       await this.plugin.saveSettings();
     }));
+    containerEl.createEl("h3", { text: "Assistant Profiles" });
+    containerEl.createEl("p", {
+      text: "A profile bundles a system prompt, model, max output tokens, tools and temperature. Pick one per conversation from the chat status bar. The Default profile uses the Model, Max Output Tokens and Custom System Prompt settings above, with every tool.",
+      cls: "setting-item-description"
+    });
+    new import_obsidian.Setting(containerEl).setName("Profile for New Conversations").addDropdown((dropdown) => {
+      dropdown.addOption("", "Default");
+      for (const profile of this.plugin.settings.profiles) {
+        dropdown.addOption(profile.id, profile.name);
+      }
+      dropdown.setValue(this.plugin.getProfile(this.plugin.settings.defaultProfileId).id).onChange(async (value) => {
+        this.plugin.settings.defaultProfileId = value;
+        await this.plugin.saveSettings();
+      });
+    });
+    for (const profile of this.plugin.settings.profiles) {
+      this.displayProfile(containerEl, profile);
+    }
+    new import_obsidian.Setting(containerEl).addButton((button) => button.setButtonText("Add profile").onClick(async () => {
+      this.plugin.settings.profiles.push({
+        id: `profile_${Date.now()}`,
+        name: "New profile",
+        systemPrompt: "",
+        model: this.plugin.settings.model,
+        maxTokens: this.plugin.settings.maxTokens
+      });
+      await this.plugin.saveSettings();
+      this.display();
+    }));
     containerEl.createEl("h3", { text: "Token Management" });
     containerEl.createEl("p", {
       text: "Control how the plugin manages conversation history to prevent token limit errors.",
@@ -2341,5 +7133,117 @@ var ClaudeSettingTab = class extends import_obsidian.PluginSettingTab {
       this.plugin.settings.autoSummarizeThreshold = value;
       await this.plugin.saveSettings();
     }));
+    new import_obsidian.Setting(containerEl).setName("Summary Model").setDesc("Model that writes the conversation summary: decisions, files touched and open tasks. New messages are folded into the existing summary each time.").addDropdown((dropdown) => dropdown.addOption("claude-haiku-4-5-20251001", "Claude Haiku 4.5 (recommended)").addOption("claude-3-5-haiku-20241022", "Claude Haiku 3.5").addOption("claude-sonnet-4-5-20250929", "Claude Sonnet 4.5").setValue(this.plugin.settings.summaryModel).onChange(async (value) => {
+      this.plugin.settings.summaryModel = value;
+      await this.plugin.saveSettings();
+    }));
+    containerEl.createEl("h3", { text: "Retries" });
+    containerEl.createEl("p", {
+      text: "Failed requests are retried with exponential backoff and random jitter. When the API sends a retry-after header, that wait is used instead.",
+      cls: "setting-item-description"
+    });
+    new import_obsidian.Setting(containerEl).setName("Retry Status Codes").setDesc("HTTP status codes to retry, separated by commas (default: 429, 500, 502, 503, 504, 529).").addText((text) => text.setValue(this.plugin.settings.retryPolicy.retryStatuses.join(", ")).onChange(async (value) => {
+      const statuses = value.split(",").map((part) => parseInt(part.trim())).filter((code) => code >= 400 && code < 600);
+      this.plugin.settings.retryPolicy.retryStatuses = statuses;
+      await this.plugin.saveSettings();
+    }));
+    new import_obsidian.Setting(containerEl).setName("Retry Connection Errors").setDesc("Retry when the API cannot be reached at all, e.g. after a dropped connection.").addToggle((toggle) => toggle.setValue(this.plugin.settings.retryPolicy.retryNetworkErrors).onChange(async (value) => {
+      this.plugin.settings.retryPolicy.retryNetworkErrors = value;
+      await this.plugin.saveSettings();
+    }));
+    new import_obsidian.Setting(containerEl).setName("Max Attempts").setDesc("Total attempts per request, including the first (default: 4). Set to 1 to disable retries.").addSlider((slider) => slider.setLimits(1, 10, 1).setValue(this.plugin.settings.retryPolicy.maxAttempts).setDynamicTooltip().onChange(async (value) => {
+      this.plugin.settings.retryPolicy.maxAttempts = value;
+      await this.plugin.saveSettings();
+    }));
+    new import_obsidian.Setting(containerEl).setName("Retry Deadline").setDesc("Stop retrying when the next attempt would start more than this many seconds after the first (default: 120).").addText((text) => text.setValue(String(this.plugin.settings.retryPolicy.deadlineMs / 1e3)).onChange(async (value) => {
+      const seconds = parseInt(value);
+      if (!isNaN(seconds) && seconds > 0) {
+        this.plugin.settings.retryPolicy.deadlineMs = seconds * 1e3;
+        await this.plugin.saveSettings();
+      }
+    }));
+    containerEl.createEl("h3", { text: "Usage & Costs" });
+    containerEl.createEl("p", {
+      text: 'Token counts come from the usage the API reports for each request. Prices are in USD per million tokens, as "input, output, cache write, cache read". A price applies to every model whose ID starts with its prefix.',
+      cls: "setting-item-description"
+    });
+    new import_obsidian.Setting(containerEl).setName("Cost View").setDesc("Every request is recorded in usage.jsonl in the conversation folder.").addButton((button) => button.setButtonText("Open").onClick(() => new UsageDashboardModal(this.app, this.plugin).open())).addButton((button) => button.setButtonText("Clear history").setWarning().onClick(async () => {
+      await this.plugin.conversationStore.clearUsage();
+      new import_obsidian.Notice("Usage history cleared");
+    }));
+    const parsePrice = (value) => {
+      const parts = value.split(",").map((part) => parseFloat(part.trim()));
+      if (parts.length !== 4 || parts.some((part) => isNaN(part) || part < 0))
+        return null;
+      return { input: parts[0], output: parts[1], cacheWrite: parts[2], cacheRead: parts[3] };
+    };
+    for (const prefix of Object.keys(this.plugin.settings.modelPrices).sort()) {
+      const setting = new import_obsidian.Setting(containerEl).setName(prefix).addText((text) => {
+        const price = this.plugin.settings.modelPrices[prefix];
+        text.setValue(`${price.input}, ${price.output}, ${price.cacheWrite}, ${price.cacheRead}`).onChange(async (value) => {
+          const parsed = parsePrice(value);
+          if (parsed) {
+            this.plugin.settings.modelPrices[prefix] = parsed;
+            await this.plugin.saveSettings();
+          }
+        });
+      });
+      if (!(prefix in DEFAULT_SETTINGS.modelPrices)) {
+        setting.addExtraButton((button) => button.setIcon("trash").setTooltip("Remove price").onClick(async () => {
+          delete this.plugin.settings.modelPrices[prefix];
+          await this.plugin.saveSettings();
+          this.display();
+        }));
+      }
+    }
+    let newPrefix = "";
+    let newPrice = "";
+    new import_obsidian.Setting(containerEl).setName("Add model price").setDesc("Model ID or prefix, and its prices in the same order as above.").addText((text) => text.setPlaceholder("claude-model-prefix").onChange((value) => {
+      newPrefix = value.trim();
+    })).addText((text) => text.setPlaceholder("3, 15, 3.75, 0.3").onChange((value) => {
+      newPrice = value;
+    })).addButton((button) => button.setButtonText("Add").onClick(async () => {
+      const parsed = parsePrice(newPrice);
+      if (!newPrefix || !parsed) {
+        new import_obsidian.Notice("Enter a model prefix and four prices separated by commas");
+        return;
+      }
+      this.plugin.settings.modelPrices[newPrefix] = parsed;
+      await this.plugin.saveSettings();
+      this.display();
+    }));
+    containerEl.createEl("h3", { text: "Context Retrieval" });
+    containerEl.createEl("p", {
+      text: "A local search index of your notes, split by heading. It never leaves this device and lets Claude pull in only the relevant sections.",
+      cls: "setting-item-description"
+    });
+    new import_obsidian.Setting(containerEl).setName("Enable Retrieval Index").setDesc("Index note sections for the retrieve_context tool. The index is built when Obsidian starts and updated as notes change.").addToggle((toggle) => toggle.setValue(this.plugin.settings.enableRetrievalIndex).onChange(async (value) => {
+      this.plugin.settings.enableRetrievalIndex = value;
+      await this.plugin.saveSettings();
+      if (value) {
+        this.plugin.retrievalIndex.build();
+      } else {
+        this.plugin.retrievalIndex.clear();
+      }
+    }));
+    new import_obsidian.Setting(containerEl).setName("Auto-Retrieve Context").setDesc("Instead of pasting whole wikilinked or attached notes into your message, send only the most relevant sections. With nothing linked, relevant sections from the whole vault are added.").addToggle((toggle) => toggle.setValue(this.plugin.settings.autoRetrieve).onChange(async (value) => {
+      this.plugin.settings.autoRetrieve = value;
+      await this.plugin.saveSettings();
+    }));
+    new import_obsidian.Setting(containerEl).setName("Excerpts per Message").setDesc("How many sections auto-retrieve adds to each message (default: 5).").addSlider((slider) => slider.setLimits(1, 15, 1).setValue(this.plugin.settings.retrievalTopK).setDynamicTooltip().onChange(async (value) => {
+      this.plugin.settings.retrievalTopK = value;
+      await this.plugin.saveSettings();
+    }));
+    containerEl.createEl("h3", { text: "Tool Permissions" });
+    containerEl.createEl("p", {
+      text: 'Choose what happens when Claude calls each tool. "Ask" pauses and shows a preview (with a diff for file edits) so you can approve or reject the change.',
+      cls: "setting-item-description"
+    });
+    for (const tool of this.plugin.getTools()) {
+      new import_obsidian.Setting(containerEl).setName(tool.name).addDropdown((dropdown) => dropdown.addOption("allow", "Always allow").addOption("ask", "Ask").addOption("deny", "Deny").setValue(this.plugin.getToolPermission(tool.name)).onChange(async (value) => {
+        this.plugin.settings.toolPermissions[tool.name] = value;
+        await this.plugin.saveSettings();
+      }));
+    }
   }
 };
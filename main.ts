@@ -1,4 +1,6 @@
-import { App, Editor, MarkdownView, Modal, Notice, Plugin, PluginSettingTab, Setting, TFile, WorkspaceLeaf, ItemView, requestUrl, addIcon, MarkdownRenderer, setIcon } from 'obsidian';
+import { App, Editor, EditorPosition, MarkdownView, Modal, Notice, Plugin, PluginSettingTab, Setting, TFile, TFolder, WorkspaceLeaf, ItemView, ViewStateResult, requestUrl, addIcon, MarkdownRenderer, setIcon, getAllTags, getLinkpath, moment, arrayBufferToBase64, base64ToArrayBuffer } from 'obsidian';
+import { StateEffect, StateField } from '@codemirror/state';
+import { Decoration, EditorView, WidgetType } from '@codemirror/view';
 
 interface SavedConversation {
     id: string;
@@ -6,8 +8,82 @@ interface SavedConversation {
     timestamp: number;
     messages: MessageParam[];
     summary: string;
+    changes?: JournalEntry[];  // Vault changes Claude made, for undo
+    usage?: UsageRecord[];     // Token usage reported by the API for this conversation
+    pinned?: boolean;          // Listed first in the history browser
+    renamed?: boolean;         // Named by the user; kept instead of a generated title
+    tree?: ConversationTree;   // Every branch, when the conversation has been edited or regenerated
+    options?: ConversationOptions;
 }
 
+// Per-conversation choices, restored with the conversation
+interface ConversationOptions {
+    thinking?: boolean;        // Extended thinking on for this conversation
+    profile?: string;          // Assistant profile ID ('' for the default settings)
+}
+
+// A named assistant setup, chosen per conversation from the chat status bar
+interface AssistantProfile {
+    id: string;                // '' is the default profile, built from the main settings
+    name: string;
+    systemPrompt: string;      // Used instead of the custom system prompt
+    model: string;
+    maxTokens: number;
+    tools?: string[];          // Tools offered (unset: all that are not denied)
+    temperature?: number;      // Unset: the API default. Not sent while extended thinking is on
+}
+
+// Token counts the API reported for one request
+interface UsageRecord {
+    timestamp: number;
+    model: string;
+    conversationId: string;
+    purpose: 'chat' | 'title' | 'summary' | 'edit' | 'quick';  // Chat turn, a selection edit, a quick-ask question, or a background request such as naming the conversation
+    inputTokens: number;           // Uncached input
+    outputTokens: number;
+    cacheCreationTokens: number;   // Input written to the prompt cache
+    cacheReadTokens: number;       // Input served from the prompt cache
+    thinkingTokens?: number;       // Estimated share of outputTokens spent on reasoning
+}
+
+// When and how often failed API requests are retried
+interface RetryPolicy {
+    retryStatuses: number[];      // HTTP statuses worth retrying
+    retryNetworkErrors: boolean;  // Retry when the API could not be reached at all
+    maxAttempts: number;          // Including the first attempt
+    baseDelayMs: number;          // Backoff starts here and doubles per attempt
+    maxDelayMs: number;
+    deadlineMs: number;           // Give up once retrying would run past this long in total
+}
+
+// USD per million tokens
+interface ModelPrice {
+    input: number;
+    output: number;
+    cacheWrite: number;
+    cacheRead: number;
+}
+
+// A single vault mutation made by a tool, with enough state to reverse it
+interface VaultChange {
+    action: 'modify' | 'create' | 'delete' | 'rename' | 'create_folder' | 'delete_folder';
+    path: string;              // Path the change left the file (or folder) at
+    oldPath?: string;          // Original path (rename only)
+    before: string | null;     // Content before the change (null if the file did not exist)
+    after: string | null;      // Content after the change (null if the file no longer exists)
+    binary?: boolean;          // A non-text file: before holds its base64, after only its fingerprint
+}
+
+interface JournalEntry extends VaultChange {
+    id: string;
+    turnId: string;            // Groups the changes made while answering one message
+    toolName: string;
+    timestamp: number;
+    reverted: boolean;
+}
+
+type ToolPermission = 'allow' | 'ask' | 'deny';
+
 interface ClaudePluginSettings {
     apiKey: string;
     model: string;
@@ -17,9 +93,26 @@ interface ClaudePluginSettings {
     autoSummarizeThreshold: number;  // Token percentage to trigger summarization
     maxHistoryMessages: number;       // Maximum messages before truncation
     enableSmartPruning: boolean;      // Enable intelligent history pruning
-    savedConversations: SavedConversation[];  // Saved conversation history
-    currentConversationId: string;    // ID of active conversation
+    summaryModel: string;             // Cheap model that writes the rolling conversation summary
+    thinkingByDefault: boolean;       // New conversations start with extended thinking on
+    thinkingBudgetTokens: number;     // Reasoning tokens allowed per request when thinking is on
+    translateLanguage: string;        // Last language chosen for the Translate selection action
+    promptFolder: string;             // Vault folder of the prompt library (/commands in the chat input)
+    instructionFileName: string;      // Instruction notes looked up in the vault root and folders (empty: off)
+    profiles: AssistantProfile[];     // Named profiles; the main model and prompt settings are the default one
+    defaultProfileId: string;         // Profile new conversations start with ('' for the default)
+    savedConversations?: SavedConversation[];  // Legacy: moved into the conversation store on load
+    conversationFolder: string;       // Where conversations are stored (empty: plugin folder)
+    currentConversationId: string;    // Most recently active conversation, continued by chat views opened without a session
     autoSaveConversations: boolean;   // Auto-save conversations
+    enableStreaming: boolean;         // Stream responses as they are generated
+    toolPermissions: Record<string, ToolPermission>;  // Per-tool policy (unset: reads allowed, writes ask)
+    enableRetrievalIndex: boolean;    // Keep a local search index of note sections
+    autoRetrieve: boolean;            // Send relevant excerpts instead of whole linked/attached notes
+    retrievalTopK: number;            // Number of excerpts added in auto-retrieve mode
+    usageLog?: UsageRecord[];         // Legacy: moved into the conversation store on load
+    modelPrices: Record<string, ModelPrice>;  // Keyed by model ID prefix; longest match wins
+    retryPolicy: RetryPolicy;
 }
 
 const DEFAULT_SETTINGS: ClaudePluginSettings = {
@@ -31,9 +124,62 @@ const DEFAULT_SETTINGS: ClaudePluginSettings = {
     autoSummarizeThreshold: 60,  // Summarize when 60% of context used
     maxHistoryMessages: 20,      // Keep last 20 messages max
     enableSmartPruning: true,    // Enable smart pruning by default
-    savedConversations: [],      // No saved conversations initially
+    summaryModel: 'claude-haiku-4-5-20251001',  // Fast and cheap; summaries don't need a bigger model
+    thinkingByDefault: false,    // Thinking adds latency and output tokens, so it is opt-in
+    thinkingBudgetTokens: 8000,
+    translateLanguage: 'English',
+    promptFolder: 'Claude Prompts',
+    instructionFileName: '_claude.md',
+    profiles: [                  // Examples; edit or remove them in settings
+        {
+            id: 'editor',
+            name: 'Editor',
+            systemPrompt: 'You are a careful copy editor. Make the smallest edits that do the job, with replace_in_file. Reply tersely: say what you changed in a sentence or two.',
+            model: 'claude-haiku-4-5-20251001',
+            maxTokens: 4096,
+            tools: ['read_file', 'search_in_file', 'get_file_info', 'read_lines', 'read_section', 'read_block', 'get_headings', 'replace_in_file'],
+            temperature: 0.3
+        },
+        {
+            id: 'researcher',
+            name: 'Researcher',
+            systemPrompt: 'You are a research assistant. Read widely across the vault before answering, cite the notes you draw on as [[wikilinks]], and point out gaps or contradictions. Never change files.',
+            model: 'claude-opus-4-1-20250805',
+            maxTokens: 8000,
+            tools: ['read_file', 'search_in_file', 'get_file_info', 'read_lines', 'read_section', 'read_block', 'get_headings', 'list_files', 'list_folder_tree', 'search_vault', 'retrieve_context', 'get_frontmatter', 'find_by_tag', 'get_backlinks', 'get_outgoing_links']
+        }
+    ],
+    defaultProfileId: '',
+    conversationFolder: '',      // Stored alongside the plugin by default
     currentConversationId: '',   // No active conversation initially
-    autoSaveConversations: true  // Auto-save enabled by default
+    autoSaveConversations: true, // Auto-save enabled by default
+    enableStreaming: true,       // Stream responses by default
+    toolPermissions: {           // Ask before anything that changes or removes existing content
+        write_file: 'ask',
+        replace_in_file: 'ask',
+        delete_file: 'ask',
+        rename_file: 'ask',
+        copy_file: 'allow'
+    },
+    enableRetrievalIndex: true,  // Index note sections locally for retrieve_context
+    autoRetrieve: false,         // Attach whole notes unless auto-retrieve is turned on
+    retrievalTopK: 5,            // Excerpts per message in auto-retrieve mode
+    modelPrices: {               // Anthropic list prices at the time of writing
+        'claude-opus-4': { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 },
+        'claude-sonnet-4': { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+        'claude-haiku-4-5': { input: 1, output: 5, cacheWrite: 1.25, cacheRead: 0.1 },
+        'claude-3-7-sonnet': { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 },
+        'claude-3-5-haiku': { input: 0.8, output: 4, cacheWrite: 1, cacheRead: 0.08 },
+        'claude-3-haiku': { input: 0.25, output: 1.25, cacheWrite: 0.3, cacheRead: 0.03 }
+    },
+    retryPolicy: {               // Rate limits, server errors and overload are usually transient
+        retryStatuses: [429, 500, 502, 503, 504, 529],
+        retryNetworkErrors: true,
+        maxAttempts: 4,
+        baseDelayMs: 1000,
+        maxDelayMs: 30000,
+        deadlineMs: 120000
+    }
 }
 
 interface MessageParam {
@@ -42,13 +188,18 @@ interface MessageParam {
 }
 
 interface ContentBlock {
-    type: 'text' | 'tool_use' | 'tool_result';
+    type: 'text' | 'tool_use' | 'tool_result' | 'thinking' | 'redacted_thinking';
     text?: string;
+    thinking?: string;         // Claude's reasoning (thinking blocks)
+    signature?: string;        // Must be sent back unchanged with its thinking block
+    data?: string;             // Encrypted reasoning (redacted_thinking blocks)
     id?: string;
     name?: string;
     input?: any;
     tool_use_id?: string;
     content?: string;
+    is_error?: boolean;
+    cache_control?: { type: 'ephemeral' };  // Only on copies sent to the API, never stored in history
 }
 
 interface Tool {
@@ -61,333 +212,2304 @@ interface Tool {
     };
 }
 
-export default class ClaudePlugin extends Plugin {
-    settings: ClaudePluginSettings;
-
-    getTools(): Tool[] {
-        return [
-            {
-                name: 'read_file',
-                description: 'Read the contents of a file in the vault. Use this when you need to see what is in a file. For large files, consider using search_in_file or get_file_info first.',
-                input_schema: {
-                    type: 'object',
-                    properties: {
-                        path: {
-                            type: 'string',
-                            description: 'The path to the file relative to the vault root (e.g., "workspace-guide.md" or "folder/note.md")'
-                        }
-                    },
-                    required: ['path']
-                }
-            },
-            {
-                name: 'search_in_file',
-                description: 'Search for a specific text pattern in a file without reading the entire file. Returns matching lines with context. Very efficient for large files.',
-                input_schema: {
-                    type: 'object',
-                    properties: {
-                        path: {
-                            type: 'string',
-                            description: 'The path to the file to search in'
-                        },
-                        pattern: {
-                            type: 'string',
-                            description: 'The text pattern to search for (case-insensitive)'
-                        }
-                    },
-                    required: ['path', 'pattern']
-                }
-            },
-            {
-                name: 'get_file_info',
-                description: 'Get metadata about a file (size, line count, first/last lines) without reading the full content. Use this to check if a file is large before reading it.',
-                input_schema: {
-                    type: 'object',
-                    properties: {
-                        path: {
-                            type: 'string',
-                            description: 'The path to the file'
-                        }
-                    },
-                    required: ['path']
-                }
-            },
-            {
-                name: 'replace_in_file',
-                description: 'Make a targeted replacement in a file without rewriting the entire file. More efficient than read+write for small edits.',
-                input_schema: {
-                    type: 'object',
-                    properties: {
-                        path: {
-                            type: 'string',
-                            description: 'The path to the file'
-                        },
-                        old_text: {
-                            type: 'string',
-                            description: 'The exact text to find and replace'
-                        },
-                        new_text: {
-                            type: 'string',
-                            description: 'The text to replace it with'
-                        }
-                    },
-                    required: ['path', 'old_text', 'new_text']
-                }
-            },
-            {
-                name: 'write_file',
-                description: 'Write content to a file, creating it if it does not exist or replacing its contents if it does. Use replace_in_file for small edits to large files.',
-                input_schema: {
-                    type: 'object',
-                    properties: {
-                        path: {
-                            type: 'string',
-                            description: 'The path where the file should be written'
-                        },
-                        content: {
-                            type: 'string',
-                            description: 'The complete content to write to the file'
-                        }
-                    },
-                    required: ['path', 'content']
-                }
-            },
-            {
-                name: 'list_files',
-                description: 'List markdown files in the vault or in a specific folder. Returns up to 100 files. Use the search parameter to filter results.',
-                input_schema: {
-                    type: 'object',
-                    properties: {
-                        folder: {
-                            type: 'string',
-                            description: 'Optional folder path to list files from. If not provided, lists all files in the vault.'
-                        },
-                        search: {
-                            type: 'string',
-                            description: 'Optional search term to filter file names (case-insensitive). Example: "suffer" will match "Suffering.md"'
-                        },
-                        limit: {
-                            type: 'number',
-                            description: 'Maximum number of files to return (default: 100, max: 200)'
-                        }
-                    },
-                    required: []
-                }
-            },
-            {
-                name: 'rename_file',
-                description: 'Rename or move a file to a new path. Use this to rename files or move them to different folders.',
-                input_schema: {
-                    type: 'object',
-                    properties: {
-                        old_path: {
-                            type: 'string',
-                            description: 'The current path of the file'
-                        },
-                        new_path: {
-                            type: 'string',
-                            description: 'The new path for the file (can be in a different folder)'
-                        }
-                    },
-                    required: ['old_path', 'new_path']
-                }
-            },
-            {
-                name: 'delete_file',
-                description: 'Delete a file from the vault. Use with caution - this cannot be easily undone unless the vault is backed up or version controlled.',
-                input_schema: {
-                    type: 'object',
-                    properties: {
-                        path: {
-                            type: 'string',
-                            description: 'The path to the file to delete'
-                        }
-                    },
-                    required: ['path']
-                }
-            },
-            {
-                name: 'copy_file',
-                description: 'Copy/duplicate a file to a new location. Much more efficient than reading and writing for duplication. The destination file will be created with the same content as the source.',
-                input_schema: {
-                    type: 'object',
-                    properties: {
-                        source_path: {
-                            type: 'string',
-                            description: 'The path to the file to copy from'
-                        },
-                        destination_path: {
-                            type: 'string',
-                            description: 'The path where the copy should be created'
-                        }
-                    },
-                    required: ['source_path', 'destination_path']
-                }
-            }
-        ];
-    }
+// A pending tool call shown to the user for approval
+interface ToolChangePreview {
+    title: string;
+    description: string;
+    diff: string | null;  // Unified diff of the file change, if the tool edits content
+}
 
-    async onload() {
-        await this.loadSettings();
+interface DiffLine {
+    type: 'context' | 'add' | 'remove';
+    text: string;
+}
 
-        // Register custom Claude logo icon using Obsidian's addIcon API
-        const iconSvg = `<svg viewBox="0 0 1200 1200" xmlns="http://www.w3.org/2000/svg">
-            <path fill="currentColor" stroke="none" d="M 233.959793 800.214905 L 468.644287 668.536987 L 472.590637 657.100647 L 468.644287 650.738403 L 457.208069 650.738403 L 417.986633 648.322144 L 283.892639 644.69812 L 167.597321 639.865845 L 54.926208 633.825623 L 26.577238 627.785339 L 3.3e-05 592.751709 L 2.73832 575.27533 L 26.577238 559.248352 L 60.724873 562.228149 L 136.187973 567.382629 L 249.422867 575.194763 L 331.570496 580.026978 L 453.261841 592.671082 L 472.590637 592.671082 L 475.328857 584.859009 L 468.724915 580.026978 L 463.570557 575.194763 L 346.389313 495.785217 L 219.543671 411.865906 L 153.100723 363.543762 L 117.181267 339.060425 L 99.060455 316.107361 L 91.248367 266.01355 L 123.865784 230.093994 L 167.677887 233.073853 L 178.872513 236.053772 L 223.248367 270.201477 L 318.040283 343.570496 L 441.825592 434.738342 L 459.946411 449.798706 L 467.194672 444.64447 L 468.080597 441.020203 L 459.946411 427.409485 L 392.617493 305.718323 L 320.778564 181.932983 L 288.80542 130.630859 L 280.348999 99.865845 C 277.369171 87.221436 275.194641 76.590698 275.194641 63.624268 L 312.322174 13.20813 L 332.8591 6.604126 L 382.389313 13.20813 L 403.248352 31.328979 L 434.013519 101.71814 L 483.865753 212.537048 L 561.181274 363.221497 L 583.812134 407.919434 L 595.892639 449.315491 L 600.40271 461.959839 L 608.214783 461.959839 L 608.214783 454.711609 L 614.577271 369.825623 L 626.335632 265.61084 L 637.771851 131.516846 L 641.718201 93.745117 L 660.402832 48.483276 L 697.530334 24.000122 L 726.52356 37.852417 L 750.362549 72 L 747.060486 94.067139 L 732.886047 186.201416 L 705.100708 330.52356 L 686.979919 427.167847 L 697.530334 427.167847 L 709.61084 415.087341 L 758.496704 350.174561 L 840.644348 247.490051 L 876.885925 206.738342 L 919.167847 161.71814 L 946.308838 140.29541 L 997.61084 140.29541 L 1035.38269 196.429626 L 1018.469849 254.416199 L 965.637634 321.422852 L 921.825562 378.201538 L 859.006714 462.765259 L 819.785278 530.41626 L 823.409424 535.812073 L 832.75177 534.92627 L 974.657776 504.724915 L 1051.328979 490.872559 L 1142.818848 475.167786 L 1184.214844 494.496582 L 1188.724854 514.147644 L 1172.456421 554.335693 L 1074.604126 578.496765 L 959.838989 601.449829 L 788.939636 641.879272 L 786.845764 643.409485 L 789.261841 646.389343 L 866.255127 653.637634 L 899.194702 655.409424 L 979.812134 655.409424 L 1129.932861 666.604187 L 1169.154419 692.537109 L 1192.671265 724.268677 L 1188.724854 748.429688 L 1128.322144 779.194641 L 1046.818848 759.865845 L 856.590759 714.604126 L 791.355774 698.335754 L 782.335693 698.335754 L 782.335693 703.731567 L 836.69812 756.885986 L 936.322205 846.845581 L 1061.073975 962.81897 L 1067.436279 991.490112 L 1051.409424 1014.120911 L 1034.496704 1011.704712 L 924.885986 929.234924 L 882.604126 892.107544 L 786.845764 811.48999 L 780.483276 811.48999 L 780.483276 819.946289 L 802.550415 852.241699 L 919.087341 1027.409424 L 925.127625 1081.127686 L 916.671204 1098.604126 L 886.469849 1109.154419 L 853.288696 1103.114136 L 785.073914 1007.355835 L 714.684631 899.516785 L 657.906067 802.872498 L 650.979858 806.81897 L 617.476624 1167.704834 L 601.771851 1186.147705 L 565.530212 1200 L 535.328857 1177.046997 L 519.302124 1139.919556 L 535.328857 1066.550537 L 554.657776 970.792053 L 570.362488 894.68457 L 584.536926 800.134277 L 592.993347 768.724976 L 592.429626 766.630859 L 585.503479 767.516968 L 514.22821 865.369263 L 405.825531 1011.865906 L 320.053711 1103.677979 L 299.516815 1111.812256 L 263.919525 1093.369263 L 267.221497 1060.429688 L 287.114136 1031.114136 L 405.825531 880.107361 L 477.422913 786.52356 L 523.651062 732.483276 L 523.328918 724.671265 L 520.590698 724.671265 L 205.288605 929.395935 L 149.154434 936.644409 L 124.993355 914.01355 L 127.973183 876.885986 L 139.409409 864.80542 L 234.201385 799.570435 L 233.879227 799.8927 Z"/>
-        </svg>`;
+// Line-level diff: trims the shared prefix/suffix, then runs an LCS over the changed middle.
+// Very large middles fall back to "remove all, add all" to keep memory bounded.
+function computeLineDiff(oldText: string, newText: string): DiffLine[] {
+    const oldLines = oldText.length > 0 ? oldText.split('\n') : [];
+    const newLines = newText.length > 0 ? newText.split('\n') : [];
 
-        // Use Obsidian's addIcon function
-        addIcon('claude-logo', iconSvg);
+    let prefix = 0;
+    while (prefix < oldLines.length && prefix < newLines.length && oldLines[prefix] === newLines[prefix]) {
+        prefix++;
+    }
 
-        // Add ribbon icon with custom Claude logo
-        this.addRibbonIcon('claude-logo', 'Open Claude Chat', () => {
-            this.activateView();
-        });
+    let suffix = 0;
+    while (
+        suffix < oldLines.length - prefix &&
+        suffix < newLines.length - prefix &&
+        oldLines[oldLines.length - 1 - suffix] === newLines[newLines.length - 1 - suffix]
+    ) {
+        suffix++;
+    }
 
-        // Add command to open Claude chat
-        this.addCommand({
-            id: 'open-claude-chat',
-            name: 'Open Claude Chat',
-            callback: () => {
-                this.activateView();
+    const oldMiddle = oldLines.slice(prefix, oldLines.length - suffix);
+    const newMiddle = newLines.slice(prefix, newLines.length - suffix);
+    const middle: DiffLine[] = [];
+
+    if (oldMiddle.length * newMiddle.length > 4000000) {
+        oldMiddle.forEach(text => middle.push({ type: 'remove', text }));
+        newMiddle.forEach(text => middle.push({ type: 'add', text }));
+    } else {
+        // lcs[i][j] = length of the LCS of oldMiddle[i..] and newMiddle[j..]
+        const lcs: number[][] = [];
+        for (let i = oldMiddle.length; i >= 0; i--) {
+            lcs[i] = [];
+            for (let j = newMiddle.length; j >= 0; j--) {
+                if (i === oldMiddle.length || j === newMiddle.length) {
+                    lcs[i][j] = 0;
+                } else if (oldMiddle[i] === newMiddle[j]) {
+                    lcs[i][j] = lcs[i + 1][j + 1] + 1;
+                } else {
+                    lcs[i][j] = Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+                }
             }
-        });
+        }
 
-        // Add command to ask Claude about current file
-        this.addCommand({
-            id: 'ask-claude-about-file',
-            name: 'Ask Claude about current file',
-            editorCallback: async (editor: Editor, view: MarkdownView) => {
-                const content = editor.getValue();
-                const fileName = view.file?.name || 'current file';
-                
-                const modal = new ClaudeQuickModal(
-                    this.app,
-                    this,
-                    `Asking about ${fileName}`,
-                    content
-                );
-                modal.open();
+        let i = 0;
+        let j = 0;
+        while (i < oldMiddle.length && j < newMiddle.length) {
+            if (oldMiddle[i] === newMiddle[j]) {
+                middle.push({ type: 'context', text: oldMiddle[i] });
+                i++;
+                j++;
+            } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+                middle.push({ type: 'remove', text: oldMiddle[i++] });
+            } else {
+                middle.push({ type: 'add', text: newMiddle[j++] });
             }
-        });
+        }
+        while (i < oldMiddle.length) middle.push({ type: 'remove', text: oldMiddle[i++] });
+        while (j < newMiddle.length) middle.push({ type: 'add', text: newMiddle[j++] });
+    }
 
-        // Register view
-        this.registerView(
-            'claude-chat-view',
-            (leaf) => new ClaudeChatView(leaf, this)
-        );
+    return [
+        ...oldLines.slice(0, prefix).map(text => ({ type: 'context' as const, text })),
+        ...middle,
+        ...oldLines.slice(oldLines.length - suffix).map(text => ({ type: 'context' as const, text }))
+    ];
+}
 
-        // Add settings tab
-        this.addSettingTab(new ClaudeSettingTab(this.app, this));
+// Format a line diff as unified diff hunks with the given number of context lines
+function formatUnifiedDiff(path: string, oldText: string, newText: string, contextLines: number = 3): string {
+    const lines = computeLineDiff(oldText, newText);
+    const changed = lines.map((line, index) => line.type !== 'context' ? index : -1).filter(index => index >= 0);
 
-        // Auto-open the Claude chat view in the right sidebar on plugin load
-        this.activateView();
+    let output = `--- a/${path}\n+++ b/${path}\n`;
+    if (changed.length === 0) {
+        return output + '(no changes)';
     }
 
-    async activateView() {
-        const { workspace } = this.app;
-
-        let leaf: WorkspaceLeaf | null = null;
-        const leaves = workspace.getLeavesOfType('claude-chat-view');
-
-        if (leaves.length > 0) {
-            leaf = leaves[0];
+    // Group changes whose context windows overlap into hunks
+    const hunks: Array<{ start: number; end: number }> = [];
+    for (const index of changed) {
+        const start = Math.max(0, index - contextLines);
+        const end = Math.min(lines.length - 1, index + contextLines);
+        const last = hunks[hunks.length - 1];
+        if (last && start <= last.end + 1) {
+            last.end = end;
         } else {
-            leaf = workspace.getRightLeaf(false);
-            if (leaf) {
-                await leaf.setViewState({ type: 'claude-chat-view', active: true });
-            }
+            hunks.push({ start, end });
         }
+    }
 
-        if (leaf) {
-            workspace.revealLeaf(leaf);
+    for (const hunk of hunks) {
+        // Line numbers of the hunk start in the old and new file
+        let oldStart = 1;
+        let newStart = 1;
+        for (let k = 0; k < hunk.start; k++) {
+            if (lines[k].type !== 'add') oldStart++;
+            if (lines[k].type !== 'remove') newStart++;
+        }
+
+        const hunkLines = lines.slice(hunk.start, hunk.end + 1);
+        const oldCount = hunkLines.filter(line => line.type !== 'add').length;
+        const newCount = hunkLines.filter(line => line.type !== 'remove').length;
+
+        // Empty ranges point at the line before them, as in standard unified diffs
+        output += `@@ -${oldCount === 0 ? oldStart - 1 : oldStart},${oldCount} +${newCount === 0 ? newStart - 1 : newStart},${newCount} @@\n`;
+        for (const line of hunkLines) {
+            const marker = line.type === 'add' ? '+' : line.type === 'remove' ? '-' : ' ';
+            output += `${marker}${line.text}\n`;
         }
     }
 
-    async loadSettings() {
-        this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+    return output.trimEnd();
+}
+
+// Services a tool handler can use while it runs
+interface ToolContext {
+    app: App;
+    recordChange: (change: VaultChange) => void;  // Journal a vault mutation so it can be undone
+}
+
+// Single definition of a tool: what Claude sees, how it runs, and how the UI presents it
+interface ToolDefinition {
+    name: string;
+    description: string;
+    input_schema: Tool['input_schema'];
+    promptSummary?: string;                 // One-line description for the system prompt tool list
+    permissionClass: 'read' | 'write';      // Write tools ask for approval unless configured otherwise
+    resultBudget: number;                   // Results longer than this many characters are truncated
+    handler: (input: any, context: ToolContext) => Promise<string>;
+    formatSummary?: (input: any, result: string) => string;       // Label shown in the chat
+    preview?: (input: any) => Promise<ToolChangePreview>;          // Shown in the approval modal
+}
+
+// Thrown by tool handlers for bad input; the message is returned to Claude as "Error: <message>"
+class ToolInputError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ToolInputError';
     }
+}
 
-    async saveSettings() {
-        await this.saveData(this.settings);
+// A failed API request: an error response, a stream error event, or no response at all
+class ClaudeApiError extends Error {
+    status: number;              // HTTP status; 0 when the API could not be reached
+    errorType: string;           // API error type, e.g. rate_limit_error or overloaded_error
+    retryAfter: number | null;   // Seconds, from the retry-after header
+    detail: string;              // The API's own error message
+    attempts: number = 1;        // How many attempts were made before giving up
+
+    constructor(status: number, errorType: string, detail: string, retryAfter: number | null = null) {
+        super(`Claude API Error (${status}) [${errorType}]${retryAfter !== null ? ` (Retry after: ${retryAfter}s)` : ''}: ${detail}`);
+        this.name = 'ClaudeApiError';
+        this.status = status;
+        this.errorType = errorType;
+        this.retryAfter = retryAfter;
+        this.detail = detail;
     }
 
-    // Save current conversation to settings
-    async saveCurrentConversation(messages: MessageParam[], summary: string) {
-        if (!this.settings.autoSaveConversations || messages.length === 0) {
-            return;
-        }
+    // Short label for status lines, e.g. "Rate limited (429)"
+    get label(): string {
+        if (this.status === 0) return 'Connection failed';
+        if (this.status === 429) return 'Rate limited (429)';
+        if (this.status === 529) return 'API overloaded (529)';
+        if (this.status >= 500) return `Server error (${this.status})`;
+        return `Request failed (${this.status})`;
+    }
+
+    // Stream error events carry only a type; map it to the status the API would have returned
+    static fromStreamError(errorType: string, detail: string): ClaudeApiError {
+        const statuses: Record<string, number> = {
+            invalid_request_error: 400,
+            authentication_error: 401,
+            permission_error: 403,
+            rate_limit_error: 429,
+            api_error: 500,
+            overloaded_error: 529
+        };
+        return new ClaudeApiError(statuses[errorType] || 500, errorType, detail);
+    }
+}
 
-        const conversationId = this.settings.currentConversationId || this.generateConversationId();
+// Reported before each retry so the UI can show it
+interface RetryInfo {
+    attempt: number;       // The attempt that just failed
+    maxAttempts: number;
+    delay: number;         // Milliseconds until the next attempt
+    error: ClaudeApiError;
+}
 
-        // Find existing conversation or create new one
-        const existingIndex = this.settings.savedConversations.findIndex(c => c.id === conversationId);
+// Exponential backoff with equal jitter, or exactly what retry-after asks for
+function computeRetryDelay(attempt: number, policy: RetryPolicy, retryAfter: number | null): number {
+    if (retryAfter !== null) {
+        return retryAfter * 1000;
+    }
+    const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(2, attempt - 1));
+    return Math.round(ceiling / 2 + Math.random() * ceiling / 2);
+}
 
-        // Generate conversation name (AI-powered or fallback)
-        const conversationName = await this.generateConversationName(messages);
+// A heading and the lines it owns, up to the next heading of the same or higher level
+interface MarkdownSection {
+    heading: string;
+    level: number;
+    trail: string[];     // Heading names from the top level down to this heading
+    startLine: number;   // 0-based index of the heading line
+    endLine: number;     // 0-based index one past the last line of the section
+}
 
-        const conversation: SavedConversation = {
-            id: conversationId,
-            name: conversationName,
-            timestamp: Date.now(),
-            messages: messages,
-            summary: summary
-        };
+// Find the headings of a note, ignoring frontmatter and fenced code blocks.
+// Parsed from the text itself because the metadata cache lags behind edits made mid-turn.
+function parseMarkdownSections(lines: string[]): MarkdownSection[] {
+    const sections: MarkdownSection[] = [];
+    const trail: string[] = [];
+    let inFence = false;
+    let start = 0;
+
+    if (lines[0] === '---') {
+        const end = lines.indexOf('---', 1);
+        if (end > 0) start = end + 1;
+    }
 
-        if (existingIndex >= 0) {
-            // Update existing conversation
-            this.settings.savedConversations[existingIndex] = conversation;
-        } else {
-            // Add new conversation
-            this.settings.savedConversations.push(conversation);
+    for (let i = start; i < lines.length; i++) {
+        if (/^\s*(```|~~~)/.test(lines[i])) {
+            inFence = !inFence;
+            continue;
         }
+        if (inFence) continue;
 
-        // Keep only last 10 conversations to avoid data bloat
-        if (this.settings.savedConversations.length > 10) {
-            this.settings.savedConversations = this.settings.savedConversations
-                .sort((a, b) => b.timestamp - a.timestamp)
-                .slice(0, 10);
-        }
+        const match = lines[i].match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+        if (!match) continue;
 
-        this.settings.currentConversationId = conversationId;
-        await this.saveSettings();
+        const level = match[1].length;
+        trail.length = level - 1;
+        trail[level - 1] = match[2];
+        sections.push({ heading: match[2], level, trail: trail.filter(h => h !== undefined), startLine: i, endLine: lines.length });
     }
 
-    // Load a conversation by ID
-    loadConversation(conversationId: string): { messages: MessageParam[], summary: string } | null {
-        const conversation = this.settings.savedConversations.find(c => c.id === conversationId);
-        if (conversation) {
-            return {
-                messages: conversation.messages,
-                summary: conversation.summary
-            };
-        }
-        return null;
+    // A section ends where the next heading of the same or higher level begins
+    sections.forEach((section, index) => {
+        const next = sections.slice(index + 1).find(other => other.level <= section.level);
+        if (next) section.endLine = next.startLine;
+    });
+
+    return sections;
+}
+
+// Resolve a heading name, or a "Parent > Child" path, to exactly one section
+function findSection(lines: string[], heading: string): MarkdownSection {
+    const normalize = (text: string) => text.replace(/^#+\s*/, '').trim().toLowerCase();
+    const wanted = heading.split('>').map(normalize).filter(part => part);
+    if (wanted.length === 0) {
+        throw new ToolInputError('Heading must not be empty');
     }
 
-    // Delete a conversation
-    async deleteConversation(conversationId: string) {
-        this.settings.savedConversations = this.settings.savedConversations.filter(c => c.id !== conversationId);
-        if (this.settings.currentConversationId === conversationId) {
-            this.settings.currentConversationId = '';
-        }
-        await this.saveSettings();
+    const sections = parseMarkdownSections(lines);
+    const matches = sections.filter(section => {
+        const trail = section.trail.map(normalize);
+        return wanted.every((part, index) => trail[trail.length - wanted.length + index] === part);
+    });
+
+    if (matches.length === 0) {
+        const available = sections.map(section => `${'#'.repeat(section.level)} ${section.heading}`).join(', ');
+        throw new ToolInputError(`Heading not found: "${heading}". Available headings: ${available || '(none)'}`);
     }
+    if (matches.length > 1) {
+        const options = matches.map(section => `"${section.trail.join(' > ')}" (line ${section.startLine + 1})`).join(', ');
+        throw new ToolInputError(`Heading "${heading}" is ambiguous - it matches ${matches.length} sections: ${options}. Use a "Parent > Child" path to pick one.`);
+    }
+    return matches[0];
+}
 
-    // Generate unique conversation ID
-    generateConversationId(): string {
-        return `conv_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+// Resolve a ^block-id to the line range of its block. An ID on its own line labels the
+// paragraph, list or table above it; otherwise it labels the line or paragraph it ends.
+function findBlock(lines: string[], blockId: string): { startLine: number; endLine: number } {
+    const id = blockId.replace(/^\^/, '');
+    if (!/^[A-Za-z0-9-]+$/.test(id)) {
+        throw new ToolInputError(`Invalid block ID: "${blockId}" (block IDs contain only letters, numbers and dashes)`);
     }
 
-    // Generate AI conversation name based on conversation content
-    async generateConversationName(messages: MessageParam[]): Promise<string> {
-        if (messages.length === 0) {
-            return 'Untitled Conversation';
-        }
+    const idPattern = new RegExp(`(^|\\s)\\^${id}\\s*$`);
+    const found = lines.map((line, index) => idPattern.test(line) ? index : -1).filter(index => index >= 0);
+    if (found.length === 0) {
+        throw new ToolInputError(`Block not found: ^${id}`);
+    }
+    if (found.length > 1) {
+        throw new ToolInputError(`Block ID ^${id} is ambiguous - it appears on lines ${found.map(index => index + 1).join(', ')}`);
+    }
 
-        try {
-            // Extract first few messages for context (up to 3 exchanges)
-            const contextMessages = messages.slice(0, 6); // 3 user + 3 assistant
-            let conversationContext = '';
+    const line = found[0];
+    const standalone = lines[line].trim() === `^${id}`;
+    if (!standalone && /^\s*([-*+]|\d+\.)\s/.test(lines[line])) {
+        return { startLine: line, endLine: line + 1 };
+    }
+
+    // Obsidian allows a blank line between a table or quote and its standalone ID
+    let first = standalone ? line - 1 : line;
+    while (standalone && first > 0 && lines[first].trim() === '') {
+        first--;
+    }
+    while (first > 0 && lines[first - 1].trim() !== '') {
+        first--;
+    }
+    return { startLine: Math.max(first, 0), endLine: line + 1 };
+}
+
+// Insert text right below a section's heading, or after the last non-blank line of its body
+function insertIntoSection(content: string, heading: string, text: string, position: 'start' | 'end'): { content: string; line: number } {
+    const lines = content.split('\n');
+    const section = findSection(lines, heading);
+
+    let insertAt = section.startLine + 1;
+    if (position === 'end') {
+        insertAt = section.endLine;
+        while (insertAt > section.startLine + 1 && lines[insertAt - 1].trim() === '') {
+            insertAt--;
+        }
+    }
+
+    lines.splice(insertAt, 0, ...text.replace(/\n+$/, '').split('\n'));
+    return { content: lines.join('\n'), line: insertAt + 1 };
+}
+
+// Replace the nth (1-based) or every occurrence of an exact string
+function replaceOccurrences(content: string, oldText: string, newText: string, occurrence?: number, replaceAll?: boolean): { content: string; count: number } {
+    if (!oldText) {
+        throw new ToolInputError('old_text must not be empty');
+    }
+
+    const positions: number[] = [];
+    for (let index = content.indexOf(oldText); index >= 0; index = content.indexOf(oldText, index + oldText.length)) {
+        positions.push(index);
+    }
+
+    if (positions.length === 0) {
+        throw new ToolInputError(`Text not found in file. Could not find: "${oldText}"`);
+    }
+
+    let targets = positions;
+    if (!replaceAll) {
+        const n = occurrence ?? 1;
+        if (!Number.isInteger(n) || n < 1 || n > positions.length) {
+            throw new ToolInputError(`Occurrence ${n} does not exist - the text appears ${positions.length} time(s)`);
+        }
+        targets = [positions[n - 1]];
+    }
+
+    // Splice from the end so earlier positions stay valid; avoids String.replace's $-patterns
+    let result = content;
+    for (const index of [...targets].reverse()) {
+        result = result.substring(0, index) + newText + result.substring(index + oldText.length);
+    }
+    return { content: result, count: targets.length };
+}
+
+// Extensions read as text; anything else is treated as binary and only described
+const TEXT_FILE_EXTENSIONS = new Set(['md', 'txt', 'csv', 'tsv', 'json', 'canvas', 'css', 'js', 'ts', 'html', 'xml', 'yaml', 'yml', 'svg', 'log']);
+
+// Deleted binary files up to this size are kept in the change journal; larger ones can
+// only be restored from the system trash
+const MAX_JOURNALED_BINARY_BYTES = 1024 * 1024;
+
+// Size and FNV-1a hash of a binary file, journaled instead of its bytes to notice later edits
+function fingerprintBinary(data: ArrayBuffer): string {
+    const bytes = new Uint8Array(data);
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < bytes.length; i++) {
+        hash = Math.imul(hash ^ bytes[i], 0x01000193);
+    }
+    return `${bytes.length}:${(hash >>> 0).toString(16)}`;
+}
+
+function formatFileSize(bytes: number): string {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+// Reduce a .canvas file to the parts Claude needs: what each node holds and how they connect
+function formatCanvas(raw: string): string {
+    let canvas: any;
+    try {
+        canvas = JSON.parse(raw || '{}');
+    } catch (error) {
+        throw new ToolInputError(`Canvas file is not valid JSON: ${error.message}`);
+    }
+
+    const nodes = (canvas.nodes || []).map((node: any) => ({
+        id: node.id,
+        type: node.type,
+        ...(node.text !== undefined ? { text: node.text } : {}),
+        ...(node.file !== undefined ? { file: node.file } : {}),
+        ...(node.url !== undefined ? { url: node.url } : {}),
+        ...(node.label !== undefined ? { label: node.label } : {}),
+        ...(node.color !== undefined ? { color: node.color } : {}),
+        position: { x: node.x, y: node.y, width: node.width, height: node.height }
+    }));
+    const edges = (canvas.edges || []).map((edge: any) => ({
+        id: edge.id,
+        from: edge.fromNode,
+        to: edge.toNode,
+        ...(edge.label !== undefined ? { label: edge.label } : {})
+    }));
+
+    return JSON.stringify({ nodes, edges }, null, 2);
+}
+
+// Totals over a set of usage records. cost is null if any record's model has no price.
+interface UsageTotals {
+    requests: number;
+    inputTokens: number;
+    outputTokens: number;
+    cacheCreationTokens: number;
+    cacheReadTokens: number;
+    thinkingTokens: number; // Included in outputTokens
+    totalInput: number;
+    cacheHitRate: number;   // Share of input tokens served from the cache
+    cost: number | null;
+}
+
+function summarizeUsage(records: UsageRecord[], costOf: (record: UsageRecord) => number | null): UsageTotals {
+    const totals: UsageTotals = {
+        requests: records.length,
+        inputTokens: 0,
+        outputTokens: 0,
+        cacheCreationTokens: 0,
+        cacheReadTokens: 0,
+        thinkingTokens: 0,
+        totalInput: 0,
+        cacheHitRate: 0,
+        cost: 0
+    };
+
+    for (const record of records) {
+        totals.inputTokens += record.inputTokens;
+        totals.outputTokens += record.outputTokens;
+        totals.cacheCreationTokens += record.cacheCreationTokens;
+        totals.cacheReadTokens += record.cacheReadTokens;
+        totals.thinkingTokens += record.thinkingTokens || 0;
+
+        const cost = costOf(record);
+        totals.cost = cost === null || totals.cost === null ? null : totals.cost + cost;
+    }
+
+    totals.totalInput = totals.inputTokens + totals.cacheCreationTokens + totals.cacheReadTokens;
+    totals.cacheHitRate = totals.totalInput > 0 ? totals.cacheReadTokens / totals.totalInput : 0;
+    return totals;
+}
+
+function formatTokenCount(tokens: number): string {
+    if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+    if (tokens >= 1000) return `${(tokens / 1000).toFixed(1)}k`;
+    return String(tokens);
+}
+
+function formatCost(cost: number): string {
+    return `$${cost.toFixed(cost < 1 ? 3 : 2)}`;
+}
+
+const SUMMARY_FORMAT_INSTRUCTIONS = `Reply with only the summary, using exactly these headings:
+
+## Decisions
+## Files touched
+## Open tasks
+## Context
+
+Under "Files touched", list each vault path with what was done to it. Put preferences, constraints and other facts worth remembering under "Context". Write "- None" under a heading with nothing to list. Keep the whole summary under 500 words, dropping detail that no longer matters.`;
+
+// Plain-text transcript of messages for the summary model, with tool traffic shortened
+function formatTranscript(messages: MessageParam[]): string {
+    const clip = (text: string, max: number) => text.length > max ? text.substring(0, max) + ' [...]' : text;
+    const lines: string[] = [];
+
+    for (const message of messages) {
+        const role = message.role === 'user' ? 'User' : 'Assistant';
+        if (typeof message.content === 'string') {
+            lines.push(`${role}: ${clip(message.content, 4000)}`);
+            continue;
+        }
+        for (const block of message.content) {
+            if (block.type === 'text' && block.text) {
+                lines.push(`${role}: ${clip(block.text, 4000)}`);
+            } else if (block.type === 'tool_use') {
+                lines.push(`[Tool call: ${block.name} ${clip(JSON.stringify(block.input || {}), 300)}]`);
+            } else if (block.type === 'tool_result') {
+                lines.push(`[Tool result: ${clip(String(block.content || ''), 500)}]`);
+            }
+        }
+    }
+
+    return lines.join('\n\n');
+}
+
+// Where to split history for summarizing: the start of the earliest turn within the last
+// keepRecent messages, so a tool call is never separated from its result. 0 = nothing to fold.
+function findSummaryCut(history: MessageParam[], keepRecent: number): number {
+    for (let index = history.length - keepRecent; index > 0; index--) {
+        const message = history[index];
+        if (message.role === 'user' && typeof message.content === 'string') {
+            return index;
+        }
+    }
+    return 0;
+}
+
+class ToolRegistry {
+    tools: Map<string, ToolDefinition> = new Map();
+
+    register(definition: ToolDefinition): () => void {
+        if (this.tools.has(definition.name)) {
+            throw new Error(`Tool "${definition.name}" is already registered`);
+        }
+        this.tools.set(definition.name, definition);
+
+        return () => {
+            // Only remove the definition if it hasn't been replaced since
+            if (this.tools.get(definition.name) === definition) {
+                this.tools.delete(definition.name);
+            }
+        };
+    }
+
+    unregister(name: string) {
+        this.tools.delete(name);
+    }
+
+    get(name: string): ToolDefinition | undefined {
+        return this.tools.get(name);
+    }
+
+    getAll(): ToolDefinition[] {
+        return Array.from(this.tools.values());
+    }
+
+    // Schemas in the shape the Messages API expects
+    getSchemas(): Tool[] {
+        return this.getAll().map(tool => ({
+            name: tool.name,
+            description: tool.description,
+            input_schema: tool.input_schema
+        }));
+    }
+}
+
+// Models offered in the profile switcher and profile settings
+const MODEL_OPTIONS = [
+    { id: 'claude-sonnet-4-5-20250929', name: 'Claude Sonnet 4.5', icon: '🎵' },
+    { id: 'claude-haiku-4-5-20251001', name: 'Claude Haiku 4.5', icon: '⚡' },
+    { id: 'claude-opus-4-1-20250805', name: 'Claude Opus 4.1', icon: '👑' },
+    { id: 'claude-sonnet-4-20250514', name: 'Claude Sonnet 4', icon: '🎵' },
+    { id: 'claude-opus-4-20250514', name: 'Claude Opus 4', icon: '👑' },
+    { id: 'claude-3-7-sonnet-20250219', name: 'Claude Sonnet 3.7', icon: '🎵' },
+    { id: 'claude-3-5-haiku-20241022', name: 'Claude Haiku 3.5', icon: '⚡' },
+    { id: 'claude-3-haiku-20240307', name: 'Claude Haiku 3', icon: '⚡' }
+];
+
+function getModelOption(model: string): { name: string, icon: string } {
+    return MODEL_OPTIONS.find(option => option.id === model) || { name: model, icon: '🤖' };
+}
+
+// Callbacks fired while a streamed response is being received
+interface StreamCallbacks {
+    onText?: (delta: string, fullText: string) => void;
+    onToolUseStart?: (toolName: string) => void;
+    onThinking?: (fullThinking: string) => void;
+    onRateLimitWait?: (seconds: number) => void;  // Countdown while the request is held back (0 = sending)
+}
+
+// Per-request overrides of the model settings
+interface RequestOptions {
+    model?: string;
+    maxTokens?: number;
+    cache?: boolean;           // false skips cache breakpoints for one-off requests
+    thinkingBudget?: number;   // Turns on extended thinking with this many reasoning tokens
+    temperature?: number;      // Ignored with thinking, which only allows the default
+}
+
+// A system prompt split so the stable part can be cached. The dynamic part
+// (summary, active file, vault instructions) changes from turn to turn; with
+// caching on it is sent after the cached history instead of in the system prompt.
+interface SystemPromptParts {
+    stable: string;
+    dynamic: string;
+}
+
+// Mark the end of the conversation and the end of the previous request's conversation
+// as cache breakpoints. The previous request wrote the cache up to its last message, so
+// this request reads it back; the new tail is written for the next one.
+function addHistoryCacheBreakpoints(messages: MessageParam[]): MessageParam[] {
+    const marked = [...messages];
+    const userIndexes = messages
+        .map((message, index) => message.role === 'user' ? index : -1)
+        .filter(index => index >= 0);
+
+    for (const index of [messages.length - 1, userIndexes[userIndexes.length - 2]]) {
+        if (index === undefined || index < 0) continue;
+        const message = marked[index];
+        const blocks: ContentBlock[] = typeof message.content === 'string'
+            ? [{ type: 'text', text: message.content }]
+            : [...message.content];
+        if (blocks.length === 0) continue;
+        blocks[blocks.length - 1] = { ...blocks[blocks.length - 1], cache_control: { type: 'ephemeral' } };
+        marked[index] = { ...message, content: blocks };
+    }
+
+    return marked;
+}
+
+// Append per-turn context to the last user message of an outgoing copy, after its cache
+// breakpoint, so it never becomes part of a cached prefix. Returns null if there is no
+// user message at the end to carry it.
+function appendDynamicContext(messages: MessageParam[], dynamic: string): MessageParam[] | null {
+    const last = messages[messages.length - 1];
+    if (!last || last.role !== 'user') return null;
+    const blocks: ContentBlock[] = typeof last.content === 'string'
+        ? [{ type: 'text', text: last.content }]
+        : [...last.content];
+    blocks.push({ type: 'text', text: dynamic });
+    return [...messages.slice(0, -1), { ...last, content: blocks }];
+}
+
+export default class ClaudePlugin extends Plugin {
+    settings: ClaudePluginSettings;
+    streamingUnavailable: boolean = false;  // Set when streaming fails at the transport level
+    toolRegistry: ToolRegistry = new ToolRegistry();
+    retrievalIndex: RetrievalIndex;
+    conversationStore: ConversationStore;
+    promptLibrary: PromptLibrary;
+    selectionEditor: SelectionEditor = new SelectionEditor(this);
+    cacheStatusEl: HTMLElement;
+    rateLimiter: RateLimitGovernor = new RateLimitGovernor(model => this.getModelRateLimits(model), (ms, signal) => this.sleep(ms, signal));
+
+    // Tool schemas sent to the API, in registration order
+    getTools(): Tool[] {
+        return this.toolRegistry.getSchemas();
+    }
+
+    // Public API: lets other plugins give Claude extra tools, e.g.
+    //   app.plugins.plugins['obsidian-claude-integration'].registerTool({ name, description, ... })
+    // Returns a function that removes the tool again (call it from the other plugin's onunload).
+    registerTool(definition: ToolDefinition): () => void {
+        return this.toolRegistry.register(definition);
+    }
+
+    unregisterTool(name: string) {
+        this.toolRegistry.unregister(name);
+    }
+
+    registerBuiltinTools() {
+        const vault = this.app.vault;
+
+        // Resolve a path to a file or throw the error message the tool should return
+        const getFile = (path: string, label: string = 'File'): TFile => {
+            const file = vault.getAbstractFileByPath(path);
+            if (!file || !(file instanceof TFile)) {
+                throw new ToolInputError(`${label} not found: ${path}`);
+            }
+            return file;
+        };
+
+        const getFolder = (path: string): TFolder => {
+            const folder = vault.getAbstractFileByPath(path.replace(/\/$/, ''));
+            if (!folder || !(folder instanceof TFolder)) {
+                throw new ToolInputError(`Folder not found: ${path}`);
+            }
+            return folder;
+        };
+
+        this.registerTool({
+            name: 'read_file',
+            description: 'Read the contents of a file in the vault. Use this when you need to see what is in a file. For large files, consider using search_in_file or get_file_info first. Text formats such as .csv, .json and .txt are returned as-is; .canvas files are returned as JSON listing their nodes and edges.',
+            promptSummary: 'Read the contents of any file (use this for each file individually)',
+            input_schema: {
+                type: 'object',
+                properties: {
+                    path: {
+                        type: 'string',
+                        description: 'The path to the file relative to the vault root (e.g., "workspace-guide.md" or "folder/note.md")'
+                    }
+                },
+                required: ['path']
+            },
+            permissionClass: 'read',
+            resultBudget: 15000,
+            handler: async (input) => {
+                const file = getFile(input.path);
+                if (!TEXT_FILE_EXTENSIONS.has(file.extension)) {
+                    throw new ToolInputError(`${file.path} is a binary file (.${file.extension}, ${formatFileSize(file.stat.size)}) and cannot be read as text`);
+                }
+
+                const content = await vault.read(file);
+                if (file.extension === 'canvas') {
+                    return `Canvas ${file.path} (nodes and edges):\n\n${formatCanvas(content)}`;
+                }
+                return content;
+            },
+            formatSummary: (input) => `📄 Read: ${input.path}`
+        });
+
+        this.registerTool({
+            name: 'search_in_file',
+            description: 'Search for a specific text pattern in a file without reading the entire file. Returns matching lines with context. Very efficient for large files.',
+            promptSummary: 'Search for patterns without reading entire files',
+            input_schema: {
+                type: 'object',
+                properties: {
+                    path: {
+                        type: 'string',
+                        description: 'The path to the file to search in'
+                    },
+                    pattern: {
+                        type: 'string',
+                        description: 'The text pattern to search for (case-insensitive)'
+                    }
+                },
+                required: ['path', 'pattern']
+            },
+            permissionClass: 'read',
+            resultBudget: 5000,
+            handler: async (input) => {
+                const searchContent = await vault.read(getFile(input.path));
+                const lines = searchContent.split('\n');
+                const pattern = input.pattern.toLowerCase();
+                const matches: string[] = [];
+
+                // Limit to first 50 matches to avoid token overload
+                let matchCount = 0;
+                lines.forEach((line, index) => {
+                    if (line.toLowerCase().includes(pattern) && matchCount < 50) {
+                        matches.push(`Line ${index + 1}: ${line}`);
+                        matchCount++;
+                    }
+                });
+
+                if (matches.length === 0) {
+                    return `No matches found for "${input.pattern}" in ${input.path}`;
+                }
+                return `Found ${matchCount} matches in ${input.path}:\n\n${matches.join('\n')}`;
+            },
+            formatSummary: (input, result) => {
+                const matchCount = result.match(/Found (\d+)/)?.[1] || '0';
+                return `🔍 Search in ${input.path}: ${matchCount} matches`;
+            }
+        });
+
+        this.registerTool({
+            name: 'get_file_info',
+            description: 'Get metadata about a file (size, line count, first/last lines) without reading the full content. Use this to check if a file is large before reading it.',
+            promptSummary: 'Check file size and preview before reading large files',
+            input_schema: {
+                type: 'object',
+                properties: {
+                    path: {
+                        type: 'string',
+                        description: 'The path to the file'
+                    }
+                },
+                required: ['path']
+            },
+            permissionClass: 'read',
+            resultBudget: 10000,
+            handler: async (input) => {
+                const infoFile = getFile(input.path);
+                if (!TEXT_FILE_EXTENSIONS.has(infoFile.extension)) {
+                    return `File: ${input.path}
+Type: .${infoFile.extension} (binary)
+Size: ${formatFileSize(infoFile.stat.size)}
+Modified: ${new Date(infoFile.stat.mtime).toISOString()}`;
+                }
+
+                const infoContent = await vault.read(infoFile);
+                const infoLines = infoContent.split('\n');
+                const firstLines = infoLines.slice(0, 5).join('\n');
+                const lastLines = infoLines.slice(-5).join('\n');
+
+                return `File: ${input.path}
+Size: ${infoContent.length} characters
+Lines: ${infoLines.length}
+
+First 5 lines:
+${firstLines}
+
+Last 5 lines:
+${lastLines}`;
+            },
+            formatSummary: (input) => `ℹ️ File info: ${input.path}`
+        });
+
+        this.registerTool({
+            name: 'read_lines',
+            description: 'Read a range of lines from a file. Use this for parts of long files that read_file truncates; get_file_info and search_in_file give you line numbers.',
+            promptSummary: 'Read a specific range of lines from a long file',
+            input_schema: {
+                type: 'object',
+                properties: {
+                    path: {
+                        type: 'string',
+                        description: 'The path to the file'
+                    },
+                    start_line: {
+                        type: 'number',
+                        description: 'First line to read (1-based, inclusive)'
+                    },
+                    end_line: {
+                        type: 'number',
+                        description: 'Last line to read (inclusive, default: start_line + 199)'
+                    }
+                },
+                required: ['path', 'start_line']
+            },
+            permissionClass: 'read',
+            resultBudget: 15000,
+            handler: async (input) => {
+                const lines = (await vault.read(getFile(input.path))).split('\n');
+                const start = input.start_line;
+                const end = Math.min(input.end_line ?? start + 199, lines.length);
+
+                if (!Number.isInteger(start) || start < 1 || start > lines.length) {
+                    throw new ToolInputError(`start_line ${start} is out of range - ${input.path} has ${lines.length} lines`);
+                }
+                if (!Number.isInteger(end) || end < start) {
+                    throw new ToolInputError(`end_line must be a line number at or after start_line (${start})`);
+                }
+
+                return `Lines ${start}-${end} of ${lines.length} in ${input.path}:\n\n${lines.slice(start - 1, end).join('\n')}`;
+            },
+            formatSummary: (input) => `📄 Read lines ${input.start_line}-${input.end_line ?? '…'}: ${input.path}`
+        });
+
+        this.registerTool({
+            name: 'read_section',
+            description: 'Read one heading section of a note, including its subsections. Match the heading by name (case-insensitive); if the name appears more than once, use a path like "Project > Goals".',
+            promptSummary: 'Read one heading section of a note by name',
+            input_schema: {
+                type: 'object',
+                properties: {
+                    path: {
+                        type: 'string',
+                        description: 'The path to the note'
+                    },
+                    heading: {
+                        type: 'string',
+                        description: 'Heading text without the # marks, or a "Parent > Child" path'
+                    }
+                },
+                required: ['path', 'heading']
+            },
+            permissionClass: 'read',
+            resultBudget: 15000,
+            handler: async (input) => {
+                const lines = (await vault.read(getFile(input.path))).split('\n');
+                const section = findSection(lines, input.heading);
+                return `Section "${section.trail.join(' > ')}" (lines ${section.startLine + 1}-${section.endLine}) in ${input.path}:\n\n${lines.slice(section.startLine, section.endLine).join('\n')}`;
+            },
+            formatSummary: (input) => `📄 Read section "${input.heading}": ${input.path}`
+        });
+
+        this.registerTool({
+            name: 'read_block',
+            description: 'Read the block labelled with a ^block-id in a note (the paragraph, list item or table the ID belongs to).',
+            promptSummary: 'Read the block with a given ^block-id',
+            input_schema: {
+                type: 'object',
+                properties: {
+                    path: {
+                        type: 'string',
+                        description: 'The path to the note'
+                    },
+                    block_id: {
+                        type: 'string',
+                        description: 'The block ID, with or without the leading ^'
+                    }
+                },
+                required: ['path', 'block_id']
+            },
+            permissionClass: 'read',
+            resultBudget: 10000,
+            handler: async (input) => {
+                const lines = (await vault.read(getFile(input.path))).split('\n');
+                const block = findBlock(lines, input.block_id);
+                return `Block ^${input.block_id.replace(/^\^/, '')} (lines ${block.startLine + 1}-${block.endLine}) in ${input.path}:\n\n${lines.slice(block.startLine, block.endLine).join('\n')}`;
+            },
+            formatSummary: (input) => `📄 Read block ^${input.block_id.replace(/^\^/, '')}: ${input.path}`
+        });
+
+        this.registerTool({
+            name: 'replace_in_file',
+            description: 'Make a targeted replacement in a file without rewriting the entire file. More efficient than read+write for small edits. Replaces the first occurrence unless occurrence or replace_all is given.',
+            promptSummary: 'Make targeted edits without rewriting entire files (first, nth or all occurrences)',
+            input_schema: {
+                type: 'object',
+                properties: {
+                    path: {
+                        type: 'string',
+                        description: 'The path to the file'
+                    },
+                    old_text: {
+                        type: 'string',
+                        description: 'The exact text to find and replace'
+                    },
+                    new_text: {
+                        type: 'string',
+                        description: 'The text to replace it with'
+                    },
+                    occurrence: {
+                        type: 'number',
+                        description: 'Which occurrence to replace, starting at 1 (default: 1)'
+                    },
+                    replace_all: {
+                        type: 'boolean',
+                        description: 'Replace every occurrence (default: false)'
+                    }
+                },
+                required: ['path', 'old_text', 'new_text']
+            },
+            permissionClass: 'write',
+            resultBudget: 10000,
+            handler: async (input, context) => {
+                const replaceFile = getFile(input.path);
+                const replaceContent = await vault.read(replaceFile);
+
+                const { content: newContent, count } = replaceOccurrences(replaceContent, input.old_text, input.new_text, input.occurrence, input.replace_all);
+                await vault.modify(replaceFile, newContent);
+                context.recordChange({ action: 'modify', path: input.path, before: replaceContent, after: newContent });
+                return `Successfully replaced ${count} occurrence(s) in ${input.path}`;
+            },
+            formatSummary: (input) => `🔄 Edited: ${input.path}`,
+            preview: async (input) => {
+                const file = vault.getAbstractFileByPath(input.path);
+                const oldContent = file instanceof TFile ? await vault.read(file) : '';
+                let newContent = oldContent;
+                try {
+                    newContent = replaceOccurrences(oldContent, input.old_text, input.new_text, input.occurrence, input.replace_all).content;
+                } catch (error) {
+                    // Show the unchanged file; the handler reports the error to Claude
+                }
+                return {
+                    title: `Edit ${input.path}`,
+                    description: input.replace_all ? 'Claude wants to replace every occurrence of text in this file.' : 'Claude wants to replace text in this file.',
+                    diff: formatUnifiedDiff(input.path, oldContent, newContent)
+                };
+            }
+        });
+
+        // Section edits share one implementation; position picks the top or bottom of the section
+        const registerSectionEdit = (name: string, position: 'start' | 'end', description: string, promptSummary: string, verb: string) => {
+            this.registerTool({
+                name,
+                description,
+                promptSummary,
+                input_schema: {
+                    type: 'object',
+                    properties: {
+                        path: {
+                            type: 'string',
+                            description: 'The path to the note'
+                        },
+                        heading: {
+                            type: 'string',
+                            description: 'Heading text without the # marks, or a "Parent > Child" path if the name is not unique'
+                        },
+                        content: {
+                            type: 'string',
+                            description: 'The text to insert'
+                        }
+                    },
+                    required: ['path', 'heading', 'content']
+                },
+                permissionClass: 'write',
+                resultBudget: 10000,
+                handler: async (input, context) => {
+                    const file = getFile(input.path);
+                    const oldContent = await vault.read(file);
+                    const { content: newContent, line } = insertIntoSection(oldContent, input.heading, input.content, position);
+                    await vault.modify(file, newContent);
+                    context.recordChange({ action: 'modify', path: input.path, before: oldContent, after: newContent });
+                    return `Successfully ${verb} "${input.heading}" in ${input.path} (at line ${line})`;
+                },
+                formatSummary: (input) => `🔄 Edited section "${input.heading}": ${input.path}`,
+                preview: async (input) => {
+                    const file = vault.getAbstractFileByPath(input.path);
+                    const oldContent = file instanceof TFile ? await vault.read(file) : '';
+                    let newContent = oldContent;
+                    try {
+                        newContent = insertIntoSection(oldContent, input.heading, input.content, position).content;
+                    } catch (error) {
+                        // Show the unchanged file; the handler reports the error to Claude
+                    }
+                    return {
+                        title: `Edit ${input.path}`,
+                        description: `Claude wants to add text to the "${input.heading}" section of this file.`,
+                        diff: formatUnifiedDiff(input.path, oldContent, newContent)
+                    };
+                }
+            });
+        };
+
+        registerSectionEdit(
+            'insert_under_heading',
+            'start',
+            'Insert text directly below a heading, before the existing section content. Match the heading by name (case-insensitive) or by a "Parent > Child" path.',
+            'Insert text directly below a heading',
+            'inserted text under'
+        );
+
+        registerSectionEdit(
+            'append_to_section',
+            'end',
+            'Append text to the end of a heading section, after its existing content and subsections but before the next heading of the same or higher level.',
+            'Append text to the end of a heading section',
+            'appended text to'
+        );
+
+        this.registerTool({
+            name: 'write_file',
+            description: 'Write content to a file, creating it if it does not exist or replacing its contents if it does. Use replace_in_file for small edits to large files.',
+            promptSummary: 'Create new files or update existing ones',
+            input_schema: {
+                type: 'object',
+                properties: {
+                    path: {
+                        type: 'string',
+                        description: 'The path where the file should be written'
+                    },
+                    content: {
+                        type: 'string',
+                        description: 'The complete content to write to the file'
+                    }
+                },
+                required: ['path', 'content']
+            },
+            permissionClass: 'write',
+            resultBudget: 10000,
+            handler: async (input, context) => {
+                // Check if file exists
+                const existingFile = vault.getAbstractFileByPath(input.path);
+                if (existingFile && existingFile instanceof TFile) {
+                    const previousContent = await vault.read(existingFile);
+                    await vault.modify(existingFile, input.content);
+                    context.recordChange({ action: 'modify', path: input.path, before: previousContent, after: input.content });
+                    return `Successfully updated file: ${input.path}`;
+                } else {
+                    await vault.create(input.path, input.content);
+                    context.recordChange({ action: 'create', path: input.path, before: null, after: input.content });
+                    return `Successfully created file: ${input.path}`;
+                }
+            },
+            formatSummary: (input) => `✏️ Wrote: ${input.path}`,
+            preview: async (input) => {
+                const existing = vault.getAbstractFileByPath(input.path);
+                const oldContent = existing instanceof TFile ? await vault.read(existing) : '';
+                return {
+                    title: existing instanceof TFile ? `Overwrite ${input.path}` : `Create ${input.path}`,
+                    description: existing instanceof TFile
+                        ? 'Claude wants to replace the entire contents of this file.'
+                        : 'Claude wants to create a new file.',
+                    diff: formatUnifiedDiff(input.path, oldContent, input.content || '')
+                };
+            }
+        });
+
+        this.registerTool({
+            name: 'list_files',
+            description: 'List markdown files in the vault or in a specific folder. Returns up to 100 files. Use the search parameter to filter results. Set all_types to include every file type (canvases, PDFs, images, CSVs...) with sizes.',
+            promptSummary: 'List all files in the vault or in a specific folder',
+            input_schema: {
+                type: 'object',
+                properties: {
+                    folder: {
+                        type: 'string',
+                        description: 'Optional folder path to list files from. If not provided, lists all files in the vault.'
+                    },
+                    search: {
+                        type: 'string',
+                        description: 'Optional search term to filter file names (case-insensitive). Example: "suffer" will match "Suffering.md"'
+                    },
+                    limit: {
+                        type: 'number',
+                        description: 'Maximum number of files to return (default: 100, max: 200)'
+                    },
+                    all_types: {
+                        type: 'boolean',
+                        description: 'Include all file types, not just markdown, and show file sizes (default: false)'
+                    }
+                },
+                required: []
+            },
+            permissionClass: 'read',
+            resultBudget: 5000,
+            handler: async (input) => {
+                const files = input.all_types ? vault.getFiles() : vault.getMarkdownFiles();
+                let filteredFiles = files;
+
+                // Filter by folder if specified
+                if (input.folder) {
+                    filteredFiles = files.filter(f => f.path.startsWith(input.folder));
+                }
+
+                // Filter by search term if specified
+                if (input.search) {
+                    const searchLower = input.search.toLowerCase();
+                    filteredFiles = filteredFiles.filter(f =>
+                        f.path.toLowerCase().includes(searchLower) ||
+                        f.basename.toLowerCase().includes(searchLower)
+                    );
+                }
+
+                // Apply limit (default 100, max 200)
+                const limit = Math.min(input.limit || 100, 200);
+                const limitedFiles = filteredFiles.slice(0, limit);
+
+                // Return with count information
+                const fileList = limitedFiles
+                    .map(f => input.all_types ? `${f.path} (${formatFileSize(f.stat.size)})` : f.path)
+                    .join('\n');
+                if (filteredFiles.length > limit) {
+                    return `Showing ${limit} of ${filteredFiles.length} files (use search parameter to narrow results):\n\n${fileList}`;
+                }
+                return `Found ${limitedFiles.length} file(s):\n\n${fileList}`;
+            },
+            formatSummary: (input, result) => {
+                const fileCount = result.match(/Found (\d+)/)?.[1] || '?';
+                return `📁 Listed ${fileCount} files`;
+            }
+        });
+
+        this.registerTool({
+            name: 'search_vault',
+            description: 'Full-text search across all markdown files in the vault. Returns files ranked by relevance with matching line numbers and snippets. Use this instead of reading many files to find which notes mention something.',
+            promptSummary: 'Search the text of every note at once (ranked files, line numbers, snippets)',
+            input_schema: {
+                type: 'object',
+                properties: {
+                    query: {
+                        type: 'string',
+                        description: 'Text to search for (case-insensitive). Treated as a regular expression if regex is true.'
+                    },
+                    folder: {
+                        type: 'string',
+                        description: 'Optional folder path to restrict the search to'
+                    },
+                    tag: {
+                        type: 'string',
+                        description: 'Optional tag the file must have (e.g. "project" or "#project")'
+                    },
+                    regex: {
+                        type: 'boolean',
+                        description: 'Treat the query as a regular expression (default: false)'
+                    },
+                    limit: {
+                        type: 'number',
+                        description: 'Maximum number of files to return (default: 20, max: 50)'
+                    }
+                },
+                required: ['query']
+            },
+            permissionClass: 'read',
+            resultBudget: 8000,
+            handler: async (input) => {
+                if (!input.query || !String(input.query).trim()) {
+                    throw new ToolInputError('query must not be empty');
+                }
+
+                let isMatch: (line: string) => boolean;
+                if (input.regex) {
+                    let pattern: RegExp;
+                    try {
+                        pattern = new RegExp(input.query, 'i');
+                    } catch (error) {
+                        throw new ToolInputError(`Invalid regular expression: ${error.message}`);
+                    }
+                    isMatch = line => pattern.test(line);
+                } else {
+                    const queryLower = String(input.query).toLowerCase();
+                    isMatch = line => line.toLowerCase().includes(queryLower);
+                }
+
+                let files = vault.getMarkdownFiles();
+                if (input.folder) {
+                    const folder = input.folder.replace(/\/$/, '') + '/';
+                    files = files.filter(f => f.path.startsWith(folder));
+                }
+                if (input.tag) {
+                    const tag = '#' + String(input.tag).replace(/^#/, '').toLowerCase();
+                    files = files.filter(f => {
+                        const cache = this.app.metadataCache.getFileCache(f);
+                        const tags = cache ? getAllTags(cache) || [] : [];
+                        return tags.some(t => t.toLowerCase() === tag || t.toLowerCase().startsWith(tag + '/'));
+                    });
+                }
+
+                // Rank files by number of matching lines, boosting matches in the file name
+                const ranked: Array<{ file: TFile; score: number; matches: SearchResult[] }> = [];
+                for (const file of files) {
+                    const content = await vault.cachedRead(file);
+                    const matches = this.findLineMatches(file, content, isMatch, 1);
+                    const nameMatches = isMatch(file.basename);
+                    if (matches.length === 0 && !nameMatches) continue;
+                    ranked.push({ file, score: matches.length + (nameMatches ? 5 : 0), matches });
+                }
+                ranked.sort((a, b) => b.score - a.score || a.file.path.localeCompare(b.file.path));
+
+                if (ranked.length === 0) {
+                    return `No matches found for "${input.query}" in ${files.length} file(s)`;
+                }
+
+                const limit = Math.min(input.limit || 20, 50);
+                let output = `Found matches in ${ranked.length} file(s)${ranked.length > limit ? ` (showing top ${limit})` : ''}:\n`;
+
+                for (const { file, matches } of ranked.slice(0, limit)) {
+                    output += `\n${file.path} (${matches.length} match${matches.length === 1 ? '' : 'es'})\n`;
+                    for (const match of matches.slice(0, 3)) {
+                        const snippet = [...match.contextBefore, match.lineText, ...match.contextAfter]
+                            .map(line => line.trim())
+                            .filter(line => line.length > 0)
+                            .join(' … ');
+                        output += `  Line ${match.line}: ${snippet.substring(0, 300)}\n`;
+                    }
+                    if (matches.length > 3) {
+                        output += `  ... and ${matches.length - 3} more\n`;
+                    }
+                }
+
+                return output;
+            },
+            formatSummary: (input, result) => {
+                const fileCount = result.match(/Found matches in (\d+)/)?.[1] || '0';
+                return `🔎 Searched vault for "${input.query}": ${fileCount} files`;
+            }
+        });
+
+        this.registerTool({
+            name: 'rename_file',
+            description: 'Rename or move a file to a new path. Use this to rename files or move them to different folders.',
+            promptSummary: 'Rename or move files',
+            input_schema: {
+                type: 'object',
+                properties: {
+                    old_path: {
+                        type: 'string',
+                        description: 'The current path of the file'
+                    },
+                    new_path: {
+                        type: 'string',
+                        description: 'The new path for the file (can be in a different folder)'
+                    }
+                },
+                required: ['old_path', 'new_path']
+            },
+            permissionClass: 'write',
+            resultBudget: 10000,
+            handler: async (input, context) => {
+                const fileToRename = getFile(input.old_path);
+
+                // Check if new path already exists
+                const existingAtNewPath = vault.getAbstractFileByPath(input.new_path);
+                if (existingAtNewPath) {
+                    return `Error: A file already exists at: ${input.new_path}`;
+                }
+
+                await this.app.fileManager.renameFile(fileToRename, input.new_path);
+                context.recordChange({ action: 'rename', path: input.new_path, oldPath: input.old_path, before: null, after: null });
+                return `Successfully renamed "${input.old_path}" to "${input.new_path}"`;
+            },
+            formatSummary: (input) => `📝 Renamed: ${input.old_path} → ${input.new_path}`,
+            preview: async (input) => ({
+                title: `Rename ${input.old_path}`,
+                description: `Claude wants to rename or move this file to: ${input.new_path}`,
+                diff: null
+            })
+        });
+
+        this.registerTool({
+            name: 'delete_file',
+            description: 'Delete a file from the vault. Use with caution - this cannot be easily undone unless the vault is backed up or version controlled.',
+            promptSummary: 'Delete files (use with caution)',
+            input_schema: {
+                type: 'object',
+                properties: {
+                    path: {
+                        type: 'string',
+                        description: 'The path to the file to delete'
+                    }
+                },
+                required: ['path']
+            },
+            permissionClass: 'write',
+            resultBudget: 10000,
+            handler: async (input, context) => {
+                const fileToDelete = getFile(input.path);
+
+                // Keep the content so the deletion can be reverted; binary files byte for byte,
+                // unless they are too large to journal
+                const binary = !TEXT_FILE_EXTENSIONS.has(fileToDelete.extension);
+                if (binary && fileToDelete.stat.size > MAX_JOURNALED_BINARY_BYTES) {
+                    await vault.trash(fileToDelete, true);
+                    return `Successfully moved to system trash: ${input.path}. It is too large (${formatFileSize(fileToDelete.stat.size)}) to undo here and can only be restored from the system trash.`;
+                }
+                const deletedContent = binary
+                    ? arrayBufferToBase64(await vault.readBinary(fileToDelete))
+                    : await vault.read(fileToDelete);
+
+                // Delete the file (moves to Obsidian trash if enabled)
+                await vault.trash(fileToDelete, true);
+                context.recordChange({ action: 'delete', path: input.path, before: deletedContent, after: null, binary });
+                return `Successfully moved to system trash: ${input.path}`;
+            },
+            formatSummary: (input) => `🗑️ Deleted: ${input.path}`,
+            preview: async (input) => {
+                const file = vault.getAbstractFileByPath(input.path);
+                if (file instanceof TFile && !TEXT_FILE_EXTENSIONS.has(file.extension)) {
+                    return {
+                        title: `Delete ${input.path}`,
+                        description: `Claude wants to move this ${file.extension.toUpperCase()} file (${formatFileSize(file.stat.size)}) to the system trash.`,
+                        diff: null
+                    };
+                }
+                const oldContent = file instanceof TFile ? await vault.read(file) : '';
+                return {
+                    title: `Delete ${input.path}`,
+                    description: 'Claude wants to move this file to the system trash.',
+                    diff: formatUnifiedDiff(input.path, oldContent, '')
+                };
+            }
+        });
+
+        this.registerTool({
+            name: 'copy_file',
+            description: 'Copy/duplicate a file to a new location. Much more efficient than reading and writing for duplication. The destination file will be created with the same content as the source.',
+            promptSummary: 'Duplicate files without reading and rewriting them',
+            input_schema: {
+                type: 'object',
+                properties: {
+                    source_path: {
+                        type: 'string',
+                        description: 'The path to the file to copy from'
+                    },
+                    destination_path: {
+                        type: 'string',
+                        description: 'The path where the copy should be created'
+                    }
+                },
+                required: ['source_path', 'destination_path']
+            },
+            permissionClass: 'write',
+            resultBudget: 10000,
+            handler: async (input, context) => {
+                const sourceFile = getFile(input.source_path, 'Source file');
+
+                // Check if destination already exists
+                const destExists = vault.getAbstractFileByPath(input.destination_path);
+                if (destExists) {
+                    return `Error: Destination file already exists: ${input.destination_path}`;
+                }
+
+                // Copy binary files (PDFs, images) as bytes; text goes through the text API
+                if (!TEXT_FILE_EXTENSIONS.has(sourceFile.extension)) {
+                    const data = await vault.readBinary(sourceFile);
+                    await vault.createBinary(input.destination_path, data);
+                    context.recordChange({ action: 'create', path: input.destination_path, before: null, after: fingerprintBinary(data), binary: true });
+                    return `Successfully copied "${input.source_path}" to "${input.destination_path}"`;
+                }
+
+                const sourceContent = await vault.read(sourceFile);
+                await vault.create(input.destination_path, sourceContent);
+                context.recordChange({ action: 'create', path: input.destination_path, before: null, after: sourceContent });
+                return `Successfully copied "${input.source_path}" to "${input.destination_path}"`;
+            },
+            formatSummary: (input) => `📋 Copied: ${input.source_path} → ${input.destination_path}`
+        });
+
+        this.registerTool({
+            name: 'list_folder_tree',
+            description: 'Show the folder structure of the vault (or of one folder) as a tree, with the number of files in each folder. Set include_files to list files with their sizes too.',
+            promptSummary: 'Show the vault\'s folder structure as a tree',
+            input_schema: {
+                type: 'object',
+                properties: {
+                    folder: {
+                        type: 'string',
+                        description: 'Optional folder to start from (default: vault root)'
+                    },
+                    depth: {
+                        type: 'number',
+                        description: 'How many levels deep to show (default: 3, max: 10)'
+                    },
+                    include_files: {
+                        type: 'boolean',
+                        description: 'List files under each folder as well (default: false)'
+                    }
+                },
+                required: []
+            },
+            permissionClass: 'read',
+            resultBudget: 8000,
+            handler: async (input) => {
+                const root = input.folder ? getFolder(input.folder) : vault.getRoot();
+                const maxDepth = Math.min(input.depth || 3, 10);
+                const lines: string[] = [];
+                let folderCount = 0;
+
+                const walk = (folder: TFolder, depth: number) => {
+                    const subfolders = folder.children.filter((child): child is TFolder => child instanceof TFolder)
+                        .sort((a, b) => a.name.localeCompare(b.name));
+                    const files = folder.children.filter((child): child is TFile => child instanceof TFile)
+                        .sort((a, b) => a.name.localeCompare(b.name));
+
+                    for (const subfolder of subfolders) {
+                        folderCount++;
+                        const fileCount = subfolder.children.filter(child => child instanceof TFile).length;
+                        lines.push(`${'  '.repeat(depth)}${subfolder.name}/ (${fileCount} file${fileCount === 1 ? '' : 's'})`);
+                        if (depth + 1 < maxDepth) {
+                            walk(subfolder, depth + 1);
+                        } else if (subfolder.children.some(child => child instanceof TFolder)) {
+                            lines.push(`${'  '.repeat(depth + 1)}...`);
+                        }
+                    }
+                    if (input.include_files) {
+                        files.forEach(file => lines.push(`${'  '.repeat(depth)}${file.name} (${formatFileSize(file.stat.size)})`));
+                    }
+                };
+
+                walk(root, 0);
+                const rootName = root.isRoot() ? '/' : `${root.path}/`;
+                if (lines.length === 0) {
+                    return `${rootName} is empty`;
+                }
+                return `Folder tree of ${rootName} (${folderCount} folder(s)):\n\n${lines.join('\n')}`;
+            },
+            formatSummary: (input) => `🗂️ Folder tree: ${input.folder || '/'}`
+        });
+
+        this.registerTool({
+            name: 'create_folder',
+            description: 'Create a folder (and any missing parent folders) in the vault.',
+            promptSummary: 'Create folders',
+            input_schema: {
+                type: 'object',
+                properties: {
+                    path: {
+                        type: 'string',
+                        description: 'The folder path to create (e.g., "Projects/2024")'
+                    }
+                },
+                required: ['path']
+            },
+            permissionClass: 'write',
+            resultBudget: 10000,
+            handler: async (input, context) => {
+                const path = input.path.replace(/\/$/, '');
+                if (vault.getAbstractFileByPath(path)) {
+                    throw new ToolInputError(`Something already exists at: ${path}`);
+                }
+
+                // Journal each folder that did not exist yet, so revert removes only what was created
+                const created: string[] = [];
+                const parts = path.split('/');
+                for (let i = 1; i <= parts.length; i++) {
+                    const partial = parts.slice(0, i).join('/');
+                    if (!vault.getAbstractFileByPath(partial)) {
+                        created.push(partial);
+                    }
+                }
+
+                await vault.createFolder(path);
+                created.forEach(folder => context.recordChange({ action: 'create_folder', path: folder, before: null, after: null }));
+                return `Successfully created folder: ${path}`;
+            },
+            formatSummary: (input) => `📁 Created folder: ${input.path}`
+        });
+
+        this.registerTool({
+            name: 'move_folder',
+            description: 'Rename or move a folder and everything in it. Links to the moved notes are updated according to the user\'s Obsidian settings.',
+            promptSummary: 'Rename or move folders',
+            input_schema: {
+                type: 'object',
+                properties: {
+                    old_path: {
+                        type: 'string',
+                        description: 'The current path of the folder'
+                    },
+                    new_path: {
+                        type: 'string',
+                        description: 'The new path for the folder'
+                    }
+                },
+                required: ['old_path', 'new_path']
+            },
+            permissionClass: 'write',
+            resultBudget: 10000,
+            handler: async (input, context) => {
+                const folder = getFolder(input.old_path);
+                const newPath = input.new_path.replace(/\/$/, '');
+
+                if (folder.isRoot()) {
+                    throw new ToolInputError('The vault root cannot be moved');
+                }
+                if (vault.getAbstractFileByPath(newPath)) {
+                    throw new ToolInputError(`Something already exists at: ${newPath}`);
+                }
+                if (newPath.startsWith(folder.path + '/')) {
+                    throw new ToolInputError('A folder cannot be moved inside itself');
+                }
+
+                const oldPath = folder.path;
+                await this.app.fileManager.renameFile(folder, newPath);
+                context.recordChange({ action: 'rename', path: newPath, oldPath, before: null, after: null });
+                return `Successfully moved folder "${oldPath}" to "${newPath}"`;
+            },
+            formatSummary: (input) => `📁 Moved folder: ${input.old_path} → ${input.new_path}`,
+            preview: async (input) => {
+                const folder = vault.getAbstractFileByPath(input.old_path.replace(/\/$/, ''));
+                const fileCount = folder instanceof TFolder ? vault.getFiles().filter(f => f.path.startsWith(folder.path + '/')).length : 0;
+                return {
+                    title: `Move folder ${input.old_path}`,
+                    description: `Claude wants to move this folder (${fileCount} file(s)) to: ${input.new_path}`,
+                    diff: null
+                };
+            }
+        });
+
+        this.registerTool({
+            name: 'delete_folder',
+            description: 'Delete a folder by moving it to the trash. Fails on non-empty folders unless recursive is true. Never use this to clean up without the user asking.',
+            promptSummary: 'Delete folders (use with caution; non-empty folders need recursive: true)',
+            input_schema: {
+                type: 'object',
+                properties: {
+                    path: {
+                        type: 'string',
+                        description: 'The path of the folder to delete'
+                    },
+                    recursive: {
+                        type: 'boolean',
+                        description: 'Also delete everything inside the folder (default: false)'
+                    }
+                },
+                required: ['path']
+            },
+            permissionClass: 'write',
+            resultBudget: 10000,
+            handler: async (input, context) => {
+                const folder = getFolder(input.path);
+                if (folder.isRoot()) {
+                    throw new ToolInputError('The vault root cannot be deleted');
+                }
+
+                const prefix = folder.path + '/';
+                const files = vault.getFiles().filter(f => f.path.startsWith(prefix));
+                const subfolders = vault.getAllLoadedFiles()
+                    .filter((f): f is TFolder => f instanceof TFolder && f.path.startsWith(prefix));
+                if ((files.length > 0 || subfolders.length > 0) && !input.recursive) {
+                    throw new ToolInputError(`Folder ${folder.path} is not empty (${files.length} file(s), ${subfolders.length} subfolder(s)). Set recursive to true to delete it with its contents.`);
+                }
+
+                // Keep contents so the deletion can be reverted, as delete_file does; binary files
+                // too large to journal stay in the trash only
+                const contents = new Map<string, { content: string, binary: boolean }>();
+                for (const file of files) {
+                    if (TEXT_FILE_EXTENSIONS.has(file.extension)) {
+                        contents.set(file.path, { content: await vault.read(file), binary: false });
+                    } else if (file.stat.size <= MAX_JOURNALED_BINARY_BYTES) {
+                        contents.set(file.path, { content: arrayBufferToBase64(await vault.readBinary(file)), binary: true });
+                    }
+                }
+
+                await vault.trash(folder, true);
+                [folder, ...subfolders].forEach(f => context.recordChange({ action: 'delete_folder', path: f.path, before: null, after: null }));
+                contents.forEach(({ content, binary }, path) => context.recordChange({ action: 'delete', path, before: content, after: null, binary }));
+
+                const largeCount = files.length - contents.size;
+                const binaryNote = largeCount > 0
+                    ? ` ${largeCount} large non-text file(s) can only be restored from the system trash.`
+                    : '';
+                return `Successfully moved folder ${folder.path} (${files.length} file(s)) to system trash.${binaryNote}`;
+            },
+            formatSummary: (input) => `🗑️ Deleted folder: ${input.path}`,
+            preview: async (input) => {
+                const folder = vault.getAbstractFileByPath(input.path.replace(/\/$/, ''));
+                const files = folder instanceof TFolder ? vault.getFiles().filter(f => f.path.startsWith(folder.path + '/')) : [];
+                const listed = files.slice(0, 20).map(f => `- ${f.path}`).join('\n');
+                const more = files.length > 20 ? `\n...and ${files.length - 20} more` : '';
+                return {
+                    title: `Delete folder ${input.path}`,
+                    description: files.length > 0
+                        ? `Claude wants to move this folder and its ${files.length} file(s) to the system trash:\n${listed}${more}`
+                        : 'Claude wants to move this empty folder to the system trash.',
+                    diff: null
+                };
+            }
+        });
+
+        this.registerTool({
+            name: 'retrieve_context',
+            description: 'Find the note sections most relevant to a query using the local search index (BM25 over heading-level chunks). Returns excerpts with paths, headings and line ranges - much cheaper than reading whole notes.',
+            promptSummary: 'Get the most relevant note sections for a question (cheaper than reading whole notes)',
+            input_schema: {
+                type: 'object',
+                properties: {
+                    query: {
+                        type: 'string',
+                        description: 'What you are looking for, in natural language or keywords'
+                    },
+                    k: {
+                        type: 'number',
+                        description: 'Number of excerpts to return (default: 5, max: 15)'
+                    },
+                    folder: {
+                        type: 'string',
+                        description: 'Optional folder path to restrict the search to'
+                    }
+                },
+                required: ['query']
+            },
+            permissionClass: 'read',
+            resultBudget: 15000,
+            handler: async (input) => {
+                if (!this.settings.enableRetrievalIndex) {
+                    return 'Error: The local retrieval index is disabled in settings. Use search_vault instead.';
+                }
+                await this.retrievalIndex.ensureReady();
+
+                const k = Math.min(input.k || 5, 15);
+                const results = this.retrievalIndex.search(input.query, k, { folder: input.folder });
+                if (results.length === 0) {
+                    return `No relevant sections found for "${input.query}"`;
+                }
+                return `Found ${results.length} relevant section(s):\n\n${this.retrievalIndex.formatResults(results)}`;
+            },
+            formatSummary: (input, result) => {
+                const count = result.match(/Found (\d+)/)?.[1] || '0';
+                return `🎯 Retrieved ${count} sections for "${input.query}"`;
+            }
+        });
+
+        // Metadata tools backed by Obsidian's metadataCache, so Claude doesn't have to parse files itself
+        const metadataCache = this.app.metadataCache;
+        const normalizeTag = (tag: string) => '#' + String(tag).replace(/^#/, '').toLowerCase();
+
+        this.registerTool({
+            name: 'get_frontmatter',
+            description: 'Get the YAML frontmatter properties of a note as JSON, without reading the note body.',
+            promptSummary: 'Get a note\'s frontmatter properties as JSON',
+            input_schema: {
+                type: 'object',
+                properties: {
+                    path: {
+                        type: 'string',
+                        description: 'The path to the note'
+                    }
+                },
+                required: ['path']
+            },
+            permissionClass: 'read',
+            resultBudget: 5000,
+            handler: async (input) => {
+                const file = getFile(input.path);
+                const frontmatter = metadataCache.getFileCache(file)?.frontmatter;
+                if (!frontmatter) {
+                    return `${input.path} has no frontmatter`;
+                }
+
+                const { position, ...properties } = frontmatter;
+                return JSON.stringify(properties, null, 2);
+            },
+            formatSummary: (input) => `🏷️ Frontmatter: ${input.path}`
+        });
+
+        this.registerTool({
+            name: 'set_frontmatter_field',
+            description: 'Set or remove a single frontmatter property on a note. Obsidian rewrites the YAML for you, preserving the rest of the note. Creates the frontmatter block if the note has none.',
+            promptSummary: 'Set or remove one frontmatter property safely',
+            input_schema: {
+                type: 'object',
+                properties: {
+                    path: {
+                        type: 'string',
+                        description: 'The path to the note'
+                    },
+                    key: {
+                        type: 'string',
+                        description: 'The property name'
+                    },
+                    value: {
+                        description: 'The value to set: string, number, boolean, list or object. Ignored when remove is true.'
+                    },
+                    remove: {
+                        type: 'boolean',
+                        description: 'Remove the property instead of setting it (default: false)'
+                    }
+                },
+                required: ['path', 'key']
+            },
+            permissionClass: 'write',
+            resultBudget: 2000,
+            handler: async (input, context) => {
+                const file = getFile(input.path);
+                if (!input.key || !String(input.key).trim()) {
+                    throw new ToolInputError('key must not be empty');
+                }
+                if (!input.remove && input.value === undefined) {
+                    throw new ToolInputError('value is required unless remove is true');
+                }
+
+                const before = await vault.read(file);
+                let existed = false;
+                await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+                    existed = Object.prototype.hasOwnProperty.call(frontmatter, input.key);
+                    if (input.remove) {
+                        delete frontmatter[input.key];
+                    } else {
+                        frontmatter[input.key] = input.value;
+                    }
+                });
+                const after = await vault.read(file);
+
+                if (before !== after) {
+                    context.recordChange({ action: 'modify', path: input.path, before, after });
+                }
+
+                if (input.remove) {
+                    return existed
+                        ? `Removed frontmatter property "${input.key}" from ${input.path}`
+                        : `Property "${input.key}" was not set on ${input.path}`;
+                }
+                return `Set frontmatter property "${input.key}" to ${JSON.stringify(input.value)} on ${input.path}`;
+            },
+            formatSummary: (input) => input.remove
+                ? `🏷️ Removed property ${input.key}: ${input.path}`
+                : `🏷️ Set ${input.key}: ${input.path}`,
+            preview: async (input) => ({
+                title: `Update frontmatter of ${input.path}`,
+                description: input.remove
+                    ? `Claude wants to remove the property "${input.key}".`
+                    : `Claude wants to set "${input.key}" to:\n${JSON.stringify(input.value, null, 2)}`,
+                diff: null
+            })
+        });
+
+        this.registerTool({
+            name: 'find_by_tag',
+            description: 'Find notes that have a tag, in the body or the frontmatter. Nested tags match too (e.g. "project" matches "#project/alpha").',
+            promptSummary: 'Find notes with a tag (including nested tags)',
+            input_schema: {
+                type: 'object',
+                properties: {
+                    tag: {
+                        type: 'string',
+                        description: 'The tag to find, with or without the leading # (e.g. "project" or "#project")'
+                    },
+                    limit: {
+                        type: 'number',
+                        description: 'Maximum number of notes to return (default: 100, max: 200)'
+                    }
+                },
+                required: ['tag']
+            },
+            permissionClass: 'read',
+            resultBudget: 5000,
+            handler: async (input) => {
+                const tag = normalizeTag(input.tag);
+                const matches: string[] = [];
+
+                for (const file of vault.getMarkdownFiles()) {
+                    const cache = metadataCache.getFileCache(file);
+                    const tags = cache ? getAllTags(cache) || [] : [];
+                    const matching = tags.filter(t => t.toLowerCase() === tag || t.toLowerCase().startsWith(tag + '/'));
+                    if (matching.length > 0) {
+                        matches.push(`${file.path} (${[...new Set(matching)].join(', ')})`);
+                    }
+                }
+
+                if (matches.length === 0) {
+                    return `No notes found with tag ${tag}`;
+                }
+
+                const limit = Math.min(input.limit || 100, 200);
+                const header = matches.length > limit
+                    ? `Showing ${limit} of ${matches.length} notes with tag ${tag}:`
+                    : `Found ${matches.length} note(s) with tag ${tag}:`;
+                return `${header}\n\n${matches.slice(0, limit).join('\n')}`;
+            },
+            formatSummary: (input, result) => {
+                const count = result.match(/(?:Found|of) (\d+)/)?.[1] || '0';
+                return `🏷️ Tag ${normalizeTag(input.tag)}: ${count} notes`;
+            }
+        });
+
+        this.registerTool({
+            name: 'get_backlinks',
+            description: 'List the notes that link to a given note, with the number of links from each.',
+            promptSummary: 'List notes that link to a note',
+            input_schema: {
+                type: 'object',
+                properties: {
+                    path: {
+                        type: 'string',
+                        description: 'The path to the note'
+                    }
+                },
+                required: ['path']
+            },
+            permissionClass: 'read',
+            resultBudget: 5000,
+            handler: async (input) => {
+                const file = getFile(input.path);
+                const backlinks: string[] = [];
+
+                for (const [sourcePath, links] of Object.entries(metadataCache.resolvedLinks)) {
+                    const count = links[file.path];
+                    if (count && sourcePath !== file.path) {
+                        backlinks.push(`${sourcePath} (${count} link${count === 1 ? '' : 's'})`);
+                    }
+                }
+
+                if (backlinks.length === 0) {
+                    return `No notes link to ${file.path}`;
+                }
+                return `Found ${backlinks.length} note(s) linking to ${file.path}:\n\n${backlinks.sort().join('\n')}`;
+            },
+            formatSummary: (input, result) => {
+                const count = result.match(/Found (\d+)/)?.[1] || '0';
+                return `🔗 Backlinks to ${input.path}: ${count}`;
+            }
+        });
+
+        this.registerTool({
+            name: 'get_outgoing_links',
+            description: 'List the links and embeds in a note, resolved to vault paths. Unresolved links (notes that do not exist yet) are marked.',
+            promptSummary: 'List links and embeds in a note, resolved to paths',
+            input_schema: {
+                type: 'object',
+                properties: {
+                    path: {
+                        type: 'string',
+                        description: 'The path to the note'
+                    }
+                },
+                required: ['path']
+            },
+            permissionClass: 'read',
+            resultBudget: 5000,
+            handler: async (input) => {
+                const file = getFile(input.path);
+                const cache = metadataCache.getFileCache(file);
+                const references = [
+                    ...(cache?.links || []).map(link => ({ link, kind: 'link' })),
+                    ...(cache?.embeds || []).map(link => ({ link, kind: 'embed' }))
+                ];
+
+                if (references.length === 0) {
+                    return `${file.path} has no outgoing links`;
+                }
+
+                const lines = references
+                    .sort((a, b) => a.link.position.start.line - b.link.position.start.line)
+                    .map(({ link, kind }) => {
+                        const target = metadataCache.getFirstLinkpathDest(getLinkpath(link.link), file.path);
+                        const resolved = target ? target.path : '(unresolved)';
+                        return `Line ${link.position.start.line + 1}: [${kind}] ${link.original} → ${resolved}`;
+                    });
+
+                return `Found ${references.length} outgoing link(s) in ${file.path}:\n\n${lines.join('\n')}`;
+            },
+            formatSummary: (input, result) => {
+                const count = result.match(/Found (\d+)/)?.[1] || '0';
+                return `🔗 Links in ${input.path}: ${count}`;
+            }
+        });
+
+        this.registerTool({
+            name: 'get_headings',
+            description: 'Get the heading outline of a note with line numbers. Useful for navigating long notes before reading parts of them.',
+            promptSummary: 'Get a note\'s heading outline with line numbers',
+            input_schema: {
+                type: 'object',
+                properties: {
+                    path: {
+                        type: 'string',
+                        description: 'The path to the note'
+                    }
+                },
+                required: ['path']
+            },
+            permissionClass: 'read',
+            resultBudget: 5000,
+            handler: async (input) => {
+                const file = getFile(input.path);
+                const headings = metadataCache.getFileCache(file)?.headings || [];
+
+                if (headings.length === 0) {
+                    return `${file.path} has no headings`;
+                }
+
+                const outline = headings.map(h =>
+                    `${'  '.repeat(h.level - 1)}${'#'.repeat(h.level)} ${h.heading} (line ${h.position.start.line + 1})`
+                );
+                return `Found ${headings.length} heading(s) in ${file.path}:\n\n${outline.join('\n')}`;
+            },
+            formatSummary: (input) => `📑 Headings: ${input.path}`
+        });
+    }
+
+    async onload() {
+        await this.loadSettings();
+        this.registerBuiltinTools();
+
+        this.conversationStore = new ConversationStore(this.app, this.getConversationFolder());
+        this.promptLibrary = new PromptLibrary(this.app, this.settings.promptFolder);
+        try {
+            await this.migrateLegacyConversations();
+        } catch (error) {
+            console.error('Failed to migrate saved conversations:', error);
+            new Notice('Claude: could not migrate saved conversations. They remain in data.json and will be retried next time.');
+        }
+
+        // Register custom Claude logo icon using Obsidian's addIcon API
+        const iconSvg = `<svg viewBox="0 0 1200 1200" xmlns="http://www.w3.org/2000/svg">
+            <path fill="currentColor" stroke="none" d="M 233.959793 800.214905 L 468.644287 668.536987 L 472.590637 657.100647 L 468.644287 650.738403 L 457.208069 650.738403 L 417.986633 648.322144 L 283.892639 644.69812 L 167.597321 639.865845 L 54.926208 633.825623 L 26.577238 627.785339 L 3.3e-05 592.751709 L 2.73832 575.27533 L 26.577238 559.248352 L 60.724873 562.228149 L 136.187973 567.382629 L 249.422867 575.194763 L 331.570496 580.026978 L 453.261841 592.671082 L 472.590637 592.671082 L 475.328857 584.859009 L 468.724915 580.026978 L 463.570557 575.194763 L 346.389313 495.785217 L 219.543671 411.865906 L 153.100723 363.543762 L 117.181267 339.060425 L 99.060455 316.107361 L 91.248367 266.01355 L 123.865784 230.093994 L 167.677887 233.073853 L 178.872513 236.053772 L 223.248367 270.201477 L 318.040283 343.570496 L 441.825592 434.738342 L 459.946411 449.798706 L 467.194672 444.64447 L 468.080597 441.020203 L 459.946411 427.409485 L 392.617493 305.718323 L 320.778564 181.932983 L 288.80542 130.630859 L 280.348999 99.865845 C 277.369171 87.221436 275.194641 76.590698 275.194641 63.624268 L 312.322174 13.20813 L 332.8591 6.604126 L 382.389313 13.20813 L 403.248352 31.328979 L 434.013519 101.71814 L 483.865753 212.537048 L 561.181274 363.221497 L 583.812134 407.919434 L 595.892639 449.315491 L 600.40271 461.959839 L 608.214783 461.959839 L 608.214783 454.711609 L 614.577271 369.825623 L 626.335632 265.61084 L 637.771851 131.516846 L 641.718201 93.745117 L 660.402832 48.483276 L 697.530334 24.000122 L 726.52356 37.852417 L 750.362549 72 L 747.060486 94.067139 L 732.886047 186.201416 L 705.100708 330.52356 L 686.979919 427.167847 L 697.530334 427.167847 L 709.61084 415.087341 L 758.496704 350.174561 L 840.644348 247.490051 L 876.885925 206.738342 L 919.167847 161.71814 L 946.308838 140.29541 L 997.61084 140.29541 L 1035.38269 196.429626 L 1018.469849 254.416199 L 965.637634 321.422852 L 921.825562 378.201538 L 859.006714 462.765259 L 819.785278 530.41626 L 823.409424 535.812073 L 832.75177 534.92627 L 974.657776 504.724915 L 1051.328979 490.872559 L 1142.818848 475.167786 L 1184.214844 494.496582 L 1188.724854 514.147644 L 1172.456421 554.335693 L 1074.604126 578.496765 L 959.838989 601.449829 L 788.939636 641.879272 L 786.845764 643.409485 L 789.261841 646.389343 L 866.255127 653.637634 L 899.194702 655.409424 L 979.812134 655.409424 L 1129.932861 666.604187 L 1169.154419 692.537109 L 1192.671265 724.268677 L 1188.724854 748.429688 L 1128.322144 779.194641 L 1046.818848 759.865845 L 856.590759 714.604126 L 791.355774 698.335754 L 782.335693 698.335754 L 782.335693 703.731567 L 836.69812 756.885986 L 936.322205 846.845581 L 1061.073975 962.81897 L 1067.436279 991.490112 L 1051.409424 1014.120911 L 1034.496704 1011.704712 L 924.885986 929.234924 L 882.604126 892.107544 L 786.845764 811.48999 L 780.483276 811.48999 L 780.483276 819.946289 L 802.550415 852.241699 L 919.087341 1027.409424 L 925.127625 1081.127686 L 916.671204 1098.604126 L 886.469849 1109.154419 L 853.288696 1103.114136 L 785.073914 1007.355835 L 714.684631 899.516785 L 657.906067 802.872498 L 650.979858 806.81897 L 617.476624 1167.704834 L 601.771851 1186.147705 L 565.530212 1200 L 535.328857 1177.046997 L 519.302124 1139.919556 L 535.328857 1066.550537 L 554.657776 970.792053 L 570.362488 894.68457 L 584.536926 800.134277 L 592.993347 768.724976 L 592.429626 766.630859 L 585.503479 767.516968 L 514.22821 865.369263 L 405.825531 1011.865906 L 320.053711 1103.677979 L 299.516815 1111.812256 L 263.919525 1093.369263 L 267.221497 1060.429688 L 287.114136 1031.114136 L 405.825531 880.107361 L 477.422913 786.52356 L 523.651062 732.483276 L 523.328918 724.671265 L 520.590698 724.671265 L 205.288605 929.395935 L 149.154434 936.644409 L 124.993355 914.01355 L 127.973183 876.885986 L 139.409409 864.80542 L 234.201385 799.570435 L 233.879227 799.8927 Z"/>
+        </svg>`;
+
+        // Use Obsidian's addIcon function
+        addIcon('claude-logo', iconSvg);
+
+        // Add ribbon icon with custom Claude logo
+        this.addRibbonIcon('claude-logo', 'Open Claude Chat', () => {
+            this.activateView();
+        });
+
+        // Add command to open Claude chat
+        this.addCommand({
+            id: 'open-claude-chat',
+            name: 'Open Claude Chat',
+            callback: () => {
+                this.activateView();
+            }
+        });
+
+        // Add commands to open more chat sessions alongside the existing ones
+        this.addCommand({
+            id: 'new-claude-chat-tab',
+            name: 'New Claude chat in new tab',
+            callback: () => this.openNewChat('tab')
+        });
+
+        this.addCommand({
+            id: 'new-claude-chat-split',
+            name: 'New Claude chat in split',
+            callback: () => this.openNewChat('split')
+        });
+
+        // Add commands that rewrite the selection (or paragraph) with an inline preview
+        this.registerEditorExtension(selectionEditField);
+        for (const action of SELECTION_ACTIONS) {
+            this.addCommand({
+                id: `selection-${action.id}`,
+                name: `${action.name} selection`,
+                editorCallback: (editor: Editor, view: MarkdownView) => this.selectionEditor.run(editor, view, action)
+            });
+        }
+
+        // Add command to ask Claude about current file
+        this.addCommand({
+            id: 'ask-claude-about-file',
+            name: 'Ask Claude about current file',
+            editorCallback: (editor: Editor, view: MarkdownView) => {
+                new ClaudeQuickModal(this.app, this, editor, view.file).open();
+            }
+        });
+
+        // Add command to show token usage and spend
+        this.addCommand({
+            id: 'show-usage-dashboard',
+            name: 'Show token usage and costs',
+            callback: () => {
+                new UsageDashboardModal(this.app, this).open();
+            }
+        });
+
+        // Add command to undo every vault change made in the current conversation
+        this.addCommand({
+            id: 'revert-conversation-changes',
+            name: 'Revert all changes Claude made in this conversation',
+            callback: async () => {
+                const view = this.getActiveChatView();
+                if (!view) {
+                    new Notice('Claude chat is not open');
+                    return;
+                }
+                await view.revertChanges(view.changeJournal.getActiveEntries());
+            }
+        });
+
+        // Register view
+        this.registerView(
+            'claude-chat-view',
+            (leaf) => new ClaudeChatView(leaf, this)
+        );
+
+        // Add settings tab
+        this.addSettingTab(new ClaudeSettingTab(this.app, this));
+
+        // Prompt cache hit rate of the conversation being worked in
+        this.cacheStatusEl = this.addStatusBarItem();
+        this.cacheStatusEl.addClass('claude-cache-status');
+        this.cacheStatusEl.addEventListener('click', () => new UsageDashboardModal(this.app, this).open());
+
+        // Local retrieval index, built once the vault has loaded and kept current from vault events
+        this.retrievalIndex = new RetrievalIndex(this.app);
+        this.app.workspace.onLayoutReady(() => {
+            if (this.settings.enableRetrievalIndex) {
+                this.retrievalIndex.build();
+            }
+        });
+        this.registerRetrievalIndexEvents();
+
+        // Auto-open the Claude chat view in the right sidebar on plugin load
+        this.activateView();
+    }
+
+    registerRetrievalIndexEvents() {
+        // Debounce re-indexing so typing in a note doesn't re-chunk it on every keystroke
+        const pending = new Map<string, number>();
+        const scheduleIndex = (file: TFile) => {
+            const existing = pending.get(file.path);
+            if (existing) window.clearTimeout(existing);
+            pending.set(file.path, window.setTimeout(() => {
+                pending.delete(file.path);
+                this.retrievalIndex.whenBuilt(() => {
+                    this.retrievalIndex.indexFile(file).catch(error => console.error(`Failed to index ${file.path}:`, error));
+                });
+            }, 2000));
+        };
+        this.register(() => {
+            pending.forEach(timer => window.clearTimeout(timer));
+            pending.clear();
+        });
+
+        // Changes are ignored while the index is off (it is rebuilt when turned back on)
+        // and held back while it is being built
+        const update = (apply: () => void) => {
+            if (this.settings.enableRetrievalIndex) this.retrievalIndex.whenBuilt(apply);
+        };
+
+        this.registerEvent(this.app.vault.on('modify', (file) => {
+            if (file instanceof TFile) update(() => scheduleIndex(file));
+        }));
+        this.registerEvent(this.app.vault.on('create', (file) => {
+            if (file instanceof TFile) update(() => scheduleIndex(file));
+        }));
+        this.registerEvent(this.app.vault.on('delete', (file) => {
+            update(() => {
+                if (file instanceof TFolder) {
+                    this.retrievalIndex.removeFolder(file.path);
+                } else {
+                    this.retrievalIndex.removeFile(file.path);
+                }
+            });
+        }));
+        this.registerEvent(this.app.vault.on('rename', (file, oldPath) => {
+            update(() => {
+                this.retrievalIndex.renameFile(oldPath, file.path);
+                if (file instanceof TFile) scheduleIndex(file);
+            });
+        }));
+    }
+
+    getChatViews(): ClaudeChatView[] {
+        return this.app.workspace.getLeavesOfType('claude-chat-view')
+            .map(leaf => leaf.view)
+            .filter((view): view is ClaudeChatView => view instanceof ClaudeChatView);
+    }
+
+    // The focused chat view, or the first open one
+    getActiveChatView(): ClaudeChatView | null {
+        return this.app.workspace.getActiveViewOfType(ClaudeChatView) || this.getChatViews()[0] || null;
+    }
+
+    // Open another chat session with an empty conversation
+    async openNewChat(where: 'tab' | 'split'): Promise<ClaudeChatView | null> {
+        const leaf = this.app.workspace.getLeaf(where);
+        await leaf.setViewState({ type: 'claude-chat-view', active: true, state: { conversationId: '' } });
+        this.app.workspace.revealLeaf(leaf);
+        return leaf.view instanceof ClaudeChatView ? leaf.view : null;
+    }
+
+    async activateView() {
+        const { workspace } = this.app;
+
+        let leaf: WorkspaceLeaf | null = null;
+        const leaves = workspace.getLeavesOfType('claude-chat-view');
+
+        if (leaves.length > 0) {
+            leaf = leaves[0];
+        } else {
+            leaf = workspace.getRightLeaf(false);
+            if (leaf) {
+                await leaf.setViewState({ type: 'claude-chat-view', active: true });
+            }
+        }
+
+        if (leaf) {
+            workspace.revealLeaf(leaf);
+        }
+    }
+
+    async loadSettings() {
+        this.settings = Object.assign({}, DEFAULT_SETTINGS, await this.loadData());
+        // Merge nested defaults so newly added tools pick up their default policy
+        this.settings.toolPermissions = Object.assign({}, DEFAULT_SETTINGS.toolPermissions, this.settings.toolPermissions);
+        this.settings.modelPrices = Object.assign({}, DEFAULT_SETTINGS.modelPrices, this.settings.modelPrices);
+        this.settings.retryPolicy = Object.assign({}, DEFAULT_SETTINGS.retryPolicy, this.settings.retryPolicy);
+        this.settings.profiles = this.settings.profiles.map(profile => ({ ...profile }));
+    }
+
+    async saveSettings() {
+        await this.saveData(this.settings);
+    }
+
+    // A named profile, or the default one made from the main settings
+    getProfile(id: string): AssistantProfile {
+        return this.settings.profiles.find(profile => profile.id === id) || {
+            id: '',
+            name: 'Default',
+            systemPrompt: this.settings.customPrompt,
+            model: this.settings.model,
+            maxTokens: this.settings.maxTokens
+        };
+    }
+
+    // Instruction notes in the vault root and in every folder above the given files, from the
+    // root down, so the most specific come last
+    async getInstructionFiles(paths: string[]): Promise<InstructionFile[]> {
+        const name = this.settings.instructionFileName.trim();
+        if (!name) return [];
+
+        const folders: string[] = [''];
+        for (const path of paths) {
+            const parts = path.split('/').slice(0, -1);
+            for (let depth = 1; depth <= parts.length; depth++) {
+                const folder = parts.slice(0, depth).join('/');
+                if (!folders.includes(folder)) folders.push(folder);
+            }
+        }
+        folders.sort((a, b) => (a ? a.split('/').length : 0) - (b ? b.split('/').length : 0));
+
+        const instructions: InstructionFile[] = [];
+        for (const folder of folders) {
+            const file = this.app.vault.getAbstractFileByPath(folder ? `${folder}/${name}` : name);
+            if (!(file instanceof TFile)) continue;
+            const content = (await this.app.vault.cachedRead(file)).trim();
+            if (content) instructions.push({ path: file.path, content });
+        }
+        return instructions;
+    }
+
+    // Save a chat view's conversation to the conversation store. Each view passes its own ID.
+    async saveConversation(conversationId: string, messages: MessageParam[], summary: string, changes: JournalEntry[] = [], usage: UsageRecord[] = [], tree?: ConversationTree, options: ConversationOptions = {}) {
+        if (!this.settings.autoSaveConversations || messages.length === 0 || !conversationId) {
+            return;
+        }
+
+        // Generate conversation name (AI-powered or fallback), unless the user has named it
+        const existing = (await this.conversationStore.getIndex()).find(entry => entry.id === conversationId);
+        const conversationName = existing && existing.renamed
+            ? existing.name
+            : await this.generateConversationName(messages, conversationId);
+
+        await this.conversationStore.save({
+            id: conversationId,
+            name: conversationName,
+            timestamp: Date.now(),
+            messages: messages,
+            summary: summary,
+            changes: changes,
+            usage: usage,
+            tree: tree,
+            options: options
+        });
+
+        // data.json only changes when the most recently active conversation does
+        if (this.settings.currentConversationId !== conversationId) {
+            this.settings.currentConversationId = conversationId;
+            await this.saveSettings();
+        }
+    }
+
+    // Load a conversation by ID
+    async loadConversation(conversationId: string): Promise<{ messages: MessageParam[], summary: string, changes: JournalEntry[], usage: UsageRecord[], tree?: ConversationTree, options: ConversationOptions } | null> {
+        let conversation: SavedConversation | null = null;
+        try {
+            conversation = await this.conversationStore.load(conversationId);
+        } catch (error) {
+            console.error(`Failed to load conversation ${conversationId}:`, error);
+        }
+
+        if (conversation) {
+            return {
+                messages: conversation.messages,
+                summary: conversation.summary,
+                changes: conversation.changes || [],
+                usage: conversation.usage || [],
+                tree: conversation.tree,
+                options: conversation.options || {}
+            };
+        }
+        return null;
+    }
+
+    // Delete a conversation
+    async deleteConversation(conversationId: string) {
+        await this.conversationStore.delete(conversationId);
+
+        // A view still showing it saves under a new ID next time instead of recreating it
+        for (const view of this.getChatViews()) {
+            if (view.conversationId === conversationId) {
+                view.setConversationId('');
+            }
+        }
+        if (this.settings.currentConversationId === conversationId) {
+            this.settings.currentConversationId = '';
+            await this.saveSettings();
+        }
+    }
+
+    getConversationFolder(folder: string = this.settings.conversationFolder): string {
+        return folder.trim() || `${this.manifest.dir}/conversations`;
+    }
+
+    // Switch to another conversation folder, optionally taking the saved conversations along
+    async setConversationFolder(folder: string, moveExisting: boolean) {
+        const previous = this.conversationStore;
+        this.settings.conversationFolder = folder.trim();
+        const next = new ConversationStore(this.app, this.getConversationFolder());
+        if (next.folder === previous.folder) {
+            await this.saveSettings();
+            return;
+        }
+
+        if (moveExisting) {
+            const { moved, skipped } = await previous.moveTo(next.folder);
+            if (skipped.length > 0) {
+                const listed = skipped.slice(0, 5).join(', ') + (skipped.length > 5 ? `, and ${skipped.length - 5} more` : '');
+                new Notice(`Moved ${moved} conversation(s) to ${next.folder}. ${skipped.length} file(s) already existed there and were left in ${previous.folder}: ${listed}`, 15000);
+            } else {
+                new Notice(`Moved ${moved} conversation(s) to ${next.folder}`);
+            }
+        }
+        this.conversationStore = next;
+        await this.saveSettings();
+    }
+
+    // One-time move of conversations and usage kept in data.json by earlier versions
+    async migrateLegacyConversations() {
+        if (this.settings.savedConversations === undefined && this.settings.usageLog === undefined) {
+            return;
+        }
+
+        const legacyConversations = this.settings.savedConversations || [];
+        const legacyUsage = this.settings.usageLog || [];
+
+        for (const conversation of legacyConversations) {
+            await this.conversationStore.save(conversation);
+        }
+        await this.conversationStore.appendUsage(legacyUsage);
+
+        delete this.settings.savedConversations;
+        delete this.settings.usageLog;
+        await this.saveSettings();
+        console.log(`Migrated ${legacyConversations.length} conversation(s) and ${legacyUsage.length} usage record(s) to ${this.conversationStore.folder}`);
+    }
+
+    // Generate unique conversation ID
+    generateConversationId(): string {
+        return `conv_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
+    }
+
+    // Generate AI conversation name based on conversation content
+    async generateConversationName(messages: MessageParam[], conversationId: string = ''): Promise<string> {
+        if (messages.length === 0) {
+            return 'Untitled Conversation';
+        }
+
+        try {
+            // Extract first few messages for context (up to 3 exchanges)
+            const contextMessages = messages.slice(0, 6); // 3 user + 3 assistant
+            let conversationContext = '';
 
             for (const msg of contextMessages) {
                 if (msg.role === 'user' && typeof msg.content === 'string') {
@@ -405,472 +2527,2376 @@ export default class ClaudePlugin extends Plugin {
                 }
             }
 
-            // Call Claude to generate a concise title
-            const response = await requestUrl({
-                url: 'https://api.anthropic.com/v1/messages',
+            // Call Claude to generate a concise title
+            const titleModel = 'claude-haiku-4-5-20251001'; // Use fastest model for this
+            const reservation = await this.rateLimiter.acquire(titleModel, this.estimateTokens(conversationContext) + 50);
+            const response = await requestUrl({
+                url: 'https://api.anthropic.com/v1/messages',
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    'x-api-key': this.settings.apiKey,
+                    'anthropic-version': '2023-06-01'
+                },
+                body: JSON.stringify({
+                    model: titleModel,
+                    max_tokens: 50,
+                    messages: [
+                        {
+                            role: 'user',
+                            content: `Generate a concise 3-5 word title for this conversation. Only return the title, nothing else:\n\n${conversationContext}`
+                        }
+                    ]
+                })
+            }).catch(error => {
+                // requestUrl throws for error statuses; a rejected request used none of its reservation
+                this.rateLimiter.release(titleModel, reservation);
+                throw error;
+            });
+
+            const data = response.json;
+            this.rateLimiter.updateFromHeaders(titleModel, this.headerLookup(response.headers));
+            this.rateLimiter.settle(reservation, data.usage);
+            this.recordUsage(data, conversationId, 'title');
+            if (data.content && data.content[0] && data.content[0].text) {
+                const title = data.content[0].text.trim().replace(/^["']|["']$/g, ''); // Remove quotes
+                return title.length > 0 ? title : 'Untitled Conversation';
+            }
+        } catch (error) {
+            console.error('Failed to generate conversation name:', error);
+            // Fallback to first message preview
+            const firstUserMessage = messages.find(m => m.role === 'user');
+            if (firstUserMessage && typeof firstUserMessage.content === 'string') {
+                const text = firstUserMessage.content.substring(0, 50).trim();
+                return text.length < 50 ? text : text + '...';
+            }
+        }
+
+        return 'Untitled Conversation';
+    }
+
+    // Find matching lines in file content, with surrounding lines for context.
+    // Shared by the vault search modal and the search_vault tool.
+    findLineMatches(file: TFile, content: string, isMatch: (line: string) => boolean, contextLines: number = 3): SearchResult[] {
+        const lines = content.split('\n');
+        const results: SearchResult[] = [];
+
+        lines.forEach((line, index) => {
+            if (isMatch(line)) {
+                results.push({
+                    file,
+                    line: index + 1,
+                    lineText: line,
+                    contextBefore: lines.slice(Math.max(0, index - contextLines), index),
+                    contextAfter: lines.slice(index + 1, index + 1 + contextLines)
+                });
+            }
+        });
+
+        return results;
+    }
+
+    truncateToolResult(result: string, maxSize: number = 10000): string {
+        if (result.length <= maxSize) {
+            return result;
+        }
+        const truncated = result.substring(0, maxSize);
+        return `${truncated}\n\n[... Result truncated to ${maxSize} characters to save tokens. Original length: ${result.length} characters ...]`;
+    }
+
+    // Record the usage block of an API response. Returns null if the response has none.
+    recordUsage(response: any, conversationId: string, purpose: UsageRecord['purpose']): UsageRecord | null {
+        const usage = response && response.usage;
+        if (!usage || typeof usage.input_tokens !== 'number') return null;
+
+        const record: UsageRecord = {
+            timestamp: Date.now(),
+            model: response.model || this.settings.model,
+            conversationId,
+            purpose,
+            inputTokens: usage.input_tokens || 0,
+            outputTokens: usage.output_tokens || 0,
+            cacheCreationTokens: usage.cache_creation_input_tokens || 0,
+            cacheReadTokens: usage.cache_read_input_tokens || 0
+        };
+
+        // The API bills reasoning as output without breaking it out; estimate it from the returned thinking
+        const thinkingText = (response.content || [])
+            .filter((block: ContentBlock) => block.type === 'thinking')
+            .map((block: ContentBlock) => block.thinking || '')
+            .join('');
+        if (thinkingText) {
+            record.thinkingTokens = Math.min(record.outputTokens, this.estimateTokens(thinkingText));
+        }
+
+        this.conversationStore.appendUsage([record])
+            .catch(error => console.error('Failed to record usage:', error));
+
+        return record;
+    }
+
+    // Show how much of the input the last request and the whole conversation read from the cache
+    updateCacheStatus(records: UsageRecord[]) {
+        if (!this.cacheStatusEl) return;
+
+        const chatRecords = records.filter(record => record.purpose === 'chat');
+        if (!this.settings.enablePromptCaching || chatRecords.length === 0) {
+            this.cacheStatusEl.empty();
+            return;
+        }
+
+        const last = summarizeUsage(chatRecords.slice(-1), () => null);
+        const conversation = summarizeUsage(chatRecords, () => null);
+        this.cacheStatusEl.setText(`Cache ${Math.round(last.cacheHitRate * 100)}% · chat ${Math.round(conversation.cacheHitRate * 100)}%`);
+        this.cacheStatusEl.setAttribute('aria-label', [
+            `Last request: ${formatTokenCount(last.cacheReadTokens)} of ${formatTokenCount(last.totalInput)} input tokens read from cache, ${formatTokenCount(last.cacheCreationTokens)} written`,
+            `This conversation: ${formatTokenCount(conversation.cacheReadTokens)} of ${formatTokenCount(conversation.totalInput)} read from cache over ${conversation.requests} request(s)`,
+            'Click for the cost view'
+        ].join('\n'));
+    }
+
+    getModelPrice(model: string): ModelPrice | null {
+        const key = Object.keys(this.settings.modelPrices)
+            .filter(prefix => model.startsWith(prefix))
+            .sort((a, b) => b.length - a.length)[0];
+        return key ? this.settings.modelPrices[key] : null;
+    }
+
+    // Cost in USD, or null when no price is configured for the model
+    calculateCost(record: UsageRecord): number | null {
+        const price = this.getModelPrice(record.model);
+        if (!price) return null;
+
+        return (record.inputTokens * price.input
+            + record.outputTokens * price.output
+            + record.cacheCreationTokens * price.cacheWrite
+            + record.cacheReadTokens * price.cacheRead) / 1_000_000;
+    }
+
+    // Rough estimate (4 characters per token), used where no API usage is available yet
+    estimateTokens(text: string | ContentBlock[]): number {
+        if (typeof text === 'string') {
+            return Math.ceil(text.length / 4);
+        }
+
+        // For content blocks, sum up all text content
+        let total = 0;
+        for (const block of text) {
+            if (block.text) total += block.text.length / 4;
+            if (block.content) total += block.content.length / 4;
+            if (block.input) total += JSON.stringify(block.input).length / 4;
+        }
+        return Math.ceil(total);
+    }
+
+    // Estimate total tokens in conversation history
+    estimateHistoryTokens(messages: MessageParam[]): number {
+        let total = 0;
+        for (const msg of messages) {
+            total += this.estimateTokens(msg.content);
+        }
+        return total;
+    }
+
+    // Get model's context window size
+    getModelContextWindow(model: string = this.settings.model): number {
+        if (model.includes('opus')) return 200000;
+        if (model.includes('sonnet')) return 200000;
+        if (model.includes('haiku')) return 200000;
+        return 200000; // Default to 200k
+    }
+
+    // Most output tokens (answer plus reasoning) a model can produce per request
+    getModelMaxOutput(model: string = this.settings.model): number {
+        if (model.includes('opus-4')) return 32000;
+        if (model.includes('sonnet-4') || model.includes('haiku-4') || model.includes('3-7-sonnet')) return 64000;
+        if (model.includes('3-5')) return 8192;
+        return 4096;
+    }
+
+    // Get model-specific rate limits (per minute)
+    getModelRateLimits(model: string = this.settings.model): RateLimits {
+        // Limits reported by the API take precedence over the Tier 1 defaults below
+        const learned = this.rateLimiter && this.rateLimiter.learnedLimits.get(model);
+        if (learned) return learned;
+
+        // Claude Haiku 4.5 has higher limits
+        if (model.includes('haiku-4')) {
+            return { rpm: 50, itpm: 50000, otpm: 10000 };
+        }
+
+        // Claude Sonnet 4.x and Opus 4.x (standard limits for Tier 1)
+        return { rpm: 50, itpm: 30000, otpm: 8000 };
+    }
+
+    // Check if we should use a simpler model for simple tasks
+    shouldUseSimpleModel(message: string): boolean {
+        const simplePatterns = [
+            /^(duplicate|copy|rename|move|delete)\s+/i,
+            /^list (files?|folders?)/i,
+            /^show me\s+/i,
+            /^what is\s+/i,
+            /^find\s+/i,
+        ];
+
+        const isShort = message.length < 100;
+        const isSimpleCommand = simplePatterns.some(pattern => pattern.test(message));
+
+        return isShort && isSimpleCommand;
+    }
+
+    // Fold messages into the running summary with the summary model. Callers await this,
+    // so the request that needs the summary is never sent before it is ready.
+    async summarizeConversation(messages: MessageParam[], previousSummary: string = '', conversationId: string = '', signal?: AbortSignal): Promise<string> {
+        if (messages.length === 0) return previousSummary;
+
+        const prompt = [
+            previousSummary ? `<previous_summary>\n${previousSummary}\n</previous_summary>\n` : '',
+            `<new_messages>\n${formatTranscript(messages)}\n</new_messages>\n`,
+            previousSummary
+                ? 'Update the previous summary so it also covers the new messages.'
+                : 'Summarize these messages.',
+            SUMMARY_FORMAT_INSTRUCTIONS
+        ].join('\n');
+
+        const response = await this.callClaude(
+            [{ role: 'user', content: prompt }],
+            'You maintain a running summary of a conversation between a user and an assistant that works in their Obsidian vault. The summary replaces the messages it covers, so keep everything needed to continue the work: what was decided, which files were read or changed and how, and what is still open.',
+            undefined,
+            undefined,
+            signal,
+            undefined,
+            { model: this.settings.summaryModel, maxTokens: 1500, cache: false }
+        );
+        this.recordUsage(response, conversationId, 'summary');
+
+        const summary = getMessageText({ role: 'assistant', content: response.content || [] }).trim();
+        if (!summary) {
+            throw new Error('The summary model returned an empty summary');
+        }
+        return summary;
+    }
+
+    getToolPermission(toolName: string): ToolPermission {
+        const configured = this.settings.toolPermissions[toolName];
+        if (configured) return configured;
+
+        // Unconfigured tools: reads run freely, writes ask first
+        const tool = this.toolRegistry.get(toolName);
+        return tool && tool.permissionClass === 'write' ? 'ask' : 'allow';
+    }
+
+    // Describe what a tool call is about to change so the user can approve it
+    async buildToolChangePreview(toolName: string, input: any): Promise<ToolChangePreview> {
+        const tool = this.toolRegistry.get(toolName);
+        if (tool && tool.preview) {
+            return tool.preview(input);
+        }
+
+        return {
+            title: `Run ${toolName}`,
+            description: `Input:\n${JSON.stringify(input, null, 2)}`,
+            diff: null
+        };
+    }
+
+    // Compact one-line label shown in the chat for a tool execution
+    formatToolSummary(toolName: string, input: any, result: string): string {
+        const tool = this.toolRegistry.get(toolName);
+        if (tool && tool.formatSummary) {
+            try {
+                return tool.formatSummary(input, result);
+            } catch (error) {
+                console.error(`Failed to format summary for ${toolName}:`, error);
+            }
+        }
+        return `🔧 ${toolName}`;
+    }
+
+    // Apply the tool's permission policy. Returns null when the call may run,
+    // otherwise a structured tool_result payload explaining why it did not.
+    // Aborting the signal closes an open approval dialog as a rejection.
+    async checkToolPermission(toolName: string, input: any, signal?: AbortSignal): Promise<string | null> {
+        const permission = this.getToolPermission(toolName);
+
+        if (permission === 'allow') {
+            return null;
+        }
+
+        if (permission === 'deny') {
+            return JSON.stringify({
+                status: 'denied_by_policy',
+                tool: toolName,
+                message: `The user has disabled the ${toolName} tool. Do not call it again; tell the user what you would have done instead.`
+            });
+        }
+
+        const preview = await this.buildToolChangePreview(toolName, input);
+        const approved = signal?.aborted ? false : await new Promise<boolean>(resolve => {
+            const onAbort = () => modal.close();
+            const modal = new ToolApprovalModal(this.app, preview, approved => {
+                signal?.removeEventListener('abort', onAbort);
+                resolve(approved);
+            });
+            signal?.addEventListener('abort', onAbort, { once: true });
+            modal.open();
+        });
+
+        if (approved) {
+            return null;
+        }
+
+        return JSON.stringify({
+            status: 'rejected_by_user',
+            tool: toolName,
+            input: toolName === 'write_file' ? { path: input.path } : input,
+            message: 'The user rejected this change. Nothing was modified. Do not retry the same change; ask the user how they would like to proceed.'
+        });
+    }
+
+    // onChange receives every vault mutation so callers can journal it for undo
+    async executeTool(toolName: string, input: any, onChange?: (change: VaultChange) => void): Promise<string> {
+        const tool = this.toolRegistry.get(toolName);
+        if (!tool) {
+            return `Error: Unknown tool: ${toolName}`;
+        }
+
+        const context: ToolContext = {
+            app: this.app,
+            recordChange: (change: VaultChange) => {
+                if (onChange) onChange(change);
+            }
+        };
+
+        try {
+            const result = await tool.handler(input, context);
+            return this.truncateToolResult(result, tool.resultBudget);
+        } catch (error) {
+            if (error instanceof ToolInputError) {
+                return `Error: ${error.message}`;
+            }
+            return `Error executing ${toolName}: ${error.message}`;
+        }
+    }
+
+    // Build the /v1/messages request body shared by streaming and non-streaming calls
+    buildRequestBody(messages: MessageParam[], systemPrompt?: string | SystemPromptParts, tools?: Tool[], options: RequestOptions = {}): any {
+        // Cached prefix order is tools, then system, then messages; each gets a breakpoint
+        // at the end of its stable part (4 at most, which is the API's limit)
+        const caching = this.settings.enablePromptCaching && options.cache !== false;
+        const cacheControl = { type: 'ephemeral' as const };
+
+        const requestBody: any = {
+            model: options.model || this.settings.model,
+            max_tokens: options.maxTokens || this.settings.maxTokens,
+            messages: caching ? addHistoryCacheBreakpoints(messages) : messages
+        };
+
+        // Reasoning comes out of max_tokens, so raise it by the budget to keep room for the answer.
+        // Past the model's output limit the budget shrinks instead, so the answer keeps its share.
+        if (options.thinkingBudget) {
+            const total = Math.min(requestBody.max_tokens + options.thinkingBudget, this.getModelMaxOutput(requestBody.model));
+            const budget = Math.max(1024, Math.min(options.thinkingBudget, total - requestBody.max_tokens));
+            requestBody.thinking = { type: 'enabled', budget_tokens: budget };
+            requestBody.max_tokens = total;
+        } else if (options.temperature !== undefined) {
+            requestBody.temperature = options.temperature;
+        }
+
+        // Add system prompt with optional caching
+        if (systemPrompt) {
+            const parts = typeof systemPrompt === 'string' ? { stable: systemPrompt, dynamic: '' } : systemPrompt;
+            if (caching) {
+                // Use prompt caching for the stable instructions (reduces costs by 90%). The
+                // system prompt comes before the history, so any change there would also miss
+                // the history's cache; the dynamic part rides on the newest message instead
+                const blocks: any[] = [];
+                if (parts.stable.trim()) blocks.push({ type: 'text', text: parts.stable, cache_control: cacheControl });
+                if (parts.dynamic.trim()) {
+                    const withContext = appendDynamicContext(requestBody.messages, parts.dynamic);
+                    if (withContext) {
+                        requestBody.messages = withContext;
+                    } else {
+                        blocks.push({ type: 'text', text: parts.dynamic });
+                    }
+                }
+                if (blocks.length > 0) requestBody.system = blocks;
+            } else {
+                // Standard system prompt without caching
+                const text = [parts.stable, parts.dynamic].filter(part => part.trim()).join('\n\n');
+                if (text) requestBody.system = text;
+            }
+        }
+
+        // Add tools if provided; the breakpoint on the last one caches all definitions
+        if (tools && tools.length > 0) {
+            requestBody.tools = caching
+                ? tools.map((tool, index) => index === tools.length - 1 ? { ...tool, cache_control: cacheControl } : tool)
+                : tools;
+        }
+
+        return requestBody;
+    }
+
+    // Errors raised when the user cancels an in-flight request
+    createAbortError(): Error {
+        const error = new Error('Request cancelled by user');
+        error.name = 'AbortError';
+        return error;
+    }
+
+    isAbortError(error: any): boolean {
+        return !!error && error.name === 'AbortError';
+    }
+
+    // Reject as soon as the signal aborts, even if the underlying promise cannot be cancelled
+    abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+        if (!signal) return promise;
+        if (signal.aborted) return Promise.reject(this.createAbortError());
+
+        return new Promise<T>((resolve, reject) => {
+            const onAbort = () => reject(this.createAbortError());
+            signal.addEventListener('abort', onAbort, { once: true });
+            promise.then(
+                value => { signal.removeEventListener('abort', onAbort); resolve(value); },
+                error => { signal.removeEventListener('abort', onAbort); reject(error); }
+            );
+        });
+    }
+
+    // Wait for the given delay, cut short if the signal aborts
+    sleep(ms: number, signal?: AbortSignal): Promise<void> {
+        return this.abortable(new Promise<void>(resolve => setTimeout(resolve, ms)), signal);
+    }
+
+    // Rough input size of a request for rate limiting, before the API reports the real count
+    estimateRequestTokens(requestBody: any): number {
+        return Math.ceil(JSON.stringify({ system: requestBody.system, tools: requestBody.tools, messages: requestBody.messages }).length / 4);
+    }
+
+    // Case-insensitive header access for requestUrl responses
+    headerLookup(headers: Record<string, string>): (name: string) => string | undefined {
+        const lower: Record<string, string> = {};
+        Object.keys(headers || {}).forEach(key => lower[key.toLowerCase()] = headers[key]);
+        return name => lower[name.toLowerCase()];
+    }
+
+    isRetryable(error: ClaudeApiError, policy: RetryPolicy): boolean {
+        return error.status === 0 ? policy.retryNetworkErrors : policy.retryStatuses.includes(error.status);
+    }
+
+    // Run a request, retrying ClaudeApiErrors the retry policy allows until attempts or the deadline run out
+    async withRetries<T>(attemptRequest: (attempt: number) => Promise<T>, onRetry?: (info: RetryInfo) => void, signal?: AbortSignal): Promise<T> {
+        const policy = this.settings.retryPolicy;
+        const startTime = Date.now();
+
+        for (let attempt = 1; ; attempt++) {
+            try {
+                return await attemptRequest(attempt);
+            } catch (error) {
+                if (!(error instanceof ClaudeApiError)) {
+                    throw error;
+                }
+                error.attempts = attempt;
+
+                if (!this.isRetryable(error, policy) || attempt >= policy.maxAttempts) {
+                    throw error;
+                }
+
+                const delay = computeRetryDelay(attempt, policy, error.retryAfter);
+                if (Date.now() - startTime + delay > policy.deadlineMs) {
+                    console.log(`Not retrying: next attempt would pass the ${policy.deadlineMs / 1000}s deadline`);
+                    throw error;
+                }
+
+                console.log(`${error.message} - retrying in ${delay}ms (attempt ${attempt}/${policy.maxAttempts})`);
+                if (onRetry) {
+                    onRetry({ attempt, maxAttempts: policy.maxAttempts, delay, error });
+                }
+                await this.sleep(delay, signal);
+            }
+        }
+    }
+
+    async callClaude(messages: MessageParam[], systemPrompt?: string | SystemPromptParts, tools?: Tool[], onRetry?: (info: RetryInfo) => void, signal?: AbortSignal, onRateLimitWait?: (seconds: number) => void, options: RequestOptions = {}): Promise<any> {
+        if (!this.settings.apiKey) {
+            throw new Error('Claude API key not configured');
+        }
+
+        const requestBody = this.buildRequestBody(messages, systemPrompt, tools, options);
+
+        const makeRequest = async (attemptNumber: number): Promise<any> => {
+            // Debug logging
+            console.log(`=== Claude API Request (Attempt ${attemptNumber}/${this.settings.retryPolicy.maxAttempts}) ===`);
+            console.log('URL:', 'https://api.anthropic.com/v1/messages');
+            console.log('Model:', requestBody.model);
+            console.log('Max Tokens:', requestBody.max_tokens);
+            console.log('Messages:', JSON.stringify(messages, null, 2));
+            console.log('System Prompt:', requestBody.system ? JSON.stringify(requestBody.system).substring(0, 100) + '...' : 'none');
+            console.log('API Key (first 20 chars):', this.settings.apiKey.substring(0, 20) + '...');
+            if (attemptNumber === 1) {
+                console.log('Full Request Body:', JSON.stringify(requestBody, null, 2));
+            }
+
+            const reservation = await this.rateLimiter.acquire(requestBody.model, this.estimateRequestTokens(requestBody), signal, onRateLimitWait);
+
+            let response;
+            try {
+                // requestUrl cannot be cancelled - on abort the response is discarded instead
+                response = await this.abortable(requestUrl({
+                    url: 'https://api.anthropic.com/v1/messages',
+                    method: 'POST',
+                    headers: {
+                        'Content-Type': 'application/json',
+                        'x-api-key': this.settings.apiKey,
+                        'anthropic-version': '2023-06-01'
+                    },
+                    body: JSON.stringify(requestBody),
+                    throw: false  // Don't throw on non-200 status
+                }), signal);
+
+                console.log('=== Claude API Response ===');
+                console.log('Status:', response.status);
+                console.log('Headers:', response.headers);
+                console.log('Response text:', response.text);
+                console.log('Response JSON:', response.json);
+
+                this.rateLimiter.updateFromHeaders(requestBody.model, this.headerLookup(response.headers));
+
+                // Check for error status
+                if (response.status !== 200) {
+                    let errorMessage = 'Unknown error';
+                    let errorType = 'unknown';
+                    const errorData = response.json || (response.text ? JSON.parse(response.text) : null);
+                    console.error('=== Claude API Error Response ===');
+                    console.error('Error data:', JSON.stringify(errorData, null, 2));
+
+                    if (errorData && errorData.error) {
+                        errorMessage = errorData.error.message || JSON.stringify(errorData.error);
+                        errorType = errorData.error.type || 'unknown';
+                    } else if (errorData && errorData.message) {
+                        errorMessage = errorData.message;
+                    } else if (response.text) {
+                        errorMessage = response.text;
+                    }
+
+                    // Check retry-after header for rate limits
+                    const retryAfter = parseFloat(this.headerLookup(response.headers)('retry-after') || '');
+
+                    // withRetries decides whether this status is worth another attempt
+                    throw new ClaudeApiError(response.status, errorType, errorMessage, isNaN(retryAfter) ? null : retryAfter);
+                }
+
+                const data = response.json;
+                this.rateLimiter.settle(reservation, data.usage);
+
+                // Return the full response data so we can handle tool use
+                return data;
+            } catch (error) {
+                // A rejected or cancelled request used none of its reservation
+                this.rateLimiter.release(requestBody.model, reservation);
+
+                // Log detailed error for debugging
+                console.error('=== Claude API Error (catch block) ===');
+                console.error('Error object:', error);
+                console.error('Error type:', typeof error);
+                console.error('Error keys:', Object.keys(error));
+
+                // Log all properties of the error
+                for (const key in error) {
+                    console.error(`Error.${key}:`, error[key]);
+                }
+
+                // If we already formatted the error above (or the user cancelled), just re-throw it
+                if (this.isAbortError(error) || error instanceof ClaudeApiError) {
+                    throw error;
+                }
+
+                // No response at all means the API could not be reached
+                if (!response) {
+                    throw new ClaudeApiError(0, 'network_error', error.message || String(error));
+                }
+
+                throw new Error(`Unexpected error: ${error.message || String(error)}`);
+            }
+        };
+
+        return this.withRetries(makeRequest, onRetry, signal);
+    }
+
+    // Stream a response over SSE, assembling the same message shape callClaude returns.
+    // Falls back to the non-streaming path when streaming is disabled or unavailable.
+    async callClaudeStreaming(messages: MessageParam[], systemPrompt: string | SystemPromptParts | undefined, tools: Tool[] | undefined, callbacks: StreamCallbacks, onRetry?: (info: RetryInfo) => void, signal?: AbortSignal, options: RequestOptions = {}): Promise<any> {
+        if (!this.settings.apiKey) {
+            throw new Error('Claude API key not configured');
+        }
+
+        if (!this.settings.enableStreaming || this.streamingUnavailable || typeof fetch !== 'function') {
+            return this.callClaude(messages, systemPrompt, tools, onRetry, signal, callbacks.onRateLimitWait, options);
+        }
+
+        const requestBody = this.buildRequestBody(messages, systemPrompt, tools, options);
+        requestBody.stream = true;
+
+        const message = await this.withRetries(() => this.streamRequest(requestBody, callbacks, signal), onRetry, signal);
+        return message || this.callClaude(messages, systemPrompt, tools, onRetry, signal, callbacks.onRateLimitWait, options);
+    }
+
+    // One streaming attempt. Returns null when streaming turns out to be unusable here,
+    // so the caller can fall back to the non-streaming request.
+    async streamRequest(requestBody: any, callbacks: StreamCallbacks, signal?: AbortSignal): Promise<any | null> {
+        console.log('=== Claude API Streaming Request ===');
+        console.log('Model:', requestBody.model);
+        console.log('Max Tokens:', requestBody.max_tokens);
+
+        // Without fetch or readable bodies there is no way to stream here
+        if (typeof fetch !== 'function' || typeof ReadableStream === 'undefined') {
+            console.warn('Streaming is not supported here, falling back to non-streaming');
+            this.streamingUnavailable = true;
+            return null;
+        }
+
+        const reservation = await this.rateLimiter.acquire(requestBody.model, this.estimateRequestTokens(requestBody), signal, callbacks.onRateLimitWait);
+
+        let response: Response;
+        try {
+            response = await fetch('https://api.anthropic.com/v1/messages', {
                 method: 'POST',
                 headers: {
                     'Content-Type': 'application/json',
                     'x-api-key': this.settings.apiKey,
-                    'anthropic-version': '2023-06-01'
+                    'anthropic-version': '2023-06-01',
+                    'anthropic-dangerous-direct-browser-access': 'true'
                 },
-                body: JSON.stringify({
-                    model: 'claude-haiku-4-5-20251001', // Use fastest model for this
-                    max_tokens: 50,
-                    messages: [
-                        {
-                            role: 'user',
-                            content: `Generate a concise 3-5 word title for this conversation. Only return the title, nothing else:\n\n${conversationContext}`
-                        }
-                    ]
-                })
+                body: JSON.stringify(requestBody),
+                signal
             });
+        } catch (error) {
+            this.rateLimiter.release(requestBody.model, reservation);
+
+            if (this.isAbortError(error)) {
+                throw this.createAbortError();
+            }
+
+            // Offline, or a failure other than the TypeError fetch uses for blocked requests:
+            // the API could not be reached, which is worth retrying
+            if (!navigator.onLine || !(error instanceof TypeError)) {
+                throw new ClaudeApiError(0, 'network_error', error.message || String(error));
+            }
+
+            // Online but refused outright, as when CORS blocks the request - remember and fall back
+            console.warn('Streaming request failed, falling back to non-streaming:', error);
+            this.streamingUnavailable = true;
+            return null;
+        }
+
+        this.rateLimiter.updateFromHeaders(requestBody.model, name => response.headers.get(name));
+
+        if (!response.body) {
+            console.warn('Streaming response has no body, falling back to non-streaming');
+            this.streamingUnavailable = true;
+            this.rateLimiter.release(requestBody.model, reservation);
+            return null;
+        }
+
+        if (response.status !== 200) {
+            const errorText = await response.text();
+            let errorMessage = errorText || 'Unknown error';
+            let errorType = 'unknown';
+            try {
+                const errorData = JSON.parse(errorText);
+                if (errorData && errorData.error) {
+                    errorMessage = errorData.error.message || JSON.stringify(errorData.error);
+                    errorType = errorData.error.type || 'unknown';
+                }
+            } catch (e) {
+                // Not JSON - keep raw text
+            }
+
+            // A rejected request used none of its reservation
+            this.rateLimiter.release(requestBody.model, reservation);
+
+            const retryAfter = parseFloat(response.headers.get('retry-after') || '');
+            throw new ClaudeApiError(response.status, errorType, errorMessage, isNaN(retryAfter) ? null : retryAfter);
+        }
+
+        const message: any = { content: [], stop_reason: null, usage: {} };
+        const toolInputBuffers: Record<number, string> = {};
+        let fullText = '';
+
+        const handleEvent = (data: any) => {
+            switch (data.type) {
+                case 'message_start':
+                    Object.assign(message, data.message, { content: [] });
+                    break;
+
+                case 'content_block_start': {
+                    const block = { ...data.content_block };
+                    if (block.type === 'thinking') {
+                        block.thinking = block.thinking || '';
+                        block.signature = block.signature || '';
+                    } else if (block.type === 'tool_use') {
+                        block.input = {};
+                        toolInputBuffers[data.index] = '';
+                        if (callbacks.onToolUseStart) {
+                            callbacks.onToolUseStart(block.name);
+                        }
+                    }
+                    message.content[data.index] = block;
+                    break;
+                }
+
+                case 'content_block_delta': {
+                    const block = message.content[data.index];
+                    if (!block) break;
+                    if (data.delta.type === 'text_delta') {
+                        block.text = (block.text || '') + data.delta.text;
+                        fullText += data.delta.text;
+                        if (callbacks.onText) {
+                            callbacks.onText(data.delta.text, fullText);
+                        }
+                    } else if (data.delta.type === 'input_json_delta') {
+                        toolInputBuffers[data.index] += data.delta.partial_json;
+                    } else if (data.delta.type === 'thinking_delta') {
+                        block.thinking += data.delta.thinking;
+                        if (callbacks.onThinking) {
+                            callbacks.onThinking(block.thinking);
+                        }
+                    } else if (data.delta.type === 'signature_delta') {
+                        block.signature += data.delta.signature;
+                    }
+                    break;
+                }
+
+                case 'content_block_stop': {
+                    const block = message.content[data.index];
+                    if (block && block.type === 'tool_use') {
+                        const json = toolInputBuffers[data.index];
+                        block.input = json ? JSON.parse(json) : {};
+                    }
+                    break;
+                }
+
+                case 'message_delta':
+                    if (data.delta && data.delta.stop_reason) {
+                        message.stop_reason = data.delta.stop_reason;
+                    }
+                    if (data.usage) {
+                        message.usage = { ...message.usage, ...data.usage };
+                    }
+                    break;
+
+                case 'error': {
+                    const errorType = data.error?.type || 'unknown';
+                    throw ClaudeApiError.fromStreamError(errorType, data.error?.message || 'Stream error');
+                }
+            }
+        };
+
+        // Parse server-sent events: blocks separated by blank lines, JSON in "data:" lines
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+
+        const processEventBlock = (rawEvent: string) => {
+            const dataLines = rawEvent
+                .split('\n')
+                .filter(line => line.startsWith('data:'))
+                .map(line => line.substring(5).trim());
+            if (dataLines.length === 0) return;
+            handleEvent(JSON.parse(dataLines.join('\n')));
+        };
+
+        // Stop the download when the stream fails part way (a bad event, an error event, a dropped connection)
+        try {
+            while (true) {
+                let chunk: ReadableStreamDefaultReadResult<Uint8Array>;
+                try {
+                    chunk = await reader.read();
+                } catch (error) {
+                    // fetch rejects pending reads with a DOMException when the signal aborts
+                    if (signal?.aborted) {
+                        throw this.createAbortError();
+                    }
+                    // The connection dropped mid-stream
+                    throw new ClaudeApiError(0, 'network_error', error.message || String(error));
+                }
+
+                const { done, value } = chunk;
+                if (done) break;
+
+                buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n');
+
+                let separatorIndex;
+                while ((separatorIndex = buffer.indexOf('\n\n')) >= 0) {
+                    const rawEvent = buffer.substring(0, separatorIndex);
+                    buffer = buffer.substring(separatorIndex + 2);
+                    processEventBlock(rawEvent);
+                }
+            }
+
+            if (buffer.trim()) {
+                processEventBlock(buffer);
+            }
+        } catch (error) {
+            reader.cancel().catch(() => {});
+            throw error;
+        }
+
+        // Drop any gaps left by unexpected block indices
+        message.content = message.content.filter((block: ContentBlock | undefined) => block);
+
+        console.log('=== Claude API Streaming Response Complete ===');
+        console.log('Stop reason:', message.stop_reason);
+        console.log('Usage:', message.usage);
+
+        this.rateLimiter.settle(reservation, message.usage);
+        return message;
+    }
+}
+
+// Journal of vault changes made by Claude in one conversation, used to undo them
+class ChangeJournal {
+    app: App;
+    entries: JournalEntry[];
+
+    constructor(app: App, entries: JournalEntry[] = []) {
+        this.app = app;
+        this.entries = entries;
+    }
+
+    record(turnId: string, toolName: string, change: VaultChange): JournalEntry {
+        const entry: JournalEntry = {
+            ...change,
+            id: `chg_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`,
+            turnId,
+            toolName,
+            timestamp: Date.now(),
+            reverted: false
+        };
+        this.entries.push(entry);
+        return entry;
+    }
+
+    // Changes that have not been reverted yet, optionally limited to one turn
+    getActiveEntries(turnId?: string): JournalEntry[] {
+        return this.entries.filter(e => !e.reverted && (!turnId || e.turnId === turnId));
+    }
+
+    // Entries in the order they were recorded; timestamps tie for changes made in the same millisecond
+    inOrder(entries: JournalEntry[]): JournalEntry[] {
+        return [...entries].sort((a, b) => this.entries.indexOf(a) - this.entries.indexOf(b));
+    }
+
+    // Paths whose current state no longer matches what Claude left behind,
+    // i.e. the user (or a later turn) changed them afterwards
+    async findConflicts(entries: JournalEntry[]): Promise<Set<string>> {
+        const vault = this.app.vault;
+        const conflicts = new Set<string>();
+
+        // Only the most recent change to each file needs to match the vault. A rename carries
+        // the file's earlier changes to its new path: what was last written must be there, and
+        // a conflict there also covers the paths the file had before.
+        const latestByPath = new Map<string, JournalEntry>();
+        const writtenByPath = new Map<string, JournalEntry>();
+        const earlierPaths = new Map<string, string[]>();
+        for (const entry of this.inOrder(entries)) {
+            if (entry.action === 'rename' && entry.oldPath) {
+                const written = writtenByPath.get(entry.oldPath);
+                if (written) writtenByPath.set(entry.path, written);
+                earlierPaths.set(entry.path, [...(earlierPaths.get(entry.oldPath) || []), entry.oldPath]);
+                latestByPath.delete(entry.oldPath);
+                writtenByPath.delete(entry.oldPath);
+                earlierPaths.delete(entry.oldPath);
+            } else if (entry.action === 'modify' || entry.action === 'create') {
+                writtenByPath.set(entry.path, entry);
+            } else {
+                writtenByPath.delete(entry.path);
+            }
+            latestByPath.set(entry.path, entry);
+        }
+
+        for (const entry of latestByPath.values()) {
+            const file = vault.getAbstractFileByPath(entry.path);
+            let conflict = false;
+
+            switch (entry.action) {
+                case 'modify':
+                case 'create':
+                    conflict = !(file instanceof TFile) || (await this.readContent(file, entry.binary)) !== entry.after;
+                    break;
+                case 'rename': {
+                    const written = writtenByPath.get(entry.path);
+                    conflict = !file || !!vault.getAbstractFileByPath(entry.oldPath!)
+                        || (!!written && (!(file instanceof TFile) || (await this.readContent(file, written.binary)) !== written.after));
+                    break;
+                }
+                case 'delete':
+                    conflict = !!file;
+                    break;
+                case 'create_folder':
+                    // Reverting only removes the folder while it is still empty
+                    conflict = !(file instanceof TFolder) || file.children.length > 0;
+                    break;
+                case 'delete_folder':
+                    // Recreating a folder that already exists is harmless
+                    break;
+            }
+
+            if (conflict) {
+                conflicts.add(entry.path);
+                (earlierPaths.get(entry.path) || []).forEach(path => conflicts.add(path));
+            }
+        }
+
+        return conflicts;
+    }
+
+    // Revert changes newest first. Entries touching a path in skipPaths are left alone.
+    async revert(entries: JournalEntry[], skipPaths: Set<string> = new Set()): Promise<{ reverted: number; skipped: string[]; failed: string[] }> {
+        const ordered = this.inOrder(entries).reverse();
+        const skipped = new Set<string>();
+        const failed: string[] = [];
+        let reverted = 0;
+
+        for (const entry of ordered) {
+            if (skipPaths.has(entry.path) || (entry.oldPath && skipPaths.has(entry.oldPath))) {
+                skipped.add(entry.path);
+                continue;
+            }
+
+            try {
+                await this.revertEntry(entry);
+                entry.reverted = true;
+                reverted++;
+            } catch (error) {
+                failed.push(`${entry.path}: ${error.message}`);
+            }
+        }
+
+        return { reverted, skipped: [...skipped], failed };
+    }
+
+    async revertEntry(entry: JournalEntry) {
+        const vault = this.app.vault;
+        const file = vault.getAbstractFileByPath(entry.path);
+
+        switch (entry.action) {
+            case 'modify':
+            case 'delete':
+                // Restore the previous content, recreating the file if needed
+                if (entry.binary) {
+                    const data = base64ToArrayBuffer(entry.before || '');
+                    if (file instanceof TFile) {
+                        await vault.modifyBinary(file, data);
+                    } else {
+                        await this.ensureParentFolder(entry.path);
+                        await vault.createBinary(entry.path, data);
+                    }
+                } else if (file instanceof TFile) {
+                    await vault.modify(file, entry.before || '');
+                } else {
+                    await this.ensureParentFolder(entry.path);
+                    await vault.create(entry.path, entry.before || '');
+                }
+                break;
+
+            case 'create':
+                if (file instanceof TFile) {
+                    await vault.trash(file, true);
+                }
+                break;
+
+            case 'rename':
+                if (!file) {
+                    throw new Error('File no longer exists');
+                }
+                await this.ensureParentFolder(entry.oldPath!);
+                await this.app.fileManager.renameFile(file, entry.oldPath!);
+                break;
+
+            case 'create_folder':
+                if (file instanceof TFolder) {
+                    if (file.children.length > 0) {
+                        throw new Error('Folder is no longer empty');
+                    }
+                    await vault.trash(file, true);
+                }
+                break;
+
+            case 'delete_folder':
+                if (!file) {
+                    await vault.createFolder(entry.path);
+                }
+                break;
+        }
+    }
+
+    // File content in the form the journal stores as after: text, or a binary file's fingerprint
+    async readContent(file: TFile, binary?: boolean): Promise<string> {
+        return binary ? fingerprintBinary(await this.app.vault.readBinary(file)) : this.app.vault.read(file);
+    }
+
+    async ensureParentFolder(path: string) {
+        const folder = path.substring(0, path.lastIndexOf('/'));
+        if (folder && !this.app.vault.getAbstractFileByPath(folder)) {
+            await this.app.vault.createFolder(folder);
+        }
+    }
+}
+
+// Listing data for one stored conversation, kept in index.json so listing needs no other reads
+interface ConversationIndexEntry {
+    id: string;
+    name: string;
+    timestamp: number;       // Last saved
+    messageCount: number;
+    pinned?: boolean;
+    renamed?: boolean;
+    models?: string[];       // Models that answered, from recorded usage
+    files?: string[];        // Vault paths passed to tools or changed by them
+    preview?: { user: string, assistant: string };  // Start of the first exchange
+}
+
+interface ConversationSearchHit {
+    messageIndex: number;    // Position in the conversation's messages
+    snippet: string;
+}
+
+// Text a reader sees in a message: string content, or its text blocks
+function getMessageText(message: MessageParam): string {
+    if (typeof message.content === 'string') {
+        return message.content;
+    }
+    return message.content
+        .filter(block => block.type === 'text' && block.text)
+        .map(block => block.text)
+        .join('\n');
+}
+
+// Thinking and redacted_thinking blocks of an assistant message, in order
+function getReasoningBlocks(content: string | ContentBlock[]): ContentBlock[] {
+    if (typeof content === 'string') {
+        return [];
+    }
+    return content.filter(block => block.type === 'thinking' || block.type === 'redacted_thinking');
+}
+
+// Drop reasoning from the history for requests sent without thinking. A message that
+// would be left empty is kept whole.
+function withoutReasoningBlocks(messages: MessageParam[]): MessageParam[] {
+    return messages.map(message => {
+        if (typeof message.content === 'string' || getReasoningBlocks(message.content).length === 0) {
+            return message;
+        }
+        const content = message.content.filter(block => block.type !== 'thinking' && block.type !== 'redacted_thinking');
+        return content.length > 0 ? { ...message, content } : message;
+    });
+}
+
+// Turn tool calls and results into plain text, for requests that offer no tools:
+// the API refuses tool_use and tool_result blocks without tool definitions
+function withoutToolBlocks(messages: MessageParam[]): MessageParam[] {
+    return messages.map(message => {
+        if (typeof message.content === 'string' || !message.content.some(block => block.type === 'tool_use' || block.type === 'tool_result')) {
+            return message;
+        }
+        const content = message.content.map((block): ContentBlock => {
+            if (block.type === 'tool_use') {
+                return { type: 'text', text: `[Called ${block.name} with ${JSON.stringify(block.input)}]` };
+            }
+            if (block.type === 'tool_result') {
+                return { type: 'text', text: `[Tool result${block.is_error ? ' (error)' : ''}: ${block.content || ''}]` };
+            }
+            return block;
+        });
+        return { ...message, content };
+    });
+}
+
+// Extended thinking is available from Claude 3.7 Sonnet on
+function supportsThinking(model: string): boolean {
+    return /claude-(3-7-sonnet|sonnet-4|opus-4|haiku-4)/.test(model);
+}
+
+// Paths of the files attached to a user message ([File: path] ... [End File: path])
+function getAttachedFilePaths(content: string): string[] {
+    return [...new Set([...content.matchAll(/^\[End File: (.+)\]$/gm)].map(match => match[1]))];
+}
+
+// An instruction note (_claude.md) that applies to the files a turn works with
+interface InstructionFile {
+    path: string;
+    content: string;
+}
+
+function getConversationFiles(conversation: SavedConversation): string[] {
+    const files = new Set<string>();
+    for (const message of conversation.messages) {
+        if (!Array.isArray(message.content)) continue;
+        for (const block of message.content) {
+            if (block.type !== 'tool_use' || !block.input) continue;
+            for (const key of ['path', 'old_path', 'new_path', 'source_path', 'destination_path']) {
+                if (typeof block.input[key] === 'string' && block.input[key]) files.add(block.input[key]);
+            }
+        }
+    }
+    for (const change of conversation.changes || []) {
+        files.add(change.path);
+        if (change.oldPath) files.add(change.oldPath);
+    }
+    return [...files].sort();
+}
+
+function buildIndexEntry(conversation: SavedConversation): ConversationIndexEntry {
+    const shorten = (text: string) => text.length > 160 ? text.substring(0, 160).trim() + '...' : text;
+    const firstUser = conversation.messages.find(message => message.role === 'user' && getMessageText(message));
+    const firstAssistant = conversation.messages.find(message => message.role === 'assistant' && getMessageText(message));
+
+    return {
+        id: conversation.id,
+        name: conversation.name,
+        timestamp: conversation.timestamp,
+        messageCount: conversation.messages.length,
+        pinned: conversation.pinned || false,
+        renamed: conversation.renamed || false,
+        models: [...new Set((conversation.usage || []).map(record => record.model))],
+        files: getConversationFiles(conversation),
+        preview: {
+            user: firstUser ? shorten(getMessageText(firstUser)) : '',
+            assistant: firstAssistant ? shorten(getMessageText(firstAssistant)) : ''
+        }
+    };
+}
+
+// Conversations on disk, one set of files per conversation:
+//   <id>.jsonl      one message per line; appended to while earlier messages are unchanged
+//   <id>.meta.json  name, summary and usage
+//   <id>.changes.json  the change journal, rewritten only when it changes
+//   <id>.tree.json  all branches, for conversations that have them
+//   index.json      ConversationIndexEntry for every conversation
+//   usage.jsonl     every request's usage, appended as it happens
+class ConversationStore {
+    app: App;
+    folder: string;
+    index: ConversationIndexEntry[] | null = null;
+    writtenLines: Map<string, string[]> = new Map();  // Message lines known to be on disk, per conversation
+    writtenChanges: Map<string, string> = new Map();  // Change journal known to be on disk, per conversation
+    messageTexts: Map<string, string[]> = new Map();  // Per conversation, for search
+    usage: UsageRecord[] | null = null;
+    queue: Promise<void> = Promise.resolve();          // Writes run one at a time, in call order
+
+    constructor(app: App, folder: string) {
+        this.app = app;
+        this.folder = folder.replace(/\/$/, '');
+    }
+
+    get adapter() {
+        return this.app.vault.adapter;
+    }
+
+    messagesPath(id: string): string {
+        return `${this.folder}/${id}.jsonl`;
+    }
+
+    metaPath(id: string): string {
+        return `${this.folder}/${id}.meta.json`;
+    }
+
+    treePath(id: string): string {
+        return `${this.folder}/${id}.tree.json`;
+    }
+
+    changesPath(id: string): string {
+        return `${this.folder}/${id}.changes.json`;
+    }
+
+    get indexPath(): string {
+        return `${this.folder}/index.json`;
+    }
+
+    get usagePath(): string {
+        return `${this.folder}/usage.jsonl`;
+    }
+
+    // Run a write after the ones already queued, so overlapping saves can't append the
+    // same lines twice or drop each other's index entries
+    enqueue<T>(task: () => Promise<T>): Promise<T> {
+        const result = this.queue.then(task);
+        this.queue = result.then(() => undefined, () => undefined);
+        return result;
+    }
+
+    async ensureFolder() {
+        if (!(await this.adapter.exists(this.folder))) {
+            await this.adapter.mkdir(this.folder);
+        }
+    }
+
+    // Parse JSON lines, skipping a partial line left by an interrupted append
+    parseLines<T>(raw: string): T[] {
+        const items: T[] = [];
+        for (const line of raw.split('\n')) {
+            if (!line.trim()) continue;
+            try {
+                items.push(JSON.parse(line));
+            } catch (error) {
+                console.warn('Skipping unreadable line in conversation store:', line.substring(0, 100));
+            }
+        }
+        return items;
+    }
+
+    async getIndex(): Promise<ConversationIndexEntry[]> {
+        if (this.index) return this.index;
+
+        try {
+            if (await this.adapter.exists(this.indexPath)) {
+                this.index = JSON.parse(await this.adapter.read(this.indexPath));
+                return this.index!;
+            }
+        } catch (error) {
+            console.error('Conversation index unreadable, rebuilding:', error);
+        }
+
+        this.index = await this.rebuildIndex();
+        return this.index;
+    }
+
+    // Recreate the index from the meta files, e.g. after index.json was lost
+    async rebuildIndex(): Promise<ConversationIndexEntry[]> {
+        if (!(await this.adapter.exists(this.folder))) return [];
+
+        const entries: ConversationIndexEntry[] = [];
+        const listing = await this.adapter.list(this.folder);
+        for (const path of listing.files.filter(file => file.endsWith('.meta.json'))) {
+            try {
+                const { id, name, timestamp, messageCount, pinned, renamed, models, files, preview } = JSON.parse(await this.adapter.read(path));
+                entries.push({ id, name, timestamp, messageCount: messageCount || 0, pinned, renamed, models, files, preview });
+            } catch (error) {
+                console.error(`Skipping unreadable conversation ${path}:`, error);
+            }
+        }
+        return entries;
+    }
+
+    async writeIndex() {
+        await this.ensureFolder();
+        await this.adapter.write(this.indexPath, JSON.stringify(await this.getIndex()));
+    }
+
+    save(conversation: SavedConversation): Promise<void> {
+        return this.enqueue(() => this.write(conversation));
+    }
+
+    async write(conversation: SavedConversation) {
+        await this.ensureFolder();
+
+        // Pinning and renaming happen in the history browser; a save from the chat keeps them
+        const index = await this.getIndex();
+        const previous = index.find(entry => entry.id === conversation.id);
+        if (previous) {
+            conversation = {
+                ...conversation,
+                pinned: previous.pinned,
+                renamed: previous.renamed,
+                name: previous.renamed ? previous.name : conversation.name
+            };
+        }
+
+        // Append only the new messages when everything already written is unchanged;
+        // rewrite the file when earlier messages were pruned, summarized or edited
+        const lines = conversation.messages.map(message => JSON.stringify(message));
+        const written = this.writtenLines.get(conversation.id);
+        const path = this.messagesPath(conversation.id);
+        const canAppend = written !== undefined
+            && written.length <= lines.length
+            && written.every((line, index) => line === lines[index])
+            && await this.adapter.exists(path);
+
+        if (canAppend) {
+            if (lines.length > written!.length) {
+                await this.adapter.append(path, lines.slice(written!.length).map(line => line + '\n').join(''));
+            }
+        } else {
+            await this.adapter.write(path, lines.map(line => line + '\n').join(''));
+        }
+        this.writtenLines.set(conversation.id, lines);
+        this.messageTexts.set(conversation.id, conversation.messages.map(getMessageText));
+
+        const { messages, tree, changes, ...meta } = conversation;
+        const entry = buildIndexEntry(conversation);
+        await this.adapter.write(this.metaPath(conversation.id), JSON.stringify({ ...meta, ...entry }));
+
+        // The journal holds whole file contents, so it is only written when an entry was added or reverted
+        const changesText = JSON.stringify(changes || []);
+        if (changesText !== this.writtenChanges.get(conversation.id)) {
+            await this.adapter.write(this.changesPath(conversation.id), changesText);
+            this.writtenChanges.set(conversation.id, changesText);
+        }
 
-            const data = response.json;
-            if (data.content && data.content[0] && data.content[0].text) {
-                const title = data.content[0].text.trim().replace(/^["']|["']$/g, ''); // Remove quotes
-                return title.length > 0 ? title : 'Untitled Conversation';
+        const treePath = this.treePath(conversation.id);
+        if (tree) {
+            await this.adapter.write(treePath, JSON.stringify(tree));
+        } else if (await this.adapter.exists(treePath)) {
+            await this.adapter.remove(treePath);
+        }
+
+        const existing = index.findIndex(e => e.id === conversation.id);
+        if (existing >= 0) {
+            index[existing] = entry;
+        } else {
+            index.push(entry);
+        }
+        await this.writeIndex();
+    }
+
+    // Change listing details without touching the messages
+    update(id: string, changes: { name?: string, pinned?: boolean }): Promise<void> {
+        return this.enqueue(async () => {
+            const entry = (await this.getIndex()).find(e => e.id === id);
+            if (!entry) return;
+
+            if (changes.name !== undefined) {
+                entry.name = changes.name;
+                entry.renamed = true;
             }
-        } catch (error) {
-            console.error('Failed to generate conversation name:', error);
-            // Fallback to first message preview
-            const firstUserMessage = messages.find(m => m.role === 'user');
-            if (firstUserMessage && typeof firstUserMessage.content === 'string') {
-                const text = firstUserMessage.content.substring(0, 50).trim();
-                return text.length < 50 ? text : text + '...';
+            if (changes.pinned !== undefined) {
+                entry.pinned = changes.pinned;
             }
-        }
 
-        return 'Untitled Conversation';
+            const meta = JSON.parse(await this.adapter.read(this.metaPath(id)));
+            await this.adapter.write(this.metaPath(id), JSON.stringify({ ...meta, name: entry.name, renamed: entry.renamed, pinned: entry.pinned }));
+            await this.writeIndex();
+        });
     }
 
-    truncateToolResult(result: string, maxSize: number = 10000): string {
-        if (result.length <= maxSize) {
-            return result;
+    // Case-insensitive search of names and message text. Conversations that match
+    // only by name map to an empty hit list.
+    async search(query: string, maxHitsPerConversation: number = 5): Promise<Map<string, ConversationSearchHit[]>> {
+        const needle = query.toLowerCase();
+        const results = new Map<string, ConversationSearchHit[]>();
+
+        for (const entry of await this.getIndex()) {
+            let texts = this.messageTexts.get(entry.id);
+            if (!texts) {
+                const path = this.messagesPath(entry.id);
+                const raw = (await this.adapter.exists(path)) ? await this.adapter.read(path) : '';
+                texts = this.parseLines<MessageParam>(raw).map(getMessageText);
+                this.messageTexts.set(entry.id, texts);
+            }
+
+            const hits: ConversationSearchHit[] = [];
+            texts.forEach((text, messageIndex) => {
+                if (hits.length >= maxHitsPerConversation) return;
+                const position = text.toLowerCase().indexOf(needle);
+                if (position < 0) return;
+                const start = Math.max(0, position - 60);
+                const end = Math.min(text.length, position + needle.length + 60);
+                const snippet = (start > 0 ? '...' : '') + text.substring(start, end).replace(/\s+/g, ' ') + (end < text.length ? '...' : '');
+                hits.push({ messageIndex, snippet });
+            });
+
+            if (hits.length > 0 || entry.name.toLowerCase().includes(needle)) {
+                results.set(entry.id, hits);
+            }
         }
-        const truncated = result.substring(0, maxSize);
-        return `${truncated}\n\n[... Result truncated to ${maxSize} characters to save tokens. Original length: ${result.length} characters ...]`;
+
+        return results;
     }
 
-    // Estimate tokens (rough approximation: 1 token ≈ 4 characters)
-    estimateTokens(text: string | ContentBlock[]): number {
-        if (typeof text === 'string') {
-            return Math.ceil(text.length / 4);
+    async load(id: string): Promise<SavedConversation | null> {
+        if (!(await this.adapter.exists(this.metaPath(id)))) {
+            return null;
         }
 
-        // For content blocks, sum up all text content
-        let total = 0;
-        for (const block of text) {
-            if (block.text) total += block.text.length / 4;
-            if (block.content) total += block.content.length / 4;
-            if (block.input) total += JSON.stringify(block.input).length / 4;
+        const meta = JSON.parse(await this.adapter.read(this.metaPath(id)));
+        const path = this.messagesPath(id);
+        const raw = (await this.adapter.exists(path)) ? await this.adapter.read(path) : '';
+        const messages = this.parseLines<MessageParam>(raw);
+
+        this.writtenLines.set(id, messages.map(message => JSON.stringify(message)));
+        this.messageTexts.set(id, messages.map(getMessageText));
+
+        // Conversations saved before the journal had its own file keep it in the meta file
+        const changesPath = this.changesPath(id);
+        let changes = meta.changes;
+        if (await this.adapter.exists(changesPath)) {
+            changes = JSON.parse(await this.adapter.read(changesPath));
+            this.writtenChanges.set(id, JSON.stringify(changes));
         }
-        return Math.ceil(total);
+
+        const treePath = this.treePath(id);
+        const tree = (await this.adapter.exists(treePath)) ? JSON.parse(await this.adapter.read(treePath)) : undefined;
+        return { ...meta, changes, messages, tree };
     }
 
-    // Estimate total tokens in conversation history
-    estimateHistoryTokens(messages: MessageParam[]): number {
-        let total = 0;
-        for (const msg of messages) {
-            total += this.estimateTokens(msg.content);
-        }
-        return total;
+    delete(id: string): Promise<void> {
+        return this.enqueue(async () => {
+            for (const path of [this.messagesPath(id), this.metaPath(id), this.treePath(id), this.changesPath(id)]) {
+                if (await this.adapter.exists(path)) {
+                    await this.adapter.remove(path);
+                }
+            }
+            this.writtenLines.delete(id);
+            this.writtenChanges.delete(id);
+            this.messageTexts.delete(id);
+            this.index = (await this.getIndex()).filter(entry => entry.id !== id);
+            await this.writeIndex();
+        });
     }
 
-    // Get model's context window size
-    getModelContextWindow(): number {
-        const model = this.settings.model;
-        if (model.includes('opus')) return 200000;
-        if (model.includes('sonnet')) return 200000;
-        if (model.includes('haiku')) return 200000;
-        return 200000; // Default to 200k
+    async getUsage(): Promise<UsageRecord[]> {
+        if (this.usage) return this.usage;
+        const raw = (await this.adapter.exists(this.usagePath)) ? await this.adapter.read(this.usagePath) : '';
+        this.usage = this.parseLines<UsageRecord>(raw);
+        return this.usage;
     }
 
-    // Get model-specific rate limits (per minute)
-    getModelRateLimits(): { rpm: number; itpm: number; otpm: number } {
-        const model = this.settings.model;
+    async appendUsage(records: UsageRecord[]) {
+        if (records.length === 0) return;
+        await this.ensureFolder();
+        const usage = await this.getUsage();
+        usage.push(...records);
+        await this.adapter.append(this.usagePath, records.map(record => JSON.stringify(record) + '\n').join(''));
+    }
 
-        // Claude Haiku 4.5 has higher limits
-        if (model.includes('haiku-4')) {
-            return { rpm: 50, itpm: 50000, otpm: 10000 };
+    async clearUsage() {
+        this.usage = [];
+        if (await this.adapter.exists(this.usagePath)) {
+            await this.adapter.remove(this.usagePath);
         }
+    }
 
-        // Claude Sonnet 4.x and Opus 4.x (standard limits for Tier 1)
-        return { rpm: 50, itpm: 30000, otpm: 8000 };
+    // Conversations saved in this store's folder
+    async countConversations(): Promise<number> {
+        if (!(await this.adapter.exists(this.folder))) return 0;
+        const listing = await this.adapter.list(this.folder);
+        return listing.files.filter(file => file.endsWith('.meta.json')).length;
     }
 
-    // Check if we should use a simpler model for simple tasks
-    shouldUseSimpleModel(message: string): boolean {
-        const simplePatterns = [
-            /^(duplicate|copy|rename|move|delete)\s+/i,
-            /^list (files?|folders?)/i,
-            /^show me\s+/i,
-            /^what is\s+/i,
-            /^find\s+/i,
-        ];
+    // Move every conversation file and the usage log to another folder, after any pending
+    // writes. Files already in the target are kept, and the ones not moved because of them
+    // are returned; the target's index is rebuilt to include both.
+    moveTo(folder: string): Promise<{ moved: number, skipped: string[] }> {
+        return this.enqueue(async () => {
+            const skipped: string[] = [];
+            let moved = 0;
+            if (!(await this.adapter.exists(this.folder))) return { moved, skipped };
+            const target = new ConversationStore(this.app, folder);
+            await target.ensureFolder();
+
+            const listing = await this.adapter.list(this.folder);
+            const storeFiles = listing.files.filter(file => /\.(jsonl|meta\.json|tree\.json|changes\.json)$/.test(file) || file === this.indexPath);
+            for (const path of storeFiles) {
+                const name = path.substring(this.folder.length + 1);
+                const destination = `${target.folder}/${name}`;
+                if (path === this.usagePath && await this.adapter.exists(destination)) {
+                    await this.adapter.append(destination, await this.adapter.read(path));
+                    await this.adapter.remove(path);
+                } else if (path === this.indexPath) {
+                    continue;
+                } else if (await this.adapter.exists(destination)) {
+                    skipped.push(name);
+                } else {
+                    await this.adapter.rename(path, destination);
+                    if (path.endsWith('.meta.json')) moved++;
+                }
+            }
 
-        const isShort = message.length < 100;
-        const isSimpleCommand = simplePatterns.some(pattern => pattern.test(message));
+            target.index = await target.rebuildIndex();
+            await target.writeIndex();
+            if (await this.adapter.exists(this.indexPath)) {
+                await this.adapter.remove(this.indexPath);
+            }
+            const rest = await this.adapter.list(this.folder);
+            if (rest.files.length === 0 && rest.folders.length === 0) {
+                await this.adapter.rmdir(this.folder, false);
+            }
+            return { moved, skipped };
+        });
+    }
+}
 
-        return isShort && isSimpleCommand;
+// One exchange in a branching conversation: the user's message and everything sent
+// after it until their next one (Claude's replies, tool calls and tool results)
+interface ConversationTurn {
+    id: string;
+    parentId: string | null;   // Turn this one follows; null for an opening message
+    messages: MessageParam[];
+    display?: string;          // The message as typed, before attachments were added
+    instructions?: string[];   // Instruction files merged into the system prompt for this turn
+}
+
+interface ConversationTree {
+    turns: ConversationTurn[];
+    selected: Record<string, string>;  // Chosen child per parent turn ID ('' for the opening turns)
+    summarizedCount: number;           // Messages at the start of the active path folded into the summary
+}
+
+// Edits and regenerations start sibling turns, so a conversation is a tree of turns.
+// The chat history sent to Claude is the active path through it, minus any summarized prefix.
+class ConversationBranches {
+    turns: ConversationTurn[];
+    selected: Record<string, string>;
+    summarizedCount: number;
+    leafId: string | null;
+
+    constructor(tree?: ConversationTree) {
+        this.turns = tree ? tree.turns : [];
+        this.selected = tree ? tree.selected : {};
+        this.summarizedCount = tree ? tree.summarizedCount : 0;
+        this.leafId = this.descend(null);
     }
 
-    // Summarize old conversation history
-    async summarizeConversation(messages: MessageParam[]): Promise<string> {
-        if (messages.length === 0) return '';
+    getTurn(id: string): ConversationTurn | undefined {
+        return this.turns.find(turn => turn.id === id);
+    }
 
-        // Build a condensed summary of the conversation
-        let summary = '=== Previous Conversation Summary ===\n\n';
+    getChildren(parentId: string | null): ConversationTurn[] {
+        return this.turns.filter(turn => turn.parentId === parentId);
+    }
 
-        for (const msg of messages) {
-            const role = msg.role === 'user' ? 'User' : 'Assistant';
+    getSiblings(turn: ConversationTurn): ConversationTurn[] {
+        return this.getChildren(turn.parentId);
+    }
 
-            if (typeof msg.content === 'string') {
-                // Truncate long messages
-                const truncated = msg.content.length > 200
-                    ? msg.content.substring(0, 200) + '...'
-                    : msg.content;
-                summary += `${role}: ${truncated}\n\n`;
-            } else {
-                // For content blocks, extract key information
-                const textBlocks = msg.content
-                    .filter(b => b.type === 'text')
-                    .map(b => b.text)
-                    .join(' ');
+    // Follow the chosen (or newest) child from a turn down to a leaf
+    descend(fromId: string | null): string | null {
+        let current = fromId;
+        for (;;) {
+            const children = this.getChildren(current);
+            if (children.length === 0) return current;
+            const chosen = children.find(child => child.id === this.selected[current || '']);
+            current = (chosen || children[children.length - 1]).id;
+        }
+    }
 
-                const toolUses = msg.content
-                    .filter(b => b.type === 'tool_use')
-                    .map(b => b.name);
+    getActivePath(): ConversationTurn[] {
+        const path: ConversationTurn[] = [];
+        let turn = this.leafId ? this.getTurn(this.leafId) : undefined;
+        while (turn) {
+            path.unshift(turn);
+            turn = turn.parentId ? this.getTurn(turn.parentId) : undefined;
+        }
+        return path;
+    }
 
-                if (textBlocks) {
-                    const truncated = textBlocks.length > 200
-                        ? textBlocks.substring(0, 200) + '...'
-                        : textBlocks;
-                    summary += `${role}: ${truncated}\n`;
-                }
+    getHistory(): MessageParam[] {
+        return this.getActivePath().flatMap(turn => turn.messages).slice(this.summarizedCount);
+    }
 
-                if (toolUses.length > 0) {
-                    summary += `Tools used: ${toolUses.join(', ')}\n`;
-                }
+    // Branching at or before the summarized prefix would leave the summary describing another branch
+    isSummarized(turn: ConversationTurn): boolean {
+        // Where the turn (or whichever sibling is active) starts on the active path
+        let offset = 0;
+        for (const pathTurn of this.getActivePath()) {
+            if (pathTurn.parentId === turn.parentId) break;
+            offset += pathTurn.messages.length;
+        }
+        return offset < this.summarizedCount;
+    }
 
-                summary += '\n';
+    // Record messages added to the history since the last sync. A user message with text
+    // content starts a new turn; everything else continues the current one.
+    sync(history: MessageParam[]) {
+        const known = this.getActivePath().reduce((count, turn) => count + turn.messages.length, 0) - this.summarizedCount;
+        for (const message of history.slice(Math.max(0, known))) {
+            const leaf = this.leafId ? this.getTurn(this.leafId) : undefined;
+            if (!leaf || (message.role === 'user' && typeof message.content === 'string')) {
+                this.addTurn([message]);
+            } else {
+                leaf.messages.push(message);
             }
         }
+    }
 
-        summary += '=== End Summary ===\n';
-        return summary;
+    // Start a turn for the newest message in the history, after the current position
+    startTurn(history: MessageParam[], display: string): ConversationTurn {
+        this.sync(history.slice(0, -1));
+        const turn = this.addTurn([history[history.length - 1]]);
+        turn.display = display;
+        return turn;
     }
 
-    async executeTool(toolName: string, input: any): Promise<string> {
-        try {
-            switch (toolName) {
-                case 'read_file':
-                    const file = this.app.vault.getAbstractFileByPath(input.path);
-                    if (!file || !(file instanceof TFile)) {
-                        return `Error: File not found: ${input.path}`;
-                    }
-                    const content = await this.app.vault.read(file);
-
-                    // Truncate result to max size
-                    return this.truncateToolResult(content, 15000);
-
-                case 'search_in_file':
-                    const searchFile = this.app.vault.getAbstractFileByPath(input.path);
-                    if (!searchFile || !(searchFile instanceof TFile)) {
-                        return `Error: File not found: ${input.path}`;
-                    }
-                    const searchContent = await this.app.vault.read(searchFile);
-                    const lines = searchContent.split('\n');
-                    const pattern = input.pattern.toLowerCase();
-                    const matches: string[] = [];
-
-                    // Limit to first 50 matches to avoid token overload
-                    let matchCount = 0;
-                    lines.forEach((line, index) => {
-                        if (line.toLowerCase().includes(pattern) && matchCount < 50) {
-                            matches.push(`Line ${index + 1}: ${line}`);
-                            matchCount++;
-                        }
-                    });
+    addTurn(messages: MessageParam[]): ConversationTurn {
+        const turn: ConversationTurn = {
+            id: `turn_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`,
+            parentId: this.leafId,
+            messages
+        };
+        this.turns.push(turn);
+        this.selected[turn.parentId || ''] = turn.id;
+        this.leafId = turn.id;
+        return turn;
+    }
 
-                    if (matches.length === 0) {
-                        return `No matches found for "${input.pattern}" in ${input.path}`;
-                    }
-                    const searchResult = `Found ${matchCount} matches in ${input.path}:\n\n${matches.join('\n')}`;
-                    return this.truncateToolResult(searchResult, 5000);
+    // Move back to just before a turn, so the next turn started becomes its sibling
+    rewindBefore(turn: ConversationTurn) {
+        this.leafId = turn.parentId;
+    }
 
-                case 'get_file_info':
-                    const infoFile = this.app.vault.getAbstractFileByPath(input.path);
-                    if (!infoFile || !(infoFile instanceof TFile)) {
-                        return `Error: File not found: ${input.path}`;
-                    }
-                    const infoContent = await this.app.vault.read(infoFile);
-                    const infoLines = infoContent.split('\n');
-                    const firstLines = infoLines.slice(0, 5).join('\n');
-                    const lastLines = infoLines.slice(-5).join('\n');
+    // Make a turn active, continuing down whichever branch below it was last chosen
+    switchTo(turn: ConversationTurn) {
+        this.selected[turn.parentId || ''] = turn.id;
+        this.leafId = this.descend(turn.id);
+    }
 
-                    return `File: ${input.path}
-Size: ${infoContent.length} characters
-Lines: ${infoLines.length}
+    // Unbranched, unsummarized conversations are rebuilt from their messages, so only others need
+    // saving, along with those that record which instruction files applied
+    serialize(): ConversationTree | undefined {
+        if (this.turns.length === this.getActivePath().length && this.summarizedCount === 0
+            && !this.turns.some(turn => turn.instructions)) {
+            return undefined;
+        }
+        return { turns: this.turns, selected: this.selected, summarizedCount: this.summarizedCount };
+    }
+}
 
-First 5 lines:
-${firstLines}
+interface RateLimits {
+    rpm: number;   // Requests per minute
+    itpm: number;  // Input tokens per minute (uncached input and cache writes)
+    otpm: number;  // Output tokens per minute
+}
 
-Last 5 lines:
-${lastLines}`;
+// One request's share of the per-minute limits. Input starts as an estimate and is
+// replaced by the reported usage once the response arrives.
+interface RateLimitReservation {
+    time: number;
+    inputTokens: number;
+    outputTokens: number;
+    cachedTokens: number;  // Input served from the cache, which does not count toward ITPM
+}
 
-                case 'replace_in_file':
-                    const replaceFile = this.app.vault.getAbstractFileByPath(input.path);
-                    if (!replaceFile || !(replaceFile instanceof TFile)) {
-                        return `Error: File not found: ${input.path}`;
-                    }
-                    const replaceContent = await this.app.vault.read(replaceFile);
+// Client-side pacing for every API call: tracks requests and tokens per model over a
+// sliding one-minute window and delays a request until it fits under the limits.
+// Limits start from getModelRateLimits and are corrected from the API's rate limit headers.
+class RateLimitGovernor {
+    windows: Map<string, RateLimitReservation[]> = new Map();
+    blockedUntil: Map<string, number> = new Map();   // Set by retry-after or exhausted limits
+    learnedLimits: Map<string, RateLimits> = new Map();
+    getDefaultLimits: (model: string) => RateLimits;
+    sleep: (ms: number, signal?: AbortSignal) => Promise<void>;
+
+    static WINDOW_MS = 60000;
+    static HEADROOM = 0.9;  // Our window is not aligned with the server's, so stay a little under
+
+    constructor(getDefaultLimits: (model: string) => RateLimits, sleep: (ms: number, signal?: AbortSignal) => Promise<void>) {
+        this.getDefaultLimits = getDefaultLimits;
+        this.sleep = sleep;
+    }
 
-                    if (!replaceContent.includes(input.old_text)) {
-                        return `Error: Text not found in file. Could not find: "${input.old_text}"`;
-                    }
+    getLimits(model: string): RateLimits {
+        return this.learnedLimits.get(model) || this.getDefaultLimits(model);
+    }
 
-                    const newContent = replaceContent.replace(input.old_text, input.new_text);
-                    await this.app.vault.modify(replaceFile, newContent);
-                    return `Successfully replaced text in ${input.path}`;
+    getWindow(model: string, now: number = Date.now()): RateLimitReservation[] {
+        const window = (this.windows.get(model) || []).filter(r => r.time > now - RateLimitGovernor.WINDOW_MS);
+        this.windows.set(model, window);
+        return window;
+    }
 
-                case 'write_file':
-                    // Check if file exists
-                    const existingFile = this.app.vault.getAbstractFileByPath(input.path);
-                    if (existingFile && existingFile instanceof TFile) {
-                        await this.app.vault.modify(existingFile, input.content);
-                        return `Successfully updated file: ${input.path}`;
-                    } else {
-                        await this.app.vault.create(input.path, input.content);
-                        return `Successfully created file: ${input.path}`;
-                    }
+    // The prompt prefix the last request read from the cache will most likely be cached again
+    estimateUncachedInput(model: string, estimatedInput: number): number {
+        const window = this.getWindow(model);
+        const last = window[window.length - 1];
+        const cached = last ? last.cachedTokens : 0;
+        return Math.max(Math.round(estimatedInput * 0.1), estimatedInput - cached);
+    }
 
-                case 'list_files':
-                    const files = this.app.vault.getMarkdownFiles();
-                    let filteredFiles = files;
+    // Milliseconds until a request with this much input fits under every limit (0 = now)
+    getWaitTime(model: string, estimatedInput: number, now: number = Date.now()): number {
+        const limits = this.getLimits(model);
+        const window = this.getWindow(model, now);
+        let wait = Math.max(0, (this.blockedUntil.get(model) || 0) - now);
+        if (window.length === 0) return wait;
 
-                    // Filter by folder if specified
-                    if (input.folder) {
-                        filteredFiles = files.filter(f => f.path.startsWith(input.folder));
-                    }
+        const expiresIn = (reservation: RateLimitReservation) => reservation.time + RateLimitGovernor.WINDOW_MS - now;
 
-                    // Filter by search term if specified
-                    if (input.search) {
-                        const searchLower = input.search.toLowerCase();
-                        filteredFiles = filteredFiles.filter(f =>
-                            f.path.toLowerCase().includes(searchLower) ||
-                            f.basename.toLowerCase().includes(searchLower)
-                        );
-                    }
+        const maxRequests = Math.max(1, Math.floor(limits.rpm * RateLimitGovernor.HEADROOM));
+        if (window.length >= maxRequests) {
+            wait = Math.max(wait, expiresIn(window[window.length - maxRequests]));
+        }
 
-                    // Apply limit (default 100, max 200)
-                    const limit = Math.min(input.limit || 100, 200);
-                    const limitedFiles = filteredFiles.slice(0, limit);
+        // Wait until enough of the oldest reservations expire for the new one to fit.
+        // A request larger than the whole budget goes through once the window is empty.
+        const timeUntilFits = (amountOf: (r: RateLimitReservation) => number, incoming: number, budget: number): number => {
+            let used = window.reduce((sum, r) => sum + amountOf(r), 0);
+            if (used + incoming <= budget) return 0;
+            for (const reservation of window) {
+                used -= amountOf(reservation);
+                if (used + incoming <= budget || used <= 0) return expiresIn(reservation);
+            }
+            return 0;
+        };
 
-                    // Return with count information
-                    const fileList = limitedFiles.map(f => f.path).join('\n');
-                    if (filteredFiles.length > limit) {
-                        return this.truncateToolResult(`Showing ${limit} of ${filteredFiles.length} files (use search parameter to narrow results):\n\n${fileList}`, 5000);
-                    }
-                    return this.truncateToolResult(`Found ${limitedFiles.length} file(s):\n\n${fileList}`, 5000);
+        wait = Math.max(wait, timeUntilFits(r => r.inputTokens, estimatedInput, limits.itpm * RateLimitGovernor.HEADROOM));
+        wait = Math.max(wait, timeUntilFits(r => r.outputTokens, 0, limits.otpm * RateLimitGovernor.HEADROOM));
+        return wait;
+    }
 
-                case 'rename_file':
-                    const fileToRename = this.app.vault.getAbstractFileByPath(input.old_path);
-                    if (!fileToRename || !(fileToRename instanceof TFile)) {
-                        return `Error: File not found: ${input.old_path}`;
-                    }
+    // Wait until the request fits, reporting the remaining seconds once per second, then reserve its share
+    async acquire(model: string, estimatedInput: number, signal?: AbortSignal, onWait?: (seconds: number) => void): Promise<RateLimitReservation> {
+        const input = this.estimateUncachedInput(model, estimatedInput);
+        let waited = false;
 
-                    // Check if new path already exists
-                    const existingAtNewPath = this.app.vault.getAbstractFileByPath(input.new_path);
-                    if (existingAtNewPath) {
-                        return `Error: A file already exists at: ${input.new_path}`;
-                    }
+        while (true) {
+            const wait = this.getWaitTime(model, input);
+            if (wait <= 0) break;
 
-                    await this.app.fileManager.renameFile(fileToRename, input.new_path);
-                    return `Successfully renamed "${input.old_path}" to "${input.new_path}"`;
+            waited = true;
+            if (onWait) onWait(Math.ceil(wait / 1000));
+            await this.sleep(Math.min(wait, 1000), signal);
+        }
+        if (waited && onWait) onWait(0);
 
-                case 'delete_file':
-                    const fileToDelete = this.app.vault.getAbstractFileByPath(input.path);
-                    if (!fileToDelete || !(fileToDelete instanceof TFile)) {
-                        return `Error: File not found: ${input.path}`;
-                    }
+        const reservation: RateLimitReservation = { time: Date.now(), inputTokens: input, outputTokens: 0, cachedTokens: 0 };
+        this.getWindow(model).push(reservation);
+        return reservation;
+    }
 
-                    // Delete the file (moves to Obsidian trash if enabled)
-                    await this.app.vault.trash(fileToDelete, true);
-                    return `Successfully moved to system trash: ${input.path}`;
+    // Replace the estimate with the usage the API reported
+    settle(reservation: RateLimitReservation, usage: any) {
+        if (!usage || typeof usage.input_tokens !== 'number') return;
+        reservation.inputTokens = usage.input_tokens + (usage.cache_creation_input_tokens || 0);
+        reservation.outputTokens = usage.output_tokens || 0;
+        reservation.cachedTokens = usage.cache_read_input_tokens || 0;
+    }
 
-                case 'copy_file':
-                    const sourceFile = this.app.vault.getAbstractFileByPath(input.source_path);
-                    if (!sourceFile || !(sourceFile instanceof TFile)) {
-                        return `Error: Source file not found: ${input.source_path}`;
-                    }
+    // Give back a reservation for a request that was never sent, rejected or cancelled
+    release(model: string, reservation: RateLimitReservation) {
+        this.windows.set(model, this.getWindow(model).filter(r => r !== reservation));
+    }
 
-                    // Check if destination already exists
-                    const destExists = this.app.vault.getAbstractFileByPath(input.destination_path);
-                    if (destExists) {
-                        return `Error: Destination file already exists: ${input.destination_path}`;
-                    }
+    // Learn the real limits from anthropic-ratelimit-* headers and pause on retry-after or exhausted limits
+    updateFromHeaders(model: string, getHeader: (name: string) => string | null | undefined) {
+        const now = Date.now();
+        let blockUntil = this.blockedUntil.get(model) || 0;
 
-                    // Read source and create copy (Obsidian handles this efficiently)
-                    const sourceContent = await this.app.vault.read(sourceFile);
-                    await this.app.vault.create(input.destination_path, sourceContent);
-                    return `Successfully copied "${input.source_path}" to "${input.destination_path}"`;
+        const retryAfter = parseFloat(getHeader('retry-after') || '');
+        if (!isNaN(retryAfter)) {
+            blockUntil = Math.max(blockUntil, now + retryAfter * 1000);
+        }
 
-                default:
-                    return `Error: Unknown tool: ${toolName}`;
+        const learned = { ...this.getLimits(model) };
+        let changed = false;
+        const kinds: Array<[string, keyof RateLimits]> = [['requests', 'rpm'], ['input-tokens', 'itpm'], ['output-tokens', 'otpm']];
+        for (const [kind, field] of kinds) {
+            const limit = parseInt(getHeader(`anthropic-ratelimit-${kind}-limit`) || '');
+            if (!isNaN(limit) && limit > 0 && learned[field] !== limit) {
+                learned[field] = limit;
+                changed = true;
+            }
+
+            const remaining = parseInt(getHeader(`anthropic-ratelimit-${kind}-remaining`) || '');
+            const reset = Date.parse(getHeader(`anthropic-ratelimit-${kind}-reset`) || '');
+            if (remaining === 0 && !isNaN(reset)) {
+                blockUntil = Math.max(blockUntil, reset);
             }
-        } catch (error) {
-            return `Error executing ${toolName}: ${error.message}`;
         }
+
+        if (changed) {
+            this.learnedLimits.set(model, learned);
+        }
+        if (blockUntil > now) {
+            this.blockedUntil.set(model, blockUntil);
+        }
+    }
+}
+
+// A heading-delimited piece of a note, the unit of retrieval
+interface RetrievalChunk {
+    path: string;
+    heading: string;           // Heading trail, e.g. "Project > Goals" ('' before the first heading)
+    startLine: number;         // 1-based, inclusive
+    endLine: number;
+    text: string;
+    termFreqs: Map<string, number>;
+    length: number;            // Number of indexed terms
+}
+
+interface RetrievalResult {
+    chunk: RetrievalChunk;
+    score: number;
+}
+
+// Offline BM25 index over markdown chunks. Everything stays in memory on this device;
+// the index is rebuilt on load and kept current from vault events.
+class RetrievalIndex {
+    app: App;
+    chunksByPath: Map<string, RetrievalChunk[]> = new Map();
+    docFreq: Map<string, number> = new Map();
+    chunkCount: number = 0;
+    totalLength: number = 0;
+    ready: boolean = false;
+    building: Promise<void> | null = null;
+    queuedUpdates: (() => void)[] = [];  // Vault changes that arrived during a build
+    generation: number = 0;              // Bumped by clear() so a build in progress stops
+
+    static MAX_CHUNK_CHARS = 2000;
+    static STOPWORDS = new Set([
+        'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'has', 'have', 'how',
+        'i', 'in', 'is', 'it', 'its', 'me', 'my', 'not', 'of', 'on', 'or', 'so', 'that', 'the', 'their',
+        'them', 'then', 'there', 'these', 'they', 'this', 'to', 'was', 'we', 'were', 'what', 'when',
+        'where', 'which', 'who', 'why', 'will', 'with', 'you', 'your'
+    ]);
+
+    constructor(app: App) {
+        this.app = app;
     }
 
-    async callClaude(messages: MessageParam[], systemPrompt?: string, tools?: Tool[], onRetry?: (attempt: number, delay: number) => void): Promise<any> {
-        if (!this.settings.apiKey) {
-            throw new Error('Claude API key not configured');
+    tokenize(text: string): string[] {
+        return text
+            .toLowerCase()
+            .split(/[^\p{L}\p{N}]+/u)
+            .filter(term => term.length > 1 && !RetrievalIndex.STOPWORDS.has(term));
+    }
+
+    // Split a note into chunks at headings; long sections are split again at paragraph breaks
+    chunkMarkdown(path: string, content: string): RetrievalChunk[] {
+        const lines = content.split('\n');
+        const chunks: RetrievalChunk[] = [];
+        const headingStack: string[] = [];
+        let sectionStart = 0;
+        let sectionLines: string[] = [];
+
+        // Skip YAML frontmatter
+        let startIndex = 0;
+        if (lines[0] === '---') {
+            const end = lines.indexOf('---', 1);
+            if (end > 0) startIndex = end + 1;
         }
+        sectionStart = startIndex;
+
+        const flush = (endIndex: number) => {
+            const heading = headingStack.filter(h => h).join(' > ');
+            let pieceStart = sectionStart;
+            let piece: string[] = [];
+
+            const pushPiece = (pieceEnd: number) => {
+                const text = piece.join('\n').trim();
+                if (text) {
+                    const terms = this.tokenize(`${heading} ${text}`);
+                    const termFreqs = new Map<string, number>();
+                    terms.forEach(term => termFreqs.set(term, (termFreqs.get(term) || 0) + 1));
+                    chunks.push({ path, heading, startLine: pieceStart + 1, endLine: pieceEnd, text, termFreqs, length: terms.length });
+                }
+            };
 
-        const requestBody: any = {
-            model: this.settings.model,
-            max_tokens: this.settings.maxTokens,
-            messages: messages
+            sectionLines.forEach((line, offset) => {
+                const size = piece.reduce((sum, l) => sum + l.length + 1, 0);
+                if (size + line.length > RetrievalIndex.MAX_CHUNK_CHARS && line.trim() === '' && piece.length > 0) {
+                    pushPiece(sectionStart + offset);
+                    piece = [];
+                    pieceStart = sectionStart + offset + 1;
+                    return;
+                }
+                piece.push(line);
+            });
+            pushPiece(endIndex);
         };
 
-        // Add system prompt with optional caching
-        if (systemPrompt && systemPrompt.trim()) {
-            if (this.settings.enablePromptCaching) {
-                // Use prompt caching for system prompt (reduces costs by 90%)
-                requestBody.system = [
-                    {
-                        type: 'text',
-                        text: systemPrompt,
-                        cache_control: { type: 'ephemeral' }
-                    }
-                ];
+        for (let i = startIndex; i < lines.length; i++) {
+            const match = lines[i].match(/^(#{1,6})\s+(.*)$/);
+            if (match) {
+                flush(i);
+                const level = match[1].length;
+                headingStack.length = level - 1;
+                headingStack[level - 1] = match[2].trim();
+                sectionStart = i;
+                sectionLines = [lines[i]];
             } else {
-                // Standard system prompt without caching
-                requestBody.system = systemPrompt;
+                sectionLines.push(lines[i]);
             }
         }
+        flush(lines.length);
 
-        // Add tools if provided
-        if (tools && tools.length > 0) {
-            requestBody.tools = tools;
+        return chunks;
+    }
+
+    addChunks(path: string, chunks: RetrievalChunk[]) {
+        this.chunksByPath.set(path, chunks);
+        for (const chunk of chunks) {
+            this.chunkCount++;
+            this.totalLength += chunk.length;
+            chunk.termFreqs.forEach((_, term) => this.docFreq.set(term, (this.docFreq.get(term) || 0) + 1));
+        }
+    }
+
+    removeFile(path: string) {
+        const chunks = this.chunksByPath.get(path);
+        if (!chunks) return;
+
+        for (const chunk of chunks) {
+            this.chunkCount--;
+            this.totalLength -= chunk.length;
+            chunk.termFreqs.forEach((_, term) => {
+                const count = (this.docFreq.get(term) || 1) - 1;
+                if (count <= 0) {
+                    this.docFreq.delete(term);
+                } else {
+                    this.docFreq.set(term, count);
+                }
+            });
+        }
+        this.chunksByPath.delete(path);
+    }
+
+    removeFolder(folderPath: string) {
+        const prefix = folderPath.replace(/\/$/, '') + '/';
+        Array.from(this.chunksByPath.keys())
+            .filter(path => path.startsWith(prefix))
+            .forEach(path => this.removeFile(path));
+    }
+
+    async indexFile(file: TFile) {
+        if (file.extension !== 'md') return;
+        const generation = this.generation;
+        const content = await this.app.vault.cachedRead(file);
+        // Cleared while reading: the note belongs to an index that no longer exists
+        if (generation !== this.generation) return;
+        this.removeFile(file.path);
+        this.addChunks(file.path, this.chunkMarkdown(file.path, content));
+    }
+
+    renameFile(oldPath: string, newPath: string) {
+        const chunks = this.chunksByPath.get(oldPath);
+        if (!chunks) return;
+        chunks.forEach(chunk => chunk.path = newPath);
+        this.chunksByPath.delete(oldPath);
+        this.chunksByPath.set(newPath, chunks);
+    }
+
+    // Index the whole vault, yielding between batches so the UI stays responsive
+    build(): Promise<void> {
+        if (this.building) return this.building;
+
+        const generation = this.generation;
+        this.building = (async () => {
+            const startTime = Date.now();
+            const files = this.app.vault.getMarkdownFiles();
+            for (let i = 0; i < files.length; i++) {
+                if (generation !== this.generation) return;
+                try {
+                    await this.indexFile(files[i]);
+                } catch (error) {
+                    console.error(`Failed to index ${files[i].path}:`, error);
+                }
+                if (i % 50 === 49) {
+                    await new Promise(resolve => setTimeout(resolve, 0));
+                }
+            }
+            if (generation !== this.generation) return;
+            this.ready = true;
+            console.log(`Retrieval index built: ${this.chunkCount} chunks from ${files.length} notes in ${Date.now() - startTime}ms`);
+
+            const queued = this.queuedUpdates;
+            this.queuedUpdates = [];
+            queued.forEach(apply => apply());
+        })();
+
+        return this.building;
+    }
+
+    // Apply a vault change now if the index is built, after the build if one is running,
+    // and not at all otherwise (the next build picks it up)
+    whenBuilt(apply: () => void) {
+        if (this.ready) {
+            apply();
+        } else if (this.building) {
+            this.queuedUpdates.push(apply);
+        }
+    }
+
+    // Drop everything, e.g. when the index is turned off, so turning it on again rebuilds it
+    clear() {
+        this.generation++;
+        this.chunksByPath.clear();
+        this.docFreq.clear();
+        this.chunkCount = 0;
+        this.totalLength = 0;
+        this.ready = false;
+        this.building = null;
+        this.queuedUpdates = [];
+    }
+
+    async ensureReady() {
+        let building = this.ready ? null : this.build();
+        while (building) {
+            await building;
+            // A build cancelled by clear() ends early; wait for the one that replaced it, if any
+            building = this.ready ? null : this.building;
+        }
+    }
+
+    // Rank chunks against the query with BM25. paths restricts the search to those notes.
+    search(query: string, limit: number, options: { paths?: string[]; folder?: string } = {}): RetrievalResult[] {
+        const queryTerms = [...new Set(this.tokenize(query))];
+        if (queryTerms.length === 0 || this.chunkCount === 0) return [];
+
+        const k1 = 1.2;
+        const b = 0.75;
+        const avgLength = this.totalLength / this.chunkCount || 1;
+
+        const candidatePaths = options.paths
+            ? options.paths.filter(path => this.chunksByPath.has(path))
+            : Array.from(this.chunksByPath.keys());
+
+        const folder = options.folder ? options.folder.replace(/\/$/, '') + '/' : null;
+        const results: RetrievalResult[] = [];
+
+        for (const path of candidatePaths) {
+            if (folder && !path.startsWith(folder)) continue;
+
+            for (const chunk of this.chunksByPath.get(path) || []) {
+                let score = 0;
+                for (const term of queryTerms) {
+                    const tf = chunk.termFreqs.get(term);
+                    if (!tf) continue;
+                    const df = this.docFreq.get(term) || 0;
+                    const idf = Math.log(1 + (this.chunkCount - df + 0.5) / (df + 0.5));
+                    score += idf * (tf * (k1 + 1)) / (tf + k1 * (1 - b + b * chunk.length / avgLength));
+                }
+                if (score > 0) {
+                    results.push({ chunk, score });
+                }
+            }
+        }
+
+        return results.sort((x, y) => y.score - x.score).slice(0, limit);
+    }
+
+    // Render results as excerpts for a prompt or tool result
+    formatResults(results: RetrievalResult[], maxCharsPerChunk: number = 1500): string {
+        return results.map(({ chunk }) => {
+            const location = chunk.heading ? `${chunk.path} > ${chunk.heading}` : chunk.path;
+            const text = chunk.text.length > maxCharsPerChunk
+                ? chunk.text.substring(0, maxCharsPerChunk) + '\n[... excerpt truncated ...]'
+                : chunk.text;
+            return `[Excerpt: ${location} (lines ${chunk.startLine}-${chunk.endLine})]\n${text}\n[End Excerpt]`;
+        }).join('\n\n');
+    }
+}
+
+// A reusable prompt from the prompt library, run from the chat input as /name
+interface PromptTemplate {
+    name: string;
+    description: string;
+    path: string;
+    body: string;
+    model?: string;           // Model for the turn the prompt starts
+    tools?: string[];         // Tools offered for that turn (unset: all allowed tools)
+    variables: string[];      // Asked for before sending
+}
+
+// Placeholders filled in without asking: {{input}} is the text typed after the command
+const BUILTIN_PROMPT_VARIABLES = ['selection', 'active_file', 'date', 'input'];
+
+// Replace {{name}} placeholders; unknown ones are left as they are
+function fillPromptTemplate(body: string, values: Record<string, string>): string {
+    return body.replace(/\{\{\s*([\w-]+)\s*\}\}/g, (placeholder, name) => values[name] !== undefined ? values[name] : placeholder);
+}
+
+// Markdown files in a vault folder, one prompt each. The file's frontmatter sets
+// name, description, model, tools and variables; the rest of the file is the prompt.
+class PromptLibrary {
+    app: App;
+    folder: string;
+
+    constructor(app: App, folder: string) {
+        this.app = app;
+        this.folder = folder.replace(/\/$/, '');
+    }
+
+    async getPrompts(): Promise<PromptTemplate[]> {
+        if (!this.folder) return [];
+
+        const prompts: PromptTemplate[] = [];
+        for (const file of this.app.vault.getMarkdownFiles()) {
+            if (!file.path.startsWith(this.folder + '/')) continue;
+
+            const cache = this.app.metadataCache.getFileCache(file);
+            const frontmatter = cache?.frontmatter || {};
+            const content = await this.app.vault.cachedRead(file);
+            const body = cache?.frontmatterPosition
+                ? content.substring(cache.frontmatterPosition.end.offset)
+                : content.replace(/^---\n[\s\S]*?\n---\n?/, '');
+
+            // Variables come from the frontmatter and from any other placeholder in the prompt
+            const variables = new Set<string>(Array.isArray(frontmatter.variables) ? frontmatter.variables.map(String) : []);
+            for (const match of body.matchAll(/\{\{\s*([\w-]+)\s*\}\}/g)) {
+                variables.add(match[1]);
+            }
+
+            prompts.push({
+                name: String(frontmatter.name || file.basename).trim().replace(/\s+/g, '-').toLowerCase(),
+                description: frontmatter.description ? String(frontmatter.description) : '',
+                path: file.path,
+                body: body.trim(),
+                model: frontmatter.model ? String(frontmatter.model) : undefined,
+                tools: Array.isArray(frontmatter.tools) ? frontmatter.tools.map(String) : undefined,
+                variables: [...variables].filter(name => !BUILTIN_PROMPT_VARIABLES.includes(name))
+            });
         }
+        return prompts.sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    // The prompt a message starts with (/name), and the text typed after it
+    async match(message: string): Promise<{ template: PromptTemplate, input: string } | null> {
+        const command = message.match(/^\/([\w-]+)(?:\s+([\s\S]*))?$/);
+        if (!command) return null;
+
+        const template = (await this.getPrompts()).find(prompt => prompt.name === command[1].toLowerCase());
+        return template ? { template, input: (command[2] || '').trim() } : null;
+    }
+}
+
+// Editor actions that rewrite the selection (or the paragraph at the cursor) in place
+interface SelectionAction {
+    id: string;
+    name: string;
+    instruction: string;        // {input} is replaced with what the user typed, for actions that ask
+    inputPrompt?: string;       // Ask the user for this before running
+}
 
-        // Retry logic with exponential backoff
-        const maxRetries = 3;
-        const retryDelays = [1000, 2000, 4000]; // 1s, 2s, 4s
+const SELECTION_ACTIONS: SelectionAction[] = [
+    { id: 'rewrite', name: 'Rewrite', instruction: 'Rewrite this passage so it reads more clearly. Keep its meaning, tone and roughly its length.' },
+    { id: 'shorten', name: 'Shorten', instruction: 'Make this passage shorter and more concise. Keep every key point.' },
+    { id: 'expand', name: 'Expand', instruction: 'Expand this passage with more detail, explanation or examples, in the same style.' },
+    { id: 'fix-grammar', name: 'Fix grammar', instruction: 'Fix spelling, grammar and punctuation in this passage. Change nothing else.' },
+    { id: 'translate', name: 'Translate', instruction: 'Translate this passage into {input}.', inputPrompt: 'Translate into which language?' },
+    { id: 'custom', name: 'Custom instruction', instruction: '{input}', inputPrompt: 'What should Claude do with this passage?' }
+];
+
+const SELECTION_EDIT_SYSTEM_PROMPT = `You edit a passage of a Markdown note in Obsidian.
+Reply with only the new passage: no preamble, no explanation, no quotes or code fences around it.
+Keep Markdown formatting, [[wikilinks]], tags and the language of the original unless the instruction says otherwise.`;
+
+// Obsidian's Editor wraps a CodeMirror view in a field its typings leave out
+interface EditorWithCM {
+    cm: EditorView;
+}
 
-        const makeRequest = async (attemptNumber: number): Promise<any> => {
-            // Debug logging
-            console.log(`=== Claude API Request (Attempt ${attemptNumber}/${maxRetries + 1}) ===`);
-            console.log('URL:', 'https://api.anthropic.com/v1/messages');
-            console.log('Model:', requestBody.model);
-            console.log('Max Tokens:', requestBody.max_tokens);
-            console.log('Messages:', JSON.stringify(messages, null, 2));
-            console.log('System Prompt:', systemPrompt ? systemPrompt.substring(0, 100) + '...' : 'none');
-            console.log('API Key (first 20 chars):', this.settings.apiKey.substring(0, 20) + '...');
-            if (attemptNumber === 1) {
-                console.log('Full Request Body:', JSON.stringify(requestBody, null, 2));
-            }
+function getEditorView(editor: Editor): EditorView | null {
+    const cm = (editor as Editor & Partial<EditorWithCM>).cm;
+    return cm instanceof EditorView ? cm : null;
+}
 
-            let response;
-            try {
-                response = await requestUrl({
-                    url: 'https://api.anthropic.com/v1/messages',
-                    method: 'POST',
-                    headers: {
-                        'Content-Type': 'application/json',
-                        'x-api-key': this.settings.apiKey,
-                        'anthropic-version': '2023-06-01'
-                    },
-                    body: JSON.stringify(requestBody),
-                    throw: false  // Don't throw on non-200 status
-                });
+// An edit Claude proposes for a range of a note, shown inline until it is accepted or rejected
+interface SelectionEditPreview {
+    from: number;
+    to: number;
+    label: string;
+    replacement: string;
+    done: boolean;              // false while Claude is still writing
+    onAccept: () => void;
+    onReject: () => void;
+}
 
-                console.log('=== Claude API Response ===');
-                console.log('Status:', response.status);
-                console.log('Headers:', response.headers);
-                console.log('Response text:', response.text);
-                console.log('Response JSON:', response.json);
+const setSelectionEditPreview = StateEffect.define<SelectionEditPreview | null>();
 
-                // Check for error status
-                if (response.status !== 200) {
-                    let errorMessage = 'Unknown error';
-                    let errorType = 'unknown';
-                    const errorData = response.json || (response.text ? JSON.parse(response.text) : null);
-                    console.error('=== Claude API Error Response ===');
-                    console.error('Error data:', JSON.stringify(errorData, null, 2));
+class SelectionEditWidget extends WidgetType {
+    preview: SelectionEditPreview;
 
-                    if (errorData && errorData.error) {
-                        errorMessage = errorData.error.message || JSON.stringify(errorData.error);
-                        errorType = errorData.error.type || 'unknown';
-                    } else if (errorData && errorData.message) {
-                        errorMessage = errorData.message;
-                    } else if (response.text) {
-                        errorMessage = response.text;
-                    }
+    constructor(preview: SelectionEditPreview) {
+        super();
+        this.preview = preview;
+    }
 
-                    // Check retry-after header for rate limits
-                    const retryAfter = response.headers['retry-after'] || response.headers['Retry-After'];
+    eq(other: SelectionEditWidget): boolean {
+        return other.preview.replacement === this.preview.replacement && other.preview.done === this.preview.done;
+    }
 
-                    // Check if this is a retryable error (529 - Overloaded)
-                    if (response.status === 529 && attemptNumber <= maxRetries) {
-                        const delay = retryDelays[attemptNumber - 1];
-                        console.log(`API overloaded (529), retrying in ${delay}ms (attempt ${attemptNumber}/${maxRetries})...`);
+    toDOM(): HTMLElement {
+        const container = createDiv({ cls: 'claude-edit-preview' });
+        container.createDiv({ cls: 'claude-edit-preview-label', text: `✨ ${this.preview.label}${this.preview.done ? '' : ' - Claude is writing...'}` });
+        container.createDiv({ cls: 'claude-edit-preview-text', text: this.preview.replacement });
 
-                        // Call onRetry callback if provided
-                        if (onRetry) {
-                            onRetry(attemptNumber, delay);
-                        }
+        const buttons = container.createDiv({ cls: 'claude-edit-preview-buttons' });
+        if (this.preview.done) {
+            const acceptBtn = buttons.createEl('button', { text: 'Accept', cls: 'mod-cta' });
+            acceptBtn.addEventListener('click', () => this.preview.onAccept());
+        }
+        const rejectBtn = buttons.createEl('button', { text: this.preview.done ? 'Reject' : 'Cancel' });
+        rejectBtn.addEventListener('click', () => this.preview.onReject());
+        return container;
+    }
+}
 
-                        // Wait before retrying
-                        await new Promise(resolve => setTimeout(resolve, delay));
+// Holds the preview of each editor. The original text is struck through and the
+// proposed text shown below it; positions follow edits made in the meantime.
+const selectionEditField = StateField.define<SelectionEditPreview | null>({
+    create: () => null,
+    update(preview, transaction) {
+        for (const effect of transaction.effects) {
+            if (effect.is(setSelectionEditPreview)) {
+                return effect.value;
+            }
+        }
+        if (preview && transaction.docChanged) {
+            return {
+                ...preview,
+                from: transaction.changes.mapPos(preview.from, 1),
+                to: transaction.changes.mapPos(preview.to, -1)
+            };
+        }
+        return preview;
+    },
+    provide: field => EditorView.decorations.from(field, preview => {
+        if (!preview) {
+            return Decoration.none;
+        }
+        const decorations = [];
+        if (preview.to > preview.from) {
+            decorations.push(Decoration.mark({ class: 'claude-edit-original' }).range(preview.from, preview.to));
+        }
+        decorations.push(Decoration.widget({ widget: new SelectionEditWidget(preview), block: true, side: 1 }).range(preview.to));
+        return Decoration.set(decorations);
+    })
+});
 
-                        // Retry
-                        return makeRequest(attemptNumber + 1);
-                    }
+class SelectionEditor {
+    plugin: ClaudePlugin;
+    abortControllers: Map<EditorView, AbortController> = new Map();  // Request in flight, per editor
 
-                    // Build detailed error with type and retry info
-                    let detailedError = `Claude API Error (${response.status})`;
-                    if (errorType) {
-                        detailedError += ` [${errorType}]`;
-                    }
-                    if (retryAfter) {
-                        detailedError += ` (Retry after: ${retryAfter}s)`;
-                    }
-                    detailedError += `: ${errorMessage}`;
+    constructor(plugin: ClaudePlugin) {
+        this.plugin = plugin;
+    }
 
-                    throw new Error(detailedError);
-                }
+    // The selection, or the paragraph around the cursor when nothing is selected
+    getTargetRange(editor: Editor): { from: EditorPosition, to: EditorPosition } | null {
+        if (editor.somethingSelected()) {
+            return { from: editor.getCursor('from'), to: editor.getCursor('to') };
+        }
 
-                const data = response.json;
+        const line = editor.getCursor().line;
+        if (!editor.getLine(line).trim()) {
+            return null;
+        }
+        let startLine = line;
+        let endLine = line;
+        while (startLine > 0 && editor.getLine(startLine - 1).trim()) startLine--;
+        while (endLine < editor.lastLine() && editor.getLine(endLine + 1).trim()) endLine++;
+        return { from: { line: startLine, ch: 0 }, to: { line: endLine, ch: editor.getLine(endLine).length } };
+    }
 
-                // Return the full response data so we can handle tool use
-                return data;
-            } catch (error) {
-                // Log detailed error for debugging
-                console.error('=== Claude API Error (catch block) ===');
-                console.error('Error object:', error);
-                console.error('Error type:', typeof error);
-                console.error('Error keys:', Object.keys(error));
+    async run(editor: Editor, view: MarkdownView, action: SelectionAction) {
+        const range = this.getTargetRange(editor);
+        if (!range) {
+            new Notice('Select some text or put the cursor in a paragraph first');
+            return;
+        }
 
-                // Log all properties of the error
-                for (const key in error) {
-                    console.error(`Error.${key}:`, error[key]);
+        if (action.inputPrompt) {
+            const initial = action.id === 'translate' ? this.plugin.settings.translateLanguage : '';
+            new SelectionInstructionModal(this.plugin.app, action.inputPrompt, initial, async (input) => {
+                if (action.id === 'translate') {
+                    this.plugin.settings.translateLanguage = input;
+                    await this.plugin.saveSettings();
                 }
+                await this.propose(editor, view, range, action.name, action.instruction.replace('{input}', input));
+            }).open();
+            return;
+        }
 
-                // If we already formatted the error above, just re-throw it
-                if (error.message && error.message.startsWith('Claude API Error')) {
-                    throw error;
-                }
+        await this.propose(editor, view, range, action.name, action.instruction);
+    }
 
-                throw new Error(`Unexpected error: ${error.message || String(error)}`);
-            }
+    async propose(editor: Editor, view: MarkdownView, range: { from: EditorPosition, to: EditorPosition }, label: string, instruction: string) {
+        // The preview lives in the state of the editor's CodeMirror view
+        const cm = getEditorView(editor);
+        if (!cm) {
+            new Notice('Inline edits are not available in this editor');
+            return;
+        }
+        this.clear(cm);
+
+        const from = editor.posToOffset(range.from);
+        const to = editor.posToOffset(range.to);
+        const original = editor.getRange(range.from, range.to);
+        const content = editor.getValue();
+        const before = content.substring(Math.max(0, from - 1000), from);
+        const after = content.substring(to, to + 1000);
+
+        const abortController = new AbortController();
+        this.abortControllers.set(cm, abortController);
+
+        let preview: SelectionEditPreview = {
+            from,
+            to,
+            label,
+            replacement: '',
+            done: false,
+            onAccept: () => this.accept(editor, cm),
+            onReject: () => this.clear(cm)
+        };
+        const show = (changes: Partial<SelectionEditPreview>) => {
+            // Keep positions mapped through any edits made while Claude was writing
+            const current = cm.state.field(selectionEditField, false) || preview;
+            preview = { ...preview, ...changes, from: current.from, to: current.to };
+            cm.dispatch({ effects: setSelectionEditPreview.of(preview) });
         };
+        show({});
 
-        // Start with attempt 1
-        return makeRequest(1);
+        const prompt = `Note: ${view.file?.path || 'untitled'}\n\n`
+            + `Text before the passage (context only, do not repeat it):\n${before}\n\n`
+            + `Text after the passage (context only, do not repeat it):\n${after}\n\n`
+            + `Passage:\n${original}\n\n`
+            + `Instruction: ${instruction}`;
+
+        try {
+            const response = await this.plugin.callClaudeStreaming(
+                [{ role: 'user', content: prompt }],
+                SELECTION_EDIT_SYSTEM_PROMPT,
+                undefined,
+                { onText: (delta, fullText) => show({ replacement: fullText }) },
+                undefined,
+                abortController.signal,
+                { cache: false }
+            );
+            this.plugin.recordUsage(response, '', 'edit');
+
+            const replacement = (response.content || [])
+                .filter((block: ContentBlock) => block.type === 'text')
+                .map((block: ContentBlock) => block.text)
+                .join('');
+            if (!replacement.trim()) {
+                throw new Error('Claude returned no text');
+            }
+            show({ replacement, done: true });
+        } catch (error) {
+            if (this.plugin.isAbortError(error)) return;
+            this.clear(cm);
+            new Notice(`Claude could not edit the selection: ${error.message}`);
+        } finally {
+            if (this.abortControllers.get(cm) === abortController) {
+                this.abortControllers.delete(cm);
+            }
+        }
+    }
+
+    // Replace the passage with the proposal as one change, so a single undo restores the original
+    accept(editor: Editor, cm: EditorView) {
+        const preview = cm.state.field(selectionEditField, false);
+        if (!preview || !preview.done) return;
+
+        cm.dispatch({ effects: setSelectionEditPreview.of(null) });
+        editor.transaction({
+            changes: [{ from: editor.offsetToPos(preview.from), to: editor.offsetToPos(preview.to), text: preview.replacement }]
+        });
+        editor.setCursor(editor.offsetToPos(preview.from + preview.replacement.length));
+        editor.focus();
+    }
+
+    clear(cm: EditorView) {
+        const abortController = this.abortControllers.get(cm);
+        if (abortController) {
+            abortController.abort();
+            this.abortControllers.delete(cm);
+        }
+        if (cm.state.field(selectionEditField, false)) {
+            cm.dispatch({ effects: setSelectionEditPreview.of(null) });
+        }
     }
 }
 
@@ -887,6 +4913,7 @@ class ClaudeChatView extends ItemView {
     sendButton: HTMLButtonElement;
     conversationHistory: MessageParam[] = [];
     conversationSummary: string = '';  // Stores summary of old messages
+    branches: ConversationBranches = new ConversationBranches();  // Every edit and regeneration, as a tree of turns
     loadingMessageInterval: number | null = null;
     suggestionContainer: HTMLElement | null = null;
     selectedSuggestionIndex: number = -1;
@@ -895,12 +4922,23 @@ class ClaudeChatView extends ItemView {
     autocompleteTimeout: number | null = null;
     isGenerating: boolean = false;
     shouldStop: boolean = false;
+    abortController: AbortController | null = null;  // Cancels the in-flight API request
+    conversationId: string = '';                       // This session's conversation, kept in the view state
+    changeJournal: ChangeJournal;                      // Vault changes made in this conversation
+    currentTurnId: string = '';                         // Groups journal entries per sent message
+    usageRecords: UsageRecord[] = [];                   // API-reported usage for this conversation
+    thinkingEnabled: boolean;                           // Extended thinking for this conversation
+    profileId: string;                                  // Assistant profile for this conversation
+    thinkingButton: HTMLElement | null = null;
     tokenIndicator: HTMLElement | null = null;
     modelIndicator: HTMLElement | null = null;
 
     constructor(leaf: WorkspaceLeaf, plugin: ClaudePlugin) {
         super(leaf);
         this.plugin = plugin;
+        this.changeJournal = new ChangeJournal(plugin.app);
+        this.thinkingEnabled = plugin.settings.thinkingByDefault;
+        this.profileId = plugin.settings.defaultProfileId;
     }
 
     getViewType(): string {
@@ -915,6 +4953,37 @@ class ClaudeChatView extends ItemView {
         return 'claude-logo';
     }
 
+    getState(): Record<string, unknown> {
+        return { ...super.getState(), conversationId: this.conversationId };
+    }
+
+    async setState(state: any, result: ViewStateResult) {
+        await super.setState(state, result);
+
+        // Restored sessions carry their conversation ID; views opened without one
+        // (the ribbon, first launch) continue the most recently active conversation
+        const requested: string = state && typeof state.conversationId === 'string'
+            ? state.conversationId
+            : this.plugin.settings.currentConversationId;
+        if (!requested || requested === this.conversationId || !this.plugin.settings.autoSaveConversations) {
+            return;
+        }
+
+        // Never let two sessions save over the same conversation
+        if (this.plugin.getChatViews().some(view => view !== this && view.conversationId === requested)) {
+            return;
+        }
+
+        if (await this.loadConversationIntoView(requested)) {
+            console.log(`Loaded conversation: ${requested} with ${this.conversationHistory.length} messages`);
+        }
+    }
+
+    setConversationId(conversationId: string) {
+        this.conversationId = conversationId;
+        this.app.workspace.requestSaveLayout();
+    }
+
     async onOpen() {
         const container = this.containerEl.children[1];
         container.empty();
@@ -923,13 +4992,8 @@ class ClaudeChatView extends ItemView {
         // Chat display area
         this.chatContainer = container.createDiv({ cls: 'claude-chat-messages' });
 
-        // Load previous conversation if available
-        await this.loadPreviousConversation();
-
-        // Add welcome message if no conversation loaded (no tokens used - just UI)
-        if (this.conversationHistory.length === 0) {
-            this.addWelcomeMessage();
-        }
+        // Add welcome message until setState loads a conversation (no tokens used - just UI)
+        this.addWelcomeMessage();
 
         // Input area
         this.inputContainer = container.createDiv({ cls: 'claude-chat-input-container' });
@@ -941,9 +5005,9 @@ class ClaudeChatView extends ItemView {
         this.tokenIndicator = statusBar.createDiv({ cls: 'claude-token-indicator' });
         this.updateTokenIndicator();
 
-        // Model indicator
+        // Profile switcher (persona, model and tools)
         this.modelIndicator = statusBar.createDiv({ cls: 'claude-model-indicator' });
-        this.updateModelIndicator();
+        this.updateProfileIndicator();
 
         // Input row with textarea and send button
         const inputRow = this.inputContainer.createDiv({ cls: 'claude-input-row' });
@@ -1002,14 +5066,20 @@ class ClaudeChatView extends ItemView {
         });
         exportButton.innerHTML = `<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z"></path><polyline points="14 2 14 8 20 8"></polyline><line x1="12" y1="18" x2="12" y2="12"></line><polyline points="9 15 12 18 15 15"></polyline></svg>`;
 
+        // Extended thinking toggle (lightbulb)
+        this.thinkingButton = iconButtonsRow.createEl('button', { cls: 'claude-icon-button claude-thinking-button' });
+        this.thinkingButton.innerHTML = `<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round"><path d="M9 18h6"></path><path d="M10 22h4"></path><path d="M12 2a7 7 0 0 0-4 12.74V16h8v-1.26A7 7 0 0 0 12 2z"></path></svg>`;
+        this.updateThinkingButton();
+
         attachButton.addEventListener('click', () => this.attachActiveFile());
         searchButton.addEventListener('click', () => this.openVaultSearch());
         loadButton.addEventListener('click', () => this.showConversationPicker());
         exportButton.addEventListener('click', () => this.exportConversation());
+        this.thinkingButton.addEventListener('click', () => this.toggleThinking());
         this.sendButton.addEventListener('click', () => {
             if (this.isGenerating) {
-                // Stop button clicked - signal to stop generation
-                this.shouldStop = true;
+                // Stop button clicked - abort the request and skip pending tool calls
+                this.stopGeneration();
             } else {
                 // Send button clicked - send message
                 this.sendMessage(this.inputArea);
@@ -1145,6 +5215,13 @@ class ClaudeChatView extends ItemView {
         const cursorPos = this.inputArea.selectionStart;
         const text = this.inputArea.value;
 
+        // A / at the start of the input picks a prompt from the library
+        const command = text.substring(0, cursorPos).match(/^\/([\w-]*)$/);
+        if (command) {
+            this.showPromptSuggestions(command[1].toLowerCase());
+            return;
+        }
+
         // Find the start of current wikilink
         let wikilinkStart = -1;
         for (let i = cursorPos - 1; i >= 0; i--) {
@@ -1245,6 +5322,51 @@ class ClaudeChatView extends ItemView {
         this.suggestionContainer.style.display = 'block';
     }
 
+    async showPromptSuggestions(query: string) {
+        const matches = (await this.plugin.promptLibrary.getPrompts())
+            .filter(prompt => prompt.name.includes(query))
+            .sort((a, b) => Number(b.name.startsWith(query)) - Number(a.name.startsWith(query)))
+            .slice(0, 10);
+        if (matches.length === 0) {
+            this.hideSuggestions();
+            return;
+        }
+
+        if (!this.suggestionContainer) {
+            this.suggestionContainer = this.inputContainer.createDiv({
+                cls: 'claude-wikilink-suggestions'
+            });
+        }
+
+        this.suggestionContainer.empty();
+        this.selectedSuggestionIndex = -1;
+
+        matches.forEach((prompt, index) => {
+            const suggestionItem = this.suggestionContainer!.createDiv({
+                cls: 'claude-suggestion-item'
+            });
+            suggestionItem.createDiv({ cls: 'claude-suggestion-title', text: `/${prompt.name}` });
+            if (prompt.description) {
+                suggestionItem.createDiv({ cls: 'claude-suggestion-path', text: prompt.description });
+            }
+
+            suggestionItem.addEventListener('click', () => {
+                // Complete the command; the prompt is filled in when the message is sent
+                const rest = this.inputArea.value.substring(this.inputArea.selectionStart).replace(/^[\w-]*/, '');
+                this.inputArea.value = `/${prompt.name} ${rest.trimStart()}`;
+                this.inputArea.selectionStart = this.inputArea.selectionEnd = prompt.name.length + 2;
+                this.hideSuggestions();
+                this.inputArea.focus();
+            });
+
+            suggestionItem.addEventListener('mouseenter', () => {
+                this.setSelectedSuggestion(index);
+            });
+        });
+
+        this.suggestionContainer.style.display = 'block';
+    }
+
     hideSuggestions() {
         if (this.suggestionContainer) {
             this.suggestionContainer.style.display = 'none';
@@ -1390,6 +5512,62 @@ class ClaudeChatView extends ItemView {
         return {enhancedMessage: enhanced, warnings};
     }
 
+    // Auto-retrieve mode: rank sections of the wikilinked/attached notes (or the whole vault
+    // when nothing is linked) against the message and append only the top excerpts
+    async buildRetrievedContext(message: string): Promise<{enhancedMessage: string, warnings: string[], sources: string[]}> {
+        const index = this.plugin.retrievalIndex;
+        const warnings: string[] = [];
+        const scopePaths: string[] = [];
+        let fullFiles = '';
+
+        const wikilinkRegex = /\[\[([^\]|]+)(\|[^\]]+)?\]\]/g;
+        const filenames = [...new Set([...message.matchAll(wikilinkRegex)].map(match => match[1]))];
+        for (const filename of filenames) {
+            const resolvedPath = this.resolveWikilinkToPath(filename);
+            if (resolvedPath) {
+                scopePaths.push(resolvedPath);
+            } else {
+                warnings.push(`⚠️ File not found: [[${filename}]]`);
+            }
+        }
+
+        await index.ensureReady();
+
+        // The index only covers markdown; other attachments are still sent whole
+        for (const attachedFile of this.attachedFiles) {
+            if (attachedFile.file.extension === 'md') {
+                scopePaths.push(attachedFile.file.path);
+            } else {
+                const truncated = this.plugin.truncateToolResult(attachedFile.content, 15000);
+                fullFiles += `[File: ${attachedFile.file.path}]\n${truncated}\n[End File: ${attachedFile.file.path}]\n\n`;
+            }
+        }
+
+        const query = message.replace(wikilinkRegex, (_, name) => name.split('/').pop());
+        const results = index.search(
+            query,
+            this.plugin.settings.retrievalTopK,
+            scopePaths.length > 0 ? { paths: [...new Set(scopePaths)] } : {}
+        );
+
+        if (results.length === 0 && !fullFiles) {
+            if (scopePaths.length > 0) {
+                warnings.push('⚠️ No sections of the linked notes matched your message');
+            }
+            return {enhancedMessage: message, warnings, sources: []};
+        }
+
+        let enhanced = message + '\n\n';
+        if (results.length > 0) {
+            enhanced += `[Retrieved Context: ${results.length} relevant excerpt(s)${scopePaths.length > 0 ? ' from the linked notes' : ' from the vault'}. Use read_file if you need a whole note.]\n\n`;
+            enhanced += index.formatResults(results) + '\n\n';
+        }
+        enhanced += fullFiles;
+
+        const sources = [...new Set(results.map(result => result.chunk.path))];
+        return {enhancedMessage: enhanced, warnings, sources};
+    }
+
     resolveWikilinkToPath(filename: string): string | null {
         // Handle .md extension if not present
         const withExtension = filename.endsWith('.md') ? filename : filename + '.md';
@@ -1464,6 +5642,19 @@ class ClaudeChatView extends ItemView {
     }
 
     truncateToolResults(history: MessageParam[]): MessageParam[] {
+        // A cached prefix is only reused if it is sent byte for byte as before, so with caching
+        // on, older messages go out unchanged while summarizing keeps the history in check.
+        // Summaries only cut between turns, so one tool-heavy turn can still outgrow the
+        // context window; past this share of it, truncating (and a cache miss) beats a failed request.
+        const CACHED_HISTORY_LIMIT = 0.8;
+        if (this.plugin.settings.enablePromptCaching) {
+            const limit = this.plugin.getModelContextWindow(this.getProfile().model) * CACHED_HISTORY_LIMIT;
+            if (this.plugin.estimateHistoryTokens(history) <= limit) {
+                return history;
+            }
+            console.log('History too large to send unchanged, truncating despite prompt caching');
+        }
+
         // Apply smart pruning first
         let trimmedHistory = this.smartPruneHistory(history);
 
@@ -1472,33 +5663,10 @@ class ClaudeChatView extends ItemView {
         const MAX_TEXT_LENGTH = 2000;
         const MAX_HISTORY_LENGTH = this.plugin.settings.maxHistoryMessages;
 
-        // Limit total history length
+        // Limit total history length (summarizing, when due, has already happened in needsSummary's caller)
         if (trimmedHistory.length > MAX_HISTORY_LENGTH) {
-            // Check if we should summarize older messages
-            const tokensUsed = this.plugin.estimateHistoryTokens(trimmedHistory);
-            const contextWindow = this.plugin.getModelContextWindow();
-            const percentageUsed = (tokensUsed / contextWindow) * 100;
-
-            if (percentageUsed > this.plugin.settings.autoSummarizeThreshold) {
-                // Summarize older messages
-                const keepRecent = 10;
-                const toSummarize = trimmedHistory.slice(0, -keepRecent);
-                const recentMessages = trimmedHistory.slice(-keepRecent);
-
-                // Create summary (async - will be ready for next call)
-                this.plugin.summarizeConversation(toSummarize).then(summary => {
-                    this.conversationSummary = summary;
-                    console.log(`Summarized ${toSummarize.length} old messages into summary`);
-                }).catch(err => {
-                    console.error('Failed to summarize conversation:', err);
-                });
-
-                trimmedHistory = recentMessages;
-            } else {
-                // Just truncate
-                trimmedHistory = trimmedHistory.slice(-MAX_HISTORY_LENGTH);
-                console.log(`Trimmed conversation history from ${history.length} to ${MAX_HISTORY_LENGTH} messages`);
-            }
+            trimmedHistory = trimmedHistory.slice(-MAX_HISTORY_LENGTH);
+            console.log(`Trimmed conversation history from ${history.length} to ${MAX_HISTORY_LENGTH} messages`);
         }
 
         // Truncate content in older messages
@@ -1537,13 +5705,20 @@ class ClaudeChatView extends ItemView {
     // Update token usage indicator
     updateTokenIndicator() {
         if (!this.tokenIndicator) return;
-
-        const tokensUsed = this.plugin.estimateHistoryTokens(this.conversationHistory);
-        const contextWindow = this.plugin.getModelContextWindow();
+        this.plugin.updateCacheStatus(this.usageRecords);
+
+        // The context size is what the last request actually sent plus what it generated;
+        // before the first response of a conversation, fall back to an estimate
+        const lastChat = [...this.usageRecords].reverse().find(record => record.purpose === 'chat');
+        const isEstimate = !lastChat;
+        const tokensUsed = lastChat
+            ? lastChat.inputTokens + lastChat.cacheCreationTokens + lastChat.cacheReadTokens + lastChat.outputTokens
+            : this.plugin.estimateHistoryTokens(this.conversationHistory);
+        const contextWindow = this.plugin.getModelContextWindow(this.getProfile().model);
         const percentageUsed = Math.round((tokensUsed / contextWindow) * 100);
 
         // Get model-specific rate limits
-        const limits = this.plugin.getModelRateLimits();
+        const limits = this.plugin.getModelRateLimits(this.getProfile().model);
 
         this.tokenIndicator.empty();
 
@@ -1569,10 +5744,22 @@ class ClaudeChatView extends ItemView {
         }
 
         indicator.addClass(statusClass);
-        indicator.setText(`${statusIcon} Context: ${percentageUsed}% (${tokensUsed.toLocaleString()} / ${contextWindow.toLocaleString()} tokens) - ${statusText}`);
+        const approx = isEstimate ? '~' : '';
+        indicator.setText(`${statusIcon} Context: ${approx}${percentageUsed}% (${approx}${tokensUsed.toLocaleString()} / ${contextWindow.toLocaleString()} tokens) - ${statusText}`);
 
         // Add tooltip with rate limit information
-        indicator.setAttribute('title', `Per-minute limits:\n${limits.rpm} requests/min\n${limits.itpm.toLocaleString()} input tokens/min\n${limits.otpm.toLocaleString()} output tokens/min\n\nNote: Only uncached tokens count toward input limit`);
+        indicator.setAttribute('title', `${isEstimate ? 'Estimated from message length until the first response arrives.\n\n' : ''}Per-minute limits:\n${limits.rpm} requests/min\n${limits.itpm.toLocaleString()} input tokens/min\n${limits.otpm.toLocaleString()} output tokens/min\n\nNote: Only uncached tokens count toward input limit`);
+
+        // Totals reported by the API for this conversation; click for the cost view
+        if (this.usageRecords.length > 0) {
+            const totals = summarizeUsage(this.usageRecords, record => this.plugin.calculateCost(record));
+            const stats = this.tokenIndicator.createDiv({ cls: 'claude-token-stats' });
+            const cost = totals.cost !== null ? ` · ${formatCost(totals.cost)}` : '';
+            const thinking = totals.thinkingTokens > 0 ? ` (~${formatTokenCount(totals.thinkingTokens)} thinking)` : '';
+            stats.setText(`${formatTokenCount(totals.totalInput)} in · ${formatTokenCount(totals.outputTokens)} out${thinking} · Cache hit ${Math.round(totals.cacheHitRate * 100)}%${cost}`);
+            stats.setAttribute('title', `${totals.requests} request(s)\nUncached input: ${totals.inputTokens.toLocaleString()}\nCache writes: ${totals.cacheCreationTokens.toLocaleString()}\nCache reads: ${totals.cacheReadTokens.toLocaleString()}\nOutput: ${totals.outputTokens.toLocaleString()}${totals.thinkingTokens > 0 ? `\n  of which thinking (estimated): ${totals.thinkingTokens.toLocaleString()}` : ''}\n\nClick for the cost view`);
+            stats.addEventListener('click', () => new UsageDashboardModal(this.plugin.app, this.plugin).open());
+        }
 
         // Add summarize button if needed
         if (percentageUsed >= 60 && this.conversationHistory.length > 10) {
@@ -1585,113 +5772,173 @@ class ClaudeChatView extends ItemView {
                 await this.summarizeOldHistory();
             });
         }
+
+        if (this.conversationSummary) {
+            const summaryBtn = this.tokenIndicator.createEl('button', {
+                text: '📋 Summary',
+                cls: 'claude-summarize-button',
+                attr: { title: 'View or edit the summary of the earlier conversation' }
+            });
+            summaryBtn.addEventListener('click', () => this.showSummaryEditor());
+        }
     }
 
-    // Update model indicator display
-    updateModelIndicator() {
-        if (!this.modelIndicator) return;
+    // Reasoning tokens to request, or undefined when thinking is off or the model lacks it
+    getThinkingBudget(model: string = this.getProfile().model): number | undefined {
+        if (!this.thinkingEnabled || !supportsThinking(model)) {
+            return undefined;
+        }
+        return this.plugin.settings.thinkingBudgetTokens;
+    }
 
-        this.modelIndicator.empty();
+    toggleThinking() {
+        this.thinkingEnabled = !this.thinkingEnabled;
+        this.updateThinkingButton();
+        if (this.thinkingEnabled && !supportsThinking(this.getProfile().model)) {
+            new Notice('Extended thinking is on, but the current model does not support it. It applies once you switch to Claude 3.7 Sonnet or a Claude 4 model.');
+        } else {
+            new Notice(`Extended thinking ${this.thinkingEnabled ? 'on' : 'off'} for this conversation`);
+        }
+        if (this.conversationHistory.length > 0) {
+            this.saveConversation();
+        }
+    }
 
-        const modelName = this.plugin.settings.model;
+    updateThinkingButton() {
+        if (!this.thinkingButton) return;
+        this.thinkingButton.toggleClass('is-active', this.thinkingEnabled);
+        this.thinkingButton.setAttribute('aria-label', this.thinkingEnabled
+            ? `Extended thinking on (${this.plugin.settings.thinkingBudgetTokens.toLocaleString()} token budget) - click to turn off`
+            : 'Extended thinking off - click to turn on');
+    }
 
-        // Get friendly model name
-        let displayName = 'Claude';
-        let modelIcon = '🤖';
+    getProfile(): AssistantProfile {
+        return this.plugin.getProfile(this.profileId);
+    }
 
-        if (modelName.includes('haiku')) {
-            displayName = 'Haiku 4.5';
-            modelIcon = '⚡';  // Fast model
-        } else if (modelName.includes('sonnet')) {
-            displayName = 'Sonnet 4.5';
-            modelIcon = '🎵';  // Balanced model
-        } else if (modelName.includes('opus')) {
-            displayName = 'Opus 4.1';
-            modelIcon = '👑';  // Most capable
-        }
+    // Update the profile switcher in the status bar
+    updateProfileIndicator() {
+        if (!this.modelIndicator) return;
 
-        // Create clickable model selector
-        const modelButton = this.modelIndicator.createEl('button', {
+        this.modelIndicator.empty();
+
+        const profile = this.getProfile();
+        const model = getModelOption(profile.model);
+        const label = profile.id ? `${profile.name} · ${model.name.replace(/^Claude /, '')}` : model.name.replace(/^Claude /, '');
+
+        const profileButton = this.modelIndicator.createEl('button', {
             cls: 'claude-model-selector-button',
-            attr: { 'aria-label': 'Change model' }
+            attr: { 'aria-label': 'Change assistant profile' }
         });
-        modelButton.setText(`${modelIcon} ${displayName} ▼`);
+        profileButton.setText(`${model.icon} ${label} ▼`);
 
-        // Add click handler to show model picker
-        modelButton.addEventListener('click', () => {
-            this.showModelPicker();
+        profileButton.addEventListener('click', () => {
+            this.showProfilePicker();
         });
     }
 
-    // Show model picker modal
-    showModelPicker() {
+    // Show profile picker modal; the choice applies to this conversation
+    showProfilePicker() {
         const modal = new Modal(this.plugin.app);
-        modal.contentEl.createEl('h3', { text: 'Select Model' });
-
-        const models = [
-            { id: 'claude-sonnet-4-5-20250929', name: 'Claude Sonnet 4.5', icon: '🎵', desc: 'Best balance – recommended for most tasks' },
-            { id: 'claude-haiku-4-5-20251001', name: 'Claude Haiku 4.5', icon: '⚡', desc: 'Fastest & cheapest – great for simple tasks' },
-            { id: 'claude-opus-4-1-20250805', name: 'Claude Opus 4.1', icon: '👑', desc: 'Most capable – for complex analysis' },
-            { id: 'claude-sonnet-4-20250514', name: 'Claude Sonnet 4', icon: '🎵', desc: 'Previous Sonnet version' },
-            { id: 'claude-opus-4-20250514', name: 'Claude Opus 4', icon: '👑', desc: 'Previous Opus version' },
-            { id: 'claude-3-7-sonnet-20250219', name: 'Claude Sonnet 3.7', icon: '🎵', desc: 'Legacy Sonnet 3.7' },
-            { id: 'claude-3-5-haiku-20241022', name: 'Claude Haiku 3.5', icon: '⚡', desc: 'Legacy Haiku 3.5' },
-            { id: 'claude-3-haiku-20240307', name: 'Claude Haiku 3', icon: '⚡', desc: 'Legacy Haiku 3' }
-        ];
+        modal.contentEl.createEl('h3', { text: 'Select Profile' });
 
         const listEl = modal.contentEl.createDiv({ cls: 'claude-model-list' });
 
-        for (const model of models) {
+        for (const profile of [this.plugin.getProfile(''), ...this.plugin.settings.profiles]) {
             const itemEl = listEl.createDiv({ cls: 'claude-model-item' });
 
-            // Highlight current model
-            if (model.id === this.plugin.settings.model) {
+            // Highlight current profile
+            if (profile.id === this.getProfile().id) {
                 itemEl.addClass('claude-model-item-active');
             }
 
-            const nameEl = itemEl.createEl('div', { cls: 'claude-model-name' });
-            nameEl.setText(`${model.icon} ${model.name}`);
+            const model = getModelOption(profile.model);
+            itemEl.createEl('div', { cls: 'claude-model-name', text: `${model.icon} ${profile.name}` });
 
-            const descEl = itemEl.createEl('div', { cls: 'claude-model-desc', text: model.desc });
+            const details = [model.name, profile.tools ? `${profile.tools.length} tool(s)` : 'all tools'];
+            if (profile.temperature !== undefined) details.push(`temperature ${profile.temperature}`);
+            itemEl.createEl('div', { cls: 'claude-model-desc', text: details.join(' · ') });
 
             itemEl.addEventListener('click', async () => {
-                this.plugin.settings.model = model.id;
-                await this.plugin.saveSettings();
-                this.updateModelIndicator();
-                new Notice(`Switched to ${model.name}`);
+                this.profileId = profile.id;
+                this.updateProfileIndicator();
+                this.updateTokenIndicator();
+                new Notice(`Switched to ${profile.name}`);
                 modal.close();
+                if (this.conversationHistory.length > 0) {
+                    await this.saveConversation();
+                }
             });
         }
 
+        modal.contentEl.createEl('p', {
+            text: 'Add and edit profiles in the plugin settings. The default profile uses the main model and prompt settings.',
+            cls: 'setting-item-description'
+        });
+
         modal.open();
     }
 
     // Manually trigger conversation summarization
     async summarizeOldHistory() {
-        if (this.conversationHistory.length <= 10) {
-            new Notice('Not enough history to summarize');
-            return;
+        try {
+            const folded = await this.foldHistoryIntoSummary();
+            if (folded === 0) {
+                new Notice('Not enough history to summarize');
+                return;
+            }
+            new Notice(`Summarized ${folded} messages. Context usage reduced!`);
+            await this.saveConversation();
+        } catch (error) {
+            new Notice('Failed to summarize: ' + error.message);
+        }
+    }
+
+    // Summarizing is due once the history is both longer than the message limit and
+    // past the context threshold
+    needsSummary(): boolean {
+        if (this.conversationHistory.length <= this.plugin.settings.maxHistoryMessages) {
+            return false;
         }
+        const tokensUsed = this.plugin.estimateHistoryTokens(this.conversationHistory);
+        const percentageUsed = (tokensUsed / this.plugin.getModelContextWindow(this.getProfile().model)) * 100;
+        return percentageUsed > this.plugin.settings.autoSummarizeThreshold;
+    }
 
+    // Fold everything before the most recent turns into the summary and drop it from the
+    // history. Returns how many messages were folded (0 when there was nothing to fold).
+    async foldHistoryIntoSummary(signal?: AbortSignal): Promise<number> {
         const keepRecent = 10;
-        const toSummarize = this.conversationHistory.slice(0, -keepRecent);
-        const recentMessages = this.conversationHistory.slice(-keepRecent);
+        const cut = findSummaryCut(this.conversationHistory, keepRecent);
+        if (cut === 0) {
+            return 0;
+        }
 
-        try {
-            this.conversationSummary = await this.plugin.summarizeConversation(toSummarize);
-            this.conversationHistory = recentMessages;
+        const toSummarize = this.conversationHistory.slice(0, cut);
+        this.conversationSummary = await this.plugin.summarizeConversation(toSummarize, this.conversationSummary, this.conversationId, signal);
+        this.branches.sync(this.conversationHistory);
+        this.branches.summarizedCount += cut;
+        this.conversationHistory = this.conversationHistory.slice(cut);
+        console.log(`Summarized ${cut} old messages into summary`);
 
-            new Notice(`Summarized ${toSummarize.length} messages. Context usage reduced!`);
-            this.updateTokenIndicator();
+        this.updateTokenIndicator();
 
-            // Add a system message to the UI
-            const summaryInfo = this.chatContainer.createDiv({
-                cls: 'claude-message claude-message-system'
-            });
-            summaryInfo.setText(`📝 Conversation history summarized (${toSummarize.length} messages condensed)`);
-        } catch (error) {
-            new Notice('Failed to summarize: ' + error.message);
-        }
+        // Add a system message to the UI
+        const summaryInfo = this.chatContainer.createDiv({
+            cls: 'claude-message claude-message-system claude-summary-note'
+        });
+        summaryInfo.setText(`📝 Conversation history summarized (${cut} messages condensed) - click to view or edit`);
+        summaryInfo.addEventListener('click', () => this.showSummaryEditor());
+        return cut;
+    }
+
+    showSummaryEditor() {
+        new ConversationSummaryModal(this.plugin.app, this.conversationSummary, async (summary) => {
+            this.conversationSummary = summary;
+            this.updateTokenIndicator();
+            await this.saveConversation();
+            new Notice(summary ? 'Summary updated' : 'Summary cleared');
+        }).open();
     }
 
     async sendMessage(inputArea: HTMLTextAreaElement) {
@@ -1704,17 +5951,84 @@ class ClaudeChatView extends ItemView {
         }
 
         inputArea.value = '';
+        await this.submitMessage(message);
+    }
+
+    // Fill in a library prompt. Built-in placeholders come from the workspace; the prompt's
+    // own variables are asked for. Returns null if the user cancels.
+    async expandPrompt(template: PromptTemplate, input: string): Promise<string | null> {
+        const activeFile = this.plugin.app.workspace.getActiveFile();
+        const editorView = this.plugin.app.workspace.getLeavesOfType('markdown')
+            .map(leaf => leaf.view)
+            .find((view): view is MarkdownView => view instanceof MarkdownView && view.file === activeFile);
+
+        const values: Record<string, string> = {
+            selection: editorView ? editorView.editor.getSelection() : '',
+            active_file: activeFile ? (activeFile.extension === 'md' ? `[[${activeFile.path}]]` : activeFile.path) : '',
+            date: moment().format('YYYY-MM-DD'),
+            input
+        };
+
+        if (template.variables.length > 0) {
+            const answers = await new Promise<Record<string, string> | null>(resolve => {
+                new PromptVariablesModal(this.plugin.app, template, resolve).open();
+            });
+            if (!answers) return null;
+            Object.assign(values, answers);
+        }
+
+        let expanded = fillPromptTemplate(template.body, values);
+        // Text typed after the command goes at the end unless the prompt places it
+        if (input && !/\{\{\s*input\s*\}\}/.test(template.body)) {
+            expanded += `\n\n${input}`;
+        }
+        return expanded;
+    }
 
-        // Parse wikilinks and auto-attach files
-        const {enhancedMessage, warnings} = await this.parseWikilinks(message);
+    // Send a message as the next turn and run the tool loop until Claude is done.
+    // Regenerating passes the turn's original content, which is sent again as it was.
+    async submitMessage(message: string, resendContent?: string | ContentBlock[]) {
+        const resending = resendContent !== undefined;
+
+        // A /command runs a prompt from the library; its model and tools apply to this turn
+        const command = await this.plugin.promptLibrary.match(message);
+        let prompt = message;
+        if (command && !resending) {
+            const expanded = await this.expandPrompt(command.template, command.input);
+            if (expanded === null) {
+                if (!this.inputArea.value) this.inputArea.value = message;
+                return;
+            }
+            prompt = expanded;
+        }
 
-        // Add manually attached files to the message
-        let finalMessage = enhancedMessage;
-        if (this.attachedFiles.length > 0) {
-            finalMessage += '\n\n[Manually Attached Files]\n\n';
-            for (const attachedFile of this.attachedFiles) {
-                const truncated = this.plugin.truncateToolResult(attachedFile.content, 15000);
-                finalMessage += `[File: ${attachedFile.file.path}]\n${truncated}\n[End File: ${attachedFile.file.path}]\n\n`;
+        const useRetrieval = !resending && this.plugin.settings.autoRetrieve && this.plugin.settings.enableRetrievalIndex;
+        let enhancedMessage: string = '';
+        let warnings: string[] = [];
+        let finalMessage: string | ContentBlock[];
+        let retrievedSources: string[] = [];
+
+        if (resending) {
+            finalMessage = resendContent!;
+        } else if (useRetrieval) {
+            // Auto-retrieve: send the most relevant sections instead of whole notes
+            const retrieved = await this.buildRetrievedContext(prompt);
+            enhancedMessage = retrieved.enhancedMessage;
+            warnings = retrieved.warnings;
+            retrievedSources = retrieved.sources;
+            finalMessage = enhancedMessage;
+        } else {
+            // Parse wikilinks and auto-attach files
+            ({enhancedMessage, warnings} = await this.parseWikilinks(prompt));
+
+            // Add manually attached files to the message
+            finalMessage = enhancedMessage;
+            if (this.attachedFiles.length > 0) {
+                finalMessage += '\n\n[Manually Attached Files]\n\n';
+                for (const attachedFile of this.attachedFiles) {
+                    const truncated = this.plugin.truncateToolResult(attachedFile.content, 15000);
+                    finalMessage += `[File: ${attachedFile.file.path}]\n${truncated}\n[End File: ${attachedFile.file.path}]\n\n`;
+                }
             }
         }
 
@@ -1731,24 +6045,47 @@ class ClaudeChatView extends ItemView {
             console.log('Simple task detected - consider using Haiku model for cost savings');
         }
 
+        // Instruction files for the active note and everything attached to this message
+        const activeFile = this.app.workspace.getActiveFile();
+        const instructions = await this.plugin.getInstructionFiles([
+            ...(activeFile ? [activeFile.path] : []),
+            ...(typeof finalMessage === 'string' ? getAttachedFilePaths(finalMessage) : []),
+            ...retrievedSources
+        ]);
+
         // Add to conversation history first to get the correct index
         this.conversationHistory.push({
             role: 'user',
             content: finalMessage
         });
+        const turn = this.branches.startTurn(this.conversationHistory, message);
+        if (instructions.length > 0) {
+            turn.instructions = instructions.map(instruction => instruction.path);
+        }
 
         // Update token indicator
         this.updateTokenIndicator();
 
         // Add user message to UI (show original message, not enhanced)
-        await this.addMessageToUI('user', message);
+        const userBubble = await this.addMessageToUI('user', message);
+        userBubble.dataset.messageIndex = String(this.conversationHistory.length - 1);
+        this.addBranchControls(userBubble, turn, 'user');
+        this.addInstructionsInfo(turn);
+        let lastAssistantBubble: HTMLElement | null = null;
 
         // Show detailed attachment info with file names
-        const totalWikilinks = (enhancedMessage.match(/\[File:/g) || []).length;
-        const totalManual = this.attachedFiles.length;
+        const totalWikilinks = useRetrieval || resending ? 0 : (enhancedMessage.match(/\[File:/g) || []).length;
+        const totalManual = useRetrieval || resending ? 0 : this.attachedFiles.length;
         const totalAttachments = totalWikilinks + totalManual;
 
-        if (totalAttachments > 0) {
+        if (retrievedSources.length > 0) {
+            const excerptCount = (enhancedMessage.match(/\[Excerpt:/g) || []).length;
+            const retrieveInfo = this.chatContainer.createDiv({
+                cls: 'claude-attachment-info'
+            });
+            const sourceNames = retrievedSources.map(path => path.split('/').pop()?.replace(/\.md$/, '')).join(', ');
+            retrieveInfo.setText(`🎯 Retrieved ${excerptCount} excerpt(s) from: ${sourceNames}`);
+        } else if (totalAttachments > 0) {
             const attachInfo = this.chatContainer.createDiv({
                 cls: 'claude-attachment-info'
             });
@@ -1770,12 +6107,23 @@ class ClaudeChatView extends ItemView {
         }
 
         // Clear attached files after sending
-        this.attachedFiles = [];
-        this.renderAttachmentChips();
+        if (!resending) {
+            this.attachedFiles = [];
+            this.renderAttachmentChips();
+        }
 
         // Set generating state and transform button to stop
         this.isGenerating = true;
         this.shouldStop = false;
+        this.currentTurnId = `turn_${Date.now()}`;
+
+        // Give a new conversation its ID now so usage can be attributed to it
+        if (!this.conversationId) {
+            this.setConversationId(this.plugin.generateConversationId());
+        }
+        const conversationId = this.conversationId;
+        this.abortController = new AbortController();
+        const signal = this.abortController.signal;
         this.updateSendButton('stop');
 
         // Show loading indicator with animation
@@ -1786,10 +6134,20 @@ class ClaudeChatView extends ItemView {
         // Scroll to bottom to show loading animation
         this.chatContainer.scrollTop = this.chatContainer.scrollHeight;
 
+        let streamingDiv: HTMLElement | null = null;
+
         try {
-            // Build system prompt with vault access tools
-            const systemPrompt = this.buildSystemPrompt();
-            const tools = this.plugin.getTools();
+            // Denied tools are not offered to Claude at all; a /command's tools narrow the profile's further
+            const profile = this.getProfile();
+            // Calls to tools outside the profile's are refused when they run, whatever asked for them
+            const profileTools = this.plugin.getTools().filter(tool => !profile.tools || profile.tools.includes(tool.name));
+            const tools = profileTools.filter(tool => this.plugin.getToolPermission(tool.name) !== 'deny'
+                && (!command || !command.template.tools || command.template.tools.includes(tool.name)));
+            const model = command?.template.model || profile.model;
+            const thinkingBudget = this.getThinkingBudget(model);
+
+            // Build system prompt with the tools offered this turn
+            const systemPrompt = this.buildSystemPrompt(instructions, tools);
 
             // Tool use loop
             let continueLoop = true;
@@ -1804,20 +6162,88 @@ class ClaudeChatView extends ItemView {
                 console.log('Continue loop:', continueLoop);
                 console.log('Conversation history length:', this.conversationHistory.length);
 
-                // Truncate old tool results to save tokens
-                const historyToSend = this.truncateToolResults(this.conversationHistory);
+                // Summarize first when due, so this request already carries the updated summary
+                if (this.needsSummary()) {
+                    this.stopLoadingAnimation();
+                    loadingDiv.setText('Summarizing earlier conversation...');
+                    try {
+                        await this.foldHistoryIntoSummary(signal);
+                    } catch (error) {
+                        if (this.plugin.isAbortError(error)) throw error;
+                        // Send the history unsummarized; truncateToolResults still keeps it within the context window
+                        console.error('Failed to summarize conversation:', error);
+                    }
+                    this.chatContainer.appendChild(loadingDiv);  // Keep the loading bubble below the note
+                    this.startLoadingAnimation(loadingDiv);
+                }
+
+                // Truncate old tool results to save tokens. Reasoning goes back to the API
+                // unchanged when thinking is on; within a tool loop it must.
+                const truncatedHistory = this.truncateToolResults(this.conversationHistory);
+                const withReasoning = thinkingBudget ? truncatedHistory : withoutReasoningBlocks(truncatedHistory);
+                const historyToSend = tools.length > 0 ? withReasoning : withoutToolBlocks(withReasoning);
 
                 console.log('Calling Claude API...');
-                const response = await this.plugin.callClaude(
+                streamingDiv = null;
+                const response = await this.plugin.callClaudeStreaming(
                     historyToSend,
                     systemPrompt,
                     tools,
-                    (attempt, delay) => {
-                        // Update UI during retries
-                        loadingDiv.setText(`API is busy, retrying in ${delay / 1000}s... (Attempt ${attempt}/3)`);
-                    }
+                    {
+                        onText: (delta, fullText) => {
+                            // Swap the loading placeholder for a live bubble on first text
+                            if (!streamingDiv) {
+                                this.stopLoadingAnimation();
+                                loadingDiv.style.display = 'none';
+                                streamingDiv = this.createStreamingMessage(loadingDiv);
+                            }
+                            this.updateStreamingMessage(streamingDiv, fullText);
+                        },
+                        onToolUseStart: (toolName) => {
+                            this.stopLoadingAnimation();
+                            loadingDiv.style.display = '';
+                            loadingDiv.setText(`Claude is preparing ${toolName}...`);
+                        },
+                        onThinking: () => {
+                            if (!streamingDiv) {
+                                this.stopLoadingAnimation();
+                                loadingDiv.setText('Claude is reasoning...');
+                            }
+                        },
+                        onRateLimitWait: (seconds) => {
+                            this.stopLoadingAnimation();
+                            loadingDiv.style.display = '';
+                            loadingDiv.setText(seconds > 0
+                                ? `⏳ Pacing requests to stay under your rate limit - sending in ${seconds}s...`
+                                : 'Claude is thinking...');
+                        }
+                    },
+                    ({ attempt, maxAttempts, delay, error }) => {
+                        // Show the retry in the loading bubble and keep a note of it in the chat
+                        this.stopLoadingAnimation();
+                        loadingDiv.style.display = '';
+                        loadingDiv.setText(`${error.label} - retrying in ${Math.ceil(delay / 1000)}s... (attempt ${attempt + 1}/${maxAttempts})`);
+                        const retryNote = this.chatContainer.createDiv({ cls: 'claude-retry-note' });
+                        retryNote.setText(`↻ ${error.label}, retried (attempt ${attempt + 1}/${maxAttempts})`);
+                        this.chatContainer.insertBefore(retryNote, loadingDiv);
+                    },
+                    signal,
+                    { model, maxTokens: profile.maxTokens, thinkingBudget, temperature: profile.temperature }
                 );
 
+                // Replace the live bubble with the fully rendered message below
+                if (streamingDiv) {
+                    (streamingDiv as HTMLElement).remove();
+                    streamingDiv = null;
+                    loadingDiv.style.display = '';
+                }
+
+                const usage = this.plugin.recordUsage(response, conversationId, 'chat');
+                if (usage) {
+                    this.usageRecords.push(usage);
+                    this.updateTokenIndicator();
+                }
+
                 console.log('=== Tool Loop Response ===');
                 console.log('Stop reason:', response.stop_reason);
                 console.log('Content blocks:', response.content);
@@ -1832,7 +6258,7 @@ class ClaudeChatView extends ItemView {
 
                     this.stopLoadingAnimation();
                     loadingDiv.remove();
-                    await this.addMessageToUI('assistant', textContent);
+                    lastAssistantBubble = await this.addMessageToUI('assistant', textContent, getReasoningBlocks(response.content));
                     this.conversationHistory.push({
                         role: 'assistant',
                         content: response.content
@@ -1847,29 +6273,24 @@ class ClaudeChatView extends ItemView {
                     this.stopLoadingAnimation();
                     loadingDiv.setText('Claude is using tools...');
 
+                    // Show any text Claude wrote before its tool calls
+                    const preambleText = response.content
+                        .filter((block: ContentBlock) => block.type === 'text')
+                        .map((block: ContentBlock) => block.text)
+                        .join('\n');
+                    const reasoning = getReasoningBlocks(response.content);
+                    if (preambleText.trim() || reasoning.length > 0) {
+                        await this.addMessageToUI('assistant', preambleText, reasoning);
+                    }
+
                     // Add assistant's tool use to history
                     this.conversationHistory.push({
                         role: 'assistant',
                         content: response.content
                     });
 
-                    // Execute all tool calls
-                    const toolResults: ContentBlock[] = [];
-                    for (const block of response.content) {
-                        if (block.type === 'tool_use') {
-                            const result = await this.plugin.executeTool(block.name, block.input);
-                            toolResults.push({
-                                type: 'tool_result',
-                                tool_use_id: block.id,
-                                content: result
-                            });
-
-                            // Show tool execution in UI
-                            this.addToolExecutionToUI(block.name, block.input, result);
-                        }
-                    }
-
-                    // Add tool results to history
+                    // Execute all tool calls and add their results to history
+                    const toolResults = await this.runToolCalls(response.content, profileTools.map(tool => tool.name), command?.template);
                     this.conversationHistory.push({
                         role: 'user',
                         content: toolResults
@@ -1898,23 +6319,8 @@ class ClaudeChatView extends ItemView {
                             content: response.content
                         });
 
-                        // Execute all tool calls
-                        const toolResults: ContentBlock[] = [];
-                        for (const block of response.content) {
-                            if (block.type === 'tool_use') {
-                                const result = await this.plugin.executeTool(block.name, block.input);
-                                toolResults.push({
-                                    type: 'tool_result',
-                                    tool_use_id: block.id,
-                                    content: result
-                                });
-
-                                // Show tool execution in UI
-                                this.addToolExecutionToUI(block.name, block.input, result);
-                            }
-                        }
-
-                        // Add tool results to history
+                        // Execute all tool calls and add their results to history
+                        const toolResults = await this.runToolCalls(response.content, profileTools.map(tool => tool.name), command?.template);
                         this.conversationHistory.push({
                             role: 'user',
                             content: toolResults
@@ -1926,7 +6332,7 @@ class ClaudeChatView extends ItemView {
                             .map((block: ContentBlock) => block.text)
                             .join('\n');
 
-                        await this.addMessageToUI('assistant', textContent);
+                        lastAssistantBubble = await this.addMessageToUI('assistant', textContent, getReasoningBlocks(response.content));
                         this.conversationHistory.push({
                             role: 'assistant',
                             content: response.content
@@ -1934,7 +6340,7 @@ class ClaudeChatView extends ItemView {
                     }
 
                     // Show friendly message about max_tokens
-                    await this.addMessageToUI('assistant', '⚠️ **Response truncated** - Hit max output token limit. Type "continue" to resume, or increase Max Output Tokens in settings (currently: ' + this.plugin.settings.maxTokens + ').');
+                    await this.addMessageToUI('assistant', '⚠️ **Response truncated** - Hit max output token limit. Type "continue" to resume, or increase Max Output Tokens in settings (currently: ' + profile.maxTokens + ').');
 
                     this.updateTokenIndicator();
                     continueLoop = false;
@@ -1957,42 +6363,52 @@ class ClaudeChatView extends ItemView {
 
             // Check if user stopped generation
             if (this.shouldStop) {
-                this.stopLoadingAnimation();
-                loadingDiv.remove();
-                await this.addMessageToUI('assistant', '⚠️ Generation stopped by user');
-                new Notice('Generation stopped');
+                await this.handleGenerationStopped(loadingDiv);
             }
 
         } catch (error) {
+            if (this.plugin.isAbortError(error)) {
+                // Request aborted by the Stop button - discard any partial streamed text
+                if (streamingDiv) {
+                    (streamingDiv as HTMLElement).remove();
+                }
+                await this.handleGenerationStopped(loadingDiv);
+                return;
+            }
+
             this.stopLoadingAnimation();
             loadingDiv.remove();
             const errorMsg = error.message || String(error);
+            const apiError = error instanceof ClaudeApiError ? error : null;
+            const status = apiError ? apiError.status : -1;
+            const attemptsNote = apiError && apiError.attempts > 1 ? ` after ${apiError.attempts} attempts` : '';
 
             // Provide specific error messages based on error type
             let friendlyMsg = '';
             let noticeMsg = '';
 
-            if (errorMsg.includes('529') || errorMsg.includes('overloaded_error')) {
-                friendlyMsg = '**API is overloaded** (Error 529). All retry attempts failed.\n\nThis means Anthropic\'s servers are experiencing high traffic.\n\n**Solutions:**\n- Wait 1-2 minutes and try again\n- The API will work once servers are less busy\n- This is temporary - not a problem with your account';
+            if (status === 529) {
+                friendlyMsg = `**API is overloaded** (Error 529). All retry attempts failed${attemptsNote}.\n\nThis means Anthropic's servers are experiencing high traffic.\n\n**Solutions:**\n- Wait 1-2 minutes and try again\n- The API will work once servers are less busy\n- This is temporary - not a problem with your account`;
                 noticeMsg = 'API overloaded - please try again in a moment';
-            } else if (errorMsg.includes('429') || errorMsg.includes('rate_limit_error')) {
-                // Extract retry-after if present
-                const retryMatch = errorMsg.match(/Retry after: (\d+)s/);
-                const retrySeconds = retryMatch ? retryMatch[1] : '60';
+            } else if (apiError && status === 429) {
+                const retrySeconds = apiError.retryAfter !== null ? String(Math.ceil(apiError.retryAfter)) : '60';
 
                 // Get model-specific limits
-                const limits = this.plugin.getModelRateLimits();
+                const limits = this.plugin.getModelRateLimits(this.getProfile().model);
 
-                friendlyMsg = `**Rate Limit Exceeded** (Error 429)\n\nYou've hit one of these per-minute limits:\n- **Requests**: ${limits.rpm} requests/min\n- **Input Tokens**: ${limits.itpm.toLocaleString()} tokens/min (uncached)\n- **Output Tokens**: ${limits.otpm.toLocaleString()} tokens/min\n\n**Solutions:**\n1. Wait ${retrySeconds} seconds before trying again\n2. Click "📝 Summarize History" to reduce token usage\n3. Clear conversation history (click 🗑️)\n4. Switch to Haiku model for higher limits (50k input tokens/min)\n5. Use smaller files or more targeted operations\n\n**Note:** Only uncached tokens count toward input limits. Enable prompt caching to reduce usage!`;
+                friendlyMsg = `**Rate Limit Exceeded** (Error 429)${attemptsNote}\n\nYou've hit one of these per-minute limits:\n- **Requests**: ${limits.rpm} requests/min\n- **Input Tokens**: ${limits.itpm.toLocaleString()} tokens/min (uncached)\n- **Output Tokens**: ${limits.otpm.toLocaleString()} tokens/min\n\n**Solutions:**\n1. Wait ${retrySeconds} seconds before trying again\n2. Click "📝 Summarize History" to reduce token usage\n3. Clear conversation history (click 🗑️)\n4. Switch to Haiku model for higher limits (50k input tokens/min)\n5. Use smaller files or more targeted operations\n\n**Note:** Only uncached tokens count toward input limits. Enable prompt caching to reduce usage!`;
                 noticeMsg = `Rate limit hit - wait ${retrySeconds}s or reduce usage`;
-            } else if (errorMsg.includes('400')) {
+            } else if (status === 400) {
                 friendlyMsg = 'Invalid request sent to API.\n\nDetails: ' + errorMsg + '\n\nThis is usually a bug in the plugin. Please report it.';
                 noticeMsg = 'Invalid API request - please report this bug';
-            } else if (errorMsg.includes('401') || errorMsg.includes('authentication')) {
+            } else if (status === 401 || status === 403) {
                 friendlyMsg = 'API key is invalid or expired.\n\nSuggestions:\n- Check your API key in settings\n- Generate a new key at https://console.anthropic.com\n- Make sure you have credits available';
                 noticeMsg = 'Invalid API key - check settings';
-            } else if (errorMsg.includes('500') || errorMsg.includes('502') || errorMsg.includes('503')) {
-                friendlyMsg = 'Server error on Anthropic\'s side.\n\nSuggestions:\n- Wait a few minutes and try again\n- Check https://status.anthropic.com for outages\n- Your request was not processed';
+            } else if (status === 0) {
+                friendlyMsg = `Could not reach the Anthropic API${attemptsNote}.\n\nDetails: ${errorMsg}\n\nSuggestions:\n- Check your internet connection\n- Check https://status.anthropic.com for outages\n- Try again in a moment`;
+                noticeMsg = 'Could not reach the API - check your connection';
+            } else if (status >= 500) {
+                friendlyMsg = `Server error on Anthropic's side (Error ${status})${attemptsNote}.\n\nSuggestions:\n- Wait a few minutes and try again\n- Check https://status.anthropic.com for outages\n- Your request was not processed`;
                 noticeMsg = 'Server error - try again in a few minutes';
             } else {
                 friendlyMsg = 'Unexpected error occurred.\n\nDetails: ' + errorMsg + '\n\nIf this persists, please report it as a bug.';
@@ -2005,11 +6421,325 @@ class ClaudeChatView extends ItemView {
             // Always reset state and restore send button
             this.isGenerating = false;
             this.shouldStop = false;
+            this.abortController = null;
             this.updateSendButton('send');
 
+            // Offer to undo whatever this turn changed in the vault
+            this.addRevertAction(this.currentTurnId);
+
+            if (lastAssistantBubble) {
+                this.addBranchControls(lastAssistantBubble, turn, 'assistant');
+            }
+
             // Auto-save conversation after each exchange
-            await this.plugin.saveCurrentConversation(this.conversationHistory, this.conversationSummary);
+            await this.saveConversation();
+        }
+    }
+
+    // Save with the branch tree brought up to date with the history
+    async saveConversation() {
+        this.branches.sync(this.conversationHistory);
+        if (!this.conversationId && this.conversationHistory.length > 0) {
+            this.setConversationId(this.plugin.generateConversationId());  // Its saved copy was deleted meanwhile
+        }
+        await this.plugin.saveConversation(this.conversationId, this.conversationHistory, this.conversationSummary, this.changeJournal.entries, this.usageRecords, this.branches.serialize(), { thinking: this.thinkingEnabled, profile: this.profileId });
+    }
+
+    // Edit on user bubbles, regenerate on Claude's final reply, and sibling navigation on both
+    addBranchControls(bubble: HTMLElement, turn: ConversationTurn, role: 'user' | 'assistant') {
+        const header = bubble.querySelector('.claude-message-header');
+        if (!header) return;
+        const controls = header.createDiv({ cls: 'claude-branch-controls' });
+
+        const siblings = this.branches.getSiblings(turn);
+        if (siblings.length > 1) {
+            const position = siblings.indexOf(turn);
+            const previousBtn = controls.createEl('button', { text: '◀', cls: 'claude-branch-button', attr: { 'aria-label': 'Previous branch' } });
+            controls.createSpan({ text: `${position + 1}/${siblings.length}`, cls: 'claude-branch-position' });
+            const nextBtn = controls.createEl('button', { text: '▶', cls: 'claude-branch-button', attr: { 'aria-label': 'Next branch' } });
+            previousBtn.disabled = position === 0;
+            nextBtn.disabled = position === siblings.length - 1;
+            previousBtn.addEventListener('click', () => this.switchBranch(siblings[position - 1]));
+            nextBtn.addEventListener('click', () => this.switchBranch(siblings[position + 1]));
+        }
+
+        const firstMessage = turn.messages[0];
+        if (!firstMessage || firstMessage.role !== 'user' || typeof firstMessage.content !== 'string') {
+            return;  // Turns rebuilt from a partial history have no message of their own to resend
+        }
+
+        if (role === 'user') {
+            const editBtn = controls.createEl('button', { text: '✏️', cls: 'claude-branch-button', attr: { 'aria-label': 'Edit and resend' } });
+            editBtn.addEventListener('click', () => this.showEditor(bubble, turn));
+        } else {
+            const regenerateBtn = controls.createEl('button', { text: '↻', cls: 'claude-branch-button', attr: { 'aria-label': 'Regenerate response' } });
+            regenerateBtn.addEventListener('click', () => this.regenerateTurn(turn));
+        }
+    }
+
+    canBranchFrom(turn: ConversationTurn): boolean {
+        if (this.isGenerating) {
+            new Notice('Wait for the current response to finish');
+            return false;
+        }
+        this.branches.sync(this.conversationHistory);
+        if (this.branches.isSummarized(turn)) {
+            new Notice('This part of the conversation has been summarized and can no longer be branched');
+            return false;
+        }
+        return true;
+    }
+
+    showEditor(bubble: HTMLElement, turn: ConversationTurn) {
+        if (!this.canBranchFrom(turn) || bubble.querySelector('.claude-branch-editor')) return;
+
+        const contentDiv = bubble.querySelector<HTMLElement>('.claude-message-content');
+        if (contentDiv) contentDiv.style.display = 'none';
+
+        const editor = bubble.createDiv({ cls: 'claude-branch-editor' });
+        const textarea = editor.createEl('textarea', { cls: 'claude-input' });
+        textarea.value = turn.display !== undefined ? turn.display : getMessageText(turn.messages[0]);
+        const buttons = editor.createDiv({ cls: 'claude-branch-editor-buttons' });
+        const sendBtn = buttons.createEl('button', { text: 'Send', cls: 'mod-cta' });
+        const cancelBtn = buttons.createEl('button', { text: 'Cancel' });
+
+        const close = () => {
+            editor.remove();
+            if (contentDiv) contentDiv.style.display = '';
+        };
+        cancelBtn.addEventListener('click', close);
+        sendBtn.addEventListener('click', async () => {
+            const text = textarea.value.trim();
+            if (!text) return;
+            close();
+            await this.forkBefore(turn);
+            await this.submitMessage(text);
+        });
+        textarea.focus();
+    }
+
+    async regenerateTurn(turn: ConversationTurn) {
+        if (!this.canBranchFrom(turn)) return;
+
+        const userMessage = turn.messages[0];
+        await this.forkBefore(turn);
+        await this.submitMessage(turn.display !== undefined ? turn.display : getMessageText(userMessage), userMessage.content);
+    }
+
+    // Rewind the history to just before a turn, so the next message starts a sibling branch
+    async forkBefore(turn: ConversationTurn) {
+        this.branches.rewindBefore(turn);
+        this.conversationHistory = this.branches.getHistory();
+        this.chatContainer.empty();
+        await this.renderHistory();
+    }
+
+    async switchBranch(turn: ConversationTurn) {
+        if (!this.canBranchFrom(turn)) return;
+
+        this.branches.switchTo(turn);
+        this.conversationHistory = this.branches.getHistory();
+        this.chatContainer.empty();
+        await this.renderHistory();
+        await this.saveConversation();
+    }
+
+    // Create a live assistant bubble for streamed text, placed above the loading indicator
+    createStreamingMessage(loadingDiv: HTMLElement): HTMLElement {
+        const messageDiv = createDiv({ cls: 'claude-message claude-message-assistant claude-message-streaming' });
+        const messageHeader = messageDiv.createDiv({ cls: 'claude-message-header' });
+        messageHeader.createDiv({ cls: 'claude-message-role', text: 'Claude' });
+        messageDiv.createDiv({ cls: 'claude-message-content' });
+        this.chatContainer.insertBefore(messageDiv, loadingDiv);
+        return messageDiv;
+    }
+
+    updateStreamingMessage(messageDiv: HTMLElement, text: string) {
+        const contentDiv = messageDiv.querySelector('.claude-message-content');
+        if (contentDiv) {
+            contentDiv.setText(text);
+        }
+        this.chatContainer.scrollTop = this.chatContainer.scrollHeight;
+    }
+
+    // Execute the tool_use blocks of a response. Once the user stops generation, remaining
+    // calls are skipped but still answered so every tool_use keeps a matching tool_result.
+    // Calls to tools outside allowedTools (the profile's), or outside the tools of the prompt
+    // that started the turn, are refused like denied ones.
+    async runToolCalls(content: ContentBlock[], allowedTools: string[], template?: PromptTemplate): Promise<ContentBlock[]> {
+        const toolResults: ContentBlock[] = [];
+
+        for (const block of content) {
+            if (block.type !== 'tool_use') continue;
+
+            if (this.shouldStop) {
+                toolResults.push({
+                    type: 'tool_result',
+                    tool_use_id: block.id,
+                    content: 'Tool call cancelled: the user stopped generation before it ran.',
+                    is_error: true
+                });
+                continue;
+            }
+
+            // Permission policy: denied or rejected calls are reported back to Claude.
+            // Stopping while the approval dialog is open closes it and cancels the call.
+            let unavailable = '';
+            if (!allowedTools.includes(block.name!)) {
+                unavailable = `with the ${this.getProfile().name} profile`;
+            } else if (template && template.tools && !template.tools.includes(block.name!)) {
+                unavailable = `for the /${template.name} prompt`;
+            }
+            const refusal = unavailable
+                ? JSON.stringify({
+                    status: 'not_available',
+                    tool: block.name,
+                    message: `The ${block.name} tool is not available ${unavailable}. Do not call it again; use only the tools you were given.`
+                })
+                : await this.plugin.checkToolPermission(block.name!, block.input, this.abortController?.signal);
+            if (this.shouldStop) {
+                toolResults.push({
+                    type: 'tool_result',
+                    tool_use_id: block.id,
+                    content: 'Tool call cancelled: the user stopped generation before it ran.',
+                    is_error: true
+                });
+                continue;
+            }
+            if (refusal) {
+                toolResults.push({
+                    type: 'tool_result',
+                    tool_use_id: block.id,
+                    content: refusal,
+                    is_error: true
+                });
+                this.addToolExecutionToUI(block.name!, block.input, refusal, true);
+                continue;
+            }
+
+            const turnId = this.currentTurnId;
+            const result = await this.plugin.executeTool(block.name!, block.input, change => {
+                this.changeJournal.record(turnId, block.name!, change);
+            });
+            toolResults.push({
+                type: 'tool_result',
+                tool_use_id: block.id,
+                content: result
+            });
+
+            // Show tool execution in UI
+            this.addToolExecutionToUI(block.name!, block.input, result);
+        }
+
+        return toolResults;
+    }
+
+    // Cancel the current generation: abort the in-flight request and skip queued tool calls
+    stopGeneration() {
+        this.shouldStop = true;
+        if (this.abortController) {
+            this.abortController.abort();
+        }
+    }
+
+    async handleGenerationStopped(loadingDiv: HTMLElement) {
+        this.stopLoadingAnimation();
+        loadingDiv.remove();
+
+        // Keep user/assistant turns alternating when the stop left the user with the last word
+        const lastMessage = this.conversationHistory[this.conversationHistory.length - 1];
+        if (lastMessage && lastMessage.role === 'user') {
+            this.conversationHistory.push({
+                role: 'assistant',
+                content: [{ type: 'text', text: '(Generation stopped by user)' }]
+            });
+        }
+
+        await this.addMessageToUI('assistant', '⚠️ Generation stopped by user');
+        new Notice('Generation stopped');
+    }
+
+    // Add a "Revert these changes" action after a turn that modified the vault
+    addRevertAction(turnId: string) {
+        const entries = this.changeJournal.getActiveEntries(turnId);
+        if (entries.length === 0) return;
+
+        const revertDiv = this.chatContainer.createDiv({ cls: 'claude-revert-action' });
+        const revertBtn = revertDiv.createEl('button', {
+            text: `↩️ Revert these changes (${entries.length})`,
+            cls: 'claude-revert-button'
+        });
+
+        revertBtn.addEventListener('click', async () => {
+            const pending = this.changeJournal.getActiveEntries(turnId);
+            const done = await this.revertChanges(pending);
+            if (done && this.changeJournal.getActiveEntries(turnId).length === 0) {
+                revertBtn.disabled = true;
+                revertBtn.setText('↩️ Changes reverted');
+            }
+        });
+
+        this.chatContainer.scrollTop = this.chatContainer.scrollHeight;
+    }
+
+    // Revert journal entries, warning first if files were edited after Claude changed them.
+    // Returns false if the user cancelled.
+    async revertChanges(entries: JournalEntry[]): Promise<boolean> {
+        if (entries.length === 0) {
+            new Notice('No changes to revert');
+            return false;
+        }
+
+        const conflicts = await this.changeJournal.findConflicts(entries);
+        let skipPaths = new Set<string>();
+
+        if (conflicts.size > 0) {
+            const choice = await new Promise<'cancel' | 'skip' | 'overwrite'>(resolve => {
+                const modal = new Modal(this.plugin.app);
+                let chosen = false;
+                const choose = (value: 'cancel' | 'skip' | 'overwrite') => {
+                    chosen = true;
+                    resolve(value);
+                    modal.close();
+                };
+
+                modal.contentEl.createEl('h3', { text: 'Files changed since Claude edited them' });
+                modal.contentEl.createEl('p', { text: 'These files were modified after Claude\'s changes. Reverting them would discard those later edits:' });
+                const list = modal.contentEl.createEl('ul');
+                conflicts.forEach(path => list.createEl('li', { text: path }));
+
+                const buttonContainer = modal.contentEl.createDiv({ cls: 'modal-button-container' });
+                buttonContainer.createEl('button', { text: 'Cancel' }).addEventListener('click', () => choose('cancel'));
+                buttonContainer.createEl('button', { text: 'Skip changed files', cls: 'mod-cta' }).addEventListener('click', () => choose('skip'));
+                buttonContainer.createEl('button', { text: 'Revert anyway', cls: 'mod-warning' }).addEventListener('click', () => choose('overwrite'));
+
+                modal.onClose = () => {
+                    if (!chosen) resolve('cancel');
+                };
+                modal.open();
+            });
+
+            if (choice === 'cancel') return false;
+            if (choice === 'skip') skipPaths = conflicts;
+        }
+
+        const result = await this.changeJournal.revert(entries, skipPaths);
+
+        let message = `Reverted ${result.reverted} change(s)`;
+        if (result.skipped.length > 0) {
+            message += `, skipped ${result.skipped.length} edited file(s)`;
+        }
+        if (result.failed.length > 0) {
+            message += `, ${result.failed.length} failed`;
+            console.error('Failed to revert changes:', result.failed);
         }
+        new Notice(message);
+
+        const summaryInfo = this.chatContainer.createDiv({ cls: 'claude-message claude-message-system' });
+        summaryInfo.setText(`↩️ ${message}`);
+
+        await this.saveConversation();
+        return true;
     }
 
     getPlayfulLoadingMessages(): string[] {
@@ -2058,7 +6788,7 @@ class ClaudeChatView extends ItemView {
         }
     }
 
-    buildSystemPrompt(): string {
+    buildSystemPrompt(instructions: InstructionFile[] = [], tools: Tool[] = this.plugin.getTools()): SystemPromptParts {
         const adapter = this.app.vault.adapter;
         const vaultPath = (adapter as any).basePath || 'Vault';
 
@@ -2069,27 +6799,20 @@ class ClaudeChatView extends ItemView {
             activeFileInfo = `Currently active file: ${activeFile.path}`;
         }
 
-        let systemPrompt = '';
+        // Tool list comes from the registry, so plugin-registered tools are described too
+        const offered = new Set(tools.map(tool => tool.name));
+        const toolList = this.plugin.toolRegistry.getAll()
+            .filter(tool => offered.has(tool.name))
+            .map(tool => `- ${tool.name}: ${tool.promptSummary || tool.description}`)
+            .join('\n');
 
-        // Prepend conversation summary if it exists
-        if (this.conversationSummary) {
-            systemPrompt += this.conversationSummary + '\n\n';
-        }
-
-        systemPrompt += `You are Claude, integrated into Obsidian to help the user with their vault.
+        // Everything up to the custom instructions is the same from turn to turn, so it can be cached
+        let systemPrompt = `You are Claude, integrated into Obsidian to help the user with their vault.
 
 Vault location: ${vaultPath}
-${activeFileInfo}
 
 You have access to powerful tools to interact with the vault:
-- read_file: Read the contents of any file (use this for each file individually)
-- search_in_file: Search for patterns without reading entire files
-- get_file_info: Check file size and preview before reading large files
-- write_file: Create new files or update existing ones
-- replace_in_file: Make targeted edits without rewriting entire files
-- list_files: List all files in the vault or in a specific folder
-- rename_file: Rename or move files
-- delete_file: Delete files (use with caution)
+${toolList}
 
 CRITICAL PRIORITY RULES:
 1. **ALWAYS prioritize explicitly attached files over active file context**
@@ -2103,61 +6826,70 @@ IMPORTANT WORKFLOW TIPS:
 2. Don't ask the user to paste file contents - use read_file yourself
 3. For large files, use get_file_info first to check the size
 4. Use search_in_file to find specific content without reading entire files
-5. Your tool calls are cached - reading the same file again is nearly free
+   For long notes, use get_headings then read_section, read_block or read_lines instead of read_file
+5. Use search_vault to find which notes mention something instead of reading files one by one
+6. Use retrieve_context to answer questions from the relevant sections of notes without reading them whole
+7. Your tool calls are cached - reading the same file again is nearly free
 
 When the user references [[wikilinks]], you will be given a list of file paths to read.
 Be helpful and proactive. Use your tools to read, search, and modify files as needed.`;
 
-        // Append custom prompt if provided
-        if (this.plugin.settings.customPrompt && this.plugin.settings.customPrompt.trim()) {
-            systemPrompt += `\n\n--- CUSTOM USER INSTRUCTIONS ---\n${this.plugin.settings.customPrompt.trim()}`;
+        // Append the profile's prompt (the custom prompt for the default profile) if provided
+        const profilePrompt = this.getProfile().systemPrompt;
+        if (profilePrompt && profilePrompt.trim()) {
+            systemPrompt += `\n\n--- CUSTOM USER INSTRUCTIONS ---\n${profilePrompt.trim()}`;
+        }
+
+        // Changing context goes last so it doesn't invalidate the cached prefix
+        let dynamic = '';
+        if (instructions.length > 0) {
+            dynamic += `=== Instructions for this part of the vault ===\nFollow these as well as the instructions above. Where they disagree, the file from the deeper folder wins.\n\n`;
+            for (const instruction of instructions) {
+                dynamic += `--- From ${instruction.path} ---\n${instruction.content}\n\n`;
+            }
+            dynamic += `=== End of vault instructions ===\n\n`;
+        }
+        if (this.conversationSummary) {
+            dynamic += `=== Summary of the earlier conversation ===\n${this.conversationSummary}\n=== End of summary ===\n\n`;
         }
+        dynamic += activeFileInfo;
 
-        return systemPrompt;
+        return { stable: systemPrompt, dynamic };
     }
 
-    addToolExecutionToUI(toolName: string, input: any, result: string) {
+    // Which instruction files applied to a turn; click one to open it
+    addInstructionsInfo(turn: ConversationTurn) {
+        if (!turn.instructions || turn.instructions.length === 0) return;
+
+        const infoDiv = this.chatContainer.createDiv({ cls: 'claude-attachment-info claude-instructions-info' });
+        infoDiv.appendText('📏 Instructions: ');
+        turn.instructions.forEach((path, index) => {
+            if (index > 0) infoDiv.appendText(', ');
+            const link = infoDiv.createEl('a', { text: path, href: '#' });
+            link.addEventListener('click', (e) => {
+                e.preventDefault();
+                this.app.workspace.openLinkText(path, '', false);
+            });
+        });
+    }
+
+    addToolExecutionToUI(toolName: string, input: any, result: string, refused: boolean = false) {
         // Create compact tool execution summary
         const toolDiv = this.chatContainer.createDiv({
             cls: 'claude-tool-execution'
         });
 
-        // Format a clean, compact summary based on tool type
-        let summary = '';
-        switch (toolName) {
-            case 'read_file':
-                summary = `📄 Read: ${input.path}`;
-                break;
-            case 'write_file':
-                summary = `✏️ Wrote: ${input.path}`;
-                break;
-            case 'replace_in_file':
-                summary = `🔄 Edited: ${input.path}`;
-                break;
-            case 'delete_file':
-                summary = `🗑️ Deleted: ${input.path}`;
-                break;
-            case 'copy_file':
-                summary = `📋 Copied: ${input.source_path} → ${input.destination_path}`;
-                break;
-            case 'rename_file':
-                summary = `📝 Renamed: ${input.old_path} → ${input.new_path}`;
-                break;
-            case 'list_files':
-                const fileCount = result.match(/Found (\d+)/)?.[1] || '?';
-                summary = `📁 Listed ${fileCount} files`;
-                break;
-            case 'search_in_file':
-                const matchCount = result.match(/Found (\d+)/)?.[1] || '0';
-                summary = `🔍 Search in ${input.path}: ${matchCount} matches`;
-                break;
-            case 'get_file_info':
-                summary = `ℹ️ File info: ${input.path}`;
-                break;
-            default:
-                summary = `🔧 ${toolName}`;
+        if (refused) {
+            toolDiv.addClass('claude-tool-execution-refused');
+            const reason = result.includes('denied_by_policy') ? 'blocked by settings' : 'rejected';
+            toolDiv.setText(`🚫 ${toolName} ${reason}: ${input.path || input.old_path || input.source_path || ''}`);
+            this.chatContainer.scrollTop = this.chatContainer.scrollHeight;
+            return;
         }
 
+        // Format a clean, compact summary using the tool's own formatter
+        const summary = this.plugin.formatToolSummary(toolName, input, result);
+
         toolDiv.setText(summary);
         this.chatContainer.scrollTop = this.chatContainer.scrollHeight;
     }
@@ -2212,7 +6944,7 @@ Be helpful and proactive. Use your tools to read, search, and modify files as ne
         footer.style.fontStyle = 'italic';
     }
 
-    async addMessageToUI(role: 'user' | 'assistant' | 'error', content: string) {
+    async addMessageToUI(role: 'user' | 'assistant' | 'error', content: string, reasoning: ContentBlock[] = []): Promise<HTMLElement> {
         const messageDiv = this.chatContainer.createDiv({
             cls: `claude-message claude-message-${role}`
         });
@@ -2222,11 +6954,17 @@ Be helpful and proactive. Use your tools to read, search, and modify files as ne
         roleLabel.setText(role === 'user' ? 'You' : role === 'assistant' ? 'Claude' : 'Error');
 
         // Add copy button for assistant messages (top)
-        if (role === 'assistant') {
+        const hasCopyButtons = role === 'assistant' && content.trim() !== '';
+        if (hasCopyButtons) {
             const copyButtonTop = this.createCopyButton(content);
             messageHeader.appendChild(copyButtonTop);
         }
 
+        // Extended thinking, collapsed above the answer
+        if (reasoning.length > 0) {
+            await this.renderReasoning(messageDiv, reasoning);
+        }
+
         const contentDiv = messageDiv.createDiv({ cls: 'claude-message-content' });
 
         // Render markdown for assistant and user messages, plain text for errors
@@ -2243,13 +6981,34 @@ Be helpful and proactive. Use your tools to read, search, and modify files as ne
         }
 
         // Add copy button for assistant messages (bottom)
-        if (role === 'assistant') {
+        if (hasCopyButtons) {
             const messageFooter = messageDiv.createDiv({ cls: 'claude-message-footer' });
             const copyButtonBottom = this.createCopyButton(content);
             messageFooter.appendChild(copyButtonBottom);
         }
 
         this.chatContainer.scrollTop = this.chatContainer.scrollHeight;
+        return messageDiv;
+    }
+
+    async renderReasoning(messageDiv: HTMLElement, reasoning: ContentBlock[]) {
+        const details = messageDiv.createEl('details', { cls: 'claude-reasoning' });
+        details.createEl('summary', { text: 'Reasoning' });
+        const body = details.createDiv({ cls: 'claude-reasoning-content' });
+
+        const thinking = reasoning
+            .filter(block => block.type === 'thinking' && block.thinking)
+            .map(block => block.thinking)
+            .join('\n\n');
+        if (thinking) {
+            await MarkdownRenderer.render(this.plugin.app, thinking, body, '', this.plugin);
+        }
+        if (reasoning.some(block => block.type === 'redacted_thinking')) {
+            body.createDiv({
+                cls: 'claude-reasoning-redacted',
+                text: 'Part of the reasoning was encrypted by the API and is not shown. It is still sent back to Claude.'
+            });
+        }
     }
 
     createCopyButton(content: string): HTMLElement {
@@ -2420,39 +7179,102 @@ Be helpful and proactive. Use your tools to read, search, and modify files as ne
         }
     }
 
-    async loadPreviousConversation() {
-        // Load the most recent conversation if auto-save is enabled
-        if (!this.plugin.settings.autoSaveConversations) {
-            return;
+    // Switch to a saved conversation, optionally scrolling to one of its messages
+    async openConversation(conversationId: string, messageIndex?: number): Promise<boolean> {
+        // A conversation open in another session is shown there rather than loaded twice
+        const other = this.plugin.getChatViews().find(view => view !== this && view.conversationId === conversationId);
+        if (other) {
+            this.app.workspace.revealLeaf(other.leaf);
+            if (messageIndex !== undefined) {
+                other.jumpToMessage(messageIndex);
+            }
+            return true;
         }
 
-        const currentId = this.plugin.settings.currentConversationId;
-        if (!currentId) {
-            return;
+        if (!(await this.loadConversationIntoView(conversationId))) {
+            new Notice('Conversation could not be loaded');
+            return false;
+        }
+
+        this.plugin.settings.currentConversationId = conversationId;
+        await this.plugin.saveSettings();
+
+        if (messageIndex !== undefined) {
+            this.jumpToMessage(messageIndex);
+        }
+        return true;
+    }
+
+    async loadConversationIntoView(conversationId: string): Promise<boolean> {
+        const loaded = await this.plugin.loadConversation(conversationId);
+        if (!loaded) {
+            return false;
+        }
+
+        this.setBranches(loaded.messages, loaded.tree);
+        this.conversationSummary = loaded.summary;
+        this.changeJournal = new ChangeJournal(this.plugin.app, loaded.changes);
+        this.usageRecords = loaded.usage;
+        this.thinkingEnabled = loaded.options.thinking ?? this.plugin.settings.thinkingByDefault;
+        this.updateThinkingButton();
+        this.profileId = loaded.options.profile ?? this.plugin.settings.defaultProfileId;
+        this.updateProfileIndicator();
+        this.setConversationId(conversationId);
+
+        this.chatContainer.empty();
+        await this.renderHistory();
+        return true;
+    }
+
+    // Continue an exchange started elsewhere (the quick-ask modal) as this view's conversation
+    async adoptConversation(conversationId: string, messages: MessageParam[], usage: UsageRecord[], firstDisplay: string) {
+        this.setBranches([...messages]);
+        this.branches.getActivePath()[0].display = firstDisplay;
+        this.conversationSummary = '';
+        this.changeJournal = new ChangeJournal(this.plugin.app);
+        this.usageRecords = [...usage];
+        this.setConversationId(conversationId);
+
+        this.chatContainer.empty();
+        await this.renderHistory();
+        await this.saveConversation();
+    }
+
+    // Use a saved tree, or build an unbranched one from the messages
+    setBranches(messages: MessageParam[], tree?: ConversationTree) {
+        this.branches = new ConversationBranches(tree);
+        if (tree) {
+            this.conversationHistory = this.branches.getHistory();
+        } else {
+            this.conversationHistory = messages;
+            this.branches.sync(messages);
         }
+    }
 
-        const loaded = this.plugin.loadConversation(currentId);
-        if (loaded) {
-            this.conversationHistory = loaded.messages;
-            this.conversationSummary = loaded.summary;
+    // Restore the bubbles for the active branch. Each is tagged with its index in conversationHistory.
+    async renderHistory() {
+        let index = -this.branches.summarizedCount;
+        for (const turn of this.branches.getActivePath()) {
+            let lastAssistantBubble: HTMLElement | null = null;
 
-            // Restore messages to UI
-            for (const msg of this.conversationHistory) {
+            for (const msg of turn.messages) {
                 if (msg.role === 'user') {
                     if (typeof msg.content === 'string') {
-                        await this.addMessageToUI('user', msg.content);
+                        const bubble = await this.addMessageToUI('user', turn.display !== undefined && msg === turn.messages[0] ? turn.display : msg.content);
+                        if (index >= 0) bubble.dataset.messageIndex = String(index);
+                        if (msg === turn.messages[0]) {
+                            this.addBranchControls(bubble, turn, 'user');
+                            this.addInstructionsInfo(turn);
+                        }
                     }
                 } else if (msg.role === 'assistant') {
                     // Extract text content from assistant messages
-                    const textContent = Array.isArray(msg.content)
-                        ? msg.content
-                            .filter((block: ContentBlock) => block.type === 'text')
-                            .map((block: ContentBlock) => block.text)
-                            .join('\n')
-                        : msg.content;
+                    const textContent = getMessageText(msg);
+                    const reasoning = getReasoningBlocks(msg.content);
 
-                    if (textContent) {
-                        await this.addMessageToUI('assistant', textContent);
+                    if (textContent || reasoning.length > 0) {
+                        lastAssistantBubble = await this.addMessageToUI('assistant', textContent, reasoning);
+                        if (index >= 0) lastAssistantBubble.dataset.messageIndex = String(index);
                     }
 
                     // Show tool uses if any
@@ -2466,71 +7288,30 @@ Be helpful and proactive. Use your tools to read, search, and modify files as ne
                         }
                     }
                 }
+                index++;
             }
 
-            this.updateTokenIndicator();
-            console.log(`Loaded conversation: ${currentId} with ${this.conversationHistory.length} messages`);
-        }
-    }
-
-    showConversationPicker() {
-        const conversations = this.plugin.settings.savedConversations;
-
-        if (conversations.length === 0) {
-            new Notice('No saved conversations found');
-            return;
+            if (lastAssistantBubble) {
+                this.addBranchControls(lastAssistantBubble, turn, 'assistant');
+            }
         }
 
-        const modal = new Modal(this.plugin.app);
-        modal.contentEl.createEl('h3', { text: 'Past Conversations' });
-
-        // Sort by timestamp (most recent first)
-        const sorted = [...conversations].sort((a, b) => b.timestamp - a.timestamp);
-
-        const listEl = modal.contentEl.createDiv({ cls: 'claude-conversation-list' });
-
-        for (const conv of sorted) {
-            const itemEl = listEl.createDiv({ cls: 'claude-conversation-item' });
-
-            const nameEl = itemEl.createEl('strong', { text: conv.name });
-            const dateEl = itemEl.createEl('div', {
-                text: new Date(conv.timestamp).toLocaleString(),
-                cls: 'claude-conversation-date'
-            });
-            const countEl = itemEl.createEl('div', {
-                text: `${conv.messages.length} messages`,
-                cls: 'claude-conversation-count'
-            });
-
-            const buttonContainer = itemEl.createDiv({ cls: 'claude-conversation-buttons' });
-
-            const loadBtn = buttonContainer.createEl('button', { text: 'Load', cls: 'mod-cta' });
-            const deleteBtn = buttonContainer.createEl('button', { text: 'Delete', cls: 'mod-warning' });
-
-            loadBtn.addEventListener('click', async () => {
-                const loaded = this.plugin.loadConversation(conv.id);
-                if (loaded) {
-                    this.conversationHistory = loaded.messages;
-                    this.conversationSummary = loaded.summary;
-                    this.plugin.settings.currentConversationId = conv.id;
-
-                    this.chatContainer.empty();
-                    await this.loadPreviousConversation();
-                    this.updateTokenIndicator();
+        this.updateTokenIndicator();
+    }
 
-                    new Notice(`Loaded: ${conv.name}`);
-                    modal.close();
-                }
-            });
+    // Scroll to the bubble for a message, or the nearest one before it (tool results have none)
+    jumpToMessage(messageIndex: number) {
+        const bubbles = Array.from(this.chatContainer.querySelectorAll<HTMLElement>('[data-message-index]'));
+        const target = bubbles.filter(bubble => Number(bubble.dataset.messageIndex) <= messageIndex).pop() || bubbles[0];
+        if (!target) return;
 
-            deleteBtn.addEventListener('click', async () => {
-                await this.plugin.deleteConversation(conv.id);
-                new Notice('Conversation deleted');
-                modal.close();
-            });
-        }
+        target.scrollIntoView({ block: 'center' });
+        target.addClass('claude-message-highlight');
+        window.setTimeout(() => target.removeClass('claude-message-highlight'), 2000);
+    }
 
-        modal.open();
+    showConversationPicker() {
+        new ConversationHistoryModal(this.plugin.app, this.plugin, this).open();
     }
 
     async exportConversation() {
@@ -2594,6 +7375,14 @@ Be helpful and proactive. Use your tools to read, search, and modify files as ne
     newConversation() {
         this.conversationHistory = [];
         this.conversationSummary = '';
+        this.branches = new ConversationBranches();
+        this.changeJournal = new ChangeJournal(this.plugin.app);
+        this.usageRecords = [];
+        this.thinkingEnabled = this.plugin.settings.thinkingByDefault;
+        this.updateThinkingButton();
+        this.profileId = this.plugin.settings.defaultProfileId;
+        this.updateProfileIndicator();
+        this.setConversationId('');
         this.plugin.settings.currentConversationId = '';  // Clear current conversation ID
         this.chatContainer.empty();
         this.addWelcomeMessage();
@@ -2605,6 +7394,11 @@ Be helpful and proactive. Use your tools to read, search, and modify files as ne
         // Cleanup
         this.stopLoadingAnimation();
 
+        // Don't leave a request running for a closed view
+        if (this.isGenerating) {
+            this.stopGeneration();
+        }
+
         // Clear autocomplete timeout
         if (this.autocompleteTimeout) {
             window.clearTimeout(this.autocompleteTimeout);
@@ -2695,23 +7489,9 @@ class VaultSearchModal extends Modal {
         // Search all files
         for (const file of files) {
             this.plugin.app.vault.read(file).then(content => {
-                const lines = content.split('\n');
-
-                lines.forEach((line, index) => {
-                    if (line.toLowerCase().includes(query)) {
-                        // Get context (3 lines before and after)
-                        const contextBefore = lines.slice(Math.max(0, index - 3), index);
-                        const contextAfter = lines.slice(index + 1, index + 4);
-
-                        this.searchResults.push({
-                            file,
-                            line: index + 1,
-                            lineText: line,
-                            contextBefore,
-                            contextAfter
-                        });
-                    }
-                });
+                // Get matches with context (3 lines before and after)
+                const matches = this.plugin.findLineMatches(file, content, line => line.toLowerCase().includes(query));
+                this.searchResults.push(...matches);
 
                 // Update UI after each file is processed
                 this.updateResults(query);
@@ -2862,84 +7642,809 @@ class VaultSearchModal extends Modal {
                 }
             });
 
-            message += `[End File: ${filePath}]\n\n`;
-        });
+            message += `[End File: ${filePath}]\n\n`;
+        });
+
+        // Add to chat input
+        this.chatView.inputArea.value = message;
+        this.chatView.inputArea.focus();
+
+        // Close modal
+        this.close();
+
+        new Notice(`Added ${this.selectedResults.size} search results to chat`);
+    }
+
+    onClose() {
+        const { contentEl } = this;
+        contentEl.empty();
+    }
+}
+
+class ClaudeQuickModal extends Modal {
+    plugin: ClaudePlugin;
+    editor: Editor;
+    file: TFile | null;
+    fileContent: string;
+    messages: MessageParam[] = [];
+    usageRecords: UsageRecord[] = [];
+    firstQuestion: string = '';        // Shown instead of the first message, which carries the note
+    threadEl: HTMLElement;
+    inputArea: HTMLTextAreaElement;
+    askButton: HTMLButtonElement;
+    promoteButton: HTMLButtonElement;
+    abortController: AbortController | null = null;
+
+    constructor(app: App, plugin: ClaudePlugin, editor: Editor, file: TFile | null) {
+        super(app);
+        this.plugin = plugin;
+        this.editor = editor;
+        this.file = file;
+        this.fileContent = editor.getValue();
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('claude-quick-modal');
+
+        contentEl.createEl('h2', { text: `Ask Claude about ${this.file?.basename || 'this note'}` });
+
+        this.threadEl = contentEl.createDiv({ cls: 'claude-quick-thread' });
+
+        this.inputArea = contentEl.createEl('textarea', {
+            cls: 'claude-quick-input',
+            attr: { placeholder: 'What do you want to know about this file?' }
+        });
+
+        const buttonDiv = contentEl.createDiv({ cls: 'modal-button-container' });
+        this.promoteButton = buttonDiv.createEl('button', { text: 'Continue in chat' });
+        this.promoteButton.disabled = true;
+        this.askButton = buttonDiv.createEl('button', { text: 'Ask', cls: 'mod-cta' });
+
+        this.promoteButton.addEventListener('click', () => this.promote());
+        this.askButton.addEventListener('click', () => this.ask());
+        this.inputArea.addEventListener('keydown', (e) => {
+            if (e.key === 'Enter' && !e.shiftKey) {
+                e.preventDefault();
+                this.ask();
+            }
+        });
+        this.inputArea.focus();
+    }
+
+    async ask() {
+        const question = this.inputArea.value.trim();
+        if (!question || this.abortController) return;
+
+        // The note goes with the first question, in the same form as a chat attachment,
+        // so every follow-up (and the chat, if promoted) still has it
+        let content = question;
+        if (this.messages.length === 0) {
+            const path = this.file?.path || 'current file';
+            const truncated = this.plugin.truncateToolResult(this.fileContent, 15000);
+            content += `\n\n[Manually Attached Files]\n\n[File: ${path}]\n${truncated}\n[End File: ${path}]\n\n`;
+            this.firstQuestion = question;
+        }
+        this.messages.push({ role: 'user', content });
+
+        this.inputArea.value = '';
+        this.askButton.disabled = true;
+        this.askButton.setText('Asking...');
+        const questionEl = this.threadEl.createDiv({ cls: 'claude-message claude-message-user', text: question });
+        const loadingEl = this.threadEl.createDiv({ cls: 'claude-message claude-message-assistant', text: 'Claude is thinking...' });
+        this.threadEl.scrollTop = this.threadEl.scrollHeight;
+
+        this.abortController = new AbortController();
+        try {
+            const response = await this.plugin.callClaude(this.messages, undefined, undefined, undefined, this.abortController.signal);
+            // Not part of any conversation unless it is promoted to chat
+            const usage = this.plugin.recordUsage(response, '', 'quick');
+            if (usage) this.usageRecords.push(usage);
+
+            this.messages.push({ role: 'assistant', content: response.content });
+            loadingEl.remove();
+            await this.addAnswer(getMessageText(this.messages[this.messages.length - 1]));
+            this.promoteButton.disabled = false;
+        } catch (error) {
+            // Take the question back so it can be edited and asked again
+            this.messages.pop();
+            if (this.messages.length === 0) this.firstQuestion = '';
+            questionEl.remove();
+            loadingEl.remove();
+            this.inputArea.value = question;
+            if (!this.plugin.isAbortError(error)) {
+                new Notice('Error: ' + error.message);
+            }
+        } finally {
+            this.abortController = null;
+            this.askButton.disabled = false;
+            this.askButton.setText('Ask');
+        }
+    }
+
+    async addAnswer(text: string) {
+        const answerEl = this.threadEl.createDiv({ cls: 'claude-message claude-message-assistant' });
+        const contentEl = answerEl.createDiv({ cls: 'claude-message-content' });
+        await MarkdownRenderer.render(this.app, text, contentEl, this.file?.path || '', this.plugin);
+
+        const actions = answerEl.createDiv({ cls: 'claude-quick-actions' });
+        const insertBtn = actions.createEl('button', { text: 'Insert at cursor' });
+        const appendBtn = actions.createEl('button', { text: 'Append to note' });
+        insertBtn.addEventListener('click', () => {
+            this.editor.replaceRange(text, this.editor.getCursor());
+            new Notice('Inserted at cursor');
+        });
+        appendBtn.addEventListener('click', () => {
+            const lastLine = this.editor.lastLine();
+            this.editor.replaceRange(`\n\n${text}`, { line: lastLine, ch: this.editor.getLine(lastLine).length });
+            new Notice('Appended to note');
+        });
+
+        this.threadEl.scrollTop = this.threadEl.scrollHeight;
+    }
+
+    // Carry on in a chat view: an empty one if there is one, otherwise a new tab
+    async promote() {
+        if (this.messages.length === 0 || this.abortController) return;
+
+        let view = this.plugin.getActiveChatView();
+        if (view && view.conversationHistory.length === 0 && !view.isGenerating) {
+            this.app.workspace.revealLeaf(view.leaf);
+        } else {
+            view = await this.plugin.openNewChat('tab');
+        }
+        if (!view) return;
+
+        // The conversation's own totals include the exchange; the usage log keeps it as quick ask
+        const conversationId = this.plugin.generateConversationId();
+        const usage = this.usageRecords.map(record => ({ ...record, conversationId, purpose: 'chat' as const }));
+        await view.adoptConversation(conversationId, this.messages, usage, this.firstQuestion);
+        this.close();
+    }
+
+    onClose() {
+        if (this.abortController) {
+            this.abortController.abort();
+        }
+        this.contentEl.empty();
+    }
+}
+
+// Asks for the variables of a library prompt before it is sent
+class PromptVariablesModal extends Modal {
+    template: PromptTemplate;
+    onSubmit: (values: Record<string, string> | null) => void;
+    submitted: boolean = false;
+
+    constructor(app: App, template: PromptTemplate, onSubmit: (values: Record<string, string> | null) => void) {
+        super(app);
+        this.template = template;
+        this.onSubmit = onSubmit;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        contentEl.createEl('h3', { text: `/${this.template.name}` });
+        if (this.template.description) {
+            contentEl.createEl('p', { text: this.template.description, cls: 'claude-approval-description' });
+        }
+
+        const inputs: Record<string, HTMLInputElement> = {};
+        for (const variable of this.template.variables) {
+            new Setting(contentEl)
+                .setName(variable)
+                .addText(text => {
+                    inputs[variable] = text.inputEl;
+                    text.inputEl.addEventListener('keydown', (e) => {
+                        if (e.key === 'Enter') {
+                            e.preventDefault();
+                            submit();
+                        }
+                    });
+                });
+        }
+
+        const buttonContainer = contentEl.createDiv({ cls: 'modal-button-container' });
+        const cancelBtn = buttonContainer.createEl('button', { text: 'Cancel' });
+        const sendBtn = buttonContainer.createEl('button', { text: 'Send', cls: 'mod-cta' });
+
+        const submit = () => {
+            const values: Record<string, string> = {};
+            for (const variable of this.template.variables) {
+                values[variable] = inputs[variable].value;
+            }
+            this.submit(values);
+            this.close();
+        };
+        cancelBtn.addEventListener('click', () => this.close());
+        sendBtn.addEventListener('click', submit);
+
+        const first = inputs[this.template.variables[0]];
+        if (first) first.focus();
+    }
+
+    submit(values: Record<string, string> | null) {
+        if (!this.submitted) {
+            this.submitted = true;
+            this.onSubmit(values);
+        }
+    }
+
+    onClose() {
+        // Closing without sending cancels the message
+        this.submit(null);
+        this.contentEl.empty();
+    }
+}
+
+// Asks for the extra input a selection action needs (target language, custom instruction)
+class SelectionInstructionModal extends Modal {
+    prompt: string;
+    initial: string;
+    onSubmit: (input: string) => void;
+
+    constructor(app: App, prompt: string, initial: string, onSubmit: (input: string) => void) {
+        super(app);
+        this.prompt = prompt;
+        this.initial = initial;
+        this.onSubmit = onSubmit;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        contentEl.createEl('h3', { text: this.prompt });
+        const input = contentEl.createEl('input', { type: 'text', cls: 'claude-selection-instruction' });
+        input.value = this.initial;
+
+        const buttonContainer = contentEl.createDiv({ cls: 'modal-button-container' });
+        const cancelBtn = buttonContainer.createEl('button', { text: 'Cancel' });
+        const runBtn = buttonContainer.createEl('button', { text: 'Run', cls: 'mod-cta' });
+
+        const submit = () => {
+            const value = input.value.trim();
+            if (!value) return;
+            this.close();
+            this.onSubmit(value);
+        };
+        cancelBtn.addEventListener('click', () => this.close());
+        runBtn.addEventListener('click', submit);
+        input.addEventListener('keydown', (e) => {
+            if (e.key === 'Enter') {
+                e.preventDefault();
+                submit();
+            }
+        });
+        input.focus();
+        input.select();
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
+
+class ToolApprovalModal extends Modal {
+    preview: ToolChangePreview;
+    onDecision: (approved: boolean) => void;
+    decided: boolean = false;
+
+    constructor(app: App, preview: ToolChangePreview, onDecision: (approved: boolean) => void) {
+        super(app);
+        this.preview = preview;
+        this.onDecision = onDecision;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('claude-approval-modal');
+
+        contentEl.createEl('h3', { text: this.preview.title });
+        contentEl.createEl('p', { text: this.preview.description, cls: 'claude-approval-description' });
+
+        if (this.preview.diff) {
+            const diffEl = contentEl.createEl('pre', { cls: 'claude-diff' });
+            for (const line of this.preview.diff.split('\n')) {
+                let cls = 'claude-diff-line';
+                if (line.startsWith('@@')) cls += ' claude-diff-hunk';
+                else if (line.startsWith('+++') || line.startsWith('---')) cls += ' claude-diff-file';
+                else if (line.startsWith('+')) cls += ' claude-diff-add';
+                else if (line.startsWith('-')) cls += ' claude-diff-remove';
+                diffEl.createDiv({ cls, text: line || ' ' });
+            }
+        }
+
+        const buttonContainer = contentEl.createDiv({ cls: 'modal-button-container' });
+        const rejectBtn = buttonContainer.createEl('button', { text: 'Reject', cls: 'mod-warning' });
+        const approveBtn = buttonContainer.createEl('button', { text: 'Approve', cls: 'mod-cta' });
+
+        rejectBtn.addEventListener('click', () => {
+            this.decide(false);
+            this.close();
+        });
+        approveBtn.addEventListener('click', () => {
+            this.decide(true);
+            this.close();
+        });
+    }
+
+    decide(approved: boolean) {
+        if (!this.decided) {
+            this.decided = true;
+            this.onDecision(approved);
+        }
+    }
+
+    onClose() {
+        // Closing the modal without choosing counts as a rejection
+        this.decide(false);
+        this.contentEl.empty();
+    }
+}
+
+// Asks whether to take the saved conversations along when the conversation folder changes
+class ConversationFolderModal extends Modal {
+    from: string;
+    to: string;
+    count: number;
+    onChoice: (choice: 'move' | 'keep' | 'cancel') => void;
+    chosen: boolean = false;
+
+    constructor(app: App, from: string, to: string, count: number, onChoice: (choice: 'move' | 'keep' | 'cancel') => void) {
+        super(app);
+        this.from = from;
+        this.to = to;
+        this.count = count;
+        this.onChoice = onChoice;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+
+        contentEl.createEl('h3', { text: 'Change conversation folder' });
+        contentEl.createEl('p', {
+            text: `${this.from} holds ${this.count} conversation(s) and the usage log. Move them to ${this.to}? Conversations left behind no longer show up in the history.`
+        });
+
+        const buttonContainer = contentEl.createDiv({ cls: 'modal-button-container' });
+        const cancelBtn = buttonContainer.createEl('button', { text: 'Cancel' });
+        const keepBtn = buttonContainer.createEl('button', { text: 'Leave them' });
+        const moveBtn = buttonContainer.createEl('button', { text: 'Move', cls: 'mod-cta' });
+
+        cancelBtn.addEventListener('click', () => this.close());
+        keepBtn.addEventListener('click', () => {
+            this.choose('keep');
+            this.close();
+        });
+        moveBtn.addEventListener('click', () => {
+            this.choose('move');
+            this.close();
+        });
+    }
+
+    choose(choice: 'move' | 'keep' | 'cancel') {
+        if (!this.chosen) {
+            this.chosen = true;
+            this.onChoice(choice);
+        }
+    }
+
+    onClose() {
+        this.choose('cancel');
+        this.contentEl.empty();
+    }
+}
+
+// Shows the rolling summary that stands in for the earlier messages, for the user to correct
+class ConversationSummaryModal extends Modal {
+    summary: string;
+    onSave: (summary: string) => void;
+
+    constructor(app: App, summary: string, onSave: (summary: string) => void) {
+        super(app);
+        this.summary = summary;
+        this.onSave = onSave;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('claude-summary-modal');
+
+        contentEl.createEl('h3', { text: 'Conversation Summary' });
+        contentEl.createEl('p', {
+            text: 'Claude sees this summary instead of the earlier messages it covers. Correct anything it got wrong, or clear it to start over.',
+            cls: 'claude-approval-description'
+        });
+
+        const textarea = contentEl.createEl('textarea', { cls: 'claude-summary-textarea' });
+        textarea.value = this.summary;
+
+        const buttonContainer = contentEl.createDiv({ cls: 'modal-button-container' });
+        const cancelBtn = buttonContainer.createEl('button', { text: 'Cancel' });
+        const saveBtn = buttonContainer.createEl('button', { text: 'Save', cls: 'mod-cta' });
+
+        cancelBtn.addEventListener('click', () => this.close());
+        saveBtn.addEventListener('click', () => {
+            this.onSave(textarea.value.trim());
+            this.close();
+        });
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
+
+// Saved conversations to search, filter, pin, rename, open and delete
+class ConversationHistoryModal extends Modal {
+    plugin: ClaudePlugin;
+    chatView: ClaudeChatView;
+    listEl: HTMLElement;
+    deleteSelectedBtn: HTMLButtonElement;
+    entries: ConversationIndexEntry[] = [];
+    selected: Set<string> = new Set();
+    hits: Map<string, ConversationSearchHit[]> | null = null;  // null when not searching
+    filters = { query: '', from: '', to: '', model: '', file: '' };
+    searchTimer: number | null = null;
+
+    constructor(app: App, plugin: ClaudePlugin, chatView: ClaudeChatView) {
+        super(app);
+        this.plugin = plugin;
+        this.chatView = chatView;
+    }
+
+    async onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('claude-history-modal');
+
+        contentEl.createEl('h3', { text: 'Conversation History' });
+
+        this.entries = await this.plugin.conversationStore.getIndex();
+        if (this.entries.length === 0) {
+            contentEl.createEl('p', { text: 'No saved conversations found', cls: 'claude-approval-description' });
+            return;
+        }
+
+        // Search and filters
+        const searchInput = contentEl.createEl('input', {
+            cls: 'claude-history-search',
+            attr: { placeholder: 'Search all conversations...', type: 'search' }
+        });
+        searchInput.addEventListener('input', () => {
+            this.filters.query = searchInput.value;
+            if (this.searchTimer) window.clearTimeout(this.searchTimer);
+            this.searchTimer = window.setTimeout(() => this.runSearch(), 300);
+        });
+
+        const filterRow = contentEl.createDiv({ cls: 'claude-history-filters' });
+        const fromInput = filterRow.createEl('input', { attr: { type: 'date', title: 'From' } });
+        const toInput = filterRow.createEl('input', { attr: { type: 'date', title: 'To' } });
+        fromInput.addEventListener('change', () => { this.filters.from = fromInput.value; this.renderList(); });
+        toInput.addEventListener('change', () => { this.filters.to = toInput.value; this.renderList(); });
+
+        const modelSelect = filterRow.createEl('select', { cls: 'dropdown' });
+        modelSelect.createEl('option', { text: 'All models', value: '' });
+        const models = [...new Set(this.entries.flatMap(entry => entry.models || []))].sort();
+        for (const model of models) {
+            modelSelect.createEl('option', { text: model, value: model });
+        }
+        modelSelect.addEventListener('change', () => { this.filters.model = modelSelect.value; this.renderList(); });
+
+        const fileInput = filterRow.createEl('input', { attr: { type: 'text', placeholder: 'File touched...' } });
+        fileInput.addEventListener('input', () => { this.filters.file = fileInput.value; this.renderList(); });
+
+        // Bulk actions
+        const actionRow = contentEl.createDiv({ cls: 'claude-history-actions' });
+        const selectAllBtn = actionRow.createEl('button', { text: 'Select All' });
+        const deselectAllBtn = actionRow.createEl('button', { text: 'Deselect All' });
+        this.deleteSelectedBtn = actionRow.createEl('button', { text: 'Delete selected', cls: 'mod-warning' });
+
+        selectAllBtn.addEventListener('click', () => {
+            this.getVisibleEntries().forEach(entry => this.selected.add(entry.id));
+            this.renderList();
+        });
+        deselectAllBtn.addEventListener('click', () => {
+            this.selected.clear();
+            this.renderList();
+        });
+        this.deleteSelectedBtn.addEventListener('click', () => this.deleteSelected());
+
+        this.listEl = contentEl.createDiv({ cls: 'claude-conversation-list' });
+        this.renderList();
+        searchInput.focus();
+    }
+
+    onClose() {
+        if (this.searchTimer) window.clearTimeout(this.searchTimer);
+        this.contentEl.empty();
+    }
+
+    async runSearch() {
+        const query = this.filters.query.trim();
+        this.hits = query ? await this.plugin.conversationStore.search(query) : null;
+        this.renderList();
+    }
+
+    getVisibleEntries(): ConversationIndexEntry[] {
+        const from = this.filters.from ? new Date(`${this.filters.from}T00:00:00`).getTime() : -Infinity;
+        const to = this.filters.to ? new Date(`${this.filters.to}T23:59:59.999`).getTime() : Infinity;
+        const file = this.filters.file.trim().toLowerCase();
+
+        return this.entries
+            .filter(entry => entry.timestamp >= from && entry.timestamp <= to)
+            .filter(entry => !this.filters.model || (entry.models || []).includes(this.filters.model))
+            .filter(entry => !file || (entry.files || []).some(path => path.toLowerCase().includes(file)))
+            .filter(entry => !this.hits || this.hits.has(entry.id))
+            // Pinned first, then most recent
+            .sort((a, b) => Number(!!b.pinned) - Number(!!a.pinned) || b.timestamp - a.timestamp);
+    }
+
+    renderList() {
+        this.listEl.empty();
+
+        const visible = this.getVisibleEntries();
+        this.deleteSelectedBtn.setText(this.selected.size > 0 ? `Delete selected (${this.selected.size})` : 'Delete selected');
+        this.deleteSelectedBtn.disabled = this.selected.size === 0;
+
+        if (visible.length === 0) {
+            this.listEl.createDiv({ text: 'No conversations match', cls: 'claude-search-no-results' });
+            return;
+        }
+
+        for (const entry of visible) {
+            const itemEl = this.listEl.createDiv({ cls: 'claude-conversation-item' });
+            if (entry.pinned) itemEl.addClass('is-pinned');
+
+            const headerEl = itemEl.createDiv({ cls: 'claude-conversation-header' });
+            const checkbox = headerEl.createEl('input', { type: 'checkbox' });
+            checkbox.checked = this.selected.has(entry.id);
+            checkbox.addEventListener('change', () => {
+                if (checkbox.checked) {
+                    this.selected.add(entry.id);
+                } else {
+                    this.selected.delete(entry.id);
+                }
+                this.deleteSelectedBtn.setText(this.selected.size > 0 ? `Delete selected (${this.selected.size})` : 'Delete selected');
+                this.deleteSelectedBtn.disabled = this.selected.size === 0;
+            });
+            const nameEl = headerEl.createEl('strong', { text: `${entry.pinned ? '📌 ' : ''}${entry.name}` });
+
+            const details = [
+                new Date(entry.timestamp).toLocaleString(),
+                `${entry.messageCount} messages`,
+                ...(entry.models && entry.models.length > 0 ? [entry.models.join(', ')] : []),
+                ...(entry.files && entry.files.length > 0 ? [`${entry.files.length} file(s)`] : [])
+            ];
+            itemEl.createDiv({ text: details.join(' · '), cls: 'claude-conversation-date' });
+
+            if (entry.preview && (entry.preview.user || entry.preview.assistant)) {
+                const previewEl = itemEl.createDiv({ cls: 'claude-conversation-preview' });
+                if (entry.preview.user) previewEl.createDiv({ text: `You: ${entry.preview.user}` });
+                if (entry.preview.assistant) previewEl.createDiv({ text: `Claude: ${entry.preview.assistant}` });
+            }
+
+            // Matching messages; clicking one opens the conversation there
+            const hits = this.hits ? this.hits.get(entry.id) || [] : [];
+            for (const hit of hits) {
+                const hitEl = itemEl.createDiv({ text: hit.snippet, cls: 'claude-conversation-hit' });
+                hitEl.addEventListener('click', () => this.openEntry(entry, hit.messageIndex));
+            }
+
+            const buttonContainer = itemEl.createDiv({ cls: 'claude-conversation-buttons' });
+            const loadBtn = buttonContainer.createEl('button', { text: 'Load', cls: 'mod-cta' });
+            const pinBtn = buttonContainer.createEl('button', { text: entry.pinned ? 'Unpin' : 'Pin' });
+            const renameBtn = buttonContainer.createEl('button', { text: 'Rename' });
+            const deleteBtn = buttonContainer.createEl('button', { text: 'Delete', cls: 'mod-warning' });
+
+            loadBtn.addEventListener('click', () => this.openEntry(entry));
+
+            pinBtn.addEventListener('click', async () => {
+                await this.plugin.conversationStore.update(entry.id, { pinned: !entry.pinned });
+                this.renderList();
+            });
+
+            renameBtn.addEventListener('click', () => {
+                nameEl.empty();
+                const input = nameEl.createEl('input', { type: 'text', value: entry.name });
+                input.focus();
+                input.select();
+                let done = false;
+                const commit = async (save: boolean) => {
+                    if (done) return;
+                    done = true;
+                    const name = input.value.trim();
+                    if (save && name && name !== entry.name) {
+                        await this.plugin.conversationStore.update(entry.id, { name });
+                    }
+                    this.renderList();
+                };
+                input.addEventListener('keydown', (e) => {
+                    if (e.key === 'Enter') {
+                        e.preventDefault();
+                        commit(true);
+                    } else if (e.key === 'Escape') {
+                        e.preventDefault();
+                        e.stopPropagation();
+                        commit(false);
+                    }
+                });
+                input.addEventListener('blur', () => commit(true));
+            });
 
-        // Add to chat input
-        this.chatView.inputArea.value = message;
-        this.chatView.inputArea.focus();
+            deleteBtn.addEventListener('click', () => {
+                this.confirmDelete(`Delete "${entry.name}"?`, async () => {
+                    await this.plugin.deleteConversation(entry.id);
+                    this.selected.delete(entry.id);
+                    this.entries = await this.plugin.conversationStore.getIndex();
+                    new Notice('Conversation deleted');
+                    this.renderList();
+                });
+            });
+        }
+    }
 
-        // Close modal
-        this.close();
+    async openEntry(entry: ConversationIndexEntry, messageIndex?: number) {
+        if (await this.chatView.openConversation(entry.id, messageIndex)) {
+            new Notice(`Loaded: ${entry.name}`);
+            this.close();
+        }
+    }
 
-        new Notice(`Added ${this.selectedResults.size} search results to chat`);
+    // Deleting removes the conversation files for good, so ask first
+    confirmDelete(title: string, onConfirm: () => Promise<void>) {
+        const modal = new Modal(this.app);
+        modal.contentEl.createEl('h3', { text: title });
+        modal.contentEl.createEl('p', { text: 'The conversation files are deleted permanently. This cannot be undone.' });
+        const buttonContainer = modal.contentEl.createDiv({ cls: 'modal-button-container' });
+        const cancelBtn = buttonContainer.createEl('button', { text: 'Cancel' });
+        const confirmBtn = buttonContainer.createEl('button', { text: 'Delete', cls: 'mod-warning' });
+        cancelBtn.addEventListener('click', () => modal.close());
+        confirmBtn.addEventListener('click', async () => {
+            modal.close();
+            await onConfirm();
+        });
+        modal.open();
     }
 
-    onClose() {
-        const { contentEl } = this;
-        contentEl.empty();
+    deleteSelected() {
+        const ids = [...this.selected];
+        if (ids.length === 0) return;
+        this.confirmDelete(`Delete ${ids.length} conversation(s)?`, () => this.deleteConversations(ids));
+    }
+
+    async deleteConversations(ids: string[]) {
+        for (const id of ids) {
+            await this.plugin.deleteConversation(id);
+        }
+        this.selected.clear();
+        this.entries = await this.plugin.conversationStore.getIndex();
+        new Notice(`Deleted ${ids.length} conversation(s)`);
+
+        if (this.entries.length === 0) {
+            this.close();
+            return;
+        }
+        this.renderList();
     }
 }
 
-class ClaudeQuickModal extends Modal {
+// Token usage and spend from the API-reported usage log, grouped by day, model and conversation
+class UsageDashboardModal extends Modal {
     plugin: ClaudePlugin;
-    prompt: string;
-    fileContent: string;
 
-    constructor(app: App, plugin: ClaudePlugin, prompt: string, fileContent: string) {
+    constructor(app: App, plugin: ClaudePlugin) {
         super(app);
         this.plugin = plugin;
-        this.prompt = prompt;
-        this.fileContent = fileContent;
     }
 
-    onOpen() {
+    async onOpen() {
         const { contentEl } = this;
         contentEl.empty();
+        contentEl.addClass('claude-usage-modal');
 
-        contentEl.createEl('h2', { text: 'Ask Claude' });
-
-        const inputArea = contentEl.createEl('textarea', {
-            cls: 'claude-quick-input',
-            attr: { placeholder: 'What do you want to know about this file?' }
-        });
-
-        const buttonDiv = contentEl.createDiv({ cls: 'modal-button-container' });
-        const submitButton = buttonDiv.createEl('button', { text: 'Ask', cls: 'mod-cta' });
-
-        submitButton.addEventListener('click', async () => {
-            const question = inputArea.value.trim();
-            if (!question) return;
+        contentEl.createEl('h3', { text: 'Token Usage & Costs' });
 
-            submitButton.disabled = true;
-            submitButton.setText('Asking...');
+        const records = await this.plugin.conversationStore.getUsage();
+        if (records.length === 0) {
+            contentEl.createEl('p', { text: 'No usage recorded yet. Usage is recorded from each API response.', cls: 'claude-approval-description' });
+            return;
+        }
 
-            try {
-                const response = await this.plugin.callClaude([{
-                    role: 'user',
-                    content: `File content:\n\n${this.fileContent}\n\nQuestion: ${question}`
-                }]);
+        const costOf = (record: UsageRecord) => this.plugin.calculateCost(record);
+        const totals = summarizeUsage(records, costOf);
+        const since = new Date(records[0].timestamp).toLocaleDateString();
+
+        const summary = contentEl.createDiv({ cls: 'claude-usage-summary' });
+        summary.createDiv({ text: `Since ${since}: ${totals.requests.toLocaleString()} requests` });
+        summary.createDiv({ text: `Input: ${formatTokenCount(totals.totalInput)} (cache hit ${Math.round(totals.cacheHitRate * 100)}%) · Output: ${formatTokenCount(totals.outputTokens)}${totals.thinkingTokens > 0 ? ` (~${formatTokenCount(totals.thinkingTokens)} thinking)` : ''}` });
+        summary.createDiv({ text: `Total cost: ${this.formatTotalCost(records)}` });
+
+        // By day, newest first
+        const byDay = this.groupBy(records, record => moment(record.timestamp).format('YYYY-MM-DD'));
+        this.renderTable(contentEl, 'By day', 'Day', [...byDay.entries()].sort((a, b) => b[0].localeCompare(a[0])).slice(0, 30));
+
+        // By model, most expensive first
+        const byModel = this.groupBy(records, record => record.model);
+        this.renderTable(contentEl, 'By model', 'Model', this.sortByCost(byModel));
+
+        // By conversation, most expensive first
+        const names = new Map((await this.plugin.conversationStore.getIndex()).map(conv => [conv.id, conv.name]));
+        // Requests made outside a conversation are grouped by what they were for
+        const unlinkedLabel = (record: UsageRecord) => record.purpose === 'quick' ? '(quick ask)'
+            : record.purpose === 'edit' ? '(selection edits)'
+            : '(no conversation)';
+        const byConversation = this.groupBy(records, record => record.conversationId || unlinkedLabel(record));
+        const conversationRows = this.sortByCost(byConversation)
+            .slice(0, 25)
+            .map(([id, group]) => [group[0].conversationId ? names.get(id) || '(deleted conversation)' : id, group] as [string, UsageRecord[]]);
+        this.renderTable(contentEl, 'By conversation', 'Conversation', conversationRows);
+
+        contentEl.createEl('p', {
+            text: 'Costs use the per-model prices in settings. Models without a price show "—".',
+            cls: 'setting-item-description'
+        });
+    }
 
-                contentEl.empty();
-                contentEl.createEl('h2', { text: 'Claude\'s Response' });
-                
-                const responseDiv = contentEl.createDiv({ cls: 'claude-response' });
-                responseDiv.setText(response);
+    groupBy(records: UsageRecord[], keyOf: (record: UsageRecord) => string): Map<string, UsageRecord[]> {
+        const groups = new Map<string, UsageRecord[]>();
+        for (const record of records) {
+            const key = keyOf(record);
+            if (!groups.has(key)) groups.set(key, []);
+            groups.get(key)!.push(record);
+        }
+        return groups;
+    }
 
-                const closeButton = contentEl.createEl('button', { text: 'Close' });
-                closeButton.addEventListener('click', () => this.close());
+    sortByCost(groups: Map<string, UsageRecord[]>): Array<[string, UsageRecord[]]> {
+        const costOf = (group: UsageRecord[]) => group.reduce((sum, record) => sum + (this.plugin.calculateCost(record) || 0), 0);
+        return [...groups.entries()].sort((a, b) => costOf(b[1]) - costOf(a[1]));
+    }
 
-            } catch (error) {
-                new Notice('Error: ' + error.message);
-                submitButton.disabled = false;
-                submitButton.setText('Ask');
+    // Priced records only; unpriced models are called out rather than counted as free
+    formatTotalCost(records: UsageRecord[]): string {
+        let cost = 0;
+        let unpriced = 0;
+        for (const record of records) {
+            const recordCost = this.plugin.calculateCost(record);
+            if (recordCost === null) {
+                unpriced++;
+            } else {
+                cost += recordCost;
             }
-        });
+        }
+        if (unpriced === records.length) return '—';
+        return unpriced > 0 ? `${formatCost(cost)} (+${unpriced} unpriced request(s))` : formatCost(cost);
+    }
+
+    renderTable(containerEl: HTMLElement, title: string, keyLabel: string, rows: Array<[string, UsageRecord[]]>) {
+        containerEl.createEl('h4', { text: title });
+        const table = containerEl.createEl('table', { cls: 'claude-usage-table' });
+
+        const header = table.createEl('tr');
+        [keyLabel, 'Requests', 'Input', 'Output', 'Cache hit', 'Cost'].forEach(label => header.createEl('th', { text: label }));
+
+        for (const [key, group] of rows) {
+            const totals = summarizeUsage(group, record => this.plugin.calculateCost(record));
+            const row = table.createEl('tr');
+            row.createEl('td', { text: key });
+            row.createEl('td', { text: totals.requests.toLocaleString() });
+            row.createEl('td', { text: formatTokenCount(totals.totalInput) });
+            row.createEl('td', { text: formatTokenCount(totals.outputTokens) });
+            row.createEl('td', { text: `${Math.round(totals.cacheHitRate * 100)}%` });
+            row.createEl('td', { text: this.formatTotalCost(group) });
+        }
     }
 
     onClose() {
-        const { contentEl } = this;
-        contentEl.empty();
+        this.contentEl.empty();
     }
 }
 
@@ -2951,6 +8456,108 @@ class ClaudeSettingTab extends PluginSettingTab {
         this.plugin = plugin;
     }
 
+    // Settings for one assistant profile. Changes show in the chat status bar right away.
+    displayProfile(containerEl: HTMLElement, profile: AssistantProfile) {
+        const profileEl = containerEl.createDiv({ cls: 'claude-profile-settings' });
+        const saveProfile = async () => {
+            await this.plugin.saveSettings();
+            this.plugin.getChatViews().forEach(view => view.updateProfileIndicator());
+        };
+
+        new Setting(profileEl)
+            .setName('Name')
+            .setHeading()
+            .addText(text => text
+                .setValue(profile.name)
+                .onChange(async (value) => {
+                    profile.name = value.trim() || 'Untitled profile';
+                    await saveProfile();
+                }))
+            .addExtraButton(button => button
+                .setIcon('trash')
+                .setTooltip('Delete profile')
+                .onClick(async () => {
+                    // Conversations that used it fall back to the Default profile
+                    this.plugin.settings.profiles = this.plugin.settings.profiles.filter(p => p !== profile);
+                    if (this.plugin.settings.defaultProfileId === profile.id) {
+                        this.plugin.settings.defaultProfileId = '';
+                    }
+                    await saveProfile();
+                    this.display();
+                }));
+
+        new Setting(profileEl)
+            .setName('Model')
+            .addDropdown(dropdown => {
+                for (const model of MODEL_OPTIONS) {
+                    dropdown.addOption(model.id, model.name);
+                }
+                dropdown
+                    .setValue(profile.model)
+                    .onChange(async (value) => {
+                        profile.model = value;
+                        await saveProfile();
+                    });
+            });
+
+        new Setting(profileEl)
+            .setName('Max Output Tokens')
+            .addText(text => text
+                .setPlaceholder('4096')
+                .setValue(String(profile.maxTokens))
+                .onChange(async (value) => {
+                    const num = parseInt(value);
+                    if (!isNaN(num) && num >= 1024 && num <= 10000) {
+                        profile.maxTokens = num;
+                        await saveProfile();
+                    }
+                }));
+
+        new Setting(profileEl)
+            .setName('Temperature')
+            .setDesc('0 to 1; lower is more focused. Leave empty for the API default. Not used while extended thinking is on.')
+            .addText(text => text
+                .setPlaceholder('Default')
+                .setValue(profile.temperature !== undefined ? String(profile.temperature) : '')
+                .onChange(async (value) => {
+                    const num = parseFloat(value);
+                    if (!value.trim()) {
+                        delete profile.temperature;
+                    } else if (!isNaN(num) && num >= 0 && num <= 1) {
+                        profile.temperature = num;
+                    } else {
+                        return;
+                    }
+                    await saveProfile();
+                }));
+
+        new Setting(profileEl)
+            .setName('Tools')
+            .setDesc(`Tool names separated by commas. Leave empty for every tool that is not denied. Available: ${this.plugin.getTools().map(tool => tool.name).join(', ')}`)
+            .addTextArea(text => text
+                .setPlaceholder('All tools')
+                .setValue(profile.tools ? profile.tools.join(', ') : '')
+                .onChange(async (value) => {
+                    const tools = value.split(',').map(name => name.trim()).filter(name => name);
+                    if (tools.length > 0) {
+                        profile.tools = tools;
+                    } else {
+                        delete profile.tools;
+                    }
+                    await saveProfile();
+                }));
+
+        new Setting(profileEl)
+            .setName('System Prompt')
+            .setDesc('Instructions added to the built-in prompt, in place of the Custom System Prompt.')
+            .addTextArea(text => text
+                .setValue(profile.systemPrompt)
+                .onChange(async (value) => {
+                    profile.systemPrompt = value;
+                    await saveProfile();
+                }));
+    }
+
     display(): void {
         const { containerEl } = this;
         containerEl.empty();
@@ -2993,13 +8600,8 @@ class ClaudeSettingTab extends PluginSettingTab {
                     this.plugin.settings.model = value;
                     await this.plugin.saveSettings();
 
-                    // Update model indicator in open chat views
-                    this.app.workspace.getLeavesOfType('claude-chat-view').forEach(leaf => {
-                        const view = leaf.view as ClaudeChatView;
-                        if (view && view.updateModelIndicator) {
-                            view.updateModelIndicator();
-                        }
-                    });
+                    // Update the profile switcher in open chat views
+                    this.plugin.getChatViews().forEach(view => view.updateProfileIndicator());
                 }));
 
         new Setting(containerEl)
@@ -3016,6 +8618,30 @@ class ClaudeSettingTab extends PluginSettingTab {
                     }
                 }));
 
+        new Setting(containerEl)
+            .setName('Extended Thinking by Default')
+            .setDesc('Start new conversations with extended thinking on. Each conversation can switch it with the lightbulb button below the input. Needs Claude 3.7 Sonnet or a Claude 4 model.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.thinkingByDefault)
+                .onChange(async (value) => {
+                    this.plugin.settings.thinkingByDefault = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Thinking Budget Tokens')
+            .setDesc('Tokens Claude may spend reasoning before it answers (minimum 1024). They are billed as output and added on top of the profile\'s Max Output Tokens; if both together exceed the model\'s output limit, the budget is lowered to fit.')
+            .addText(text => text
+                .setPlaceholder('8000')
+                .setValue(String(this.plugin.settings.thinkingBudgetTokens))
+                .onChange(async (value) => {
+                    const num = parseInt(value);
+                    if (!isNaN(num) && num >= 1024 && num <= 32000) {
+                        this.plugin.settings.thinkingBudgetTokens = num;
+                        await this.plugin.saveSettings();
+                    }
+                }));
+
         new Setting(containerEl)
             .setName('Enable Prompt Caching')
             .setDesc('Cache system prompts and tools to reduce token costs by up to 90%. Requires a paid Anthropic API plan with prompt caching enabled.')
@@ -3026,6 +8652,81 @@ class ClaudeSettingTab extends PluginSettingTab {
                     await this.plugin.saveSettings();
                 }));
 
+        new Setting(containerEl)
+            .setName('Stream Responses')
+            .setDesc('Show Claude\'s response as it is being written. Falls back to waiting for the full response if streaming is unavailable.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.enableStreaming)
+                .onChange(async (value) => {
+                    this.plugin.settings.enableStreaming = value;
+                    this.plugin.streamingUnavailable = false;
+                    await this.plugin.saveSettings();
+                }));
+
+        // Takes effect when applied, so typing a path doesn't switch folders letter by letter
+        let conversationFolder = this.plugin.settings.conversationFolder;
+        new Setting(containerEl)
+            .setName('Conversation Folder')
+            .setDesc('Folder where conversations and the usage log are saved, relative to the vault root. Leave empty to keep them in the plugin folder. Apply to switch; you can move the existing conversations along.')
+            .addText(text => text
+                .setPlaceholder(`${this.plugin.manifest.dir}/conversations`)
+                .setValue(conversationFolder)
+                .onChange(value => {
+                    conversationFolder = value;
+                }))
+            .addButton(button => button
+                .setButtonText('Apply')
+                .onClick(async () => {
+                    const store = this.plugin.conversationStore;
+                    const target = new ConversationStore(this.app, this.plugin.getConversationFolder(conversationFolder));
+                    if (target.folder === store.folder) {
+                        await this.plugin.setConversationFolder(conversationFolder, false);
+                        return;
+                    }
+
+                    const count = await store.countConversations();
+                    const usageExists = await this.app.vault.adapter.exists(store.usagePath);
+                    if (count === 0 && !usageExists) {
+                        await this.plugin.setConversationFolder(conversationFolder, false);
+                        new Notice(`Conversations are now saved in ${target.folder}`);
+                        return;
+                    }
+
+                    new ConversationFolderModal(this.app, store.folder, target.folder, count, async (choice) => {
+                        if (choice === 'cancel') return;
+                        try {
+                            await this.plugin.setConversationFolder(conversationFolder, choice === 'move');
+                            if (choice === 'keep') new Notice(`Conversations are now saved in ${target.folder}`);
+                        } catch (error) {
+                            console.error('Error changing conversation folder:', error);
+                            new Notice(`Could not change the conversation folder: ${error.message}`);
+                        }
+                    }).open();
+                }));
+
+        new Setting(containerEl)
+            .setName('Prompt Library Folder')
+            .setDesc('Vault folder of reusable prompts, one markdown file each. Type / at the start of the chat input to run one.')
+            .addText(text => text
+                .setPlaceholder('Claude Prompts')
+                .setValue(this.plugin.settings.promptFolder)
+                .onChange(async (value) => {
+                    this.plugin.settings.promptFolder = value.trim();
+                    this.plugin.promptLibrary = new PromptLibrary(this.app, this.plugin.settings.promptFolder);
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Instruction File Name')
+            .setDesc('Notes with this name in the vault root and in folders add instructions for the notes below them. The ones above the active note and the attached notes are used on each message. Leave empty to turn this off.')
+            .addText(text => text
+                .setPlaceholder('_claude.md')
+                .setValue(this.plugin.settings.instructionFileName)
+                .onChange(async (value) => {
+                    this.plugin.settings.instructionFileName = value.trim();
+                    await this.plugin.saveSettings();
+                }));
+
         new Setting(containerEl)
             .setName('Custom System Prompt')
             .setDesc('Add your own custom instructions to the system prompt. These will be appended to the default prompt and can include specific guidelines, preferences, or behaviors you want Claude to follow.')
@@ -3037,6 +8738,47 @@ class ClaudeSettingTab extends PluginSettingTab {
                     await this.plugin.saveSettings();
                 }));
 
+        // Assistant Profiles Section
+        containerEl.createEl('h3', { text: 'Assistant Profiles' });
+        containerEl.createEl('p', {
+            text: 'A profile bundles a system prompt, model, max output tokens, tools and temperature. Pick one per conversation from the chat status bar. The Default profile uses the Model, Max Output Tokens and Custom System Prompt settings above, with every tool.',
+            cls: 'setting-item-description'
+        });
+
+        new Setting(containerEl)
+            .setName('Profile for New Conversations')
+            .addDropdown(dropdown => {
+                dropdown.addOption('', 'Default');
+                for (const profile of this.plugin.settings.profiles) {
+                    dropdown.addOption(profile.id, profile.name);
+                }
+                dropdown
+                    .setValue(this.plugin.getProfile(this.plugin.settings.defaultProfileId).id)
+                    .onChange(async (value) => {
+                        this.plugin.settings.defaultProfileId = value;
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        for (const profile of this.plugin.settings.profiles) {
+            this.displayProfile(containerEl, profile);
+        }
+
+        new Setting(containerEl)
+            .addButton(button => button
+                .setButtonText('Add profile')
+                .onClick(async () => {
+                    this.plugin.settings.profiles.push({
+                        id: `profile_${Date.now()}`,
+                        name: 'New profile',
+                        systemPrompt: '',
+                        model: this.plugin.settings.model,
+                        maxTokens: this.plugin.settings.maxTokens
+                    });
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+
         // Token Management Settings Section
         containerEl.createEl('h3', { text: 'Token Management' });
         containerEl.createEl('p', {
@@ -3078,5 +8820,222 @@ class ClaudeSettingTab extends PluginSettingTab {
                     this.plugin.settings.autoSummarizeThreshold = value;
                     await this.plugin.saveSettings();
                 }));
+
+        new Setting(containerEl)
+            .setName('Summary Model')
+            .setDesc('Model that writes the conversation summary: decisions, files touched and open tasks. New messages are folded into the existing summary each time.')
+            .addDropdown(dropdown => dropdown
+                .addOption('claude-haiku-4-5-20251001', 'Claude Haiku 4.5 (recommended)')
+                .addOption('claude-3-5-haiku-20241022', 'Claude Haiku 3.5')
+                .addOption('claude-sonnet-4-5-20250929', 'Claude Sonnet 4.5')
+                .setValue(this.plugin.settings.summaryModel)
+                .onChange(async (value) => {
+                    this.plugin.settings.summaryModel = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        // Retry Settings Section
+        containerEl.createEl('h3', { text: 'Retries' });
+        containerEl.createEl('p', {
+            text: 'Failed requests are retried with exponential backoff and random jitter. When the API sends a retry-after header, that wait is used instead.',
+            cls: 'setting-item-description'
+        });
+
+        new Setting(containerEl)
+            .setName('Retry Status Codes')
+            .setDesc('HTTP status codes to retry, separated by commas (default: 429, 500, 502, 503, 504, 529).')
+            .addText(text => text
+                .setValue(this.plugin.settings.retryPolicy.retryStatuses.join(', '))
+                .onChange(async (value) => {
+                    const statuses = value.split(',').map(part => parseInt(part.trim())).filter(code => code >= 400 && code < 600);
+                    this.plugin.settings.retryPolicy.retryStatuses = statuses;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Retry Connection Errors')
+            .setDesc('Retry when the API cannot be reached at all, e.g. after a dropped connection.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.retryPolicy.retryNetworkErrors)
+                .onChange(async (value) => {
+                    this.plugin.settings.retryPolicy.retryNetworkErrors = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Max Attempts')
+            .setDesc('Total attempts per request, including the first (default: 4). Set to 1 to disable retries.')
+            .addSlider(slider => slider
+                .setLimits(1, 10, 1)
+                .setValue(this.plugin.settings.retryPolicy.maxAttempts)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    this.plugin.settings.retryPolicy.maxAttempts = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Retry Deadline')
+            .setDesc('Stop retrying when the next attempt would start more than this many seconds after the first (default: 120).')
+            .addText(text => text
+                .setValue(String(this.plugin.settings.retryPolicy.deadlineMs / 1000))
+                .onChange(async (value) => {
+                    const seconds = parseInt(value);
+                    if (!isNaN(seconds) && seconds > 0) {
+                        this.plugin.settings.retryPolicy.deadlineMs = seconds * 1000;
+                        await this.plugin.saveSettings();
+                    }
+                }));
+
+        // Usage & Costs Section
+        containerEl.createEl('h3', { text: 'Usage & Costs' });
+        containerEl.createEl('p', {
+            text: 'Token counts come from the usage the API reports for each request. Prices are in USD per million tokens, as "input, output, cache write, cache read". A price applies to every model whose ID starts with its prefix.',
+            cls: 'setting-item-description'
+        });
+
+        new Setting(containerEl)
+            .setName('Cost View')
+            .setDesc('Every request is recorded in usage.jsonl in the conversation folder.')
+            .addButton(button => button
+                .setButtonText('Open')
+                .onClick(() => new UsageDashboardModal(this.app, this.plugin).open()))
+            .addButton(button => button
+                .setButtonText('Clear history')
+                .setWarning()
+                .onClick(async () => {
+                    await this.plugin.conversationStore.clearUsage();
+                    new Notice('Usage history cleared');
+                }));
+
+        // "input, output, cache write, cache read", or null if that isn't four non-negative numbers
+        const parsePrice = (value: string): ModelPrice | null => {
+            const parts = value.split(',').map(part => parseFloat(part.trim()));
+            if (parts.length !== 4 || parts.some(part => isNaN(part) || part < 0)) return null;
+            return { input: parts[0], output: parts[1], cacheWrite: parts[2], cacheRead: parts[3] };
+        };
+
+        for (const prefix of Object.keys(this.plugin.settings.modelPrices).sort()) {
+            const setting = new Setting(containerEl)
+                .setName(prefix)
+                .addText(text => {
+                    const price = this.plugin.settings.modelPrices[prefix];
+                    text
+                        .setValue(`${price.input}, ${price.output}, ${price.cacheWrite}, ${price.cacheRead}`)
+                        .onChange(async (value) => {
+                            const parsed = parsePrice(value);
+                            if (parsed) {
+                                this.plugin.settings.modelPrices[prefix] = parsed;
+                                await this.plugin.saveSettings();
+                            }
+                        });
+                });
+
+            // Built-in prices come back on the next load, so only added ones can be removed
+            if (!(prefix in DEFAULT_SETTINGS.modelPrices)) {
+                setting.addExtraButton(button => button
+                    .setIcon('trash')
+                    .setTooltip('Remove price')
+                    .onClick(async () => {
+                        delete this.plugin.settings.modelPrices[prefix];
+                        await this.plugin.saveSettings();
+                        this.display();
+                    }));
+            }
+        }
+
+        // Price another model, e.g. a new release or a dated model ID
+        let newPrefix = '';
+        let newPrice = '';
+        new Setting(containerEl)
+            .setName('Add model price')
+            .setDesc('Model ID or prefix, and its prices in the same order as above.')
+            .addText(text => text
+                .setPlaceholder('claude-model-prefix')
+                .onChange(value => {
+                    newPrefix = value.trim();
+                }))
+            .addText(text => text
+                .setPlaceholder('3, 15, 3.75, 0.3')
+                .onChange(value => {
+                    newPrice = value;
+                }))
+            .addButton(button => button
+                .setButtonText('Add')
+                .onClick(async () => {
+                    const parsed = parsePrice(newPrice);
+                    if (!newPrefix || !parsed) {
+                        new Notice('Enter a model prefix and four prices separated by commas');
+                        return;
+                    }
+                    this.plugin.settings.modelPrices[newPrefix] = parsed;
+                    await this.plugin.saveSettings();
+                    this.display();
+                }));
+
+        // Retrieval Settings Section
+        containerEl.createEl('h3', { text: 'Context Retrieval' });
+        containerEl.createEl('p', {
+            text: 'A local search index of your notes, split by heading. It never leaves this device and lets Claude pull in only the relevant sections.',
+            cls: 'setting-item-description'
+        });
+
+        new Setting(containerEl)
+            .setName('Enable Retrieval Index')
+            .setDesc('Index note sections for the retrieve_context tool. The index is built when Obsidian starts and updated as notes change.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.enableRetrievalIndex)
+                .onChange(async (value) => {
+                    this.plugin.settings.enableRetrievalIndex = value;
+                    await this.plugin.saveSettings();
+                    if (value) {
+                        this.plugin.retrievalIndex.build();
+                    } else {
+                        this.plugin.retrievalIndex.clear();
+                    }
+                }));
+
+        new Setting(containerEl)
+            .setName('Auto-Retrieve Context')
+            .setDesc('Instead of pasting whole wikilinked or attached notes into your message, send only the most relevant sections. With nothing linked, relevant sections from the whole vault are added.')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.autoRetrieve)
+                .onChange(async (value) => {
+                    this.plugin.settings.autoRetrieve = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Excerpts per Message')
+            .setDesc('How many sections auto-retrieve adds to each message (default: 5).')
+            .addSlider(slider => slider
+                .setLimits(1, 15, 1)
+                .setValue(this.plugin.settings.retrievalTopK)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    this.plugin.settings.retrievalTopK = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        // Tool Permissions Section
+        containerEl.createEl('h3', { text: 'Tool Permissions' });
+        containerEl.createEl('p', {
+            text: 'Choose what happens when Claude calls each tool. "Ask" pauses and shows a preview (with a diff for file edits) so you can approve or reject the change.',
+            cls: 'setting-item-description'
+        });
+
+        for (const tool of this.plugin.getTools()) {
+            new Setting(containerEl)
+                .setName(tool.name)
+                .addDropdown(dropdown => dropdown
+                    .addOption('allow', 'Always allow')
+                    .addOption('ask', 'Ask')
+                    .addOption('deny', 'Deny')
+                    .setValue(this.plugin.getToolPermission(tool.name))
+                    .onChange(async (value) => {
+                        this.plugin.settings.toolPermissions[tool.name] = value as ToolPermission;
+                        await this.plugin.saveSettings();
+                    }));
+        }
     }
 }